@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+
+/**
+ * wibeboard sidecar — runs `sh` / `py` jobs for the builder over a localhost
+ * WebSocket.
+ *
+ * Protocol (JSON text frames):
+ *   client → sidecar
+ *     { type: "run", runId, language, code, context, timeout? }
+ *     { type: "signal", runId, command: "terminate" | "pause" | "resume" }
+ *   sidecar → client
+ *     { type: "hello", version, languages }
+ *     { type: "log", runId, stream: "stdout" | "stderr", line }
+ *     { type: "exit", runId, code, signal, status: "done" | "error", reason?, output? }
+ *     { type: "error", runId?, message }
+ *
+ * On SIGINT / SIGTERM the sidecar terminates every running job, waits for
+ * them to exit (bounded) and removes their temp dirs before it exits; a
+ * second signal exits at once.
+ *
+ * Usage:
+ *   node packages/sidecar/bin/sidecar.mjs [--port 7788] [--host 127.0.0.1] [--allow-origin https://example.com]
+ */
+
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { createWsServer } from "../src/ws-server.mjs";
+import { detectLanguages, startJob, terminateJobs } from "../src/jobs.mjs";
+
+const pkg = JSON.parse(fs.readFileSync(new URL("../package.json", import.meta.url), "utf8"));
+
+const { values: argv } = parseArgs({
+    options: {
+        port: { type: "string", default: process.env.SIDECAR_PORT || "7788" },
+        host: { type: "string", default: "127.0.0.1" },
+        "allow-origin": { type: "string", multiple: true, default: [] },
+    },
+});
+
+const PORT = parseInt(argv.port, 10);
+const HOST = argv.host;
+const EXTRA_ORIGINS = new Set(argv["allow-origin"]);
+
+/** Only pages served from this machine (or explicitly allowed) may run jobs */
+function isOriginAllowed(origin) {
+    if (!origin) return true; // non-browser clients
+    if (EXTRA_ORIGINS.has(origin)) return true;
+    try {
+        const { hostname } = new URL(origin);
+        return hostname === "localhost" || hostname === "127.0.0.1" || hostname === "[::1]";
+    } catch {
+        return false;
+    }
+}
+
+const languages = detectLanguages();
+const server = createWsServer({ port: PORT, host: HOST, isOriginAllowed });
+
+/** Running jobs of every connection */
+const liveJobs = new Set();
+/** Set on SIGINT / SIGTERM — no new runs are accepted */
+let shuttingDown = false;
+
+server.on("listening", () => {
+    console.log(`[sidecar] listening on ws://${HOST}:${PORT}`);
+    console.log(`[sidecar] languages: ${Object.keys(languages).join(", ") || "(none)"}`);
+});
+
+server.on("error", (err) => {
+    console.error(`[sidecar] ${err.message}`);
+    process.exit(1);
+});
+
+server.on("connection", (conn) => {
+    /** Active jobs of this connection, by runId */
+    const jobs = new Map();
+    const reply = (msg) => conn.send(JSON.stringify(msg));
+
+    reply({ type: "hello", version: pkg.version, languages: Object.keys(languages) });
+
+    conn.on("message", async (text) => {
+        let msg;
+        try {
+            msg = JSON.parse(text);
+        } catch {
+            return reply({ type: "error", message: "Invalid JSON" });
+        }
+
+        if (msg.type === "run") {
+            const { runId } = msg;
+            if (!runId || jobs.has(runId)) {
+                return reply({ type: "error", runId, message: "Missing or duplicate runId" });
+            }
+            if (shuttingDown) {
+                return reply({ type: "error", runId, message: "Sidecar is shutting down" });
+            }
+            try {
+                jobs.set(runId, null); // reserve while spawning
+                const job = await startJob(msg, {
+                    languages,
+                    onLog: (stream, line) => reply({ type: "log", runId, stream, line }),
+                    onExit: (result) => {
+                        jobs.delete(runId);
+                        reply({ type: "exit", runId, ...result });
+                    },
+                });
+                if (jobs.has(runId)) jobs.set(runId, job);
+                liveJobs.add(job);
+                job.exited.then(() => liveJobs.delete(job));
+                console.log(`[sidecar] run ${runId} (${msg.language}) in ${job.cwd}`);
+            } catch (err) {
+                jobs.delete(runId);
+                reply({ type: "error", runId, message: err.message });
+            }
+            return;
+        }
+
+        if (msg.type === "signal") {
+            jobs.get(msg.runId)?.signal(msg.command);
+            return;
+        }
+
+        reply({ type: "error", message: `Unknown message type "${msg.type}"` });
+    });
+
+    // Builder tab closed → stop everything it started
+    conn.on("close", () => {
+        for (const job of jobs.values()) job?.signal("terminate");
+        jobs.clear();
+    });
+});
+
+for (const sig of ["SIGINT", "SIGTERM"]) {
+    process.on(sig, async () => {
+        // A second signal exits right away
+        if (shuttingDown) process.exit(1);
+        shuttingDown = true;
+        console.log(`[sidecar] shutting down — terminating ${liveJobs.size} job(s)`);
+        // Jobs still spawning when the signal came join liveJobs meanwhile
+        while (liveJobs.size) await terminateJobs([...liveJobs]);
+        process.exit(0);
+    });
+}
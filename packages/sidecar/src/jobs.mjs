@@ -0,0 +1,267 @@
+/**
+ * Job runner — executes `sh` / `py` job code in a per-run temp directory.
+ *
+ * Each run gets its own working directory (removed when the run ends) with:
+ *   - script.sh / script.py  — the node's code
+ *   - context.json           — the ExecutionContext data (node, neighbors, inputs, params)
+ *   - output.json            — written by the job: its output (see below)
+ *
+ * Shell scripts see NODE_ID, NODE_NAME, RUN_ID, CONTEXT_FILE and OUTPUT_FILE
+ * in their env. Python scripts run through a small bootstrap that exposes
+ * `ctx` as a global and calls `activate(ctx)` when the script defines it;
+ * what it returns is written to OUTPUT_FILE as JSON.
+ *
+ * stdout/stderr are streamed line by line; the exit code maps to done/error.
+ * The output of a job that is done is the content of OUTPUT_FILE — parsed
+ * as JSON, else the text itself (trimmed); none when the file was not written.
+ *
+ * Signals: `pause` / `resume` stop and continue the job's process group and
+ * its timeout clock, `terminate` kills it. `shutdown` drains — the job is
+ * left to finish, the same as a shutdown in the builder's executor.
+ *
+ * terminateJobs() is for the sidecar itself exiting: it terminates jobs,
+ * waits for them (bounded), and leaves no process group or workspace behind.
+ *
+ * Usage:
+ *   const job = await startJob({ runId, language: "py", code, context }, {
+ *       onLog: (stream, line) => ...,
+ *       onExit: ({ code, signal, status, output }) => ...,
+ *   });
+ *   job.signal("pause"); job.signal("resume"); job.signal("terminate");
+ *   await terminateJobs([job]);
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { spawn, spawnSync } from "node:child_process";
+
+/** Grace period between SIGTERM and SIGKILL on terminate */
+const KILL_GRACE_MS = 2000;
+
+/** How long terminateJobs() waits for jobs to exit before killing them outright */
+export const SHUTDOWN_GRACE_MS = KILL_GRACE_MS + 1000;
+
+const PY_BOOTSTRAP = `import json, os, runpy, types
+
+def _ns(value):
+    if isinstance(value, dict):
+        return types.SimpleNamespace(**{k: _ns(v) for k, v in value.items()})
+    if isinstance(value, list):
+        return [_ns(v) for v in value]
+    return value
+
+def _plain(value):
+    if isinstance(value, types.SimpleNamespace):
+        value = vars(value)
+    if isinstance(value, dict):
+        return {k: _plain(v) for k, v in value.items()}
+    if isinstance(value, (list, tuple)):
+        return [_plain(v) for v in value]
+    return value
+
+with open("context.json") as f:
+    ctx = _ns(json.load(f))
+
+_globals = runpy.run_path("script.py", init_globals={"ctx": ctx}, run_name="__main__")
+if callable(_globals.get("activate")):
+    _result = _globals["activate"](ctx)
+    if _result is not None and not os.path.exists(os.environ["OUTPUT_FILE"]):
+        with open(os.environ["OUTPUT_FILE"], "w") as f:
+            json.dump(_plain(_result), f, default=str)
+`;
+
+function findExecutable(candidates) {
+    for (const cmd of candidates) {
+        const res = spawnSync(cmd, ["--version"], { stdio: "ignore" });
+        if (res.status === 0) return cmd;
+    }
+    return null;
+}
+
+/** Interpreters available on this machine, keyed by job language */
+export function detectLanguages() {
+    const langs = {};
+    const sh = findExecutable(["bash", "sh"]);
+    if (sh) langs.sh = sh;
+    const py = findExecutable(["python3", "python"]);
+    if (py) langs.py = py;
+    return langs;
+}
+
+/** Split a stream into lines, calling `onLine` for each complete line */
+function lineSplitter(onLine) {
+    let rest = "";
+    return {
+        push(chunk) {
+            const parts = (rest + chunk.toString("utf8")).split(/\r?\n/);
+            rest = parts.pop() ?? "";
+            for (const line of parts) onLine(line);
+        },
+        flush() {
+            if (rest) onLine(rest);
+            rest = "";
+        },
+    };
+}
+
+/** What a job wrote to its output file — JSON, else the trimmed text; undefined when it wrote nothing */
+async function readOutput(file) {
+    const text = await fs.readFile(file, "utf8").catch(() => "");
+    if (!text.trim()) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text.trim();
+    }
+}
+
+/**
+ * Start a job. Resolves once the process is spawned; completion is reported
+ * through `onExit`.
+ */
+export async function startJob(
+    { runId, language, code, context = {}, timeout = 0 },
+    { languages, onLog, onExit },
+) {
+    const interpreter = languages[language];
+    if (!interpreter) throw new Error(`No interpreter for "${language}" on this machine`);
+
+    const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "wibeboard-run-"));
+    const outputFile = path.join(cwd, "output.json");
+    await fs.writeFile(path.join(cwd, "context.json"), JSON.stringify(context));
+
+    let args;
+    if (language === "py") {
+        await fs.writeFile(path.join(cwd, "script.py"), code);
+        await fs.writeFile(path.join(cwd, "__bootstrap__.py"), PY_BOOTSTRAP);
+        args = ["-u", "__bootstrap__.py"];
+    } else {
+        await fs.writeFile(path.join(cwd, "script.sh"), code);
+        args = ["script.sh"];
+    }
+
+    const node = context.node || {};
+    const child = spawn(interpreter, args, {
+        cwd,
+        // Own process group, so signals reach the script's children too
+        detached: true,
+        stdio: ["ignore", "pipe", "pipe"],
+        env: {
+            ...process.env,
+            NODE_ID: String(node.id ?? ""),
+            NODE_NAME: String(node.name ?? ""),
+            RUN_ID: String(runId),
+            CONTEXT_FILE: path.join(cwd, "context.json"),
+            OUTPUT_FILE: outputFile,
+            PYTHONDONTWRITEBYTECODE: "1",
+        },
+    });
+
+    const out = lineSplitter((line) => onLog("stdout", line));
+    const err = lineSplitter((line) => onLog("stderr", line));
+    child.stdout.on("data", (c) => out.push(c));
+    child.stderr.on("data", (c) => err.push(c));
+
+    let killTimer = null;
+    let timeoutTimer = null;
+    let reason = null;
+    /** Time left on the timeout clock (counted only while not paused) */
+    let remaining = timeout;
+    let clockStartedAt = 0;
+
+    const killGroup = (sig) => {
+        try {
+            process.kill(-child.pid, sig);
+        } catch {
+            /* already gone */
+        }
+    };
+
+    const terminate = (why) => {
+        if (reason) return;
+        reason = why;
+        killGroup("SIGCONT"); // a paused process can't handle SIGTERM
+        killGroup("SIGTERM");
+        killTimer = setTimeout(() => killGroup("SIGKILL"), KILL_GRACE_MS);
+    };
+
+    const startClock = () => {
+        if (timeout <= 0 || reason) return;
+        clockStartedAt = Date.now();
+        timeoutTimer = setTimeout(() => terminate(`Timed out after ${timeout}ms`), remaining);
+    };
+    const stopClock = () => {
+        if (timeout <= 0 || timeoutTimer === null) return;
+        clearTimeout(timeoutTimer);
+        timeoutTimer = null;
+        remaining = Math.max(0, remaining - (Date.now() - clockStartedAt));
+    };
+
+    startClock();
+
+    child.on("error", (e) => {
+        onLog("stderr", e.message);
+    });
+
+    let markExited;
+    const exited = new Promise((resolve) => { markExited = resolve; });
+
+    child.on("close", async (code, signal) => {
+        out.flush();
+        err.flush();
+        clearTimeout(killTimer);
+        clearTimeout(timeoutTimer);
+        const status = code === 0 && !reason ? "done" : "error";
+        const output = status === "done" ? await readOutput(outputFile) : undefined;
+        await fs.rm(cwd, { recursive: true, force: true }).catch(() => {});
+        onExit({ code, signal, status, reason, output });
+        markExited();
+    });
+
+    return {
+        cwd,
+        pid: child.pid,
+        /** Resolves once the job has exited and its workspace is removed */
+        exited,
+        /** Kill the process group outright — no grace period */
+        kill() {
+            killGroup("SIGCONT");
+            killGroup("SIGKILL");
+        },
+        signal(command) {
+            // The timeout clock stops while the job is paused
+            if (command === "pause") {
+                stopClock();
+                killGroup("SIGSTOP");
+            } else if (command === "resume") {
+                killGroup("SIGCONT");
+                if (timeoutTimer === null) startClock();
+            } else if (command === "terminate") {
+                terminate("Terminated");
+            }
+            // "shutdown" drains: a running job finishes on its own
+        },
+    };
+}
+
+/**
+ * Terminate jobs (as the `terminate` signal does) and wait for them to
+ * exit, at most `graceMs`. Jobs still running then are killed outright, and
+ * every workspace is removed — a job that exits removes its own.
+ */
+export async function terminateJobs(jobs, graceMs = SHUTDOWN_GRACE_MS) {
+    const exited = new Set();
+    for (const job of jobs) {
+        job.exited.then(() => exited.add(job));
+        job.signal("terminate");
+    }
+    let timer;
+    const expired = new Promise((resolve) => { timer = setTimeout(resolve, graceMs); });
+    await Promise.race([Promise.all(jobs.map((job) => job.exited)), expired]);
+    clearTimeout(timer);
+    for (const job of jobs) {
+        if (!exited.has(job)) job.kill();
+    }
+    await Promise.all(jobs.map((job) => fs.rm(job.cwd, { recursive: true, force: true }).catch(() => {})));
+}
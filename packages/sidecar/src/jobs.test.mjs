@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import { describe, expect, it, vi } from "vitest";
+import { detectLanguages, startJob, terminateJobs } from "./jobs.mjs";
+
+const languages = detectLanguages();
+
+function isAlive(pid) {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Start a job that runs until it is stopped */
+function startLongJob(code) {
+    return startJob(
+        { runId: "long", language: "sh", code, context: {} },
+        { languages, onLog: () => {}, onExit: () => {} },
+    );
+}
+
+/** Run a job to its exit; resolves with the exit result and the logged lines */
+function runJob(language, code, context = {}) {
+    const logs = [];
+    return new Promise((resolve, reject) => {
+        startJob(
+            { runId: "test", language, code, context: { node: { id: "n", name: "Node" }, ...context } },
+            {
+                languages,
+                onLog: (stream, line) => logs.push(`${stream}: ${line}`),
+                onExit: (result) => resolve({ ...result, logs }),
+            },
+        ).catch(reject);
+    });
+}
+
+describe.runIf(languages.sh)("shell jobs", () => {
+    it("output what they write to OUTPUT_FILE, parsed as JSON", async () => {
+        const exit = await runJob("sh", 'echo "working"\necho \'{"count": 3}\' > "$OUTPUT_FILE"');
+        expect(exit.status).toBe("done");
+        expect(exit.logs).toEqual(["stdout: working"]);
+        expect(exit.output).toEqual({ count: 3 });
+    });
+
+    it("output text that is not JSON as is, trimmed", async () => {
+        const exit = await runJob("sh", 'echo "hello $NODE_NAME" > "$OUTPUT_FILE"');
+        expect(exit.output).toBe("hello Node");
+    });
+
+    it("have no output when they write none or fail", async () => {
+        expect((await runJob("sh", "echo hi")).output).toBeUndefined();
+        const failed = await runJob("sh", 'echo 1 > "$OUTPUT_FILE"\nexit 2');
+        expect(failed.status).toBe("error");
+        expect(failed.output).toBeUndefined();
+    });
+});
+
+describe.runIf(languages.py)("python jobs", () => {
+    it("output what activate() returns", async () => {
+        const exit = await runJob("py", 'def activate(ctx):\n    return {"greeting": "Hello from " + ctx.node.name, "node": ctx.node}');
+        expect(exit.status).toBe("done");
+        expect(exit.output).toEqual({ greeting: "Hello from Node", node: { id: "n", name: "Node" } });
+    });
+});
+
+describe.runIf(languages.sh)("terminateJobs", () => {
+    it("terminates running jobs and waits for them to exit", async () => {
+        const jobs = [await startLongJob("sleep 30"), await startLongJob("sleep 30 & wait")];
+        await terminateJobs(jobs);
+
+        for (const job of jobs) {
+            expect(isAlive(job.pid)).toBe(false);
+            expect(fs.existsSync(job.cwd)).toBe(false);
+        }
+    });
+
+    it("kills jobs that ignore SIGTERM once the grace period is over, and removes their workspace", async () => {
+        const job = await startLongJob("trap '' TERM\nsleep 30");
+        await new Promise((resolve) => setTimeout(resolve, 100)); // let the trap install
+        const startedAt = Date.now();
+        await terminateJobs([job], 300);
+
+        expect(Date.now() - startedAt).toBeLessThan(2000);
+        expect(fs.existsSync(job.cwd)).toBe(false);
+        await vi.waitFor(() => expect(isAlive(job.pid)).toBe(false));
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * Minimal WebSocket server (RFC 6455) — text frames only, no dependencies.
+ *
+ * Enough for the sidecar's JSON protocol: handshake, masked client frames,
+ * fragmented messages, ping/pong and close.
+ *
+ * Usage:
+ *   const server = createWsServer({ port: 7788, host: "127.0.0.1", isOriginAllowed });
+ *   server.on("connection", (conn) => {
+ *       conn.on("message", (text) => conn.send(text));
+ *   });
+ */
+
+import http from "node:http";
+import crypto from "node:crypto";
+import { EventEmitter } from "node:events";
+
+const GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OP_CONT = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+/** Max accepted message size (code + context of a single job) */
+const MAX_MESSAGE_BYTES = 8 * 1024 * 1024;
+
+function encodeFrame(opcode, payload) {
+    const len = payload.length;
+    let header;
+    if (len < 126) {
+        header = Buffer.alloc(2);
+        header[1] = len;
+    } else if (len < 65536) {
+        header = Buffer.alloc(4);
+        header[1] = 126;
+        header.writeUInt16BE(len, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(len), 2);
+    }
+    header[0] = 0x80 | opcode; // FIN + opcode
+    return Buffer.concat([header, payload]);
+}
+
+class WsConnection extends EventEmitter {
+    constructor(socket) {
+        super();
+        this.socket = socket;
+        this.buffer = Buffer.alloc(0);
+        this.fragments = [];
+        this.closed = false;
+
+        socket.on("data", (chunk) => this.onData(chunk));
+        socket.on("close", () => this.onClose());
+        socket.on("error", () => this.onClose());
+    }
+
+    /** Send a text message */
+    send(text) {
+        if (this.closed) return;
+        this.socket.write(encodeFrame(OP_TEXT, Buffer.from(String(text), "utf8")));
+    }
+
+    close(code = 1000) {
+        if (this.closed) return;
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code, 0);
+        this.socket.end(encodeFrame(OP_CLOSE, payload));
+        this.onClose();
+    }
+
+    onClose() {
+        if (this.closed) return;
+        this.closed = true;
+        this.emit("close");
+    }
+
+    onData(chunk) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        while (this.buffer.length >= 2) {
+            const b0 = this.buffer[0];
+            const b1 = this.buffer[1];
+            const fin = (b0 & 0x80) !== 0;
+            const opcode = b0 & 0x0f;
+            const masked = (b1 & 0x80) !== 0;
+            let len = b1 & 0x7f;
+            let offset = 2;
+
+            if (len === 126) {
+                if (this.buffer.length < 4) return;
+                len = this.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (len === 127) {
+                if (this.buffer.length < 10) return;
+                len = Number(this.buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+
+            if (len > MAX_MESSAGE_BYTES) return this.close(1009);
+
+            const maskLen = masked ? 4 : 0;
+            if (this.buffer.length < offset + maskLen + len) return;
+
+            const mask = masked ? this.buffer.subarray(offset, offset + 4) : null;
+            const payload = Buffer.from(this.buffer.subarray(offset + maskLen, offset + maskLen + len));
+            if (mask) {
+                for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+            }
+            this.buffer = this.buffer.subarray(offset + maskLen + len);
+
+            this.onFrame(fin, opcode, payload);
+        }
+    }
+
+    onFrame(fin, opcode, payload) {
+        switch (opcode) {
+            case OP_TEXT:
+            case OP_CONT:
+                this.fragments.push(payload);
+                if (fin) {
+                    const text = Buffer.concat(this.fragments).toString("utf8");
+                    this.fragments = [];
+                    this.emit("message", text);
+                }
+                break;
+            case OP_PING:
+                if (!this.closed) this.socket.write(encodeFrame(OP_PONG, payload));
+                break;
+            case OP_CLOSE:
+                this.close();
+                break;
+            default:
+                // Binary frames and pongs are ignored
+                break;
+        }
+    }
+}
+
+/**
+ * Create an HTTP server that upgrades WebSocket requests.
+ * Emits "connection" (WsConnection) and "listening".
+ */
+export function createWsServer({ port, host, isOriginAllowed = () => true }) {
+    const emitter = new EventEmitter();
+
+    const server = http.createServer((req, res) => {
+        res.writeHead(426, { "content-type": "text/plain" });
+        res.end("WebSocket endpoint — upgrade required\n");
+    });
+
+    server.on("upgrade", (req, socket) => {
+        const key = req.headers["sec-websocket-key"];
+        const origin = req.headers.origin;
+
+        if (!key || String(req.headers.upgrade).toLowerCase() !== "websocket") {
+            socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+            return;
+        }
+        if (!isOriginAllowed(origin)) {
+            socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+            return;
+        }
+
+        const accept = crypto.createHash("sha1").update(key + GUID).digest("base64");
+        socket.write(
+            "HTTP/1.1 101 Switching Protocols\r\n" +
+            "Upgrade: websocket\r\n" +
+            "Connection: Upgrade\r\n" +
+            `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+        );
+        socket.setNoDelay(true);
+
+        emitter.emit("connection", new WsConnection(socket), req);
+    });
+
+    server.listen(port, host, () => emitter.emit("listening", server.address()));
+    server.on("error", (err) => emitter.emit("error", err));
+
+    emitter.close = () => new Promise((resolve) => server.close(() => resolve()));
+    return emitter;
+}
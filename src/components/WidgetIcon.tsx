@@ -23,7 +23,7 @@ import {
     AlertTriangle, CheckCircle, Circle, CircleDot, Loader2, Timer, XCircle,
     Search, Clock, Magnet, Telescope, Satellite,
     Rewind, Briefcase, ClipboardCheck, UserCircle, Brain, Wrench,
-    FileCode, FileType, icons as allLucideIcons, type LucideProps,
+    FileCode, FileType, Split, icons as allLucideIcons, type LucideProps,
 } from 'lucide-react'
 
 // ── Icon mapping ────────────────────────────────────────────────────────────────
@@ -56,6 +56,8 @@ const ICON_MAP: Record<string, React.ComponentType<LucideProps>> = {
     'mic': Mic, 'volume': Volume2, 'sleep': Hourglass, 'timer': Timer, 'clock': Clock,
     'starting': Play,
     'subflow': Workflow,
+    'router': Split, 'split': Split,
+    'map': Layers, 'layers': Layers,
     // Unified icons (matching SwipeButtons)
     'briefcase': Briefcase, 'clipboard-check': ClipboardCheck,
     'user-circle': UserCircle, 'brain': Brain, 'wrench': Wrench,
@@ -92,6 +94,8 @@ export const WIDGET_ICON_COLORS: Record<string, string> = {
     'volume': '#3b82f6', 'sleep': '#64748b', 'timer': '#8b5cf6', 'clock': '#f59e0b',
     'starting': '#22c55e',
     'subflow': '#6366f1',
+    'router': '#14b8a6', 'split': '#14b8a6',
+    'map': '#0ea5e9', 'layers': '#0ea5e9',
     'sticky-note': '#fbbf24', 'check-circle-2': '#10b981',
     'user': '#f59e0b', 'package': '#6366f1', 'globe': '#06b6d4',
     'terminal': '#22c55e', 'search': '#f59e0b', 'loader-2': '#64748b',
@@ -137,7 +141,7 @@ export const iconRegistry = new IconRegistry(iconEntries)
 export const CATEGORY_ICONS: Record<string, React.ComponentType<LucideProps>> = {
     'AI': Sparkles, 'Script': Terminal, 'Expectation': CheckCircle2,
     'Informer': StickyNote, 'Layout': Package, 'Integration': Globe,
-    'SubFlow': Workflow,
+    'SubFlow': Workflow, 'Control': Split,
     'Workflow': Workflow, 'Dev': Code2, 'Starting': Play,
 }
 
@@ -0,0 +1,58 @@
+/**
+ * TestRunButton — the 🧪 Test control of the builder's workflow bar: the
+ * number of repetitions (1–100, for flaky detection) and the button that
+ * starts the test, counting the repetitions while it runs.
+ *
+ * Usage:
+ *   <TestRunButton test={testMode.test} runs={testMode.runs} onRunsChange={testMode.setRuns}
+ *       disabled={isRunning} onRun={handleRunTest} />
+ */
+
+import type { TestState } from '@/engine/workflow-test'
+import { ToolbarButton } from './ToolbarButton'
+
+export interface TestRunButtonProps {
+    test: TestState | null
+    /** Repetitions per test */
+    runs: number
+    onRunsChange: (runs: number) => void
+    disabled?: boolean
+    onRun: () => void
+}
+
+export function TestRunButton({ test, runs, onRunsChange, disabled, onRun }: TestRunButtonProps) {
+    return (
+        <>
+            <input
+                data-testid="workflow-test-runs"
+                type="number"
+                min={1}
+                max={100}
+                value={runs}
+                disabled={disabled}
+                onChange={e => onRunsChange(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+                title="Repetitions per test (flaky detection)"
+                style={{
+                    width: 44, minHeight: 44,
+                    boxSizing: 'border-box',
+                    padding: '6px 4px',
+                    borderRadius: 8,
+                    border: '1px solid rgba(255,255,255,0.06)',
+                    background: 'rgba(255,255,255,0.03)',
+                    color: '#94a3b8',
+                    fontSize: 12, fontFamily: 'Inter, sans-serif',
+                    textAlign: 'center',
+                }}
+            />
+            <ToolbarButton
+                data-testid="workflow-test-btn"
+                tone="emerald"
+                onClick={onRun}
+                disabled={disabled}
+                title="Run the workflow and evaluate every expectation node"
+            >
+                {test?.status === 'running' ? `🧪 Testing ${Math.min(test.completed + 1, test.total)}/${test.total}…` : '🧪 Test'}
+            </ToolbarButton>
+        </>
+    )
+}
@@ -0,0 +1,60 @@
+/**
+ * ToolbarButton — a 44px touch-target button of the builder's workflow bar.
+ *
+ * Tones: `neutral` (workflow tabs, Replay — violet while `active`),
+ * `violet` (Run), `emerald` (Test) and `green` (+ New). Disabled buttons
+ * dim and keep the default cursor.
+ *
+ * Usage:
+ *   <ToolbarButton tone="violet" disabled={isRunning} onClick={run}>▶ Run</ToolbarButton>
+ *   <ToolbarButton tone="neutral" active={wf.id === activeId} onClick={…}>{wf.name}</ToolbarButton>
+ */
+
+import type { ButtonHTMLAttributes, CSSProperties } from 'react'
+
+// ── Types ────────────────────────────────────────────────────────────────────────
+
+export type ToolbarButtonTone = 'neutral' | 'violet' | 'emerald' | 'green'
+
+export interface ToolbarButtonProps extends ButtonHTMLAttributes<HTMLButtonElement> {
+    tone: ToolbarButtonTone
+    /** Highlighted (a selected tab, an open replay) */
+    active?: boolean
+}
+
+// ── Palette ──────────────────────────────────────────────────────────────────────
+
+const VIOLET_ACTIVE = { border: 'rgba(139,92,246,0.4)', background: 'rgba(139,92,246,0.15)', color: '#c084fc' }
+
+const TONES: Record<ToolbarButtonTone, { border: string; background: string; color: string; dimBackground?: string; dimColor: string }> = {
+    neutral: { border: 'rgba(255,255,255,0.06)', background: 'rgba(255,255,255,0.03)', color: '#94a3b8', dimColor: '#334155' },
+    violet: { border: 'rgba(139,92,246,0.3)', background: 'rgba(139,92,246,0.15)', color: '#c084fc', dimBackground: 'rgba(139,92,246,0.05)', dimColor: '#64748b' },
+    emerald: { border: 'rgba(16,185,129,0.3)', background: 'rgba(16,185,129,0.12)', color: '#34d399', dimBackground: 'rgba(16,185,129,0.05)', dimColor: '#64748b' },
+    green: { border: 'rgba(34,197,94,0.3)', background: 'rgba(34,197,94,0.08)', color: '#22c55e', dimColor: '#64748b' },
+}
+
+// ── Component ────────────────────────────────────────────────────────────────────
+
+export function ToolbarButton({ tone, active, disabled, style, children, ...rest }: ToolbarButtonProps) {
+    const palette = TONES[tone]
+    const colors = active ? VIOLET_ACTIVE : palette
+    const buttonStyle: CSSProperties = {
+        minHeight: 44, minWidth: 44,
+        padding: '6px 16px',
+        borderRadius: 8,
+        border: `1px solid ${colors.border}`,
+        background: disabled ? palette.dimBackground ?? colors.background : colors.background,
+        color: disabled ? palette.dimColor : colors.color,
+        fontSize: 12, fontWeight: 600,
+        fontFamily: 'Inter, sans-serif',
+        cursor: disabled ? 'default' : 'pointer',
+        whiteSpace: 'nowrap',
+        transition: 'all 0.15s',
+        ...style,
+    }
+    return (
+        <button disabled={disabled} style={buttonStyle} {...rest}>
+            {children}
+        </button>
+    )
+}
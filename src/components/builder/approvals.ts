@@ -0,0 +1,34 @@
+/**
+ * Approvals on the builder canvas — user nodes act on the run they park.
+ *
+ * A user node card gets approve / reject / comment callbacks for the live
+ * run, and its form (see engine/user-form.ts) opens prefilled from the
+ * node's inputs in that run. Pending approvals of every workflow are
+ * listed by the 🔔 ApprovalsInbox.
+ *
+ * Usage:
+ *   nodes.map(n => n.type === 'user' ? withApprovalActions(n, () => executorRef.current, runState?.nodes[n.id]?.inputs) : n)
+ */
+
+import type { Node } from '@xyflow/react'
+import { formSchemaOf, initialFormValues, type FormValues } from '@/engine/user-form'
+import type { WorkflowExecutor } from '@/engine/workflow-executor'
+
+/** `node` (a user node) wired to the decisions of the run `executor()` returns */
+export function withApprovalActions<T extends Node>(
+    node: T,
+    executor: () => WorkflowExecutor | null,
+    inputs?: Record<string, unknown>,
+): T {
+    const form = formSchemaOf(node.data)
+    return {
+        ...node,
+        data: {
+            ...node.data,
+            formValues: form ? initialFormValues(form, inputs) : undefined,
+            onApprove: (comment?: string, values?: FormValues) => executor()?.approve(node.id, comment || undefined, values),
+            onReject: (reason?: string) => executor()?.reject(node.id, reason || undefined),
+            onComment: (text?: string) => { if (text) executor()?.comment(node.id, text) },
+        },
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * builder/ — features of the builder page (pages/builder-simple.tsx), one
+ * hook or component each.
+ */
+export { ToolbarButton, type ToolbarButtonProps, type ToolbarButtonTone } from './ToolbarButton'
+export { TestRunButton, type TestRunButtonProps } from './TestRunButton'
+export { useRunHistory, type RunReplay } from './useRunHistory'
+export { useWorkflowTest } from './useWorkflowTest'
+export { useRunParams } from './useRunParams'
+export { useSettingsTemplates } from './useSettingsTemplates'
+export { withApprovalActions } from './approvals'
@@ -0,0 +1,106 @@
+/**
+ * useRunHistory — run history and replay of the builder's workflows.
+ *
+ * Finished runs are saved to the RunStore (a failed save goes to
+ * `onSaveError`); the open workflow's per-node stats (avg exec time, total
+ * runs) reload after each save and when the workflow changes. A recorded
+ * run can be replayed as a StepStore timeline; switching workflows closes
+ * the replay.
+ *
+ * Usage:
+ *   const history = useRunHistory(activeId, (record, err) => report(err))
+ *   executor.run().finally(() => history.saveRun(recorder.finish()))
+ *   applyRunStats(nodes, history.stats)
+ *   history.replay ? applyReplayState(nodes, history.replayState) : …
+ *   <button onClick={() => history.openReplay()}>⏮ Replay</button>
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { getRunStore, type NodeRunStats, type RunRecord } from '@/engine/run-store'
+import { createRunReplay } from '@/engine/run-replay'
+import type { FlowState, StepStore } from '@/engine/automerge-store'
+
+// ── Types ────────────────────────────────────────────────────────────────────────
+
+/** A recorded run being replayed, with the workflow's runs to pick from */
+export interface RunReplay {
+    runs: RunRecord[]
+    record: RunRecord
+    store: StepStore
+}
+
+// ── Hook ─────────────────────────────────────────────────────────────────────────
+
+export function useRunHistory(activeId: string, onSaveError?: (record: RunRecord, err: unknown) => void) {
+    /** Run-history stats per workflow ID → node ID */
+    const [runStats, setRunStats] = useState<{ [workflowId: string]: { [nodeId: string]: NodeRunStats } }>({})
+    const [replay, setReplay] = useState<RunReplay | null>(null)
+    const [replayState, setReplayState] = useState<FlowState | null>(null)
+
+    const loadRunStats = useCallback(async (workflowId: string) => {
+        const store = await getRunStore()
+        const stats = await store.nodeStats(workflowId)
+        setRunStats(prev => ({ ...prev, [workflowId]: stats }))
+    }, [])
+
+    /** Save a finished run and refresh its workflow's stats */
+    const saveRun = useCallback(async (record: RunRecord) => {
+        try {
+            const store = await getRunStore()
+            await store.save(record)
+            await loadRunStats(record.workflowId)
+        } catch (err) {
+            onSaveError?.(record, err)
+        }
+    }, [loadRunStats, onSaveError])
+
+    useEffect(() => {
+        loadRunStats(activeId).catch(() => { /* no IndexedDB — no history */ })
+    }, [activeId, loadRunStats])
+
+    // ── Replay ──
+
+    /** Replay a run of the open workflow — the latest without `runId` */
+    const openReplay = useCallback(async (runId?: string) => {
+        const store = await getRunStore()
+        const runs = await store.list(activeId)
+        const record = runs.find(r => r.id === runId) ?? runs[0]
+        if (!record) return
+        const stepStore = createRunReplay(record)
+        setReplay(prev => {
+            prev?.store.stopPlay()
+            return { runs, record, store: stepStore }
+        })
+        setReplayState(stepStore.getState())
+    }, [activeId])
+
+    const closeReplay = useCallback(() => {
+        setReplay(prev => {
+            prev?.store.stopPlay()
+            return null
+        })
+        setReplayState(null)
+    }, [])
+
+    useEffect(() => {
+        if (!replay) return
+        return replay.store.subscribe(() => setReplayState(replay.store.getState()))
+    }, [replay])
+
+    useEffect(() => {
+        closeReplay()
+    }, [activeId, closeReplay])
+
+    const stats = useMemo(() => runStats[activeId] ?? {}, [runStats, activeId])
+
+    return {
+        /** Per-node stats of the open workflow */
+        stats,
+        hasHistory: Object.keys(stats).length > 0,
+        saveRun,
+        replay,
+        replayState,
+        openReplay,
+        closeReplay,
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * useRunParams — the builder's Run form for workflow parameters (see
+ * engine/workflow-params.ts).
+ *
+ * Knows the parameters and saved sets of the workflow a run starts from,
+ * whether the form is open, and the values each workflow last ran with
+ * (the form opens with them, a test runs with them). Saving or deleting a
+ * set patches the starting node through `updateNodes`. Switching to
+ * another workflow closes the form.
+ *
+ * Usage:
+ *   const runParams = useRunParams(runRoot, (workflowId, patch) => …)
+ *   runParams.params ? runParams.setOpen(open => !open) : run()
+ *   runParams.remember(runRoot.id, inputs)
+ *   <RunParamsForm params={runParams.params} sets={runParams.sets}
+ *       initial={runParams.lastInputs(runRoot.id)} onSaveSet={runParams.saveSet} … />
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { Node } from '@xyflow/react'
+import type { FormValues } from '@/engine/user-form'
+import { paramSetsOf, withParamSet, workflowParamsOf } from '@/engine/workflow-params'
+
+export function useRunParams(
+    workflow: { id: string; nodes: Node[] } | undefined,
+    /** Replace the nodes of a workflow */
+    updateNodes: (workflowId: string, patch: (nodes: Node[]) => Node[]) => void,
+) {
+    const [open, setOpen] = useState(false)
+    const lastInputsRef = useRef<Map<string, FormValues>>(new Map())
+
+    const params = useMemo(() => workflow ? workflowParamsOf(workflow.nodes) : null, [workflow])
+    const start = workflow?.nodes.find(n => n.type === 'starting')
+    const sets = useMemo(() => paramSetsOf(start?.data ?? {}), [start])
+
+    /** Values `workflowId` last ran with */
+    const lastInputs = useCallback((workflowId: string) => lastInputsRef.current.get(workflowId), [])
+    const remember = useCallback((workflowId: string, inputs: FormValues) => {
+        lastInputsRef.current.set(workflowId, inputs)
+    }, [])
+
+    /** Save (or, without values, delete) a parameter set on the starting node */
+    const saveSet = useCallback((name: string, values?: FormValues) => {
+        if (!workflow) return
+        updateNodes(workflow.id, nodes => nodes.map(n => n.type !== 'starting' ? n : {
+            ...n, data: { ...n.data, paramSets: withParamSet(paramSetsOf(n.data), name, values) },
+        }))
+    }, [workflow, updateNodes])
+
+    const workflowId = workflow?.id
+    useEffect(() => {
+        setOpen(false)
+    }, [workflowId])
+
+    return { params, sets, open, setOpen, lastInputs, remember, saveSet }
+}
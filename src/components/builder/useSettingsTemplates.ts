@@ -0,0 +1,43 @@
+/**
+ * useSettingsTemplates — `{{ … }}` template support for the node settings
+ * panel (see engine/templates.ts).
+ *
+ * For the node being edited: which settings take templates, completions
+ * for the nodes upstream of it, and a scope to preview them against the
+ * last run — run inputs from its starting node, secrets masked.
+ *
+ * Usage:
+ *   const templates = useSettingsTemplates(settingsNode, nodes, edges, runState)
+ *   <NodeSettingsPanel templateKeys={templates.keys}
+ *       templateSuggestions={templates.suggestions} templateScope={templates.scope} … />
+ */
+
+import { useMemo } from 'react'
+import type { Edge, Node } from '@xyflow/react'
+import { templateKeys, templateSuggestions, type TemplateScope } from '@/engine/templates'
+import { subTypeRegistry } from '@/engine/widget-subtypes-registry'
+import { nodeSubType, type RunState } from '@/engine/workflow-executor'
+import { resolveIntegrationSecret, INTEGRATIONS } from '@/hooks/useIntegrations'
+
+export function useSettingsTemplates(node: Node | null | undefined, nodes: Node[], edges: Edge[], runState: RunState | null) {
+    const runInputs = useMemo(() => {
+        const start = nodes.find(n => n.type === 'starting')
+        return (start && runState?.nodes[start.id]?.inputs) || {}
+    }, [nodes, runState])
+
+    const suggestions = useMemo(() => node
+        ? templateSuggestions(node.id, { nodes, edges }, { nodes: runState?.nodes ?? {}, inputs: runInputs }, INTEGRATIONS.map(i => i.id))
+        : [], [node, nodes, edges, runState, runInputs])
+
+    const keys = useMemo(() => node
+        ? templateKeys(subTypeRegistry.getSettingsSchema(node.type ?? '', nodeSubType(node)))
+        : [], [node])
+
+    const scope = useMemo((): TemplateScope | undefined => runState ? {
+        nodes: runState.nodes,
+        inputs: runInputs,
+        env: Object.fromEntries(INTEGRATIONS.map(i => [i.id, resolveIntegrationSecret(i.id) ? '••••••' : undefined])),
+    } : undefined, [runState, runInputs])
+
+    return { keys, suggestions, scope }
+}
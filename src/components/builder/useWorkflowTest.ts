@@ -0,0 +1,53 @@
+/**
+ * useWorkflowTest — test mode of the builder: a workflow run N times as a
+ * suite of expectations (WorkflowTestRunner).
+ *
+ * Holds the number of repetitions and the live TestState for the report
+ * panel. Starting a test cancels the previous one; a closed (cancelled)
+ * test does not reopen its panel.
+ *
+ * Usage:
+ *   const testMode = useWorkflowTest()
+ *   testMode.start(doc, { workflowName, executor, onRunStart, onRunEnd }).catch(report)
+ *   <TestRunButton runs={testMode.runs} onRunsChange={testMode.setRuns} … />
+ *   {testMode.test && <TestReportPanel test={testMode.test} onClose={testMode.close} />}
+ */
+
+import { useCallback, useRef, useState } from 'react'
+import { WorkflowTestRunner, type TestReport, type TestState, type WorkflowTestOptions } from '@/engine/workflow-test'
+import type { WorkflowDoc } from '@/engine/workflow-store'
+
+export function useWorkflowTest() {
+    const testerRef = useRef<WorkflowTestRunner | null>(null)
+    const [test, setTest] = useState<TestState | null>(null)
+    const [runs, setRuns] = useState(1)
+
+    /** Cancel the test and close its report */
+    const close = useCallback(() => {
+        testerRef.current?.cancel()
+        testerRef.current = null
+        setTest(null)
+    }, [])
+
+    /** Test `doc` with the current number of repetitions */
+    const start = useCallback((doc: WorkflowDoc, options: Omit<WorkflowTestOptions, 'runs'>): Promise<TestReport> => {
+        testerRef.current?.cancel()
+        const tester = new WorkflowTestRunner(doc, { ...options, runs })
+        testerRef.current = tester
+        setTest(tester.getState())
+        tester.subscribe(() => {
+            if (testerRef.current === tester) setTest(tester.getState())
+        })
+        return tester.run()
+    }, [runs])
+
+    return {
+        test,
+        isTesting: test?.status === 'running',
+        /** Repetitions per test (flaky detection) */
+        runs,
+        setRuns,
+        start,
+        close,
+    }
+}
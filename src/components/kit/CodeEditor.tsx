@@ -7,10 +7,12 @@
  *  - Line numbers
  *  - Read-only mode support
  *  - Lint/error markers (via @codemirror/lint — ready for future validation)
+ *  - Optional autocomplete for a known scope (e.g. the script `ctx` API)
  *
  * Usage:
  *   <CodeEditor value={json} onChange={setJson} language="json" />
  *   <CodeEditor value={code} language="typescript" readOnly />
+ *   <CodeEditor value={code} language="javascript" scope={SCRIPT_SCOPE} />
  */
 
 import { useRef, useEffect, useMemo, type CSSProperties } from 'react'
@@ -25,6 +27,8 @@ import { markdown } from '@codemirror/lang-markdown'
 import { yaml, yamlFrontmatter } from '@codemirror/lang-yaml'
 import { oneDark } from '@codemirror/theme-one-dark'
 import { lintGutter } from '@codemirror/lint'
+import { autocompletion, type CompletionContext, type CompletionResult } from '@codemirror/autocomplete'
+import { completionPath } from '@codemirror/lang-javascript'
 import { languages } from '@codemirror/language-data'
 
 // ── Language map ────────────────────────────────────────────────────────────────
@@ -44,6 +48,35 @@ function langExtension(lang: CodeLanguage): Extension[] {
     }
 }
 
+// ── Scope autocomplete ──────────────────────────────────────────────────────────
+
+/** A completable name — nested `members` are offered after a `.` */
+export interface ScopeMember {
+    type: string
+    doc: string
+    members?: Record<string, ScopeMember>
+}
+
+function scopeCompletions(scope: Record<string, ScopeMember>) {
+    return (context: CompletionContext): CompletionResult | null => {
+        const path = completionPath(context)
+        if (!path) return null
+        let members: Record<string, ScopeMember> | undefined = scope
+        for (const key of path.path) members = members?.[key]?.members
+        if (!members) return null
+        return {
+            from: context.pos - path.name.length,
+            options: Object.entries(members).map(([label, m]) => ({
+                label,
+                detail: m.type,
+                info: m.doc,
+                type: m.type.startsWith('(') ? 'method' : 'property',
+            })),
+            validFor: /^[\w$]*$/,
+        }
+    }
+}
+
 // ── Props ────────────────────────────────────────────────────────────────────────
 
 export interface CodeEditorProps {
@@ -65,6 +98,8 @@ export interface CodeEditorProps {
     style?: CSSProperties
     /** data-testid for the wrapper */
     testId?: string
+    /** Names to autocomplete (JS/TS only) */
+    scope?: Record<string, ScopeMember>
 }
 
 // ── Dark theme overrides to match wibeboard ─────────────────────────────────────
@@ -123,6 +158,7 @@ export function CodeEditor({
     className,
     style,
     testId,
+    scope,
 }: CodeEditorProps) {
     const containerRef = useRef<HTMLDivElement>(null)
     const viewRef = useRef<EditorView | null>(null)
@@ -147,6 +183,13 @@ export function CodeEditor({
             EditorView.lineWrapping,
         ]
 
+        if (scope && (language === 'javascript' || language === 'typescript')) {
+            exts.push(
+                autocompletion(),
+                EditorState.languageData.of(() => [{ autocomplete: scopeCompletions(scope) }]),
+            )
+        }
+
         if (readOnly) {
             exts.push(EditorState.readOnly.of(true))
         } else {
@@ -158,7 +201,7 @@ export function CodeEditor({
         }
 
         return exts
-    }, [language, readOnly])
+    }, [language, readOnly, scope])
 
     // Create editor on mount
     useEffect(() => {
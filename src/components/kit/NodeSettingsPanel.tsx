@@ -2,16 +2,33 @@
  * NodeSettingsPanel — shows node settings with visual/raw mode toggle.
  *
  * "Raw" mode displays node.data as a prettified JSON editor.
- * "Visual" mode shows a structured form (placeholder for now).
+ * "Visual" mode shows a structured form: text fields are editable (saved on
+ * blur / Enter), everything else is read-only for now.
+ *
+ * Text fields take `{{ … }}` templates (see engine/templates.ts): typing
+ * `{{` offers the upstream nodes, their output fields, run inputs and env
+ * names (↑ ↓ to pick, Enter / Tab to insert), and a field with templates
+ * previews its value resolved against the last run. Code fields are not
+ * templated (see `templateKeys`), so they get neither.
  */
 
-import { useState, useCallback, type CSSProperties } from 'react'
+import { useState, useCallback, useEffect, useRef, type CSSProperties } from 'react'
 import type { Node } from '@xyflow/react'
+import {
+    completeTemplate, filterSuggestions, openTemplateAt, resolveTemplate, templateRefs,
+    type TemplateScope, type TemplateSuggestion,
+} from '@/engine/templates'
 
 export interface NodeSettingsPanelProps {
     node: Node
     onClose: () => void
     onUpdate?: (nodeId: string, data: Record<string, any>) => void
+    /** Completions offered inside `{{ … }}` */
+    templateSuggestions?: TemplateSuggestion[]
+    /** The last run, to preview templates against — omitted before any run */
+    templateScope?: TemplateScope
+    /** Settings keys that take templates (see templateKeys()) — every text field when omitted */
+    templateKeys?: string[]
 }
 
 type Mode = 'visual' | 'raw'
@@ -118,7 +135,159 @@ const inputStyle: CSSProperties = {
     outline: 'none',
 }
 
-export function NodeSettingsPanel({ node, onClose, onUpdate }: NodeSettingsPanelProps) {
+const suggestionsStyle: CSSProperties = {
+    marginTop: 2,
+    background: 'rgba(15,15,26,0.98)',
+    border: '1px solid rgba(139,92,246,0.4)',
+    borderRadius: 6,
+    overflow: 'hidden',
+}
+
+const previewStyle: CSSProperties = {
+    fontSize: 11,
+    fontFamily: 'ui-monospace, "SF Mono", "Cascadia Code", Menlo, monospace',
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+}
+
+/** A text setting with `{{ … }}` completion and a preview against the last run */
+function TemplateField({ name, value, templated, suggestions, scope, onCommit }: {
+    name: string
+    value: string
+    /** False for fields left as written at run time — no completion or preview */
+    templated: boolean
+    suggestions: TemplateSuggestion[]
+    scope?: TemplateScope
+    onCommit?: (value: string) => void
+}) {
+    const [draft, setDraft] = useState(value)
+    const [caret, setCaret] = useState<number | null>(null)
+    const [active, setActive] = useState(0)
+    const ref = useRef<HTMLInputElement & HTMLTextAreaElement>(null)
+
+    useEffect(() => setDraft(value), [value])
+
+    const open = templated && caret !== null ? openTemplateAt(draft, caret) : undefined
+    const matches = open ? filterSuggestions(suggestions, open.partial) : []
+    const refs = templated ? templateRefs(draft) : []
+    const preview = refs.length && scope ? resolveTemplate(draft, scope) : undefined
+
+    const trackCaret = () => setCaret(ref.current?.selectionStart ?? null)
+
+    const accept = (path: string) => {
+        if (caret === null) return
+        const next = completeTemplate(draft, caret, path)
+        setDraft(next.text)
+        setCaret(next.caret)
+        setActive(0)
+        requestAnimationFrame(() => ref.current?.setSelectionRange(next.caret, next.caret))
+    }
+
+    const commit = () => {
+        setCaret(null)
+        if (draft !== value) onCommit?.(draft)
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (matches.length) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault()
+                const step = e.key === 'ArrowDown' ? 1 : -1
+                setActive(i => (i + step + matches.length) % matches.length)
+                return
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault()
+                accept(matches[Math.min(active, matches.length - 1)].path)
+                return
+            }
+            if (e.key === 'Escape') {
+                setCaret(null)
+                return
+            }
+        }
+        if (e.key === 'Enter' && !draft.includes('\n')) ref.current?.blur()
+    }
+
+    const fieldProps = {
+        ref,
+        value: draft,
+        readOnly: !onCommit,
+        spellCheck: false,
+        onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+            setDraft(e.target.value)
+            setCaret(e.target.selectionStart)
+            setActive(0)
+        },
+        onKeyDown: handleKeyDown,
+        onKeyUp: trackCaret,
+        onClick: trackCaret,
+        onBlur: commit,
+        'data-testid': `settings-field-${name}`,
+    }
+
+    return (
+        <div>
+            {draft.includes('\n')
+                ? <textarea {...fieldProps} rows={Math.min(8, draft.split('\n').length)} style={{ ...inputStyle, width: '100%', boxSizing: 'border-box', resize: 'vertical' }} />
+                : <input {...fieldProps} style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }} />}
+
+            {matches.length > 0 && (
+                <div style={suggestionsStyle} data-testid="template-suggestions">
+                    {matches.map((s, i) => (
+                        <div
+                            key={s.path}
+                            data-testid={`template-suggestion-${i}`}
+                            onMouseDown={e => {
+                                // Keep the focus in the field
+                                e.preventDefault()
+                                accept(s.path)
+                            }}
+                            style={{
+                                display: 'flex', justifyContent: 'space-between', gap: 8,
+                                padding: '5px 8px',
+                                fontSize: 11,
+                                cursor: 'pointer',
+                                background: i === active ? 'rgba(139,92,246,0.25)' : 'transparent',
+                            }}
+                        >
+                            <span style={{ color: '#eee' }}>{s.label}</span>
+                            <span style={{ ...previewStyle, color: '#888' }}>{s.path}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {refs.length > 0 && (
+                <div data-testid={`template-preview-${name}`} style={{ marginTop: 4, display: 'flex', flexDirection: 'column', gap: 2 }}>
+                    {preview ? (
+                        <>
+                            <span style={{ ...previewStyle, color: '#a5f3fc' }} title={formatPreview(preview.value)}>
+                                → {formatPreview(preview.value)}
+                            </span>
+                            {preview.missing.map(path => (
+                                <span key={path} style={{ ...previewStyle, color: '#fbbf24' }}>
+                                    ⚠ no value for {path} in the last run
+                                </span>
+                            ))}
+                        </>
+                    ) : (
+                        <span style={{ fontSize: 11, color: '#666', fontStyle: 'italic' }}>
+                            Run the workflow to preview
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+function formatPreview(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value) ?? String(value)
+}
+
+export function NodeSettingsPanel({ node, onClose, onUpdate, templateSuggestions = [], templateScope, templateKeys }: NodeSettingsPanelProps) {
     const [mode, setMode] = useState<Mode>('visual')
     const [rawJson, setRawJson] = useState(() => JSON.stringify(node.data, null, 2))
     const [parseError, setParseError] = useState<string | null>(null)
@@ -227,11 +396,22 @@ export function NodeSettingsPanel({ node, onClose, onUpdate }: NodeSettingsPanel
                         {Object.entries(node.data || {}).map(([key, value]) => (
                             <div key={key} style={fieldRowStyle}>
                                 <label style={labelStyle}>{key}</label>
-                                <input
-                                    style={inputStyle}
-                                    value={typeof value === 'object' ? JSON.stringify(value) : String(value ?? '')}
-                                    readOnly
-                                />
+                                {typeof value === 'string' ? (
+                                    <TemplateField
+                                        name={key}
+                                        value={value}
+                                        templated={!templateKeys || templateKeys.includes(key)}
+                                        suggestions={templateSuggestions}
+                                        scope={templateScope}
+                                        onCommit={onUpdate && (text => onUpdate(node.id, { [key]: text }))}
+                                    />
+                                ) : (
+                                    <input
+                                        style={inputStyle}
+                                        value={typeof value === 'object' ? JSON.stringify(value) : String(value ?? '')}
+                                        readOnly
+                                    />
+                                )}
                             </div>
                         ))}
                         {Object.keys(node.data || {}).length === 0 && (
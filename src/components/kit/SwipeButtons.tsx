@@ -12,7 +12,7 @@
  *   swipe  — menu appears instantly on hover / pointer-enter
  *
  * Layout (default wibeboard configuration):
- *   Top:    Configure (orange) → fan: Rename | Delete | Duplicate
+ *   Top:    Configure (orange) → fan: Attach | Settings | Delete (| Inline) (| Breakpoint)
  *   Right:  After (+) purple  → fan: Script | AI → roles | User
  *   Bottom: Rename
  *   Left:   Before (+) purple → fan: Script | AI → roles | User
@@ -22,7 +22,7 @@
 
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Plus, Settings, Sparkles, Code, UserCircle, Trash2, FileCode, Terminal, FileType, Brain, Wrench, Search, Paperclip, Clock, StickyNote, Briefcase, ClipboardCheck, Workflow } from 'lucide-react'
+import { Plus, Settings, Sparkles, Code, UserCircle, Trash2, FileCode, Terminal, FileType, Brain, Wrench, Search, Paperclip, Clock, StickyNote, Briefcase, ClipboardCheck, Workflow, CircleDot, ArrowLeftToLine, ArrowRightToLine, Ungroup, Split, Layers } from 'lucide-react'
 
 // ── Types ───────────────────────────────────────────────────────────────────────
 
@@ -38,6 +38,8 @@ const ADD_NODE_TYPES: SubButton[] = [
     { key: 'subflow', label: 'SubFlow', icon: Workflow, color: '#6366f1' },
     { key: 'job', label: 'Job', icon: Briefcase, color: '#8b5cf6' },
     { key: 'recent', label: 'Recent', icon: Clock, color: '#64748b' },
+    { key: 'router', label: 'Router', icon: Split, color: '#14b8a6' },
+    { key: 'map', label: 'Map', icon: Layers, color: '#0ea5e9' },
 ]
 
 // Job sub-types (children of Job)
@@ -59,6 +61,17 @@ const CONFIG_ACTIONS: SubButton[] = [
     { key: 'delete', label: 'Delete', icon: Trash2, color: '#ef4444' },
 ]
 
+// Shown in the Config fan of subflow nodes — expand the linked workflow in place
+const INLINE_ACTION: SubButton = { key: 'inline', label: 'Inline', icon: Ungroup, color: '#6366f1' }
+
+// Shown in the Config fan when breakpoints are enabled (debug mode)
+const BREAKPOINT_ACTION: SubButton = { key: 'breakpoint', label: 'Break', icon: CircleDot, color: '#ef4444' }
+
+const BREAKPOINT_TYPES: SubButton[] = [
+    { key: 'before', label: 'Before', icon: ArrowLeftToLine, color: '#f87171' },
+    { key: 'after', label: 'After', icon: ArrowRightToLine, color: '#f87171' },
+]
+
 const ATTACH_TYPES: SubButton[] = [
     { key: 'expectation', label: 'Expect', icon: ClipboardCheck, color: '#22d3ee' },
     { key: 'informer', label: 'Informer', icon: StickyNote, color: '#fbbf24' },
@@ -87,6 +100,12 @@ export interface SwipeButtonsProps {
     directions?: SwipeButtonsDirection[]
     /** When true, buttons are pushed out so they never overlap the node */
     noOverlap?: boolean
+    /** Show the Config → Break fan (before / after breakpoints) */
+    showBreakpoints?: boolean
+    /** Show Config → Inline (subflow nodes) */
+    showInline?: boolean
+    /** Breakpoints currently set on the node (highlighted in the Break fan) */
+    breakpoints?: { before?: boolean; after?: boolean }
     onAddBefore: (nodeId: string, widgetType: string) => void
     onAddAfter: (nodeId: string, widgetType: string) => void
     onConfigure: (nodeId: string, action: string) => void
@@ -253,15 +272,21 @@ function useTouchSwipe(
 export function SwipeButtons(props: SwipeButtonsProps) {
     const {
         nodeId, currentLabel, activationMode = 'click',
-        directions, noOverlap = false,
+        directions, noOverlap = false, showBreakpoints = false, showInline = false, breakpoints,
         onAddBefore, onAddAfter, onConfigure, onRename,
     } = props
+    const configActions = [
+        ...CONFIG_ACTIONS,
+        ...(showInline ? [INLINE_ACTION] : []),
+        ...(showBreakpoints ? [BREAKPOINT_ACTION] : []),
+    ]
     const dirs = directions ?? ['top', 'right', 'bottom', 'left']
     const [expanded, setExpanded] = useState<null | 'before' | 'after' | 'config'>(null)
     const [jobExpanded, setJobExpanded] = useState<null | 'after' | 'before'>(null)
     const [scriptExpanded, setScriptExpanded] = useState<null | 'after' | 'before'>(null)
     const [aiExpanded, setAiExpanded] = useState<null | 'after' | 'before'>(null)
     const [attachExpanded, setAttachExpanded] = useState(false)
+    const [breakpointExpanded, setBreakpointExpanded] = useState(false)
     const [renaming, setRenaming] = useState(false)
     const [renameValue, setRenameValue] = useState(currentLabel)
     const inputRef = useRef<HTMLInputElement>(null)
@@ -269,7 +294,7 @@ export function SwipeButtons(props: SwipeButtonsProps) {
     const [nodeRect, setNodeRect] = useState<DOMRect | null>(null)
 
     const resetSubs = useCallback(() => {
-        setJobExpanded(null); setScriptExpanded(null); setAiExpanded(null); setAttachExpanded(false)
+        setJobExpanded(null); setScriptExpanded(null); setAiExpanded(null); setAttachExpanded(false); setBreakpointExpanded(false)
     }, [])
 
     // Touch-drag tracking for swipe mode
@@ -302,7 +327,9 @@ export function SwipeButtons(props: SwipeButtonsProps) {
         }
         // Config sub-buttons
         else if (testId === 'ext-cfg-attach') {
-            setAttachExpanded(true)
+            setAttachExpanded(true); setBreakpointExpanded(false)
+        } else if (testId === 'ext-cfg-breakpoint') {
+            setBreakpointExpanded(true); setAttachExpanded(false)
         }
     }, [resetSubs])
 
@@ -397,7 +424,7 @@ export function SwipeButtons(props: SwipeButtonsProps) {
                 />}
 
                 {/* Config sub-buttons: fan above */}
-                {show('top') && expanded === 'config' && CONFIG_ACTIONS.map((sub, i) => (
+                {show('top') && expanded === 'config' && configActions.map((sub, i) => (
                     <MotionButton
                         key={`cfg-${sub.key}`}
                         testId={`ext-cfg-${sub.key}`}
@@ -406,22 +433,47 @@ export function SwipeButtons(props: SwipeButtonsProps) {
                         label={sub.label}
                         color={sub.color}
                         delay={i * 0.03}
-                        active={sub.key === 'attach' && attachExpanded}
+                        active={
+                            sub.key === 'attach' ? attachExpanded
+                                : sub.key === 'breakpoint' ? breakpointExpanded || !!(breakpoints?.before || breakpoints?.after)
+                                    : undefined
+                        }
                         onClick={() => {
                             if (sub.key === 'attach') {
-                                setAttachExpanded(prev => !prev)
+                                setAttachExpanded(prev => !prev); setBreakpointExpanded(false)
+                            } else if (sub.key === 'breakpoint') {
+                                setBreakpointExpanded(prev => !prev); setAttachExpanded(false)
                             } else {
                                 onConfigure(nodeId, sub.key)
                                 setExpanded(null); resetSubs()
                             }
                         }}
-                        onHover={
-                            sub.key === 'attach' ? () => setAttachExpanded(true)
-                                : () => setAttachExpanded(false)
-                        }
+                        onHover={() => {
+                            setAttachExpanded(sub.key === 'attach')
+                            setBreakpointExpanded(sub.key === 'breakpoint')
+                        }}
                     />
                 ))}
 
+                {/* Config → Break: toggle before / after breakpoints, fan above the Break button */}
+                {show('top') && expanded === 'config' && breakpointExpanded && (() => {
+                    const breakBtnX = positions.top.x + (configActions.length - 2) * TILE  // Break comes last
+                    const breakBtnY = positions.top.y - TILE
+                    return BREAKPOINT_TYPES.map((bt, i) => (
+                        <MotionButton
+                            key={`cfg-breakpoint-${bt.key}`}
+                            testId={`ext-cfg-breakpoint-${bt.key}`}
+                            pos={{ x: breakBtnX + (i === 0 ? -TILE : TILE), y: breakBtnY - TILE }}
+                            icon={bt.icon}
+                            label={bt.label}
+                            color={bt.color}
+                            delay={i * 0.03}
+                            active={!!breakpoints?.[bt.key as 'before' | 'after']}
+                            onClick={() => onConfigure(nodeId, `breakpoint:${bt.key}`)}
+                        />
+                    ))
+                })()}
+
                 {/* Config → Attach sub-types: fan above the Attach button */}
                 {show('top') && expanded === 'config' && attachExpanded && (() => {
                     const attachBtnX = positions.top.x + (0 - 1) * TILE  // Attach is at index 0
@@ -456,7 +508,7 @@ export function SwipeButtons(props: SwipeButtonsProps) {
                     onHover={() => { setExpanded('after'); resetSubs() }}
                 />}
 
-                {/* After sub-buttons: fan right — User (top), Job (center), Recent (bottom) */}
+                {/* After sub-buttons: fan right — User (top), Job (center), Recent, Router, Map (bottom) */}
                 {show('right') && expanded === 'after' && ADD_NODE_TYPES.map((sub, i) => (
                     <MotionButton
                         key={`after-${sub.key}`}
@@ -565,7 +617,7 @@ export function SwipeButtons(props: SwipeButtonsProps) {
                     onHover={() => { setExpanded('before'); resetSubs() }}
                 />}
 
-                {/* Before sub-buttons: fan left — User (top), Job (center), Recent (bottom) */}
+                {/* Before sub-buttons: fan left — User (top), Job (center), Recent, Router, Map (bottom) */}
                 {show('left') && expanded === 'before' && ADD_NODE_TYPES.map((sub, i) => (
                     <MotionButton
                         key={`before-${sub.key}`}
@@ -5,7 +5,7 @@ export { IconButton, ICON_BUTTON_COLORS } from './IconButton'
 export type { IconButtonProps, IconButtonColor, IconButtonSize } from './IconButton'
 export { SwipeButtons, type SwipeButtonsProps, type SwipeButtonsActivation, type SwipeButtonsDirection } from './SwipeButtons'
 export { IconSelector } from './IconSelector'
-export { CodeEditor, type CodeEditorProps, type CodeLanguage } from './CodeEditor'
+export { CodeEditor, type CodeEditorProps, type CodeLanguage, type ScopeMember } from './CodeEditor'
 export { ToggleGroup, ToggleGroupItem } from './ToggleGroup'
 export type { ToggleGroupProps, ToggleGroupItemProps, ToggleGroupSize, ToggleGroupVariant } from './ToggleGroup'
 
@@ -9,6 +9,10 @@
  *   "Knocking" = someone is calling you (maps to the existing knockSide
  *   animation in node components).
  *
+ *   On its own a messenger only notifies its own listeners on send. Messengers
+ *   owned by a MessageBus are attached to it and their messages are actually
+ *   delivered to the recipient (see MessageBus.ts).
+ *
  * Usage:
  *   const messenger = new AgentMessenger('node-a')
  *   messenger.addContact({ id: 'node-b', name: 'Code Runner', direction: 'out' })
@@ -56,6 +60,7 @@ export class AgentMessenger {
     private inbox: Message[] = []
     private messageListeners: Set<(msg: Message) => void> = new Set()
     private systemListeners: Set<(cmd: SystemCommand) => void> = new Set()
+    private transport: ((msg: Message) => void) | null = null
 
     constructor(nodeId: string) {
         this.nodeId = nodeId
@@ -118,7 +123,15 @@ export class AgentMessenger {
 
     // ── Messaging ───────────────────────────────────────────────────────────
 
-    /** Send a message to a contact */
+    /** Route outgoing messages through a transport (set by MessageBus) */
+    attachTransport(transport: ((msg: Message) => void) | null): void {
+        this.transport = transport
+    }
+
+    /**
+     * Send a message to a contact. With a transport attached the message is
+     * handed to it (which may throw, e.g. for non-contacts).
+     */
     send(to: ContactId, type: MessageType, payload?: unknown): Message {
         const msg: Message = {
             id: `msg-${++_msgIdCounter}`,
@@ -129,7 +142,11 @@ export class AgentMessenger {
             timestamp: Date.now(),
             read: false,
         }
-        // Dispatch to listeners (the recipient's messenger would pick this up)
+        if (this.transport) {
+            this.transport(msg)
+            return msg
+        }
+        // Standalone: dispatch to own listeners
         this.notifyMessage(msg)
         return msg
     }
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import type { Edge, Node } from '@xyflow/react'
+import { FlowStudioApi, type FlowGraph } from './FlowStudioApi'
+import { WorkflowExecutor } from './workflow-executor'
+import { nodeRunnerRegistry } from './node-runners'
+import { conditionOf } from './conditions'
+import { childRunAt, inputKeysOf } from './subflow'
+import type { WorkflowDoc } from './workflow-store'
+
+// ── Fixtures ────────────────────────────────────────────────────────────────────
+
+const api = new FlowStudioApi()
+
+/** Test job — outputs its ID */
+nodeRunnerRegistry.register('job:extract', async (ctx) => ctx.node.id)
+
+function node(id: string, type = 'job'): Node {
+    return { id, type, position: { x: 0, y: 0 }, data: { label: id, subType: 'extract' } }
+}
+
+function edge(source: string, target: string, extra: Partial<Edge> = {}): Edge {
+    return { ...api.makeEdge(source, target), ...extra }
+}
+
+/** A canvas graph as the executor reads it */
+function docOf(id: string, graph: FlowGraph): WorkflowDoc {
+    return {
+        id, name: id, createdAt: 0, updatedAt: 0,
+        nodes: graph.nodes.map(n => ({ id: n.id, type: n.type || 'job', position: n.position, data: n.data })),
+        edges: graph.edges.map(e => ({
+            id: e.id, source: e.source, target: e.target, sourceHandle: e.sourceHandle,
+            condition: conditionOf(e), inputKeys: inputKeysOf(e),
+        })),
+    }
+}
+
+const subflow = { id: 'sub', data: { label: 'Sub', workflowId: 'child' } }
+
+// ── Extract to subflow ──────────────────────────────────────────────────────────
+
+describe('extractToSubflow', () => {
+    it('gives rewired edges from the same source their own IDs', () => {
+        const nodes = [node('s', 'starting'), node('u', 'user'), node('a'), node('b'), node('c')]
+        const edges = [
+            edge('s', 'u'),
+            edge('u', 'a'),
+            edge('u', 'b', { id: 'edge-u-b-reject', sourceHandle: 'reject' }),
+            edge('u', 'c', { data: { condition: { kind: 'error' } } }),
+        ]
+        const board = api.extractToSubflow(['a', 'b', 'c'], nodes, edges, subflow)
+        const rewired = board.edges.filter(e => e.target === 'sub')
+
+        expect(rewired.map(e => e.id)).toEqual(['edge-u-sub', 'edge-u-sub-reject', 'edge-u-sub-2'])
+        expect(rewired.map(e => e.sourceHandle)).toEqual([undefined, 'reject', undefined])
+        expect(conditionOf(rewired[2])).toEqual({ kind: 'error' })
+        expect(new Set(board.edges.map(e => e.id)).size).toBe(board.edges.length)
+    })
+
+    it('merges incoming edges that only differ in their target', () => {
+        const nodes = [node('s', 'starting'), node('a'), node('b')]
+        const board = api.extractToSubflow(['a', 'b'], nodes, [edge('s', 'a'), edge('s', 'b')], subflow)
+
+        expect(board.edges.map(e => e.id)).toEqual(['edge-s-sub'])
+    })
+
+    it('keeps the inputs of the first nodes keyed by their upstream node IDs', async () => {
+        // s → a, s → b; a, b → x; b → y — x and y are extracted
+        const nodes = [node('s', 'starting'), node('a'), node('b'), node('x'), node('y')]
+        const edges = [edge('s', 'a'), edge('s', 'b'), edge('a', 'x'), edge('b', 'x'), edge('b', 'y')]
+        const before = await new WorkflowExecutor(docOf('parent', { nodes, edges })).run()
+
+        const { workflow, ...board } = api.extractToSubflow(['x', 'y'], nodes, edges, subflow)
+        const child = docOf('child', workflow)
+        const after = await new WorkflowExecutor(docOf('parent', board), { loadWorkflow: async () => child }).run()
+        const childRun = childRunAt(after, ['sub'])
+
+        expect(after.status).toBe('done')
+        expect(before.nodes.x.inputs).toEqual({ a: 'a', b: 'b' })
+        expect(childRun.nodes.x.inputs).toEqual(before.nodes.x.inputs)
+        expect(childRun.nodes.y.inputs).toEqual(before.nodes.y.inputs)
+    })
+})
+
+// ── Inline ──────────────────────────────────────────────────────────────────────
+
+describe('inlineSubflow', () => {
+    it('feeds each first node only the inputs it was extracted with', () => {
+        const nodes = [node('s', 'starting'), node('a'), node('b'), node('x'), node('y')]
+        const edges = [edge('s', 'a'), edge('s', 'b'), edge('a', 'x'), edge('b', 'x'), edge('b', 'y')]
+        const { workflow, ...board } = api.extractToSubflow(['x', 'y'], nodes, edges, subflow)
+        const inlined = api.inlineSubflow('sub', board.nodes, board.edges, workflow)
+
+        expect(inlined.edges.map(e => `${e.source}->${e.target}`).sort())
+            .toEqual(edges.map(e => `${e.source}->${e.target}`).sort())
+    })
+})
@@ -11,7 +11,11 @@
  *  - `createStartNode()`      — centered at (0, 0)
  *  - `positionAfter()`        — 5gu right, Y center-aligned
  *  - `positionBefore()`       — left of target, Y center-aligned
+ *  - `positionBelow()`        — 5gu below, X center-aligned (attachments)
  *  - `deleteWithReconnect()`  — bridge-reconnection
+ *  - `extractToSubflow()`     — move a selection into a new workflow behind a subflow node
+ *  - `inlineSubflow()`        — the inverse: expand a subflow node's workflow in place
+ *  - `extractBlocker()` / `inlineBlocker()` — why either would change what the flow does
  *  - `makeEdge()`             — styled edge factory
  *
  * All positions follow the grid-sizing guidelines:
@@ -26,6 +30,9 @@ import { FlowStudioStore } from '../flow-studio/FlowStudioStore'
 import type { StepStore } from './automerge-store'
 import type { ThemeKey, NodeSize } from '../flow-studio/types'
 import { GRID_CELL, widgetRegistry } from './widget-types-registry'
+import { generateId } from './core'
+import { inputKeysOf, isValueMap } from './subflow'
+import { conditionOf } from './conditions'
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
@@ -58,8 +65,26 @@ function getDefaultHeight(widgetType: string): number {
     return widgetRegistry.getDefaultHeightPx(widgetType)
 }
 
+/** Bounding box of a group of nodes */
+function boundsOf(nodes: Node[]): { x: number; y: number; width: number; height: number } {
+    const left = Math.min(...nodes.map(n => n.position.x))
+    const top = Math.min(...nodes.map(n => n.position.y))
+    const right = Math.max(...nodes.map(n => n.position.x + getNodeWidth(n)))
+    const bottom = Math.max(...nodes.map(n => n.position.y + getNodeHeight(n)))
+    return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/** Widget types the executor runs — the ends of a subflow's chain */
+const EXECUTABLE_TYPES = ['job', 'user', 'subflow', 'router', 'map']
+
 // ── Types ────────────────────────────────────────────────────────────────────
 
+/** Nodes and edges of a workflow graph */
+export interface FlowGraph {
+    nodes: Node[]
+    edges: Edge[]
+}
+
 export interface FlowStudioApiOptions {
     /** Initial theme (default: 'wibeglow') */
     theme?: ThemeKey
@@ -149,6 +174,27 @@ export class FlowStudioApi {
         return { x, y }
     }
 
+    /**
+     * Calculate position for a node attached UNDER a source node
+     * (e.g. an expectation). Places 5gu below, X center-aligned;
+     * further attachments (`index` > 0) line up to the right, 1gu apart.
+     */
+    positionBelow(
+        sourceNode: Node,
+        newWidgetType: string,
+        newData?: Record<string, any>,
+        index = 0,
+    ): { x: number; y: number } {
+        const sourceW = getNodeWidth(sourceNode)
+        const sourceH = getNodeHeight(sourceNode)
+        const newW = newData?.width ?? getDefaultWidth(newWidgetType)
+
+        return {
+            x: sourceNode.position.x + sourceW / 2 - newW / 2 + index * (newW + GRID_CELL),
+            y: sourceNode.position.y + sourceH + SPACING,
+        }
+    }
+
     // ── Deletion ─────────────────────────────────────────────────────────
 
     /**
@@ -180,6 +226,171 @@ export class FlowStudioApi {
         }
     }
 
+    // ── Subflows ─────────────────────────────────────────────────────────
+
+    /**
+     * Why a selection can't be extracted to a subflow, or null when it can:
+     * a branch (an edge with a source handle or a condition other than on
+     * success — reject, router or conditional edges) leaving the selection has
+     * no equivalent on the single output of a subflow node.
+     */
+    extractBlocker(nodeIds: string[], nodes: Node[], edges: Edge[]): string | null {
+        const picked = new Set(nodes.filter(n => nodeIds.includes(n.id) && n.type !== 'starting').map(n => n.id))
+        const branch = edges.find(e => picked.has(e.source) && !picked.has(e.target) && (e.sourceHandle || (conditionOf(e)?.kind ?? 'success') !== 'success'))
+        if (!branch) return null
+        const source = nodes.find(n => n.id === branch.source)
+        return `a branch leaves the selection from "${source?.data?.label || branch.source}"`
+    }
+
+    /**
+     * Move a selection of nodes into a new workflow, replaced by one subflow
+     * node (`subflowNode.data` should link the workflow via `workflowId`).
+     *
+     * Edges crossing the selection are rewired to the subflow node, keeping
+     * their condition (and, incoming, their source handle). In the new workflow, a
+     * starting node feeds the nodes that had inputs from outside (or the
+     * selection's first nodes); its edges list the upstream node IDs those
+     * inputs were keyed by in `data.inputKeys`, so the nodes get the same
+     * inputs as before. Starting nodes are never extracted. A selection with
+     * an extractBlocker() is left as it is.
+     */
+    extractToSubflow(
+        nodeIds: string[],
+        nodes: Node[],
+        edges: Edge[],
+        subflowNode: { id: string; data: Record<string, any> },
+    ): FlowGraph & { workflow: FlowGraph } {
+        const picked = new Set(nodes.filter(n => nodeIds.includes(n.id) && n.type !== 'starting').map(n => n.id))
+        const inner = nodes.filter(n => picked.has(n.id))
+        if (inner.length === 0 || this.extractBlocker(nodeIds, nodes, edges)) {
+            return { nodes, edges, workflow: { nodes: [], edges: [] } }
+        }
+
+        const internal = edges.filter(e => picked.has(e.source) && picked.has(e.target))
+        const incoming = edges.filter(e => !picked.has(e.source) && picked.has(e.target))
+        const outgoing = edges.filter(e => picked.has(e.source) && !picked.has(e.target))
+
+        // ── New workflow: start → entry nodes, the selection keeps its layout ──
+        const start = this.createStartNode()
+        const box = boundsOf(inner)
+        const dx = start.position.x + getNodeWidth(start) + SPACING - box.x
+        const dy = start.position.y + getNodeHeight(start) / 2 - (box.y + box.height / 2)
+        const entries = incoming.length
+            ? [...new Set(incoming.map(e => e.target))]
+            : inner.filter(n => !internal.some(e => e.target === n.id)).map(n => n.id)
+        const entryEdge = (id: string): Edge => {
+            const edge = this.makeEdge(start.id, id)
+            if (!incoming.length) return edge
+            const inputKeys = [...new Set(incoming.filter(e => e.target === id).map(e => e.source))]
+            return { ...edge, data: { inputKeys } }
+        }
+        const workflow: FlowGraph = {
+            nodes: [start, ...inner.map(n => ({ ...n, selected: false, position: { x: n.position.x + dx, y: n.position.y + dy } }))],
+            edges: [...entries.map(entryEdge), ...internal],
+        }
+
+        // ── Parent: the subflow node takes the selection's place ──
+        const w = subflowNode.data.width ?? getDefaultWidth('subflow')
+        const h = subflowNode.data.height ?? getDefaultHeight('subflow')
+        const replacement: Node = {
+            id: subflowNode.id,
+            type: 'subflow',
+            position: { x: box.x + box.width / 2 - w / 2, y: box.y + box.height / 2 - h / 2 },
+            data: subflowNode.data,
+        }
+        // Incoming edges that differ in handle or condition stay apart, each with its own ID
+        const kept = edges.filter(e => !picked.has(e.source) && !picked.has(e.target))
+        const taken = new Set(kept.map(e => e.id))
+        const uniqueId = (id: string) => {
+            let unique = id
+            for (let n = 2; taken.has(unique); n++) unique = `${id}-${n}`
+            taken.add(unique)
+            return unique
+        }
+        const rewired = new Map<string, Edge>()
+        for (const e of incoming) {
+            const key = `${e.source}:${e.sourceHandle ?? ''}:${JSON.stringify(e.data?.condition ?? null)}`
+            if (rewired.has(key)) continue
+            const edge = this.makeEdge(e.source, replacement.id)
+            const id = uniqueId(e.sourceHandle ? `${edge.id}-${e.sourceHandle}` : edge.id)
+            rewired.set(key, { ...edge, id, sourceHandle: e.sourceHandle, data: e.data })
+        }
+        for (const e of outgoing) {
+            const edge = { ...this.makeEdge(replacement.id, e.target), data: e.data }
+            rewired.set(edge.id, edge)
+        }
+
+        return {
+            nodes: [...nodes.filter(n => !picked.has(n.id)), replacement],
+            edges: [...kept, ...rewired.values()],
+            workflow,
+        }
+    }
+
+    /**
+     * Why a subflow node can't be inlined, or null when it can: its input /
+     * output maps reshape the data crossing it, which plain edges can't do.
+     */
+    inlineBlocker(subflowNode: { data: Record<string, any> }): string | null {
+        const mapped = ['inputMap', 'outputMap'].filter(key => isValueMap(subflowNode.data[key]))
+        return mapped.length ? `it maps its data (${mapped.join(', ')}) — clear the map to inline it` : null
+    }
+
+    /**
+     * Expand a subflow node into the nodes of its workflow — the inverse of
+     * extractToSubflow(). The workflow's starting node is dropped: the subflow
+     * node's inputs feed what it fed (only those listed in an edge's
+     * `inputKeys`), and its last nodes feed the subflow node's targets.
+     * Node IDs that already exist on the board are renamed. A node with an
+     * inlineBlocker() is left as it is.
+     */
+    inlineSubflow(
+        subflowId: string,
+        nodes: Node[],
+        edges: Edge[],
+        workflow: FlowGraph,
+    ): FlowGraph {
+        const subflow = nodes.find(n => n.id === subflowId)
+        const starts = new Set(workflow.nodes.filter(n => n.type === 'starting').map(n => n.id))
+        const inner = workflow.nodes.filter(n => !starts.has(n.id))
+        if (!subflow || inner.length === 0 || this.inlineBlocker(subflow)) return { nodes, edges }
+
+        const taken = new Set(nodes.map(n => n.id))
+        const ids = new Map(inner.map(n => [n.id, taken.has(n.id) ? generateId('node') : n.id]))
+        const idOf = (id: string) => ids.get(id) ?? id
+
+        // Centered on the subflow node
+        const box = boundsOf(inner)
+        const dx = subflow.position.x + getNodeWidth(subflow) / 2 - (box.x + box.width / 2)
+        const dy = subflow.position.y + getNodeHeight(subflow) / 2 - (box.y + box.height / 2)
+        const placed = inner.map(n => ({ ...n, id: idOf(n.id), position: { x: n.position.x + dx, y: n.position.y + dy } }))
+
+        const internal = workflow.edges
+            .filter(e => ids.has(e.source) && ids.has(e.target))
+            .map(e => ({ ...e, id: `edge-${idOf(e.source)}-${idOf(e.target)}`, source: idOf(e.source), target: idOf(e.target) }))
+        const entryEdges = workflow.edges.filter(e => starts.has(e.source) && ids.has(e.target))
+        const executable = inner.filter(n => EXECUTABLE_TYPES.includes(n.type || ''))
+        const sinks = executable
+            .filter(n => !workflow.edges.some(e => e.source === n.id && executable.some(t => t.id === e.target)))
+            .map(n => idOf(n.id))
+
+        const bridged: Edge[] = []
+        for (const e of edges.filter(e => e.target === subflowId)) {
+            for (const entry of entryEdges) {
+                if (inputKeysOf(entry)?.includes(e.source) === false) continue
+                bridged.push({ ...this.makeEdge(e.source, idOf(entry.target)), sourceHandle: e.sourceHandle, data: e.data })
+            }
+        }
+        for (const e of edges.filter(e => e.source === subflowId)) {
+            for (const sink of sinks) bridged.push({ ...this.makeEdge(sink, e.target), data: e.data })
+        }
+
+        return {
+            nodes: [...nodes.filter(n => n.id !== subflowId), ...placed],
+            edges: [...edges.filter(e => e.source !== subflowId && e.target !== subflowId), ...internal, ...bridged],
+        }
+    }
+
     // ── Edge factory ─────────────────────────────────────────────────────
 
     /**
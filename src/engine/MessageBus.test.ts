@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { MessageBus } from './MessageBus'
+import { WorkflowExecutor } from './workflow-executor'
+import { nodeRunnerRegistry } from './node-runners'
+import type { WorkflowDoc } from './workflow-store'
+
+const nodes = [{ id: 'a', data: { label: 'A' } }, { id: 'b', data: { label: 'B' } }]
+const edges = [{ source: 'a', target: 'b' }]
+
+describe('MessageBus', () => {
+    it('delivers to contacts and refuses anyone else', () => {
+        const bus = new MessageBus(nodes, edges)
+        const hops: boolean[] = []
+        bus.tap(hop => hops.push(hop.delivered))
+
+        bus.get('a').send('b', 'text', 'hi')
+        expect(bus.get('b').getInbox().map(m => m.payload)).toEqual(['hi'])
+        expect(() => bus.get('b').send('nobody', 'text', 'lost')).toThrow('"nobody" is not a contact of "B"')
+        expect(hops).toEqual([true, false])
+    })
+
+    it('tracks online state in every contact list', () => {
+        const bus = new MessageBus(nodes, edges)
+        const changes: [string, boolean][] = []
+        bus.onPresence((id, online) => changes.push([id, online]))
+
+        expect(bus.isOnline('a')).toBe(false)
+        expect(bus.get('b').getContact('a')?.online).toBe(false)
+
+        bus.setOnline('a', true)
+        bus.setOnline('a', true)
+        expect(bus.isOnline('a')).toBe(true)
+        expect(bus.get('b').getContact('a')?.online).toBe(true)
+
+        bus.setOnline('a', false)
+        expect(changes).toEqual([['a', true], ['a', false]])
+    })
+})
+
+describe('presence during a run', () => {
+    nodeRunnerRegistry.register('job:presence', async (ctx) => ctx.node.id)
+
+    it('marks each node online while its runner runs', async () => {
+        const doc: WorkflowDoc = {
+            id: 'wf', name: 'Test', createdAt: 0, updatedAt: 0,
+            nodes: [
+                { id: 's', type: 'starting', position: { x: 0, y: 0 }, data: {} },
+                { id: 'a', type: 'job', position: { x: 0, y: 0 }, data: { subType: 'presence' } },
+            ],
+            edges: [{ id: 's-a', source: 's', target: 'a' }],
+        }
+        const bus = new MessageBus(doc.nodes, doc.edges)
+        const executor = new WorkflowExecutor(doc, { bus })
+        const seen: string[] = []
+        bus.onPresence((id, online) => seen.push(`${id} ${online ? 'online' : 'offline'} (${executor.getState().nodes[id].status})`))
+
+        await executor.run()
+        expect(seen).toEqual([
+            's online (running)', 's offline (done)',
+            'a online (running)', 'a offline (done)',
+        ])
+        expect(bus.isOnline('a')).toBe(false)
+    })
+})
@@ -0,0 +1,189 @@
+/**
+ * MessageBus — owns every AgentMessenger of a workflow and routes messages
+ * between them.
+ *
+ * Mental model:
+ *   The bus is the messenger "server". Contacts come from the graph — an
+ *   edge A → B makes B an `out` contact of A and A an `in` contact of B.
+ *   Subagents listed in `data.subagents` are `internal` contacts (both ways).
+ *   `send()` on a bus-owned messenger is delivered to the recipient's
+ *   `receive()`; sending to someone who isn't a contact throws.
+ *
+ *   Messages to 'system' have no recipient messenger — they go to the taps
+ *   only (the host app is the system).
+ *
+ *   A node is online while it runs: the WorkflowExecutor marks it online
+ *   when its runner starts and offline when it settles or is stopped (and a
+ *   sidecar job's node when the sidecar drops). Nodes start offline.
+ *
+ * Usage:
+ *   const bus = new MessageBus()
+ *   bus.sync(nodes, edges)
+ *   bus.tap(hop => console.log(hop.message.from, '→', hop.message.to))
+ *   bus.onPresence((nodeId, online) => console.log(nodeId, online ? 'online' : 'offline'))
+ *   bus.get('node-a').send('node-b', 'text', 'Hello!')
+ *   bus.get('node-b').getInbox() // [{ from: 'node-a', ... }]
+ */
+
+import { AgentMessenger, type Contact, type ContactId, type Message, type SystemCommand } from './AgentMessenger'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+/** A routed (or rejected) message, as seen by taps */
+export interface MessageHop {
+    message: Message
+    /** False when the bus refused the message */
+    delivered: boolean
+    /** Why the message was refused */
+    error?: string
+}
+
+interface BusNode {
+    id: string
+    data?: Record<string, any>
+}
+
+interface BusEdge {
+    source: string
+    target: string
+}
+
+// ── Bus ─────────────────────────────────────────────────────────────────────────
+
+export class MessageBus {
+    private messengers: Map<string, AgentMessenger> = new Map()
+    private names: Map<string, string> = new Map()
+    private online: Set<string> = new Set()
+    private taps: Set<(hop: MessageHop) => void> = new Set()
+    private presenceListeners: Set<(nodeId: string, online: boolean) => void> = new Set()
+
+    constructor(nodes: BusNode[] = [], edges: BusEdge[] = []) {
+        if (nodes.length) this.sync(nodes, edges)
+    }
+
+    // ── Messengers ──────────────────────────────────────────────────────────
+
+    /** Messenger of a node — created (and attached to the bus) on first use */
+    get(nodeId: string): AgentMessenger {
+        let m = this.messengers.get(nodeId)
+        if (!m) {
+            m = new AgentMessenger(nodeId)
+            m.attachTransport(msg => this.route(msg))
+            this.messengers.set(nodeId, m)
+        }
+        return m
+    }
+
+    has(nodeId: string): boolean {
+        return this.messengers.has(nodeId)
+    }
+
+    /** IDs of all nodes with a messenger on this bus */
+    nodeIds(): string[] {
+        return Array.from(this.messengers.keys())
+    }
+
+    /**
+     * Rebuild contacts from the graph. Messengers of removed nodes are
+     * dropped; inboxes and listeners of the others are kept.
+     */
+    sync(nodes: BusNode[], edges: BusEdge[]): void {
+        const ids = new Set(nodes.map(n => n.id))
+        for (const id of this.messengers.keys()) {
+            if (!ids.has(id)) this.messengers.delete(id)
+        }
+        for (const id of this.online) {
+            if (!ids.has(id)) this.online.delete(id)
+        }
+
+        this.names.clear()
+        for (const n of nodes) this.names.set(n.id, String(n.data?.label || n.id))
+
+        const contacts = new Map<string, Map<string, Contact['direction']>>()
+        const link = (from: string, to: string, direction: Contact['direction']) => {
+            if (from === to || !ids.has(from) || !ids.has(to)) return
+            if (!contacts.has(from)) contacts.set(from, new Map())
+            const existing = contacts.get(from)!.get(to)
+            // An edge wins over an internal link between the same pair
+            if (!existing || existing === 'internal') contacts.get(from)!.set(to, direction)
+        }
+        for (const n of nodes) {
+            const subagents: unknown = n.data?.subagents
+            if (!Array.isArray(subagents)) continue
+            for (const sub of subagents) {
+                link(n.id, String(sub), 'internal')
+                link(String(sub), n.id, 'internal')
+            }
+        }
+        for (const e of edges) {
+            link(e.source, e.target, 'out')
+            link(e.target, e.source, 'in')
+        }
+
+        for (const n of nodes) {
+            const m = this.get(n.id)
+            for (const c of m.getContacts()) m.removeContact(c.id)
+            for (const [id, direction] of contacts.get(n.id) ?? []) {
+                m.addContact({ id, name: this.names.get(id)!, direction, online: this.online.has(id) })
+            }
+        }
+    }
+
+    // ── Online state ────────────────────────────────────────────────────────
+
+    /** Mark a node online/offline — updates it in every contact list and tells the presence listeners */
+    setOnline(nodeId: string, online: boolean): void {
+        if (this.online.has(nodeId) === online) return
+        if (online) this.online.add(nodeId)
+        else this.online.delete(nodeId)
+        for (const m of this.messengers.values()) m.setOnline(nodeId, online)
+        this.presenceListeners.forEach(fn => fn(nodeId, online))
+    }
+
+    isOnline(nodeId: string): boolean {
+        return this.messengers.has(nodeId) && this.online.has(nodeId)
+    }
+
+    /** Observe nodes going online / offline. Returns unsubscribe function. */
+    onPresence(fn: (nodeId: string, online: boolean) => void): () => void {
+        this.presenceListeners.add(fn)
+        return () => { this.presenceListeners.delete(fn) }
+    }
+
+    // ── Routing ─────────────────────────────────────────────────────────────
+
+    /** Display name of a node (its label) */
+    nameOf(id: ContactId): string {
+        return id === 'system' ? 'System' : this.names.get(id) ?? id
+    }
+
+    /** Deliver a message sent by a bus-owned messenger. Throws for non-contacts. */
+    private route(msg: Message): void {
+        const sender = this.messengers.get(msg.from)
+        if (msg.to !== 'system' && !sender?.getContact(msg.to)) {
+            const error = `"${this.nameOf(msg.to)}" is not a contact of "${this.nameOf(msg.from)}"`
+            this.notifyTaps({ message: msg, delivered: false, error })
+            throw new Error(error)
+        }
+        this.notifyTaps({ message: msg, delivered: true })
+        if (msg.to !== 'system') this.messengers.get(msg.to)?.receive({ ...msg })
+    }
+
+    /** Send a system command to one node, or to every node when omitted */
+    systemCommand(cmd: SystemCommand, nodeId?: string): void {
+        const targets = nodeId ? [this.get(nodeId)] : Array.from(this.messengers.values())
+        for (const m of targets) m.systemCommand(cmd)
+    }
+
+    // ── Taps ────────────────────────────────────────────────────────────────
+
+    /** Observe every hop on the bus (e.g. for EventsPanel). Returns unsubscribe function. */
+    tap(fn: (hop: MessageHop) => void): () => void {
+        this.taps.add(fn)
+        return () => { this.taps.delete(fn) }
+    }
+
+    private notifyTaps(hop: MessageHop): void {
+        this.taps.forEach(fn => fn(hop))
+    }
+}
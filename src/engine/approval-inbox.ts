@@ -0,0 +1,142 @@
+/**
+ * ApprovalInbox — pending human approvals across every running workflow.
+ *
+ * Hosts hand each WorkflowExecutor to `track()`; while the run is live, its
+ * user nodes that are `waiting` show up as PendingApprovals. Decisions are
+ * forwarded to the owning executor (approve / reject / comment), which
+ * records them on the node and resumes or fails the run.
+ *
+ * Same subscribe/getState pattern as WorkflowExecutor. `approvalInbox` is
+ * the app-wide instance.
+ *
+ * Usage:
+ *   const untrack = approvalInbox.track(executor, workflow.name)
+ *   approvalInbox.subscribe(() => setPending(approvalInbox.getState()))
+ *   approvalInbox.approve(pending[0].key, 'LGTM')
+ */
+
+import type { RunState, WorkflowExecutor } from './workflow-executor'
+import { formSchemaOf } from './user-form'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export interface PendingApproval {
+    /** `${runId}:${nodeId}` */
+    key: string
+    runId: string
+    workflowId: string
+    workflowName: string
+    nodeId: string
+    nodeLabel: string
+    reviewTitle?: string
+    /** When the node started waiting */
+    since: number
+    /** Comments already sent on this node */
+    comments: number
+    /** The node has a form — it is filled in on the node, not approved from here */
+    hasForm: boolean
+}
+
+interface Tracked {
+    executor: WorkflowExecutor
+    workflowName: string
+    unsubscribe: () => void
+}
+
+const LIVE: RunState['status'][] = ['idle', 'running', 'paused']
+
+// ── Inbox ───────────────────────────────────────────────────────────────────────
+
+export class ApprovalInbox {
+    private runs: Map<string, Tracked> = new Map()
+    private pending: PendingApproval[] = []
+    private listeners: Set<() => void> = new Set()
+
+    /** Subscribe to changes. Returns unsubscribe function. */
+    subscribe(fn: () => void): () => void {
+        this.listeners.add(fn)
+        return () => { this.listeners.delete(fn) }
+    }
+
+    /** Pending approvals, oldest first */
+    getState(): PendingApproval[] {
+        return this.pending
+    }
+
+    /** Follow a run until it ends. Returns a function that stops following it. */
+    track(executor: WorkflowExecutor, workflowName: string): () => void {
+        const runId = executor.getState().runId
+        this.untrack(runId)
+        const unsubscribe = executor.subscribe(() => {
+            if (LIVE.includes(executor.getState().status)) this.refresh()
+            else this.untrack(runId)
+        })
+        this.runs.set(runId, { executor, workflowName, unsubscribe })
+        this.refresh()
+        return () => this.untrack(runId)
+    }
+
+    private untrack(runId: string) {
+        const tracked = this.runs.get(runId)
+        if (!tracked) return
+        tracked.unsubscribe()
+        this.runs.delete(runId)
+        this.refresh()
+    }
+
+    /** Rebuild the pending list from the tracked runs */
+    private refresh() {
+        const next: PendingApproval[] = []
+        for (const { executor, workflowName } of this.runs.values()) {
+            const run = executor.getState()
+            for (const nodeId of executor.waitingNodeIds()) {
+                const node = executor.doc.nodes.find(n => n.id === nodeId)!
+                const ns = run.nodes[nodeId]
+                next.push({
+                    key: `${run.runId}:${nodeId}`,
+                    runId: run.runId,
+                    workflowId: run.workflowId,
+                    workflowName,
+                    nodeId,
+                    nodeLabel: String(node.data.label || nodeId),
+                    reviewTitle: node.data.reviewTitle ? String(node.data.reviewTitle) : undefined,
+                    since: ns?.startedAt ?? 0,
+                    comments: ns?.decisions?.filter(d => d.action === 'comment').length ?? 0,
+                    hasForm: !!formSchemaOf(node.data),
+                })
+            }
+        }
+        next.sort((a, b) => a.since - b.since)
+
+        const same = next.length === this.pending.length &&
+            next.every((p, i) => p.key === this.pending[i].key && p.comments === this.pending[i].comments)
+        if (same) return
+        this.pending = next
+        this.listeners.forEach(fn => fn())
+    }
+
+    private find(key: string): { executor: WorkflowExecutor; nodeId: string } | null {
+        const item = this.pending.find(p => p.key === key)
+        const tracked = item && this.runs.get(item.runId)
+        return item && tracked ? { executor: tracked.executor, nodeId: item.nodeId } : null
+    }
+
+    // ── Decisions ───────────────────────────────────────────────────────────
+
+    approve(key: string, comment?: string): boolean {
+        const target = this.find(key)
+        return !!target && target.executor.approve(target.nodeId, comment)
+    }
+
+    reject(key: string, reason?: string): boolean {
+        const target = this.find(key)
+        return !!target && target.executor.reject(target.nodeId, reason)
+    }
+
+    comment(key: string, text: string): boolean {
+        const target = this.find(key)
+        return !!target && target.executor.comment(target.nodeId, text)
+    }
+}
+
+export const approvalInbox = new ApprovalInbox()
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+    DEFAULT_HANDLE, conditionHolds, conditionLabel, conditionOf, matchCase, routerCases, routerHandles,
+} from './conditions'
+import type { NodeRunState } from './workflow-executor'
+
+/** Run state of a finished source node */
+function source(patch: Partial<NodeRunState>): NodeRunState {
+    return { status: 'done', progress: 100, logs: [], execTime: '', artifacts: [], toolCalls: [], ...patch }
+}
+
+// ── Edge conditions ─────────────────────────────────────────────────────────────
+
+describe('conditionOf', () => {
+    it('reads the condition of a workflow edge or a canvas edge', () => {
+        expect(conditionOf({ condition: { kind: 'error' } })).toEqual({ kind: 'error' })
+        expect(conditionOf({ data: { condition: { kind: 'expression', expression: 'output.ok' } } }))
+            .toEqual({ kind: 'expression', expression: 'output.ok' })
+    })
+
+    it('ignores unknown kinds', () => {
+        expect(conditionOf({ condition: { kind: 'sometimes' } })).toBeUndefined()
+        expect(conditionOf({})).toBeUndefined()
+    })
+})
+
+describe('conditionHolds', () => {
+    it('follows a plain edge from a done source only', () => {
+        expect(conditionHolds(undefined, source({}))).toBe(true)
+        expect(conditionHolds(undefined, source({ status: 'error' }))).toBe(false)
+        expect(conditionHolds({ kind: 'success' }, source({ status: 'skipped' }))).toBe(false)
+    })
+
+    it('follows an error edge from a failed source', () => {
+        expect(conditionHolds({ kind: 'error' }, source({ status: 'error' }))).toBe(true)
+        expect(conditionHolds({ kind: 'error' }, source({}))).toBe(false)
+    })
+
+    it('follows an approval edge unless the source was rejected', () => {
+        expect(conditionHolds({ kind: 'approval' }, source({}))).toBe(true)
+        expect(conditionHolds({ kind: 'approval' }, source({ rejected: true }))).toBe(false)
+    })
+
+    it('evaluates an expression over output, status and error', () => {
+        const failed = source({ status: 'error', error: 'boom', output: { score: 0.9 } })
+        expect(conditionHolds({ kind: 'expression', expression: 'output.score > 0.5' }, failed)).toBe(true)
+        expect(conditionHolds({ kind: 'expression', expression: 'status === "error" && error === "boom"' }, failed)).toBe(true)
+        expect(conditionHolds({ kind: 'expression' }, failed)).toBe(false)
+    })
+
+    it('throws when the expression fails', () => {
+        expect(() => conditionHolds({ kind: 'expression', expression: 'window.localStorage' }, source({})))
+            .toThrow('window is not defined')
+    })
+})
+
+describe('conditionLabel', () => {
+    it('labels conditional edges only', () => {
+        expect(conditionLabel(undefined)).toBe('')
+        expect(conditionLabel({ kind: 'error' })).toBe('on error')
+        expect(conditionLabel({ kind: 'expression', expression: 'output.ok' })).toBe('if output.ok')
+        expect(conditionLabel({ kind: 'expression' })).toBe('if false')
+    })
+})
+
+// ── Routers ─────────────────────────────────────────────────────────────────────
+
+describe('routerCases', () => {
+    it('reads cases from an array or JSON text, naming unlabelled ones', () => {
+        const cases = [{ label: 'High', expression: 'input > 1' }, { expression: 'input < 0' }]
+        expect(routerCases({ cases })).toEqual([
+            { label: 'High', expression: 'input > 1' },
+            { label: 'Case 2', expression: 'input < 0' },
+        ])
+        expect(routerCases({ cases: JSON.stringify(cases) })).toHaveLength(2)
+    })
+
+    it('drops invalid cases', () => {
+        expect(routerCases({ cases: '[not json' })).toEqual([])
+        expect(routerCases({ cases: [null, { label: 'No expression' }, { expression: 'true' }] }))
+            .toEqual([{ label: 'Case 1', expression: 'true' }])
+    })
+
+    it('gives every case a handle, then the default', () => {
+        expect(routerHandles({ cases: [{ expression: 'a' }, { expression: 'b' }] })).toEqual(['case-0', 'case-1', DEFAULT_HANDLE])
+    })
+})
+
+describe('matchCase', () => {
+    const cases = routerCases({
+        cases: [
+            { label: 'Broken', expression: 'input.missing.deep' },
+            { label: 'High', expression: 'input.score > 0.5' },
+            { label: 'Any', expression: 'true' },
+        ],
+    })
+
+    it('takes the first case that holds, reporting the ones that threw', () => {
+        expect(matchCase(cases, { score: 0.9 })).toEqual({
+            handle: 'case-1',
+            label: 'High',
+            errors: ["Broken: Cannot read properties of undefined (reading 'deep')"],
+        })
+    })
+
+    it('falls back to the default branch', () => {
+        expect(matchCase(cases.slice(0, 2), { score: 0.1 })).toMatchObject({ handle: DEFAULT_HANDLE, label: 'Default' })
+    })
+
+    it('has the inputs by source in scope', () => {
+        const bySource = routerCases({ cases: [{ label: 'A', expression: 'inputs.a === 1' }] })
+        expect(matchCase(bySource, undefined, { a: 1 }).handle).toBe('case-0')
+    })
+})
@@ -0,0 +1,145 @@
+/**
+ * Conditions — branching in a workflow.
+ *
+ * Edges may carry a condition (`WorkflowEdge.condition`), checked when their
+ * source node finishes:
+ *   - success    — the source is done (also the default without a condition)
+ *   - error      — the source failed; the failure is then handled by this branch
+ *   - approval   — the source (a user node) was approved
+ *   - expression — an expression over `output`, `status` and `error` is truthy
+ *
+ * A `router` node picks one branch: its ordered cases (`data.cases`, each a
+ * label + expression over `input`) are tried in turn and the first truthy one
+ * wins; its edges leave from the matching handle (`case-<index>`), or from
+ * `default` when none matches.
+ *
+ * Nodes whose incoming branches were all not taken end as `skipped`.
+ *
+ * Usage:
+ *   const holds = conditionHolds({ kind: 'expression', expression: 'output.score > 0.5' }, nodeRunState)
+ *   const { handle, label } = matchCase(routerCases(node.data), input)
+ */
+
+import type { NodeRunState } from './workflow-executor'
+import { evaluate } from './expressions'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export type EdgeConditionKind = 'success' | 'error' | 'approval' | 'expression'
+
+export interface EdgeCondition {
+    kind: EdgeConditionKind
+    /** Expression (kind 'expression', see expressions.ts) — `output`, `status` and `error` are in scope */
+    expression?: string
+}
+
+/** A router branch */
+export interface RouterCase {
+    label: string
+    /** Expression (see expressions.ts) — `input` (the router's input) and `inputs` (by source node) are in scope */
+    expression: string
+}
+
+/** Handle of the branch a router takes when no case matches */
+export const DEFAULT_HANDLE = 'default'
+
+export const CONDITION_KINDS: { value: EdgeConditionKind; label: string }[] = [
+    { value: 'success', label: 'On success' },
+    { value: 'error', label: 'On error' },
+    { value: 'approval', label: 'On approval' },
+    { value: 'expression', label: 'Custom' },
+]
+
+// ── Expressions ─────────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate an expression with the given variables in scope — in the
+ * restricted expression language (see expressions.ts), never as JS, so it
+ * cannot reach the page or hang the builder. Throws on syntax / runtime errors.
+ */
+export function evaluateExpression(expression: string, scope: Record<string, unknown>): unknown {
+    return evaluate(expression, scope)
+}
+
+// ── Edge conditions ─────────────────────────────────────────────────────────────
+
+/** Condition of an edge — `condition` on a WorkflowEdge, `data.condition` on a canvas edge */
+export function conditionOf(edge: { condition?: unknown; data?: Record<string, unknown> }): EdgeCondition | undefined {
+    const condition = (edge.condition ?? edge.data?.condition) as EdgeCondition | undefined
+    return condition && CONDITION_KINDS.some(k => k.value === condition.kind) ? condition : undefined
+}
+
+/**
+ * Whether an edge with `condition` is followed from a finished source node.
+ * A failing expression counts as false; the error is thrown for the caller to log.
+ */
+export function conditionHolds(condition: EdgeCondition | undefined, source: NodeRunState): boolean {
+    switch (condition?.kind ?? 'success') {
+        case 'error':
+            return source.status === 'error'
+        case 'approval':
+            return source.status === 'done' && !source.rejected
+        case 'expression':
+            return !!evaluateExpression(condition?.expression || 'false', {
+                output: source.output, status: source.status, error: source.error,
+            })
+        default:
+            return source.status === 'done'
+    }
+}
+
+/** Short edge label, e.g. "on error" or "if output.ok" — empty for plain edges */
+export function conditionLabel(condition: EdgeCondition | undefined): string {
+    switch (condition?.kind) {
+        case 'error': return 'on error'
+        case 'approval': return 'on approval'
+        case 'expression': return `if ${condition.expression || 'false'}`
+        case 'success': return 'on success'
+        default: return ''
+    }
+}
+
+// ── Routers ─────────────────────────────────────────────────────────────────────
+
+/** A router's cases — `data.cases` as an array or JSON text */
+export function routerCases(data: Record<string, any>): RouterCase[] {
+    let cases: unknown = data.cases
+    if (typeof cases === 'string') {
+        try {
+            cases = JSON.parse(cases)
+        } catch {
+            return []
+        }
+    }
+    if (!Array.isArray(cases)) return []
+    return cases
+        .filter(c => c && typeof c === 'object' && typeof c.expression === 'string')
+        .map((c, i) => ({ label: String(c.label || `Case ${i + 1}`), expression: c.expression }))
+}
+
+export const caseHandle = (index: number) => `case-${index}`
+
+/** Source handles of a router, in order — one per case, then `default` */
+export function routerHandles(data: Record<string, any>): string[] {
+    return [...routerCases(data).map((_, i) => caseHandle(i)), DEFAULT_HANDLE]
+}
+
+/**
+ * First case whose expression holds for `input`. Cases that throw are
+ * reported in `errors` and treated as not matching.
+ */
+export function matchCase(
+    cases: RouterCase[],
+    input: unknown,
+    inputs: Record<string, unknown> = {},
+): { handle: string; label: string; errors: string[] } {
+    const errors: string[] = []
+    for (const [i, c] of cases.entries()) {
+        try {
+            if (evaluateExpression(c.expression, { input, inputs })) return { handle: caseHandle(i), label: c.label, errors }
+        } catch (err: unknown) {
+            errors.push(`${c.label}: ${err instanceof Error ? err.message : String(err)}`)
+        }
+    }
+    return { handle: DEFAULT_HANDLE, label: 'Default', errors }
+}
@@ -11,6 +11,7 @@ export {
     shortId,
     deepClone,
     now,
+    formatDuration,
     truncate,
     capitalize,
 } from './utils'
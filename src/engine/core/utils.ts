@@ -50,6 +50,21 @@ export function now(): number {
     return Date.now()
 }
 
+/**
+ * Format a duration in milliseconds for display on node cards.
+ *
+ * @example formatDuration(340)    // "340ms"
+ * @example formatDuration(1320)   // "1.3s"
+ * @example formatDuration(95000)  // "1m 35s"
+ */
+export function formatDuration(ms: number): string {
+    if (ms < 1000) return `${Math.round(ms)}ms`
+    if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+    const m = Math.floor(ms / 60_000)
+    const s = Math.round((ms % 60_000) / 1000)
+    return `${m}m ${s}s`
+}
+
 // ── String helpers ───────────────────────────────────────────────────────────────
 
 /** Truncate a string to `max` characters */
@@ -0,0 +1,190 @@
+/**
+ * ExecutionContext — the `ctx` object passed to `activate(ctx)` in scripts.
+ *
+ * The serializable part (node, neighbors, inputs, params) is built on the main thread
+ * from the workflow graph and shipped to the script worker; the functions
+ * (log, progress, emitArtifact, toolCall, getSecret) are bridged back over the worker
+ * protocol (see script-worker.ts).
+ *
+ * CONTEXT_API describes every member once. It drives both the TypeScript
+ * declaration (EXECUTION_CONTEXT_DTS) and editor autocomplete.
+ *
+ * Usage:
+ *   const { leftNode, rightNode } = neighborsOf(nodes, edges, nodeId)
+ *   const data: ExecutionContextData = { node: toNodeInfo(node), leftNode, rightNode, inputs, params }
+ */
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+/** JSON-safe snapshot of a node as seen by scripts */
+export interface NodeInfo {
+    id: string
+    name: string
+    type: string
+    subType: string
+    data: Record<string, unknown>
+}
+
+/** A named output produced by a script via ctx.emitArtifact() */
+export interface Artifact {
+    name: string
+    content: unknown
+    mimeType?: string
+    nodeId: string
+    timestamp: number
+}
+
+/** A tool invocation reported by a script via ctx.toolCall() */
+export interface ToolCall {
+    name: string
+    args?: unknown
+    nodeId: string
+    timestamp: number
+}
+
+/** Serializable part of the context — what the worker receives */
+export interface ExecutionContextData {
+    node: NodeInfo
+    /** First upstream neighbor (source of an incoming edge) */
+    leftNode: NodeInfo | null
+    /** First downstream neighbor (target of an outgoing edge) */
+    rightNode: NodeInfo | null
+    /** Outputs of completed upstream nodes, keyed by source node ID */
+    inputs: Record<string, unknown>
+    /** The run's workflow parameters, by name */
+    params: Record<string, unknown>
+}
+
+/** Resolves a secret by integration ID or env key */
+export type SecretResolver = (name: string) => string | undefined | Promise<string | undefined>
+
+interface GraphNode {
+    id: string
+    type?: string
+    data: Record<string, any>
+}
+
+interface GraphEdge {
+    source: string
+    target: string
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────────
+
+/** Drop functions and other non-cloneable values from node data */
+function plainData(data: Record<string, any>): Record<string, unknown> {
+    try {
+        return JSON.parse(JSON.stringify(data ?? {}))
+    } catch {
+        return {}
+    }
+}
+
+/** Snapshot a canvas/workflow node as NodeInfo */
+export function toNodeInfo(node: GraphNode): NodeInfo {
+    const type = node.type || 'job'
+    return {
+        id: node.id,
+        name: String(node.data?.label || node.id),
+        type,
+        subType: String(node.data?.subType || (type === 'job' ? 'ai' : 'default')),
+        data: plainData(node.data),
+    }
+}
+
+/**
+ * Left/right neighbors of a node, derived from edges.
+ * Pass a `filter` to ignore nodes that don't take part in control flow.
+ */
+export function neighborsOf<N extends GraphNode>(
+    nodes: N[],
+    edges: GraphEdge[],
+    nodeId: string,
+    filter: (node: N) => boolean = () => true,
+): { leftNode: NodeInfo | null; rightNode: NodeInfo | null } {
+    const find = (id: string) => nodes.find(n => n.id === id && filter(n))
+    const left = edges.filter(e => e.target === nodeId).map(e => find(e.source)).find(Boolean)
+    const right = edges.filter(e => e.source === nodeId).map(e => find(e.target)).find(Boolean)
+    return {
+        leftNode: left ? toNodeInfo(left) : null,
+        rightNode: right ? toNodeInfo(right) : null,
+    }
+}
+
+// ── API description ─────────────────────────────────────────────────────────────
+
+export interface ApiMember {
+    /** TypeScript type (or call signature for methods) */
+    type: string
+    /** One-line description */
+    doc: string
+    /** Nested members for object types */
+    members?: Record<string, ApiMember>
+}
+
+const NODE_INFO_MEMBERS: Record<string, ApiMember> = {
+    id: { type: 'string', doc: 'Node ID' },
+    name: { type: 'string', doc: 'Node label' },
+    type: { type: 'string', doc: "Widget type (e.g. 'job')" },
+    subType: { type: 'string', doc: "Widget subtype (e.g. 'js')" },
+    data: { type: 'Record<string, any>', doc: 'Node data (settings)' },
+}
+
+export const CONTEXT_API: Record<string, ApiMember> = {
+    node: { type: 'NodeInfo', doc: 'The current node', members: NODE_INFO_MEMBERS },
+    leftNode: { type: 'NodeInfo | null', doc: 'Upstream neighbor (incoming edge)', members: NODE_INFO_MEMBERS },
+    rightNode: { type: 'NodeInfo | null', doc: 'Downstream neighbor (outgoing edge)', members: NODE_INFO_MEMBERS },
+    inputs: { type: 'Record<string, any>', doc: 'Outputs of upstream nodes, keyed by node ID' },
+    params: { type: 'Record<string, any>', doc: 'Workflow parameters of the run (set on the starting node)' },
+    messenger: {
+        type: 'Messenger', doc: "The node's messenger",
+        members: {
+            send: { type: '(to: string, type: string, payload?: any) => void', doc: 'Send a message to a contact' },
+        },
+    },
+    log: { type: '(...args: any[]) => void', doc: "Append a line to the node's logs" },
+    progress: { type: '(pct: number) => void', doc: 'Report completion percentage (0-100)' },
+    checkpoint: { type: '() => Promise<void>', doc: 'Await point — holds here while the node is paused' },
+    emitArtifact: { type: '(name: string, content: any, mimeType?: string) => void', doc: 'Publish a named artifact' },
+    toolCall: { type: '(name: string, args?: any) => void', doc: 'Record a tool call (checked by tool-call expectations)' },
+    getSecret: { type: '(name: string) => Promise<string | undefined>', doc: 'Read an integration secret (e.g. "github")' },
+}
+
+/** Top-level names available to scripts (for editor autocomplete) */
+export const SCRIPT_SCOPE: Record<string, ApiMember> = {
+    ctx: { type: 'Context', doc: 'Execution context', members: CONTEXT_API },
+    messenger: CONTEXT_API.messenger,
+    nodeName: { type: 'string', doc: 'Label of the current node' },
+}
+
+// ── TypeScript declaration ──────────────────────────────────────────────────────
+
+function memberLines(members: Record<string, ApiMember>, indent: string): string[] {
+    return Object.entries(members).flatMap(([name, m]) => [
+        `${indent}/** ${m.doc} */`,
+        `${indent}${name}: ${m.type}`,
+    ])
+}
+
+/**
+ * Ambient declaration for script editors — `activate(ctx: Context)` and the
+ * top-level `ctx` are fully typed.
+ */
+export const EXECUTION_CONTEXT_DTS = [
+    'declare interface NodeInfo {',
+    ...memberLines(NODE_INFO_MEMBERS, '    '),
+    '}',
+    '',
+    'declare interface Messenger {',
+    ...memberLines(CONTEXT_API.messenger.members!, '    '),
+    '}',
+    '',
+    'declare interface Context {',
+    ...memberLines(CONTEXT_API, '    '),
+    '}',
+    '',
+    'declare const ctx: Context',
+    'declare const messenger: Messenger',
+    'declare const nodeName: string',
+    '',
+].join('\n')
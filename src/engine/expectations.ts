@@ -0,0 +1,244 @@
+/**
+ * Expectations — automatic checks of a job's run result.
+ *
+ * An expectation node is attached to a job by an edge (job → expectation).
+ * When the job finishes, the WorkflowExecutor evaluates every attached
+ * expectation against the job's NodeRunState and records a verdict —
+ * `pass` or `fail` with a one-line explanation — in RunState.expectations.
+ *
+ * Evaluators are keyed by the expectation's subType:
+ *   - 'artifact'  — an artifact named `data.target` was emitted
+ *   - 'tool-call' — tool `data.target` was called (via ctx.toolCall);
+ *                   `data.args`, when set, must match one call's arguments
+ *   - 'output'    — the output matches `data.schema` (JSON Schema subset)
+ *                   and/or `data.pattern` (regex)
+ *
+ * Argument matchers are partial: only the keys listed are compared, nested
+ * objects recurse, and a string written as `/regex/flags` is tested against
+ * the actual value.
+ *
+ * Usage:
+ *   expectationRegistry.register('exit-code', (data, job) => ({ status: 'pass', explanation: '…' }))
+ *   const verdict = evaluateExpectation(expectationNode, jobRunState)
+ */
+
+import { Registry } from './core'
+import type { NodeRunState } from './workflow-executor'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+/** Same values as the expectation stateSchema (S_ASSERTION) */
+export type ExpectationStatus = 'pending' | 'pass' | 'fail'
+
+export interface ExpectationVerdict {
+    status: 'pass' | 'fail'
+    explanation: string
+}
+
+/** Result of one expectation in a run */
+export interface ExpectationResult {
+    /** The job the expectation is attached to */
+    jobId: string
+    status: ExpectationStatus
+    explanation?: string
+}
+
+/** Checks an expectation's settings (node data) against a finished job */
+export type ExpectationEvaluator = (data: Record<string, any>, job: NodeRunState) => ExpectationVerdict
+
+// ── Helpers ─────────────────────────────────────────────────────────────────────
+
+const pass = (explanation: string): ExpectationVerdict => ({ status: 'pass', explanation })
+const fail = (explanation: string): ExpectationVerdict => ({ status: 'fail', explanation })
+
+/** Short, single-line rendering of a value for explanations */
+function show(value: unknown): string {
+    const text = value === undefined ? 'undefined' : JSON.stringify(value) ?? String(value)
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+/** `deploy()` and `deploy` name the same tool */
+function toolName(target: string): string {
+    return target.trim().replace(/\(.*\)$/, '')
+}
+
+/** Parse `/source/flags` into a RegExp; null for any other string */
+function regexLiteral(text: string): RegExp | null {
+    const m = /^\/(.+)\/([a-z]*)$/.exec(text)
+    return m ? new RegExp(m[1], m[2]) : null
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** JSON settings may arrive as text (settings panel) or already parsed */
+function parseJsonSetting(value: unknown, name: string): unknown {
+    if (typeof value !== 'string') return value
+    try {
+        return JSON.parse(value)
+    } catch (err: unknown) {
+        throw new Error(`Invalid ${name}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+}
+
+// ── Matching ────────────────────────────────────────────────────────────────────
+
+/** Partial match of tool-call arguments. Returns the first mismatch, or null. */
+export function matchArgs(expected: unknown, actual: unknown, path = '$'): string | null {
+    if (typeof expected === 'string') {
+        const re = regexLiteral(expected)
+        if (re) return re.test(typeof actual === 'string' ? actual : show(actual)) ? null : `${path}: ${show(actual)} does not match ${expected}`
+    }
+    if (isPlainObject(expected)) {
+        if (!isPlainObject(actual)) return `${path}: expected an object, got ${show(actual)}`
+        for (const [key, value] of Object.entries(expected)) {
+            const mismatch = matchArgs(value, actual[key], `${path}.${key}`)
+            if (mismatch) return mismatch
+        }
+        return null
+    }
+    return JSON.stringify(expected) === JSON.stringify(actual) ? null : `${path}: expected ${show(expected)}, got ${show(actual)}`
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'array'
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer'
+    return typeof value
+}
+
+/**
+ * Validate a value against a JSON Schema subset — type, enum, const,
+ * properties / required / additionalProperties, items / minItems / maxItems,
+ * minLength / maxLength / pattern, minimum / maximum.
+ * Returns the first violation, or null.
+ */
+export function validateSchema(value: unknown, schema: Record<string, any>, path = '$'): string | null {
+    if (schema.type !== undefined) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+        const actual = typeOf(value)
+        const ok = types.some(t => t === actual || (t === 'number' && actual === 'integer'))
+        if (!ok) return `${path}: expected ${types.join(' | ')}, got ${actual}`
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => JSON.stringify(e) === JSON.stringify(value))) {
+        return `${path}: ${show(value)} is not one of ${show(schema.enum)}`
+    }
+    if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        return `${path}: expected ${show(schema.const)}, got ${show(value)}`
+    }
+
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) return `${path}: shorter than ${schema.minLength}`
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) return `${path}: longer than ${schema.maxLength}`
+        if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) return `${path}: does not match /${schema.pattern}/`
+    }
+    if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) return `${path}: ${value} < ${schema.minimum}`
+        if (typeof schema.maximum === 'number' && value > schema.maximum) return `${path}: ${value} > ${schema.maximum}`
+    }
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) return `${path}: fewer than ${schema.minItems} items`
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) return `${path}: more than ${schema.maxItems} items`
+        if (isPlainObject(schema.items)) {
+            for (let i = 0; i < value.length; i++) {
+                const err = validateSchema(value[i], schema.items, `${path}[${i}]`)
+                if (err) return err
+            }
+        }
+    }
+    if (isPlainObject(value)) {
+        for (const key of Array.isArray(schema.required) ? schema.required : []) {
+            if (!(key in value)) return `${path}: missing required property "${key}"`
+        }
+        const properties: Record<string, any> = isPlainObject(schema.properties) ? schema.properties : {}
+        for (const [key, sub] of Object.entries(properties)) {
+            if (!(key in value)) continue
+            const err = validateSchema(value[key], sub, `${path}.${key}`)
+            if (err) return err
+        }
+        if (schema.additionalProperties === false) {
+            const extra = Object.keys(value).find(key => !(key in properties))
+            if (extra) return `${path}: unexpected property "${extra}"`
+        }
+    }
+    return null
+}
+
+// ── Built-in evaluators ─────────────────────────────────────────────────────────
+
+const evalArtifact: ExpectationEvaluator = (data, job) => {
+    const target = String(data.target || '').trim()
+    if (!target) return fail('No artifact name configured')
+    if (job.artifacts.some(a => a.name === target)) return pass(`Artifact "${target}" was produced`)
+    const produced = job.artifacts.map(a => a.name)
+    return fail(`Artifact "${target}" was not produced${produced.length ? ` (got ${produced.join(', ')})` : ''}`)
+}
+
+const evalToolCall: ExpectationEvaluator = (data, job) => {
+    const name = toolName(String(data.target || ''))
+    if (!name) return fail('No tool name configured')
+    const calls = (job.toolCalls ?? []).filter(c => c.name === name)
+    if (calls.length === 0) return fail(`${name} was not called`)
+
+    const args = parseJsonSetting(data.args, 'args matcher')
+    if (args === undefined || args === null || args === '') {
+        return pass(`${name} was called${calls.length > 1 ? ` ${calls.length}×` : ''}`)
+    }
+    let mismatch: string | null = null
+    for (const call of calls) {
+        mismatch = matchArgs(args, call.args)
+        if (!mismatch) return pass(`${name} was called with matching args`)
+    }
+    return fail(`${name} was called, but args differ — ${mismatch}`)
+}
+
+const evalOutput: ExpectationEvaluator = (data, job) => {
+    if (job.status === 'error') return fail(`Job failed: ${job.error ?? 'unknown error'}`)
+    const schema = parseJsonSetting(data.schema || undefined, 'schema')
+    const pattern = String(data.pattern || '')
+    if (schema === undefined && !pattern) return fail('No schema or pattern configured')
+
+    if (schema !== undefined) {
+        if (!isPlainObject(schema)) return fail('Invalid schema: expected a JSON object')
+        const err = validateSchema(job.output, schema)
+        if (err) return fail(`Output violates schema — ${err}`)
+    }
+    if (pattern) {
+        const re = regexLiteral(pattern) ?? new RegExp(pattern)
+        const text = typeof job.output === 'string' ? job.output : JSON.stringify(job.output) ?? ''
+        if (!re.test(text)) return fail(`Output ${show(job.output)} does not match ${re}`)
+    }
+    return pass(schema !== undefined && pattern ? 'Output matches schema and pattern'
+        : schema !== undefined ? 'Output matches schema' : `Output matches ${pattern}`)
+}
+
+// ── Registry API ────────────────────────────────────────────────────────────────
+
+class ExpectationRegistry extends Registry<ExpectationEvaluator> {}
+
+export const expectationRegistry = new ExpectationRegistry([
+    ['artifact', evalArtifact],
+    ['tool-call', evalToolCall],
+    ['output', evalOutput],
+])
+
+/** Expectation subType — `data.variant` wins, like ExpectationNode */
+export function expectationSubType(data: Record<string, any>): string {
+    return String(data.variant || data.subType || 'artifact')
+}
+
+/** Evaluate one expectation node against the finished job it is attached to */
+export function evaluateExpectation(
+    node: { data: Record<string, any> },
+    job: NodeRunState,
+): ExpectationVerdict {
+    const subType = expectationSubType(node.data)
+    const evaluator = expectationRegistry.get(subType)
+    if (!evaluator) return fail(`No evaluator for "${subType}" expectations`)
+    try {
+        return evaluator(node.data, job)
+    } catch (err: unknown) {
+        return fail(err instanceof Error ? err.message : String(err))
+    }
+}
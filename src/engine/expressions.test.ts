@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { evaluate, parseExpression } from './expressions'
+
+describe('evaluate', () => {
+    it('follows JS precedence and semantics', () => {
+        expect(evaluate('1 + 2 * 3 % 4', {})).toBe(3)
+        expect(evaluate('(1 + 2) * 3', {})).toBe(9)
+        expect(evaluate('-x + +"2"', { x: 1 })).toBe(1)
+        expect(evaluate('a || b && c', { a: 0, b: 1, c: 'c' })).toBe('c')
+        expect(evaluate('a ?? "fallback"', { a: null })).toBe('fallback')
+        expect(evaluate('1 == "1" && 1 !== "1"', {})).toBe(true)
+        expect(evaluate('score > 0.5 ? "high" : "low"', { score: 0.9 })).toBe('high')
+        expect(evaluate('typeof output', { output: {} })).toBe('object')
+    })
+
+    it('reads literals, arrays and members', () => {
+        expect(evaluate("['a', \"b\\n\", 1.5e1, true, null, undefined]", {})).toEqual(['a', 'b\n', 15, true, null, undefined])
+        expect(evaluate('output.items[1].name', { output: { items: [{}, { name: 'x' }] } })).toBe('x')
+        expect(evaluate('output["key"]', { output: { key: 3 } })).toBe(3)
+    })
+
+    it('short-circuits optional chains on nullish values', () => {
+        expect(evaluate('output?.a.b.c', { output: null })).toBeUndefined()
+        expect(evaluate('output?.[k]', { output: undefined, k: 'a' })).toBeUndefined()
+        expect(evaluate('output.a?.b', { output: {} })).toBeUndefined()
+        expect(evaluate('output.name?.trim()', { output: {} })).toBeUndefined()
+        expect(() => evaluate('output.a.b', { output: {} })).toThrow("Cannot read properties of undefined (reading 'b')")
+    })
+
+    it('parses `a?.5:1` as a ternary', () => {
+        expect(evaluate('a?.5:1', { a: true })).toBe(0.5)
+        expect(evaluate('a?.5:1', { a: false })).toBe(1)
+    })
+
+    it('calls the allowed string and array methods only', () => {
+        expect(evaluate('input.tags.includes("bug")', { input: { tags: ['bug'] } })).toBe(true)
+        expect(evaluate('name.toUpperCase().startsWith("AD")', { name: 'ada' })).toBe(true)
+        expect(evaluate('"a,b".split(",").join("+")', {})).toBe('a+b')
+        expect(() => evaluate('list.map(x)', { list: [], x: 1 })).toThrow('map() is not available in expressions')
+        expect(() => evaluate('"x".constructor("return 1")', {})).toThrow('constructor() is not available')
+        expect(() => evaluate('f()', { f: () => 1 })).toThrow('Only string and array methods can be called')
+    })
+})
+
+// ── Sandbox ─────────────────────────────────────────────────────────────────────
+
+describe('sandbox', () => {
+    it('only sees the variables in scope', () => {
+        expect(() => evaluate('window.localStorage.length >= 0', { output: 1 })).toThrow('window is not defined')
+        expect(() => evaluate('globalThis', {})).toThrow('globalThis is not defined')
+        expect(evaluate("typeof window === 'undefined'", {})).toBe(true)
+    })
+
+    it('reads own properties only', () => {
+        expect(evaluate('output.constructor', { output: {} })).toBeUndefined()
+        expect(evaluate('output.__proto__', { output: {} })).toBeUndefined()
+        expect(() => evaluate('toString', Object.create({ toString: 1 }))).toThrow('toString is not defined')
+        expect(() => evaluate('constructor', {})).toThrow('constructor is not defined')
+        expect(() => evaluate('hasOwnProperty', {})).toThrow('hasOwnProperty is not defined')
+    })
+})
+
+// ── Syntax errors ───────────────────────────────────────────────────────────────
+
+describe('parseExpression', () => {
+    it('throws a SyntaxError on invalid input', () => {
+        expect(() => parseExpression('a +')).toThrow('Unexpected end of expression')
+        expect(() => parseExpression('a b')).toThrow('Unexpected token "b"')
+        expect(() => parseExpression('"open')).toThrow('Unterminated string')
+        expect(() => parseExpression('a = 1')).toThrow('Unexpected character "="')
+        expect(() => parseExpression('a;')).toThrow(SyntaxError)
+    })
+
+    it('builds a tree without evaluating it', () => {
+        expect(parseExpression('a.b')).toEqual({
+            kind: 'member', object: { kind: 'name', name: 'a' }, property: { kind: 'literal', value: 'b' }, optional: false,
+        })
+    })
+})
@@ -0,0 +1,321 @@
+/**
+ * Expressions — a small, restricted expression language for edge conditions
+ * and router cases (see conditions.ts).
+ *
+ * Expressions are parsed and evaluated here rather than run as JS, so they
+ * cannot reach `window`, `localStorage` or the integration tokens, and
+ * cannot loop (there are no statements or functions to write one with).
+ *
+ * Supported (JS syntax and semantics):
+ *   - literals: numbers, 'strings' / "strings", true, false, null,
+ *     undefined, [arrays]
+ *   - names of the variables in scope only — anything else is "not defined"
+ *   - member access: a.b, a[0], a?.b, a?.[k] — own properties only, so
+ *     `constructor` / `__proto__` read as undefined
+ *   - calls to a few string / array methods: includes, startsWith,
+ *     endsWith, indexOf, slice, toLowerCase, toUpperCase, trim, split, join
+ *   - operators: ! - + typeof, * / %, + -, < <= > >=, === !== == !=,
+ *     && || ??, a ? b : c, ( … )
+ *
+ * Usage:
+ *   evaluate('output.score > 0.5 && status === "done"', { output, status })
+ *   parseExpression('input.tags.includes("bug")')   // throws on a syntax error
+ */
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export type ExpressionNode =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'name'; name: string }
+    | { kind: 'array'; items: ExpressionNode[] }
+    | { kind: 'member'; object: ExpressionNode; property: ExpressionNode; optional: boolean }
+    | { kind: 'call'; callee: ExpressionNode; args: ExpressionNode[]; optional: boolean }
+    | { kind: 'unary'; op: string; arg: ExpressionNode }
+    | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'conditional'; test: ExpressionNode; then: ExpressionNode; else: ExpressionNode }
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'name'; value: string }
+    | { type: 'punct'; value: string }
+
+const PUNCTUATORS = [
+    '===', '!==', '?.', '??', '&&', '||', '==', '!=', '<=', '>=',
+    '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']',
+]
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined }
+
+/** Binary operators by precedence, loosest first */
+const BINARY_LEVELS = [
+    ['??'],
+    ['||'],
+    ['&&'],
+    ['===', '!==', '==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+]
+
+const STRING_METHODS = new Set(['includes', 'startsWith', 'endsWith', 'indexOf', 'slice', 'toLowerCase', 'toUpperCase', 'trim', 'split'])
+const ARRAY_METHODS = new Set(['includes', 'indexOf', 'slice', 'join'])
+
+// ── Tokenizer ───────────────────────────────────────────────────────────────────
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = []
+    let i = 0
+    while (i < source.length) {
+        const ch = source[i]
+        if (/\s/.test(ch)) {
+            i++
+            continue
+        }
+        const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]) })
+            i += number[0].length
+            continue
+        }
+        const name = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))
+        if (name) {
+            tokens.push({ type: 'name', value: name[0] })
+            i += name[0].length
+            continue
+        }
+        if (ch === '"' || ch === "'") {
+            let value = ''
+            let j = i + 1
+            while (j < source.length && source[j] !== ch) {
+                if (source[j] === '\\' && j + 1 < source.length) {
+                    const escaped = source[++j]
+                    value += ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escaped] ?? escaped
+                } else {
+                    value += source[j]
+                }
+                j++
+            }
+            if (j >= source.length) throw new SyntaxError('Unterminated string')
+            tokens.push({ type: 'string', value })
+            i = j + 1
+            continue
+        }
+        // `a?.5:1` is a ternary, not optional chaining
+        const punct = PUNCTUATORS.find(p => source.startsWith(p, i) && !(p === '?.' && /\d/.test(source[i + 2] ?? '')))
+        if (!punct) throw new SyntaxError(`Unexpected character "${ch}"`)
+        tokens.push({ type: 'punct', value: punct })
+        i += punct.length
+    }
+    return tokens
+}
+
+// ── Parser ──────────────────────────────────────────────────────────────────────
+
+/** Parse `source` into an expression tree. Throws a SyntaxError when it is not a valid expression. */
+export function parseExpression(source: string): ExpressionNode {
+    const tokens = tokenize(source)
+    let pos = 0
+
+    const peek = (value: string) => tokens[pos]?.type === 'punct' && tokens[pos].value === value
+    const take = (value: string) => {
+        if (!peek(value)) return false
+        pos++
+        return true
+    }
+    const expect = (value: string) => {
+        if (!take(value)) throw unexpected()
+    }
+    const unexpected = () => pos < tokens.length
+        ? new SyntaxError(`Unexpected token "${tokens[pos].value}"`)
+        : new SyntaxError('Unexpected end of expression')
+
+    const conditional = (): ExpressionNode => {
+        const test = binary(0)
+        if (!take('?')) return test
+        const then = conditional()
+        expect(':')
+        return { kind: 'conditional', test, then, else: conditional() }
+    }
+
+    const binary = (level: number): ExpressionNode => {
+        if (level >= BINARY_LEVELS.length) return unary()
+        let left = binary(level + 1)
+        for (;;) {
+            const op = BINARY_LEVELS[level].find(peek)
+            if (!op) return left
+            pos++
+            left = { kind: 'binary', op, left, right: binary(level + 1) }
+        }
+    }
+
+    const unary = (): ExpressionNode => {
+        for (const op of ['!', '-', '+']) {
+            if (take(op)) return { kind: 'unary', op, arg: unary() }
+        }
+        const token = tokens[pos]
+        if (token?.type === 'name' && token.value === 'typeof') {
+            pos++
+            return { kind: 'unary', op: 'typeof', arg: unary() }
+        }
+        return postfix()
+    }
+
+    const postfix = (): ExpressionNode => {
+        let node = primary()
+        for (;;) {
+            const optional = take('?.')
+            if (take('.') || (optional && tokens[pos]?.type === 'name')) {
+                const name = tokens[pos]
+                if (name?.type !== 'name') throw unexpected()
+                pos++
+                node = { kind: 'member', object: node, property: { kind: 'literal', value: name.value }, optional }
+            } else if (take('[')) {
+                const property = conditional()
+                expect(']')
+                node = { kind: 'member', object: node, property, optional }
+            } else if (take('(')) {
+                node = { kind: 'call', callee: node, args: list(')'), optional }
+            } else if (optional) {
+                throw unexpected()
+            } else {
+                return node
+            }
+        }
+    }
+
+    const list = (close: string): ExpressionNode[] => {
+        const items: ExpressionNode[] = []
+        while (!take(close)) {
+            items.push(conditional())
+            if (!peek(close)) expect(',')
+        }
+        return items
+    }
+
+    const primary = (): ExpressionNode => {
+        const token = tokens[pos]
+        if (!token) throw unexpected()
+        if (token.type === 'number' || token.type === 'string') {
+            pos++
+            return { kind: 'literal', value: token.value }
+        }
+        if (token.type === 'name') {
+            pos++
+            // Own keys only — `constructor` or `toString` are names, not Object.prototype members
+            return Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)
+                ? { kind: 'literal', value: KEYWORDS[token.value] }
+                : { kind: 'name', name: token.value }
+        }
+        if (take('(')) {
+            const inner = conditional()
+            expect(')')
+            return inner
+        }
+        if (take('[')) return { kind: 'array', items: list(']') }
+        throw unexpected()
+    }
+
+    const tree = conditional()
+    if (pos < tokens.length) throw unexpected()
+    return tree
+}
+
+// ── Evaluation ──────────────────────────────────────────────────────────────────
+
+/** Marks an optional chain cut short by a nullish value (`a?.b.c` with a == null) */
+const SHORT_CIRCUIT = Symbol('short-circuit')
+
+function readProperty(object: unknown, key: unknown): unknown {
+    if (object === null || object === undefined) {
+        throw new TypeError(`Cannot read properties of ${object} (reading '${String(key)}')`)
+    }
+    const name = String(key)
+    return Object.prototype.hasOwnProperty.call(Object(object), name)
+        ? (object as Record<string, unknown>)[name]
+        : undefined
+}
+
+function isMethodOf(object: unknown, name: string): boolean {
+    if (typeof object === 'string') return STRING_METHODS.has(name)
+    return Array.isArray(object) && ARRAY_METHODS.has(name)
+}
+
+function callMethod(object: unknown, name: string, args: unknown[]): unknown {
+    if (!isMethodOf(object, name)) throw new TypeError(`${name}() is not available in expressions`)
+    const method = (typeof object === 'string' ? String.prototype : Array.prototype) as unknown as Record<string, Function>
+    return method[name].apply(object, args)
+}
+
+function binaryOp(op: string, a: any, b: any): unknown {
+    switch (op) {
+        case '+': return a + b
+        case '-': return a - b
+        case '*': return a * b
+        case '/': return a / b
+        case '%': return a % b
+        case '<': return a < b
+        case '<=': return a <= b
+        case '>': return a > b
+        case '>=': return a >= b
+        case '===': return a === b
+        case '!==': return a !== b
+        case '==': return a == b
+        case '!=': return a != b
+        default: throw new SyntaxError(`Unknown operator "${op}"`)
+    }
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, unknown>): unknown {
+    const value = (n: ExpressionNode) => {
+        const result = evaluateNode(n, scope)
+        return result === SHORT_CIRCUIT ? undefined : result
+    }
+    switch (node.kind) {
+        case 'literal':
+            return node.value
+        case 'name':
+            if (!Object.prototype.hasOwnProperty.call(scope, node.name)) throw new ReferenceError(`${node.name} is not defined`)
+            return scope[node.name]
+        case 'array':
+            return node.items.map(value)
+        case 'member': {
+            const object = evaluateNode(node.object, scope)
+            if (object === SHORT_CIRCUIT) return SHORT_CIRCUIT
+            if (node.optional && (object === null || object === undefined)) return SHORT_CIRCUIT
+            return readProperty(object, value(node.property))
+        }
+        case 'call': {
+            if (node.callee.kind !== 'member') throw new TypeError('Only string and array methods can be called in expressions')
+            const object = evaluateNode(node.callee.object, scope)
+            if (object === SHORT_CIRCUIT) return SHORT_CIRCUIT
+            if (node.callee.optional && (object === null || object === undefined)) return SHORT_CIRCUIT
+            const name = String(value(node.callee.property))
+            if (node.optional && !isMethodOf(object, name)) return SHORT_CIRCUIT
+            return callMethod(object, name, node.args.map(value))
+        }
+        case 'unary':
+            if (node.op === 'typeof') {
+                if (node.arg.kind === 'name' && !Object.prototype.hasOwnProperty.call(scope, node.arg.name)) return 'undefined'
+                return typeof value(node.arg)
+            }
+            if (node.op === '!') return !value(node.arg)
+            if (node.op === '-') return -(value(node.arg) as number)
+            return +(value(node.arg) as number)
+        case 'binary': {
+            const left = value(node.left)
+            if (node.op === '&&') return left && value(node.right)
+            if (node.op === '||') return left || value(node.right)
+            if (node.op === '??') return left ?? value(node.right)
+            return binaryOp(node.op, left, value(node.right))
+        }
+        case 'conditional':
+            return value(node.test) ? value(node.then) : value(node.else)
+    }
+}
+
+/** Evaluate `source` with the variables in `scope`. Throws on syntax and evaluation errors. */
+export function evaluate(source: string, scope: Record<string, unknown>): unknown {
+    const result = evaluateNode(parseExpression(source), scope)
+    return result === SHORT_CIRCUIT ? undefined : result
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CONCURRENCY, mapConcurrency, mapItemsOf, mapSummary, runPool } from './fan-out'
+
+describe('mapConcurrency', () => {
+    it('reads data.concurrency, at least 1', () => {
+        expect(mapConcurrency({ concurrency: '3' })).toBe(3)
+        expect(mapConcurrency({ concurrency: 2.7 })).toBe(2)
+        expect(mapConcurrency({ concurrency: 0 })).toBe(DEFAULT_CONCURRENCY)
+        expect(mapConcurrency({})).toBe(DEFAULT_CONCURRENCY)
+    })
+})
+
+describe('mapItemsOf', () => {
+    it('takes the input, or the list at itemsPath in it', () => {
+        expect(mapItemsOf({}, [1, 2])).toEqual([1, 2])
+        expect(mapItemsOf({ itemsPath: ' body.files ' }, { body: { files: ['a'] } })).toEqual(['a'])
+    })
+
+    it('throws when it is not a list', () => {
+        expect(() => mapItemsOf({}, { files: [] })).toThrow('Map input is not an array')
+        expect(() => mapItemsOf({ itemsPath: 'missing' }, { files: [] })).toThrow('Map input at "missing" is not an array')
+    })
+})
+
+describe('runPool', () => {
+    /** Resolves on the next macrotask, recording how many runs overlap */
+    function tracked() {
+        let active = 0
+        let peak = 0
+        const run = async (index: number) => {
+            peak = Math.max(peak, ++active)
+            await new Promise(resolve => setTimeout(resolve, 5 * (4 - index)))
+            active--
+            return index * 2
+        }
+        return { run, peak: () => peak }
+    }
+
+    it('runs at most `concurrency` at a time and keeps the results in order', async () => {
+        const { run, peak } = tracked()
+        const results = await runPool(4, 2, run)
+
+        expect(peak()).toBe(2)
+        expect(results.map(r => r?.status === 'fulfilled' && r.value)).toEqual([0, 2, 4, 6])
+    })
+
+    it('settles every index when some fail', async () => {
+        const results = await runPool(3, 3, async (index) => {
+            if (index === 1) throw new Error('bad item')
+            return index
+        })
+
+        expect(results.map(r => r?.status)).toEqual(['fulfilled', 'rejected', 'fulfilled'])
+        expect((results[1] as PromiseRejectedResult).reason).toEqual(new Error('bad item'))
+    })
+
+    it('starts no new runs once stopped', async () => {
+        let stopped = false
+        const results = await runPool(4, 1, async (index) => {
+            if (index === 1) stopped = true
+            return index
+        }, () => stopped)
+
+        expect(results.map(r => r?.status)).toEqual(['fulfilled', 'fulfilled', undefined, undefined])
+    })
+
+    it('does nothing for an empty list', async () => {
+        expect(await runPool(0, 2, async () => 1)).toEqual([])
+    })
+})
+
+describe('mapSummary', () => {
+    it('counts done and failed items', () => {
+        const item = (status: 'done' | 'error' | 'running') => ({ status, progress: 0 })
+        expect(mapSummary([item('done'), item('done'), item('error'), item('running')])).toBe('2/4 done · 1 failed')
+        expect(mapSummary([item('done')])).toBe('1/1 done')
+    })
+})
@@ -0,0 +1,91 @@
+/**
+ * Fan-out — a `map` node runs the job it leads to once per list item.
+ *
+ * The map node takes an array from its upstream node — its single input, or
+ * the value at `data.itemsPath` in it — and outputs the array. A `job` node
+ * connected after the map (its body) then runs once per item, at most
+ * `data.concurrency` at a time; each run gets its item as the input from the
+ * map node. The body's output is the array of results in item order, which
+ * flows on to the next node like any other output.
+ *
+ * A failing item does not stop the others; once all are done the body fails
+ * if any item did. Per-item progress is recorded on the body's run state
+ * (`items`).
+ *
+ * Usage:
+ *   const items = mapItemsOf(node.data, input)
+ *   const settled = await runPool(items.length, mapConcurrency(node.data), i => runItem(items[i]))
+ *   mapSummary(state.items)   // '3/5 done · 1 failed'
+ */
+
+import { getPath } from './subflow'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export type MapItemStatus = 'idle' | 'running' | 'done' | 'error'
+
+/** One item of a map body's run */
+export interface MapItemState {
+    status: MapItemStatus
+    progress: number
+    output?: unknown
+    error?: string
+}
+
+/** How many body runs happen at once when `data.concurrency` is not set */
+export const DEFAULT_CONCURRENCY = 2
+
+// ── Settings ────────────────────────────────────────────────────────────────────
+
+/** Concurrency of a map node, at least 1 */
+export function mapConcurrency(data: Record<string, any>): number {
+    const concurrency = Number(data.concurrency)
+    return Number.isFinite(concurrency) && concurrency >= 1 ? Math.floor(concurrency) : DEFAULT_CONCURRENCY
+}
+
+/** The list a map node fans out over. Throws when it is not an array. */
+export function mapItemsOf(data: Record<string, any>, input: unknown): unknown[] {
+    const path = typeof data.itemsPath === 'string' ? data.itemsPath.trim() : ''
+    const items = path ? getPath(input, path) : input
+    if (!Array.isArray(items)) {
+        throw new Error(`Map input${path ? ` at "${path}"` : ''} is not an array`)
+    }
+    return items
+}
+
+// ── Running ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Call `run` for indexes 0..count-1, at most `concurrency` at a time.
+ * Settles with one entry per index — `results[i]` is the result of
+ * `run(i)`; stops starting new ones once `stopped()` is true, and their
+ * entries stay undefined.
+ */
+export async function runPool<T>(
+    count: number,
+    concurrency: number,
+    run: (index: number) => Promise<T>,
+    stopped: () => boolean = () => false,
+): Promise<(PromiseSettledResult<T> | undefined)[]> {
+    const results: (PromiseSettledResult<T> | undefined)[] = Array.from({ length: count }, () => undefined)
+    let next = 0
+    const worker = async () => {
+        while (next < count && !stopped()) {
+            const index = next++
+            try {
+                results[index] = { status: 'fulfilled', value: await run(index) }
+            } catch (reason: unknown) {
+                results[index] = { status: 'rejected', reason }
+            }
+        }
+    }
+    await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker))
+    return results
+}
+
+/** Short progress line, e.g. '3/5 done · 1 failed' */
+export function mapSummary(items: MapItemState[]): string {
+    const done = items.filter(item => item.status === 'done').length
+    const failed = items.filter(item => item.status === 'error').length
+    return `${done}/${items.length} done${failed ? ` · ${failed} failed` : ''}`
+}
@@ -0,0 +1,90 @@
+/**
+ * IndexedDB helpers shared by the persistent stores (WorkflowStore, RunStore).
+ *
+ * One database holds every object store; bump DB_VERSION when adding a store
+ * and create it in `onupgradeneeded`. Records whose shape changed are
+ * cleared there, not migrated (agents/DEPRECATION-POLICY.md).
+ *
+ * Usage:
+ *   const db = await openDB()
+ *   await idbPut(db, STORE_RUNS, record)
+ *   const runs = await idbGetAllByIndex(db, STORE_RUNS, 'workflowId', id)
+ */
+
+// ── Schema ─────────────────────────────────────────────────────────────────
+
+const DB_NAME = 'wibeboard-workflows'
+const DB_VERSION = 3
+export const STORE_DOCS = 'docs'       // binary Automerge docs
+export const STORE_INDEX = 'index'     // lightweight metadata
+export const STORE_RUNS = 'runs'       // run history (RunRecord)
+
+export function openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION)
+        req.onupgradeneeded = (event) => {
+            const db = req.result
+            if (!db.objectStoreNames.contains(STORE_DOCS)) {
+                db.createObjectStore(STORE_DOCS, { keyPath: 'id' })
+            }
+            if (!db.objectStoreNames.contains(STORE_INDEX)) {
+                db.createObjectStore(STORE_INDEX, { keyPath: 'id' })
+            }
+            if (!db.objectStoreNames.contains(STORE_RUNS)) {
+                const runs = db.createObjectStore(STORE_RUNS, { keyPath: 'id' })
+                runs.createIndex('workflowId', 'workflowId')
+            }
+            // v3: run records carry expectation verdicts
+            if (event.oldVersion < 3) req.transaction!.objectStore(STORE_RUNS).clear()
+        }
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+    })
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+export function idbGet<T>(db: IDBDatabase, store: string, key: string): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, 'readonly')
+        const req = tx.objectStore(store).get(key)
+        req.onsuccess = () => resolve(req.result as T | undefined)
+        req.onerror = () => reject(req.error)
+    })
+}
+
+export function idbPut(db: IDBDatabase, store: string, value: unknown): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, 'readwrite')
+        tx.objectStore(store).put(value)
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+    })
+}
+
+export function idbDelete(db: IDBDatabase, store: string, key: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, 'readwrite')
+        tx.objectStore(store).delete(key)
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+    })
+}
+
+export function idbGetAll<T>(db: IDBDatabase, store: string): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, 'readonly')
+        const req = tx.objectStore(store).getAll()
+        req.onsuccess = () => resolve(req.result as T[])
+        req.onerror = () => reject(req.error)
+    })
+}
+
+export function idbGetAllByIndex<T>(db: IDBDatabase, store: string, index: string, key: IDBValidKey): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, 'readonly')
+        const req = tx.objectStore(store).index(index).getAll(key)
+        req.onsuccess = () => resolve(req.result as T[])
+        req.onerror = () => reject(req.error)
+    })
+}
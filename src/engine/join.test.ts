@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { joinLabel, joinMessage, joinOf, joinVerdict } from './join'
+
+describe('joinOf', () => {
+    it('defaults to all, no timeout, fail', () => {
+        expect(joinOf({})).toEqual({ mode: 'all', count: 2, timeout: 0, onTimeout: 'fail' })
+    })
+
+    it('reads the settings, ignoring invalid values', () => {
+        expect(joinOf({ joinMode: 'n', joinCount: '3', joinTimeout: 500, joinOnTimeout: 'proceed' }))
+            .toEqual({ mode: 'n', count: 3, timeout: 500, onTimeout: 'proceed' })
+        expect(joinOf({ joinMode: 'some', joinCount: 0, joinTimeout: -1 }))
+            .toEqual({ mode: 'all', count: 2, timeout: 0, onTimeout: 'fail' })
+    })
+})
+
+describe('joinVerdict', () => {
+    const all = joinOf({})
+    const any = joinOf({ joinMode: 'any' })
+    const two = joinOf({ joinMode: 'n', joinCount: 2 })
+
+    it('waits for every edge to settle in mode all', () => {
+        expect(joinVerdict(all, 1, 1, 2)).toBe('wait')
+        expect(joinVerdict(all, 1, 0, 2)).toBe('run')
+        expect(joinVerdict(all, 0, 0, 2)).toBe('closed')
+    })
+
+    it('runs on the first input in mode any', () => {
+        expect(joinVerdict(any, 0, 3, 3)).toBe('wait')
+        expect(joinVerdict(any, 1, 2, 3)).toBe('run')
+        expect(joinVerdict(any, 0, 0, 3)).toBe('closed')
+    })
+
+    it('runs on N inputs, and closes once N can no longer arrive', () => {
+        expect(joinVerdict(two, 1, 2, 3)).toBe('wait')
+        expect(joinVerdict(two, 2, 1, 3)).toBe('run')
+        expect(joinVerdict(two, 1, 0, 3)).toBe('closed')
+    })
+})
+
+describe('labels', () => {
+    it('describes the join', () => {
+        expect(joinLabel(joinOf({}), 3)).toBe('all 3')
+        expect(joinLabel(joinOf({ joinMode: 'any' }), 3)).toBe('any of 3')
+        expect(joinLabel(joinOf({ joinMode: 'n', joinCount: 5 }), 3)).toBe('3 of 3')
+    })
+
+    it('explains a join that did not go as configured', () => {
+        expect(joinMessage({ label: '2 of 3', arrived: ['a'], outcome: 'timeout' }))
+            .toBe('Join timed out — 1 input(s) arrived, waited for 2 of 3')
+    })
+})
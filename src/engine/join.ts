@@ -0,0 +1,95 @@
+/**
+ * Join — how a node with several incoming edges waits for its inputs.
+ *
+ * Settings on the node's data:
+ *   joinMode    — 'all' (default): every upstream node has finished
+ *                 'any': the first input arrives
+ *                 'n':   `joinCount` inputs have arrived
+ *   joinTimeout — ms to wait after the first input arrived (0 = no limit)
+ *   joinOnTimeout — 'fail' (default): the node fails
+ *                   'proceed': the node runs with the inputs it has
+ *
+ * An input "arrives" when the edge it comes over is taken (see conditions.ts).
+ * A join that can no longer be met — too many branches skipped or failed —
+ * is treated like a timeout. The node's inputs are the arrived outputs,
+ * keyed by source node ID.
+ *
+ * Usage:
+ *   const join = joinOf(node.data)
+ *   if (joinVerdict(join, arrived, pending, incoming) === 'run') run()
+ *   joinLabel(join, incoming)   // 'all 3', 'any of 3', '2 of 3'
+ */
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export type JoinMode = 'all' | 'any' | 'n'
+
+export type JoinTimeoutPolicy = 'fail' | 'proceed'
+
+export type JoinVerdict = 'run' | 'wait' | 'closed'
+
+export interface JoinSettings {
+    mode: JoinMode
+    /** Inputs needed in mode 'n' */
+    count: number
+    /** ms after the first arrival, 0 = none */
+    timeout: number
+    onTimeout: JoinTimeoutPolicy
+}
+
+/** How a node's join went — recorded on its run state */
+export interface JoinResult {
+    /** e.g. 'any of 3' */
+    label: string
+    /** Source nodes whose inputs arrived in time */
+    arrived: string[]
+    outcome: 'met' | 'timeout' | 'unmet'
+}
+
+// ── Settings ────────────────────────────────────────────────────────────────────
+
+/** Join settings of a node, with defaults */
+export function joinOf(data: Record<string, any>): JoinSettings {
+    const mode: JoinMode = data.joinMode === 'any' || data.joinMode === 'n' ? data.joinMode : 'all'
+    const count = Number(data.joinCount)
+    const timeout = Number(data.joinTimeout)
+    return {
+        mode,
+        count: Number.isFinite(count) && count >= 1 ? Math.floor(count) : 2,
+        timeout: Number.isFinite(timeout) && timeout > 0 ? timeout : 0,
+        onTimeout: data.joinOnTimeout === 'proceed' ? 'proceed' : 'fail',
+    }
+}
+
+/** Inputs a join waits for, out of `total` incoming edges */
+export function joinNeeds(join: JoinSettings, total: number): number {
+    if (join.mode === 'any') return Math.min(1, total)
+    if (join.mode === 'n') return Math.min(join.count, total)
+    return total
+}
+
+/**
+ * Where a join stands with `arrived` taken edges and `pending` unsettled
+ * ones out of `total` — 'run' once met, 'wait' while it still can be, else
+ * 'closed'. Mode 'all' waits for every edge to settle; the others go as
+ * soon as enough inputs arrived.
+ */
+export function joinVerdict(join: JoinSettings, arrived: number, pending: number, total: number): JoinVerdict {
+    if (join.mode === 'all') return pending > 0 ? 'wait' : arrived > 0 ? 'run' : 'closed'
+    const needs = joinNeeds(join, total)
+    if (arrived >= needs) return 'run'
+    return pending > 0 && arrived + pending >= needs ? 'wait' : 'closed'
+}
+
+/** Log line for a join that did not go as configured, e.g. 'Join timed out — 1 input(s) arrived, waited for 2 of 3' */
+export function joinMessage(result: JoinResult): string {
+    const what = result.outcome === 'timeout' ? 'timed out' : 'not met'
+    return `Join ${what} — ${result.arrived.length} input(s) arrived, waited for ${result.label}`
+}
+
+/** Short description, e.g. 'all 3', 'any of 3', '2 of 3' */
+export function joinLabel(join: JoinSettings, total: number): string {
+    if (join.mode === 'any') return `any of ${total}`
+    if (join.mode === 'n') return `${joinNeeds(join, total)} of ${total}`
+    return `all ${total}`
+}
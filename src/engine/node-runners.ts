@@ -0,0 +1,211 @@
+/**
+ * Node Runners — per-subtype execution strategies for the WorkflowExecutor.
+ *
+ * A runner receives a NodeRunContext and returns a promise of the node's
+ * output. Throwing (or rejecting) marks the node as `error`.
+ *
+ * Keyed as `widgetType:subType` (e.g. 'job:js', 'user:default'), mirroring
+ * the SubTypeRegistry. Lookup falls back to `widgetType:default`.
+ *
+ * Usage:
+ *   nodeRunnerRegistry.register('job:sh', async (ctx) => { ... })
+ *   const runner = nodeRunnerRegistry.resolve('job', 'js')
+ */
+
+import { Registry } from './core'
+import type { AgentMessenger } from './AgentMessenger'
+import type { WorkflowNode } from './workflow-store'
+import { runScriptInBrowser } from './script-runner'
+import { runScriptInSidecar } from './sidecar-client'
+import { toNodeInfo, type Artifact, type ExecutionContextData, type NodeInfo, type ToolCall } from './execution-context'
+import { linkedWorkflowId, mapValues } from './subflow'
+import { matchCase, routerCases } from './conditions'
+import { mapItemsOf } from './fan-out'
+import { retryPolicyOf } from './retry'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export interface NodeRunContext {
+    /** ID of the run this execution belongs to */
+    runId: string
+    /** The node being executed */
+    node: WorkflowNode
+    /** Outputs of completed upstream nodes, keyed by source node ID */
+    inputs: Record<string, unknown>
+    /** The run's workflow parameters (see workflow-params.ts) */
+    params: Record<string, unknown>
+    /** First upstream neighbor */
+    leftNode: NodeInfo | null
+    /** First downstream neighbor */
+    rightNode: NodeInfo | null
+    /** The node's messenger */
+    messenger: AgentMessenger
+    /** Aborted when the run is cancelled */
+    signal: AbortSignal
+    /** Mark the node online / offline on the message bus — it is online while it runs */
+    setOnline: (online: boolean) => void
+    /** Append a line to the node's logs */
+    log: (line: string) => void
+    /** Report completion percentage (0-100) */
+    progress: (pct: number) => void
+    /** Record an artifact produced by the node */
+    emitArtifact: (artifact: Artifact) => void
+    /** Record a tool call made by the node */
+    toolCall: (call: ToolCall) => void
+    /** Resolve an integration secret */
+    getSecret: (name: string) => Promise<string | undefined>
+    /**
+     * Park the node in `waiting` until the executor's resolveNode() or
+     * rejectNode() is called for it (e.g. a human approval).
+     */
+    park: () => Promise<unknown>
+    /**
+     * Run a saved workflow as a child execution (subflow) with the given
+     * inputs. Resolves with the outputs of its last nodes; rejects when it
+     * fails, is stopped or would recurse into a workflow already running.
+     */
+    runWorkflow: (workflowId: string, inputs: Record<string, unknown>) => Promise<unknown>
+    /**
+     * Pick the branch to follow: only edges leaving from this source handle
+     * are taken once the node is done (routers).
+     */
+    route: (handle: string) => void
+}
+
+export type NodeRunner = (ctx: NodeRunContext) => Promise<unknown>
+
+// ── Built-in runners ────────────────────────────────────────────────────────────
+
+/** Starting node — entry point; outputs the run inputs (e.g. a subflow's), if any */
+const runStarting: NodeRunner = async (ctx) => Object.keys(ctx.inputs).length ? ctx.inputs : undefined
+
+/** Serializable ExecutionContext for a script run */
+export function scriptContextOf(ctx: NodeRunContext): ExecutionContextData {
+    return {
+        node: toNodeInfo(ctx.node),
+        leftNode: ctx.leftNode,
+        rightNode: ctx.rightNode,
+        inputs: ctx.inputs,
+        params: ctx.params,
+    }
+}
+
+export type ScriptLanguage = 'js' | 'ts' | 'sh' | 'py'
+
+/** Script language of a job node — 'ts' / 'sh' / 'py', else 'js' */
+export function scriptLanguageOf(data: Record<string, any>): ScriptLanguage {
+    const lang = data.language || data.subType
+    return lang === 'ts' || lang === 'sh' || lang === 'py' ? lang : 'js'
+}
+
+/** True for languages executed by the Node.js sidecar rather than the browser */
+export function isSidecarLanguage(lang: ScriptLanguage): lang is 'sh' | 'py' {
+    return lang === 'sh' || lang === 'py'
+}
+
+/** Browser script — runs `data.code` in a sandboxed worker, streaming logs */
+const runBrowserScript: NodeRunner = async (ctx) => {
+    const code = String(ctx.node.data.code || '')
+    const { timeout } = retryPolicyOf(ctx.node.data)
+    const language = scriptLanguageOf(ctx.node.data)
+    const result = await runScriptInBrowser(code, ctx.messenger, scriptContextOf(ctx), {
+        language: language === 'ts' ? 'ts' : 'js',
+        timeout,
+        onLog: ctx.log,
+        onProgress: ctx.progress,
+        onArtifact: ctx.emitArtifact,
+        onToolCall: ctx.toolCall,
+        getSecret: ctx.getSecret,
+        signal: ctx.signal,
+    })
+    if (result.status === 'error') throw new Error(result.error || 'Script failed')
+    return result.output
+}
+
+/** Shell / Python script — runs `data.code` on the local Node.js sidecar */
+const runSidecarScript: NodeRunner = async (ctx) => {
+    const code = String(ctx.node.data.code || '')
+    const { timeout } = retryPolicyOf(ctx.node.data)
+    const language = scriptLanguageOf(ctx.node.data)
+    const result = await runScriptInSidecar(code, ctx.messenger, scriptContextOf(ctx), {
+        language: isSidecarLanguage(language) ? language : 'sh',
+        timeout,
+        onLog: ctx.log,
+        onDisconnect: () => ctx.setOnline(false),
+        signal: ctx.signal,
+    })
+    if (result.status === 'error') throw new Error(result.error || 'Script failed')
+    return result.output
+}
+
+/** User node — waits for a human decision */
+const runUser: NodeRunner = async (ctx) => {
+    ctx.log('⏳ Waiting for review...')
+    return ctx.park()
+}
+
+/** SubFlow — runs the linked workflow (`data.workflowId`) as a child execution */
+const runSubFlow: NodeRunner = async (ctx) => {
+    const workflowId = linkedWorkflowId(ctx.node.data)
+    if (!workflowId) {
+        ctx.log('SubFlow has no linked workflow — passing inputs through')
+        return ctx.inputs
+    }
+    const inputs = mapValues(ctx.node.data.inputMap, ctx.inputs) as Record<string, unknown>
+    const output = await ctx.runWorkflow(workflowId, inputs ?? {})
+    return mapValues(ctx.node.data.outputMap, output)
+}
+
+/**
+ * Router — tries `data.cases` in order against its input (the single
+ * upstream output, or the inputs by source) and routes to the first match,
+ * else to `default`. Passes the input through.
+ */
+const runRouter: NodeRunner = async (ctx) => {
+    const sources = Object.keys(ctx.inputs)
+    const input = sources.length === 1 ? ctx.inputs[sources[0]] : ctx.inputs
+    const { handle, label, errors } = matchCase(routerCases(ctx.node.data), input, ctx.inputs)
+    for (const error of errors) ctx.log(`ERROR: ${error}`)
+    ctx.log(`→ ${label}`)
+    ctx.route(handle)
+    return input
+}
+
+/**
+ * Map — outputs the list its body (the job after it) runs once per item,
+ * taken from the single upstream output or `data.itemsPath` in it (see
+ * fan-out.ts). The executor does the fanning out.
+ */
+const runMap: NodeRunner = async (ctx) => {
+    const sources = Object.keys(ctx.inputs)
+    const input = sources.length === 1 ? ctx.inputs[sources[0]] : ctx.inputs
+    const items = mapItemsOf(ctx.node.data, input)
+    ctx.log(`${items.length} item(s)`)
+    return items
+}
+
+// ── Registry API ────────────────────────────────────────────────────────────────
+
+class NodeRunnerRegistry extends Registry<NodeRunner> {
+    /** Resolve the runner for a widget+subType. Falls back to 'default'. */
+    resolve(widgetType: string, subType?: string): NodeRunner | undefined {
+        if (subType && subType !== 'default') {
+            const exact = this.get(`${widgetType}:${subType}`)
+            if (exact) return exact
+        }
+        return this.get(`${widgetType}:default`)
+    }
+}
+
+export const nodeRunnerRegistry = new NodeRunnerRegistry([
+    ['starting:default', runStarting],
+    ['job:js', runBrowserScript],
+    ['job:ts', runBrowserScript],
+    ['job:sh', runSidecarScript],
+    ['job:py', runSidecarScript],
+    ['job:ai', runBrowserScript],
+    ['user:default', runUser],
+    ['subflow:default', runSubFlow],
+    ['router:default', runRouter],
+    ['map:default', runMap],
+])
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { edgePortMismatch, edgeSchemaOf, inputSchemaOf, outputSchemaOf, portTypeLabel, portsCompatible } from './ports'
+import type { FieldSchema } from './widget-subtypes-registry'
+
+const job = (data: Record<string, unknown> = {}) => ({ type: 'job', data: { subType: 'js', ...data } })
+const map = (data: Record<string, unknown> = {}) => ({ type: 'map', data })
+
+const schema = (type: FieldSchema['type'], items?: FieldSchema): FieldSchema => ({ type, label: type, items })
+
+// ── Port schemas ────────────────────────────────────────────────────────────────
+
+describe('port schemas', () => {
+    it('types a job output by its outputType, else takes anything', () => {
+        expect(outputSchemaOf(job({ outputType: 'number' }))).toEqual({ type: 'number', label: 'Output' })
+        expect(outputSchemaOf(job({ outputType: 'any' }))).toBeUndefined()
+        expect(inputSchemaOf(job())).toBeUndefined()
+    })
+
+    it('reads the subtype schemas, a map with itemsPath taking an object', () => {
+        expect(inputSchemaOf(map())?.type).toBe('array')
+        expect(inputSchemaOf(map({ itemsPath: 'files' }))?.type).toBe('object')
+        expect(outputSchemaOf(map())?.type).toBe('array')
+    })
+
+    it('types the edge from a map to a job as one item', () => {
+        const list = job({ outputType: 'array' })
+        expect(edgeSchemaOf(list, job())?.type).toBe('array')
+        expect(edgeSchemaOf(map(), job())).toBeUndefined()
+        expect(edgeSchemaOf(map(), map())?.type).toBe('array')
+    })
+})
+
+// ── Compatibility ───────────────────────────────────────────────────────────────
+
+describe('portsCompatible', () => {
+    it('fits undeclared ports and equal types, enums as strings', () => {
+        expect(portsCompatible(undefined, schema('number'))).toBe(true)
+        expect(portsCompatible(schema('number'), undefined)).toBe(true)
+        expect(portsCompatible(schema('enum'), schema('string'))).toBe(true)
+        expect(portsCompatible(schema('number'), schema('string'))).toBe(false)
+    })
+
+    it('compares array items', () => {
+        expect(portsCompatible(schema('array', schema('number')), schema('array'))).toBe(true)
+        expect(portsCompatible(schema('array', schema('number')), schema('array', schema('string')))).toBe(false)
+    })
+})
+
+describe('portTypeLabel', () => {
+    it('names types shortly', () => {
+        expect(portTypeLabel(undefined)).toBe('any')
+        expect(portTypeLabel(schema('enum'))).toBe('string')
+        expect(portTypeLabel(schema('array'))).toBe('array')
+        expect(portTypeLabel(schema('array', schema('array', schema('number'))))).toBe('number[][]')
+    })
+})
+
+describe('edgePortMismatch', () => {
+    it('describes an edge whose payload the target cannot accept', () => {
+        expect(edgePortMismatch(job({ outputType: 'number' }), map())).toBe('number → array')
+        expect(edgePortMismatch(job({ outputType: 'number' }), job())).toBeUndefined()
+        expect(edgePortMismatch(job({ outputType: 'object' }), map({ itemsPath: 'files' }))).toBeUndefined()
+    })
+})
@@ -0,0 +1,76 @@
+/**
+ * Ports — typed data passing between nodes.
+ *
+ * Every node has one input and one output port. A subtype declares their
+ * types as FieldSchemas (`inputSchema` — what it accepts from each upstream
+ * node, `outputSchema` — what it emits); an undeclared port takes anything.
+ * Job nodes declare what their script returns per node (`data.outputType`).
+ *
+ * A taken edge carries its source's output into the target's inputs, keyed
+ * by source node ID; the executor records that payload per edge
+ * (`RunState.payloads`). Edges from a map node to a job carry one list item
+ * per run (see fan-out.ts), so they are typed as the list's items.
+ *
+ * Editors check each edge with edgePortMismatch() and warn on the ones whose
+ * payload the target cannot accept.
+ *
+ * Usage:
+ *   const mismatch = edgePortMismatch(sourceNode, targetNode)   // 'number → array' or undefined
+ *   portTypeLabel(outputSchemaOf(node))                          // 'object'
+ */
+
+import { subTypeRegistry, type FieldSchema } from './widget-subtypes-registry'
+import { nodeSubType } from './workflow-executor'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+type PortNode = { type?: string; data: Record<string, any> }
+
+const OUTPUT_TYPES = new Set<FieldSchema['type']>(['string', 'number', 'boolean', 'array', 'object'])
+
+// ── Port schemas ────────────────────────────────────────────────────────────────
+
+/** What a node emits — undefined for any */
+export function outputSchemaOf(node: PortNode): FieldSchema | undefined {
+    const declared = node.data.outputType
+    if (OUTPUT_TYPES.has(declared)) return { type: declared, label: 'Output' }
+    return subTypeRegistry.getOutputSchema(node.type || '', nodeSubType(node))
+}
+
+/** What a node accepts from each upstream node — undefined for any */
+export function inputSchemaOf(node: PortNode): FieldSchema | undefined {
+    // A map node that reads its list from a path takes the object around it
+    if (node.type === 'map' && node.data.itemsPath) return { type: 'object', label: 'Input' }
+    return subTypeRegistry.getInputSchema(node.type || '', nodeSubType(node))
+}
+
+/** What flows over an edge from `source` to `target` */
+export function edgeSchemaOf(source: PortNode, target: PortNode): FieldSchema | undefined {
+    const output = outputSchemaOf(source)
+    if (source.type === 'map' && target.type === 'job') return output?.items
+    return output
+}
+
+// ── Compatibility ───────────────────────────────────────────────────────────────
+
+/** Whether a payload of type `output` fits an `input` port (undeclared ports fit anything) */
+export function portsCompatible(output: FieldSchema | undefined, input: FieldSchema | undefined): boolean {
+    if (!output || !input) return true
+    const type = (schema: FieldSchema) => schema.type === 'enum' ? 'string' : schema.type
+    if (type(output) !== type(input)) return false
+    return output.type !== 'array' || portsCompatible(output.items, input.items)
+}
+
+/** Short type name, e.g. 'number', 'string[]', 'any' */
+export function portTypeLabel(schema: FieldSchema | undefined): string {
+    if (!schema) return 'any'
+    if (schema.type === 'array') return schema.items ? `${portTypeLabel(schema.items)}[]` : 'array'
+    return schema.type === 'enum' ? 'string' : schema.type
+}
+
+/** 'number → array' when the edge's payload does not fit the target, else undefined */
+export function edgePortMismatch(source: PortNode, target: PortNode): string | undefined {
+    const output = edgeSchemaOf(source, target)
+    const input = inputSchemaOf(target)
+    return portsCompatible(output, input) ? undefined : `${portTypeLabel(output)} → ${portTypeLabel(input)}`
+}
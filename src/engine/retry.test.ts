@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import {
+    DEFAULT_RETRY_DELAY, attemptLabel, isFallbackEdge, isTimeoutError, retryDelayOf, retryPolicyOf, shouldRetry, timeoutLeft,
+} from './retry'
+import { DEFAULT_SCRIPT_TIMEOUT } from './script-runner'
+
+describe('retryPolicyOf', () => {
+    it('defaults to no retries, exponential backoff, any error', () => {
+        expect(retryPolicyOf({})).toEqual({
+            timeout: DEFAULT_SCRIPT_TIMEOUT, retries: 0, delay: DEFAULT_RETRY_DELAY,
+            backoff: 'exponential', retryOn: 'error', match: '',
+        })
+    })
+
+    it('reads the settings, ignoring invalid values', () => {
+        expect(retryPolicyOf({ timeout: '0', retries: 2.5, retryDelay: 100, retryBackoff: 'fixed', retryOn: 'match', retryMatch: '503' }))
+            .toEqual({ timeout: 0, retries: 2, delay: 100, backoff: 'fixed', retryOn: 'match', match: '503' })
+        expect(retryPolicyOf({ timeout: -1, retries: 'many', retryDelay: '', retryBackoff: 'linear', retryOn: 'always' }))
+            .toMatchObject({ timeout: DEFAULT_SCRIPT_TIMEOUT, retries: 0, delay: DEFAULT_RETRY_DELAY, backoff: 'exponential', retryOn: 'error' })
+    })
+})
+
+describe('shouldRetry', () => {
+    it('retries any failure by default', () => {
+        expect(shouldRetry(retryPolicyOf({}), 'boom')).toBe(true)
+    })
+
+    it('retries timeouts only with retryOn timeout', () => {
+        const policy = retryPolicyOf({ retryOn: 'timeout' })
+        expect(isTimeoutError('Timed out after 300ms')).toBe(true)
+        expect(shouldRetry(policy, 'Timed out after 300ms')).toBe(true)
+        expect(shouldRetry(policy, 'boom')).toBe(false)
+    })
+
+    it('retries failures matching retryMatch, never on an invalid or empty regex', () => {
+        expect(shouldRetry(retryPolicyOf({ retryOn: 'match', retryMatch: '50[23]' }), 'HTTP 503')).toBe(true)
+        expect(shouldRetry(retryPolicyOf({ retryOn: 'match', retryMatch: '50[23]' }), 'HTTP 404')).toBe(false)
+        expect(shouldRetry(retryPolicyOf({ retryOn: 'match', retryMatch: '(' }), '(')).toBe(false)
+        expect(shouldRetry(retryPolicyOf({ retryOn: 'match' }), 'anything')).toBe(false)
+    })
+})
+
+describe('retryDelayOf', () => {
+    it('doubles the delay every retry, or keeps it with fixed backoff', () => {
+        const exponential = retryPolicyOf({ retryDelay: 100 })
+        expect([1, 2, 3].map(attempt => retryDelayOf(exponential, attempt))).toEqual([100, 200, 400])
+        const fixed = retryPolicyOf({ retryDelay: 100, retryBackoff: 'fixed' })
+        expect([1, 2, 3].map(attempt => retryDelayOf(fixed, attempt))).toEqual([100, 100, 100])
+    })
+})
+
+describe('isFallbackEdge', () => {
+    it('matches the edge to the node named by data.fallback', () => {
+        expect(isFallbackEdge({ fallback: 'backup' }, 'backup')).toBe(true)
+        expect(isFallbackEdge({ fallback: 'backup' }, 'next')).toBe(false)
+        expect(isFallbackEdge({ fallback: '' }, '')).toBe(false)
+        expect(isFallbackEdge(undefined, 'backup')).toBe(false)
+    })
+})
+
+describe('display', () => {
+    const attempt = { number: 2, of: 3, startedAt: 1000, timeout: 5000 }
+
+    it('labels the attempt', () => {
+        expect(attemptLabel(attempt)).toBe('attempt 2 of 3')
+    })
+
+    it('counts down the time left on the attempt', () => {
+        expect(timeoutLeft(attempt, 2800)).toBe('3.2s')
+        expect(timeoutLeft(attempt, 9000)).toBe('0ms')
+        expect(timeoutLeft({ ...attempt, timeout: 0 }, 2800)).toBeUndefined()
+    })
+})
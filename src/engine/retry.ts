@@ -0,0 +1,119 @@
+/**
+ * Retry — per-node timeout, retry and fallback policy of a job.
+ *
+ * Settings on the node's data:
+ *   timeout      — ms before a run is killed (enforced by the script runners)
+ *   retries      — extra attempts after a failure (0 = none)
+ *   retryDelay   — ms before the first retry
+ *   retryBackoff — 'exponential' (default): the delay doubles every retry
+ *                  'fixed': every retry waits `retryDelay`
+ *   retryOn      — 'error' (default): any failure is retried
+ *                  'timeout': only timeouts
+ *                  'match': failures whose message matches the `retryMatch` regex
+ *   fallback     — ID of a downstream node; the edge to it is taken only
+ *                  once the node has failed its last attempt
+ *
+ * Usage:
+ *   const policy = retryPolicyOf(node.data)
+ *   if (attempt <= policy.retries && shouldRetry(policy, error)) await sleep(retryDelayOf(policy, attempt))
+ *   attemptLabel(state.attempt)   // 'attempt 2 of 3'
+ */
+
+import { formatDuration } from './core'
+import { DEFAULT_SCRIPT_TIMEOUT } from './script-runner'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export type RetryBackoff = 'fixed' | 'exponential'
+
+export type RetryOn = 'error' | 'timeout' | 'match'
+
+export interface RetryPolicy {
+    /** ms per attempt, 0 = no limit */
+    timeout: number
+    retries: number
+    /** ms before the first retry */
+    delay: number
+    backoff: RetryBackoff
+    retryOn: RetryOn
+    /** Regex source (retryOn 'match') */
+    match: string
+}
+
+/** The attempt a node is on — recorded on its run state */
+export interface AttemptState {
+    /** 1-based */
+    number: number
+    /** Attempts allowed in total (retries + 1) */
+    of: number
+    startedAt: number
+    /** ms, 0 = no limit */
+    timeout: number
+}
+
+/** Delay before the first retry when `data.retryDelay` is not set */
+export const DEFAULT_RETRY_DELAY = 1000
+
+// ── Settings ────────────────────────────────────────────────────────────────────
+
+function count(value: unknown, fallback: number): number {
+    const n = Number(value)
+    return value !== undefined && value !== '' && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback
+}
+
+/** Retry policy of a node, with defaults */
+export function retryPolicyOf(data: Record<string, any>): RetryPolicy {
+    return {
+        timeout: count(data.timeout, DEFAULT_SCRIPT_TIMEOUT),
+        retries: count(data.retries, 0),
+        delay: count(data.retryDelay, DEFAULT_RETRY_DELAY),
+        backoff: data.retryBackoff === 'fixed' ? 'fixed' : 'exponential',
+        retryOn: data.retryOn === 'timeout' || data.retryOn === 'match' ? data.retryOn : 'error',
+        match: typeof data.retryMatch === 'string' ? data.retryMatch : '',
+    }
+}
+
+// ── Retrying ────────────────────────────────────────────────────────────────────
+
+/** Failures reported by the script runners when `timeout` expires */
+export function isTimeoutError(message: string): boolean {
+    return message.startsWith('Timed out')
+}
+
+/** Whether a failure with `message` is retried under `policy` (attempts left aside) */
+export function shouldRetry(policy: RetryPolicy, message: string): boolean {
+    if (policy.retryOn === 'timeout') return isTimeoutError(message)
+    if (policy.retryOn === 'match') {
+        try {
+            return !!policy.match && new RegExp(policy.match).test(message)
+        } catch {
+            return false
+        }
+    }
+    return true
+}
+
+/** ms to wait after failed attempt `attempt` (1-based) */
+export function retryDelayOf(policy: RetryPolicy, attempt: number): number {
+    return policy.backoff === 'fixed' ? policy.delay : policy.delay * 2 ** (attempt - 1)
+}
+
+// ── Fallback ────────────────────────────────────────────────────────────────────
+
+/** Whether the edge `source → target` is the source node's fallback edge */
+export function isFallbackEdge(sourceData: Record<string, any> | undefined, target: string): boolean {
+    return !!sourceData?.fallback && sourceData.fallback === target
+}
+
+// ── Display ─────────────────────────────────────────────────────────────────────
+
+/** e.g. 'attempt 2 of 3' */
+export function attemptLabel(attempt: AttemptState): string {
+    return `attempt ${attempt.number} of ${attempt.of}`
+}
+
+/** Time left on an attempt's timeout at `at`, e.g. '3.2s' — undefined without a timeout */
+export function timeoutLeft(attempt: AttemptState, at: number): string | undefined {
+    if (attempt.timeout <= 0) return undefined
+    return formatDuration(Math.max(0, attempt.timeout - (at - attempt.startedAt)))
+}
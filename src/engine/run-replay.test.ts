@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { applyReplayState, createRunReplay, runToSteps } from './run-replay'
+import type { NodeRunRecord, RunRecord } from './run-store'
+
+/** A finished node record */
+function nodeRecord(nodeId: string, patch: Partial<NodeRunRecord>): NodeRunRecord {
+    return {
+        nodeId, label: nodeId.toUpperCase(), type: 'job', subType: 'js', status: 'done',
+        transitions: [], logs: [], logTimes: [], artifacts: [], ...patch,
+    }
+}
+
+/** A → B, where A logs and writes an artifact and B fails 500ms later */
+const record: RunRecord = {
+    id: 'run-1', workflowId: 'wf', workflowName: 'Flow', status: 'error',
+    startedAt: 1000, finishedAt: 1700, durationMs: 700,
+    nodes: {
+        a: nodeRecord('a', {
+            transitions: [{ status: 'running', progress: 0, at: 1000 }, { status: 'done', progress: 50, at: 1200 }],
+            logs: ['hi'], logTimes: [1100],
+            artifacts: [{ name: 'out.json', content: {}, nodeId: 'a', timestamp: 1150 }],
+        }),
+        b: nodeRecord('b', {
+            status: 'error',
+            transitions: [{ status: 'running', progress: 0, at: 1200 }, { status: 'error', progress: 30, at: 1700 }],
+            logs: ['boom'], logTimes: [1400],
+        }),
+    },
+    expectations: {},
+}
+
+// ── Timelines ───────────────────────────────────────────────────────────────────
+
+describe('runToSteps', () => {
+    it('makes one step per transition, then a final run step', () => {
+        expect(runToSteps(record).map(s => s.label)).toEqual([
+            'A → running (+0ms)',
+            'A → done (+200ms)',
+            'B → running (+200ms)',
+            'B → error (+700ms)',
+            'Run error (700ms)',
+        ])
+    })
+
+    it('makes one step per time slice in slices mode', () => {
+        expect(runToSteps(record, { mode: 'slices', sliceMs: 250 }).map(s => s.label)).toEqual([
+            '+250ms — A → running, A → done, B → running',
+            '+500ms — 1 log line',
+            '+700ms — B → error',
+        ])
+    })
+})
+
+// ── Replay ──────────────────────────────────────────────────────────────────────
+
+describe('createRunReplay', () => {
+    it('applies logs and artifacts with the step they happened before', () => {
+        const store = createRunReplay(record)
+        store.next()
+        expect(store.getState().nodes.a).toMatchObject({ status: 'running', logs: [], artifacts: [] })
+
+        store.next()
+        expect(store.getState().nodes.a).toMatchObject({ status: 'done', progress: 100, logs: ['hi'], artifacts: ['out.json'] })
+        expect(store.getState().stepLabel).toBe('A → done (+200ms)')
+    })
+
+    it('steps back and completes on the last step', () => {
+        const store = createRunReplay(record)
+        while (store.next()) { /* to the end */ }
+        expect(store.isCompleted).toBe(true)
+        expect(store.getState().nodes.b).toMatchObject({ status: 'error', progress: 30, logs: ['boom'] })
+
+        store.prev()
+        store.prev()
+        expect(store.getState().nodes.b).toMatchObject({ status: 'running', logs: [] })
+        expect(store.isCompleted).toBe(false)
+    })
+})
+
+describe('applyReplayState', () => {
+    const canvas: { id: string; type: string; data: Record<string, unknown> }[] = [
+        { id: 'a', type: 'job', data: { subType: 'js', label: 'A', state: { totalRuns: 4 } } },
+        { id: 'other', type: 'job', data: { subType: 'js', label: 'Other' } },
+    ]
+
+    it('writes the replayed status, progress and logs into node state', () => {
+        const store = createRunReplay(record)
+        store.next()
+        store.next()
+        const [a, other] = applyReplayState(canvas, store.getState())
+
+        expect(a.data.state).toEqual({ totalRuns: 4, status: 'done', progress: 100, logs: ['hi'] })
+        expect(a.data.logs).toEqual(['hi'])
+        expect(other).toBe(canvas[1])
+    })
+
+    it('leaves nodes alone without a replay', () => {
+        expect(applyReplayState(canvas, null)).toBe(canvas)
+    })
+})
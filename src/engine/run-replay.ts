@@ -0,0 +1,164 @@
+/**
+ * Run Replay — turns a recorded run (RunRecord) into a StepStore timeline,
+ * so StepPlayer can scrub through a real execution with prev / next / play
+ * exactly like the scripted scenarios.
+ *
+ * Timelines:
+ *  - 'transitions' (default) — one step per node status transition; log
+ *    lines and artifacts produced up to that moment are applied with it
+ *  - 'slices' — one step per fixed time slice (`sliceMs`) of the run
+ *
+ * Usage:
+ *   const store = createRunReplay(record)                       // transitions
+ *   const store = createRunReplay(record, { mode: 'slices', sliceMs: 250 })
+ *   <StepPlayer store={store} />
+ *   const nodes = applyReplayState(canvasNodes, store.getState())
+ */
+
+import { formatDuration } from './core'
+import { StepStore, type StepDef, type FlowState } from './automerge-store'
+import type { NodeRunStatus } from './workflow-executor'
+import { nodeSubType } from './workflow-executor'
+import type { RunRecord } from './run-store'
+import { subTypeRegistry } from './widget-subtypes-registry'
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type ReplayMode = 'transitions' | 'slices'
+
+export interface RunReplayOptions {
+    mode?: ReplayMode
+    /** Slice length for 'slices' mode (default 500ms) */
+    sliceMs?: number
+}
+
+/** One recorded change of one node, on the run's clock */
+type ReplayEvent =
+    | { at: number; nodeId: string; kind: 'status'; status: NodeRunStatus; progress: number }
+    | { at: number; nodeId: string; kind: 'log'; line: string }
+    | { at: number; nodeId: string; kind: 'artifact'; name: string }
+
+const DEFAULT_SLICE_MS = 500
+/** Long runs get wider slices rather than thousands of steps */
+const MAX_SLICES = 200
+
+// ── Timeline ───────────────────────────────────────────────────────────────
+
+/** Flatten a record into time-ordered events (status before logs on ties) */
+function collectEvents(record: RunRecord): ReplayEvent[] {
+    const events: ReplayEvent[] = []
+    for (const node of Object.values(record.nodes)) {
+        for (const t of node.transitions) {
+            events.push({ at: t.at, nodeId: node.nodeId, kind: 'status', status: t.status, progress: t.progress })
+        }
+        node.logs.forEach((line, i) => {
+            events.push({ at: node.logTimes[i] ?? node.finishedAt ?? record.startedAt, nodeId: node.nodeId, kind: 'log', line })
+        })
+        for (const a of node.artifacts) {
+            events.push({ at: a.timestamp, nodeId: node.nodeId, kind: 'artifact', name: a.name })
+        }
+    }
+    const rank = { status: 0, log: 1, artifact: 2 }
+    return events.sort((a, b) => a.at - b.at || rank[a.kind] - rank[b.kind])
+}
+
+function applyEvent(s: FlowState, ev: ReplayEvent) {
+    const node = s.nodes[ev.nodeId]
+    if (!node) return
+    switch (ev.kind) {
+        case 'status':
+            node.status = ev.status
+            node.progress = ev.status === 'done' ? 100 : ev.progress
+            break
+        case 'log':
+            node.logs.push(ev.line)
+            break
+        case 'artifact':
+            node.artifacts.push(ev.name)
+            break
+    }
+}
+
+function toStep(label: string, batch: ReplayEvent[]): StepDef {
+    return { label, apply: s => batch.forEach(ev => applyEvent(s, ev)) }
+}
+
+/** One step per status transition, plus a final "Run <status>" step */
+function transitionSteps(record: RunRecord, events: ReplayEvent[]): StepDef[] {
+    const steps: StepDef[] = []
+    let pending: ReplayEvent[] = []
+    for (const ev of events) {
+        pending.push(ev)
+        if (ev.kind !== 'status') continue
+        const label = `${record.nodes[ev.nodeId].label} → ${ev.status} (+${formatDuration(ev.at - record.startedAt)})`
+        steps.push(toStep(label, pending))
+        pending = []
+    }
+    const total = record.durationMs !== undefined ? ` (${formatDuration(record.durationMs)})` : ''
+    steps.push(toStep(`Run ${record.status}${total}`, pending))
+    return steps
+}
+
+/** One step per time slice; each applies everything that happened in it */
+function sliceSteps(record: RunRecord, events: ReplayEvent[], sliceMs: number): StepDef[] {
+    const end = record.finishedAt ?? events[events.length - 1]?.at ?? record.startedAt
+    const span = Math.max(end - record.startedAt, 1)
+    const slice = Math.max(sliceMs, Math.ceil(span / MAX_SLICES))
+    const count = Math.ceil(span / slice)
+
+    const steps: StepDef[] = []
+    let i = 0
+    for (let k = 1; k <= count; k++) {
+        const until = k === count ? Infinity : record.startedAt + k * slice
+        const batch: ReplayEvent[] = []
+        while (i < events.length && events[i].at <= until) batch.push(events[i++])
+
+        const changes = batch
+            .filter(ev => ev.kind === 'status')
+            .map(ev => `${record.nodes[ev.nodeId].label} → ${(ev as Extract<ReplayEvent, { kind: 'status' }>).status}`)
+        const logCount = batch.filter(ev => ev.kind === 'log').length
+        const summary = changes.length ? changes.join(', ')
+            : logCount ? `${logCount} log line${logCount === 1 ? '' : 's'}`
+                : 'no changes'
+        steps.push(toStep(`+${formatDuration(Math.min(k * slice, span))} — ${summary}`, batch))
+    }
+    return steps
+}
+
+/** Build the step timeline of a recorded run */
+export function runToSteps(record: RunRecord, options: RunReplayOptions = {}): StepDef[] {
+    const events = collectEvents(record)
+    return options.mode === 'slices'
+        ? sliceSteps(record, events, options.sliceMs ?? DEFAULT_SLICE_MS)
+        : transitionSteps(record, events)
+}
+
+/** A StepStore that replays a recorded run — hand it to StepPlayer */
+export function createRunReplay(record: RunRecord, options?: RunReplayOptions): StepStore {
+    return new StepStore(Object.keys(record.nodes), runToSteps(record, options))
+}
+
+// ── UI projection ──────────────────────────────────────────────────────────
+
+/**
+ * Project a replay position onto canvas nodes — the replay counterpart of
+ * applyRunState: status, progress and logs go into `data.state` (stateSchema
+ * keys only) and logs are mirrored to `data.logs`.
+ */
+export function applyReplayState<T extends { id: string; type?: string; data: Record<string, any> }>(
+    nodes: T[],
+    flow: FlowState | null,
+): T[] {
+    if (!flow) return nodes
+    return nodes.map(n => {
+        const ns = flow.nodes[n.id]
+        if (!ns) return n
+        const schema = subTypeRegistry.getStateSchema(n.type || '', nodeSubType(n))
+        const values: Record<string, unknown> = { status: ns.status, progress: ns.progress, logs: [...ns.logs] }
+        const state: Record<string, any> = { ...(n.data.state || {}) }
+        for (const [key, value] of Object.entries(values)) {
+            if (key in schema) state[key] = value
+        }
+        return { ...n, data: { ...n.data, state, logs: values.logs } }
+    })
+}
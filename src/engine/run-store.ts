@@ -0,0 +1,268 @@
+/**
+ * RunStore — persistent run history in IndexedDB (next to WorkflowStore).
+ *
+ * Every workflow run is saved as a RunRecord: start/end, final status, and
+ * per node its status transitions, logs, output, artifacts, reviewer
+ * decisions and duration, plus the verdicts of its expectation nodes.
+ * Node cards derive their average execution time and total run count from
+ * this history (nodeStats / applyRunStats).
+ *
+ * A RunRecorder follows a live WorkflowExecutor and builds the record.
+ *
+ * Usage:
+ *   const recorder = new RunRecorder(executor, workflow.name)
+ *   await executor.run()
+ *   const store = await getRunStore()
+ *   await store.save(recorder.finish())
+ *   const stats = await store.nodeStats(workflow.id)
+ */
+
+import { formatDuration, now } from './core'
+import type { Artifact } from './execution-context'
+import type { ExpectationResult } from './expectations'
+import { openDB, idbGet, idbPut, idbDelete, idbGetAllByIndex, STORE_RUNS } from './idb'
+import type { ApprovalDecision, NodeRunStatus, RunStatus, WorkflowExecutor } from './workflow-executor'
+import { nodeSubType } from './workflow-executor'
+import { subTypeRegistry } from './widget-subtypes-registry'
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface NodeTransition {
+    status: NodeRunStatus
+    /** Progress when the node entered this status */
+    progress: number
+    at: number
+}
+
+export interface NodeRunRecord {
+    nodeId: string
+    label: string
+    type: string
+    subType: string
+    status: NodeRunStatus
+    transitions: NodeTransition[]
+    logs: string[]
+    /** When each log line appeared (parallel to `logs`) */
+    logTimes: number[]
+    output?: unknown
+    error?: string
+    artifacts: Artifact[]
+    /** Reviewer decisions (user nodes) */
+    decisions?: ApprovalDecision[]
+    startedAt?: number
+    finishedAt?: number
+    durationMs?: number
+}
+
+export interface RunRecord {
+    /** Same as the executor's runId */
+    id: string
+    workflowId: string
+    workflowName: string
+    status: RunStatus
+    startedAt: number
+    finishedAt?: number
+    durationMs?: number
+    nodes: { [nodeId: string]: NodeRunRecord }
+    /** Expectation verdicts, keyed by expectation node ID */
+    expectations: { [nodeId: string]: ExpectationResult }
+}
+
+/** Aggregates of a node across a workflow's history */
+export interface NodeRunStats {
+    totalRuns: number
+    avgExecMs: number
+    /** Most recent durations first */
+    execTimes: number[]
+}
+
+/** Older runs of a workflow are pruned past this count */
+const MAX_RUNS_PER_WORKFLOW = 50
+
+// ── Recorder ───────────────────────────────────────────────────────────────
+
+export class RunRecorder {
+    private record: RunRecord
+    private unsubscribe: () => void
+
+    constructor(private executor: WorkflowExecutor, workflowName: string) {
+        const { doc } = executor
+        const run = executor.getState()
+        const nodes: RunRecord['nodes'] = {}
+        for (const id of Object.keys(run.nodes)) {
+            const node = doc.nodes.find(n => n.id === id)!
+            nodes[id] = {
+                nodeId: id,
+                label: String(node.data.label || id),
+                type: node.type,
+                subType: nodeSubType(node),
+                status: 'idle',
+                transitions: [],
+                logs: [],
+                logTimes: [],
+                artifacts: [],
+            }
+        }
+        this.record = {
+            id: run.runId,
+            workflowId: doc.id,
+            workflowName,
+            status: run.status,
+            startedAt: now(),
+            nodes,
+            expectations: run.expectations,
+        }
+        this.unsubscribe = executor.subscribe(() => this.capture())
+    }
+
+    /** Copy the executor's latest state, noting status transitions */
+    private capture() {
+        const run = this.executor.getState()
+        const nodes = { ...this.record.nodes }
+        for (const [id, ns] of Object.entries(run.nodes)) {
+            const prev = nodes[id]
+            if (!prev) continue
+            const at = now()
+            const transitions = ns.status !== prev.status
+                ? [...prev.transitions, { status: ns.status, progress: ns.progress, at }]
+                : prev.transitions
+            const logTimes = ns.logs.length > prev.logTimes.length
+                ? [...prev.logTimes, ...ns.logs.slice(prev.logTimes.length).map(() => at)]
+                : prev.logTimes
+            nodes[id] = {
+                ...prev,
+                status: ns.status,
+                transitions,
+                logs: ns.logs,
+                logTimes,
+                output: ns.output,
+                error: ns.error,
+                artifacts: ns.artifacts,
+                decisions: ns.decisions,
+                startedAt: ns.startedAt,
+                finishedAt: ns.finishedAt,
+                durationMs: ns.startedAt && ns.finishedAt ? ns.finishedAt - ns.startedAt : undefined,
+            }
+        }
+        this.record = {
+            ...this.record,
+            status: run.status,
+            startedAt: run.startedAt ?? this.record.startedAt,
+            finishedAt: run.finishedAt,
+            nodes,
+            expectations: run.expectations,
+        }
+    }
+
+    /** Stop recording and return the final record */
+    finish(): RunRecord {
+        this.capture()
+        this.unsubscribe()
+        const { startedAt, finishedAt } = this.record
+        return { ...this.record, durationMs: finishedAt ? finishedAt - startedAt : undefined }
+    }
+}
+
+// ── Store ──────────────────────────────────────────────────────────────────
+
+export class RunStore {
+    private db: IDBDatabase | null = null
+
+    async init(): Promise<void> {
+        this.db = await openDB()
+    }
+
+    private getDB(): IDBDatabase {
+        if (!this.db) throw new Error('RunStore not initialized — call init() first')
+        return this.db
+    }
+
+    /** Save a run (and prune the workflow's oldest runs) */
+    async save(record: RunRecord): Promise<void> {
+        const db = this.getDB()
+        await idbPut(db, STORE_RUNS, record)
+        const runs = await this.list(record.workflowId)
+        for (const old of runs.slice(MAX_RUNS_PER_WORKFLOW)) await idbDelete(db, STORE_RUNS, old.id)
+    }
+
+    /** Load a run by ID */
+    async get(id: string): Promise<RunRecord | undefined> {
+        return idbGet<RunRecord>(this.getDB(), STORE_RUNS, id)
+    }
+
+    /** Runs of a workflow, newest first */
+    async list(workflowId: string): Promise<RunRecord[]> {
+        const runs = await idbGetAllByIndex<RunRecord>(this.getDB(), STORE_RUNS, 'workflowId', workflowId)
+        return runs.sort((a, b) => b.startedAt - a.startedAt)
+    }
+
+    async delete(id: string): Promise<void> {
+        await idbDelete(this.getDB(), STORE_RUNS, id)
+    }
+
+    /** Delete every run of a workflow */
+    async clear(workflowId: string): Promise<void> {
+        for (const run of await this.list(workflowId)) await this.delete(run.id)
+    }
+
+    /** Per-node aggregates over the workflow's history */
+    async nodeStats(workflowId: string): Promise<{ [nodeId: string]: NodeRunStats }> {
+        const stats: { [nodeId: string]: NodeRunStats } = {}
+        for (const run of await this.list(workflowId)) {
+            for (const [id, node] of Object.entries(run.nodes)) {
+                if (node.durationMs === undefined) continue
+                const s = stats[id] ??= { totalRuns: 0, avgExecMs: 0, execTimes: [] }
+                s.totalRuns++
+                s.execTimes.push(node.durationMs)
+            }
+        }
+        for (const s of Object.values(stats)) {
+            s.avgExecMs = s.execTimes.reduce((a, b) => a + b, 0) / s.execTimes.length
+        }
+        return stats
+    }
+}
+
+// ── UI projection ──────────────────────────────────────────────────────────
+
+/**
+ * Write history stats into `data.state` (avgExecTime, execTimes, totalRuns)
+ * — only the keys declared by the node's stateSchema.
+ */
+export function applyRunStats<T extends { id: string; type?: string; data: Record<string, any> }>(
+    nodes: T[],
+    stats: { [nodeId: string]: NodeRunStats },
+): T[] {
+    return nodes.map(n => {
+        const s = stats[n.id]
+        if (!s) return n
+        const schema = subTypeRegistry.getStateSchema(n.type || '', nodeSubType(n))
+        const values: Record<string, unknown> = {
+            avgExecTime: formatDuration(Math.round(s.avgExecMs)),
+            execTimes: s.execTimes.slice(0, 10).map(formatDuration),
+            totalRuns: s.totalRuns,
+        }
+        const state: Record<string, any> = { ...(n.data.state || {}) }
+        for (const [key, value] of Object.entries(values)) {
+            if (key in schema) state[key] = value
+        }
+        return { ...n, data: { ...n.data, state } }
+    })
+}
+
+// ── Singleton ──────────────────────────────────────────────────────────────
+
+let _instance: RunStore | null = null
+let _initPromise: Promise<RunStore> | null = null
+
+export function getRunStore(): Promise<RunStore> {
+    if (_instance) return Promise.resolve(_instance)
+    if (_initPromise) return _initPromise
+    _initPromise = (async () => {
+        const store = new RunStore()
+        await store.init()
+        _instance = store
+        return store
+    })()
+    return _initPromise
+}
@@ -1,72 +1,239 @@
 /**
- * Script Runner — execute JS code in the browser (no sandbox).
+ * Script Runner — execute JS code in a sandboxed Web Worker.
  *
- * Uses `new Function` to compile and run user code with access to:
- *   - `console` — a fake console that captures log/error output
- *   - `messenger` — the node's AgentMessenger instance
+ * Each run spawns a fresh worker (see script-worker.ts) where user code is
+ * compiled with `new Function` and has access to:
+ *   - `ctx` — the ExecutionContext (node, neighbors, inputs, log, progress,
+ *     emitArtifact, toolCall, getSecret) — also passed to `activate(ctx)`
+ *   - `console` — captured, streamed back line by line
+ *   - `messenger` — proxy of the node's AgentMessenger (`send` only)
  *   - `nodeName` — label of the current node
  *
- * The script can call `messenger.send(...)` to send messages.
+ * `activate(ctx)` may be async; the run stays open until its promise
+ * settles. A rejection ends the run as `error` with the stack in the logs.
+ * Its return value becomes `result.output`.
+ *
+ * With `language: 'ts'` the code is transpiled locally first (ts-transpile.ts);
+ * transpile errors fail the run before any code executes, with line numbers
+ * of the original source.
+ *
+ * The worker is terminated when the script finishes, when the timeout
+ * expires, when the abort signal fires, or when the node's messenger
+ * receives the `terminate` SystemCommand. `pause` / `resume` suspend the
+ * script at its next await point (the timeout clock stops while paused).
+ * `shutdown` lets the script finish.
  *
  * @example
- *   const result = runScriptInBrowser(code, messenger, 'My Script')
+ *   const result = await runScriptInBrowser(code, messenger, context, {
+ *       timeout: 5000,
+ *       onLog: line => console.log(line),
+ *   })
  *   // result.logs => ['> Running...', 'Hello!', '> Done ✓']
  *   // result.status => 'done' | 'error'
  */
 
-import type { AgentMessenger } from './AgentMessenger'
+import type { AgentMessenger, MessageType } from './AgentMessenger'
+import { formatDuration, now } from './core'
+import type { Artifact, ExecutionContextData, SecretResolver, ToolCall } from './execution-context'
+import type { WorkerEvent, WorkerRequest } from './script-worker'
+import { transpileTs, hasErrors, formatDiagnostic, type TsDiagnostic } from './ts-transpile'
 
 export interface ScriptResult {
     logs: string[]
     status: 'done' | 'error'
+    /** Error message when status is 'error' */
+    error?: string
+    /** Value returned by the script */
+    output?: unknown
+    /** Artifacts emitted via ctx.emitArtifact() */
+    artifacts?: Artifact[]
+    /** Tool calls reported via ctx.toolCall() */
+    toolCalls?: ToolCall[]
+    /** TypeScript transpile diagnostics (language 'ts' only) */
+    diagnostics?: TsDiagnostic[]
 }
 
+export interface ScriptRunOptions {
+    /** Source language — 'ts' is transpiled before execution. Default: 'js' */
+    language?: 'js' | 'ts'
+    /** Kill the script after this many ms (0 = no limit) */
+    timeout?: number
+    /** Called for every log line as soon as it is produced */
+    onLog?: (line: string) => void
+    /** Called when the script reports progress (0-100) */
+    onProgress?: (pct: number) => void
+    /** Called for every artifact emitted via ctx.emitArtifact() */
+    onArtifact?: (artifact: Artifact) => void
+    /** Called for every tool call reported via ctx.toolCall() */
+    onToolCall?: (call: ToolCall) => void
+    /** Answers ctx.getSecret() — scripts get `undefined` when omitted */
+    getSecret?: SecretResolver
+    /** Terminates the worker when aborted */
+    signal?: AbortSignal
+}
+
+/** Default per-node timeout (matches the preset `timeout` in docs/node-types.md) */
+export const DEFAULT_SCRIPT_TIMEOUT = 5000
+
 /**
- * Execute a JS script in the browser with access to AgentMessenger.
+ * Execute a JS/TS script in a Web Worker with an ExecutionContext.
  *
- * The script runs synchronously via `new Function`. Any `console.log()`
- * calls are captured into the result logs. The `messenger` instance is
- * passed directly so scripts can send messages to other nodes.
+ * Resolves once the script finishes or is killed — never rejects.
+ * Log lines are collected into the result and streamed via `onLog`.
  */
-export function runScriptInBrowser(
+export async function runScriptInBrowser(
     code: string,
     messenger: AgentMessenger,
-    nodeName: string,
-): ScriptResult {
-    const logs: string[] = ['> Running...']
-
-    const fakeConsole = {
-        log: (...args: unknown[]) => {
-            logs.push(args.map(a =>
-                typeof a === 'object' ? JSON.stringify(a) : String(a),
-            ).join(' '))
-        },
-        error: (...args: unknown[]) => {
-            logs.push('ERROR: ' + args.map(String).join(' '))
-        },
-        warn: (...args: unknown[]) => {
-            logs.push('WARN: ' + args.map(String).join(' '))
-        },
+    context: ExecutionContextData,
+    options: ScriptRunOptions = {},
+): Promise<ScriptResult> {
+    const { language = 'js', timeout = DEFAULT_SCRIPT_TIMEOUT, onLog, onProgress, onArtifact, onToolCall, getSecret, signal } = options
+    const logs: string[] = []
+    const artifacts: Artifact[] = []
+    const toolCalls: ToolCall[] = []
+
+    const push = (line: string) => {
+        logs.push(line)
+        onLog?.(line)
     }
 
-    try {
-        // Strip `export` keywords so plain module-style code works
-        const cleanCode = code.replace(/^export\s+/gm, '')
-
-        // Build the function with messenger, console, and nodeName in scope
-        const fn = new Function(
-            'console',
-            'messenger',
-            'nodeName',
-            `${cleanCode}\nif (typeof activate === 'function') activate({ messenger, nodeName });`,
-        )
-
-        fn(fakeConsole, messenger, nodeName)
-        logs.push('> Done ✓')
-        return { logs, status: 'done' }
-    } catch (err: unknown) {
-        const msg = err instanceof Error ? err.message : String(err)
-        logs.push(`ERROR: ${msg}`)
-        return { logs, status: 'error' }
+    push('> Running...')
+
+    let diagnostics: TsDiagnostic[] | undefined
+    if (language === 'ts') {
+        try {
+            const out = await transpileTs(code)
+            diagnostics = out.diagnostics
+            code = out.js
+        } catch (err: unknown) {
+            const error = `TypeScript compiler failed to load: ${err instanceof Error ? err.message : String(err)}`
+            push(`ERROR: ${error}`)
+            return { logs, status: 'error', error }
+        }
+        if (hasErrors(diagnostics)) {
+            for (const d of diagnostics) push(`ERROR: ${formatDiagnostic(d)}`)
+            const count = diagnostics.filter(d => d.severity === 'error').length
+            return { logs, status: 'error', error: `TypeScript: ${count} error(s)`, diagnostics }
+        }
     }
+
+    return new Promise(resolve => {
+        const worker = new Worker(new URL('./script-worker.ts', import.meta.url), { type: 'module' })
+        let timer: ReturnType<typeof setTimeout> | undefined
+        let settled = false
+        /** Time left on the timeout clock (counted only while not paused) */
+        let remaining = timeout
+        let clockStartedAt = 0
+
+        const startClock = () => {
+            if (timeout <= 0 || settled) return
+            clockStartedAt = now()
+            timer = setTimeout(() => finish(`Timed out after ${formatDuration(timeout)}`), remaining)
+        }
+        const stopClock = () => {
+            if (timeout <= 0 || timer === undefined) return
+            clearTimeout(timer)
+            timer = undefined
+            remaining = Math.max(0, remaining - (now() - clockStartedAt))
+        }
+
+        const finish = (error?: string, stack?: string, output?: unknown) => {
+            if (settled) return
+            settled = true
+            worker.terminate()
+            clearTimeout(timer)
+            unsubSystem()
+            signal?.removeEventListener('abort', onAbort)
+            if (error === undefined) {
+                push('> Done ✓')
+                resolve({ logs, status: 'done', output, artifacts, toolCalls, diagnostics })
+                return
+            }
+            push(`ERROR: ${error}`)
+            // Stack frames only (the first stack line repeats the message)
+            for (const frame of stack?.split('\n').slice(1) ?? []) {
+                if (frame.trim()) push(`  ${frame.trim()}`)
+            }
+            resolve({ logs, status: 'error', error, artifacts, toolCalls, diagnostics })
+        }
+
+        const onAbort = () => finish('Cancelled')
+
+        const unsubSystem = messenger.onSystem(cmd => {
+            if (settled) return
+            if (cmd === 'terminate') finish('Terminated')
+            else if (cmd === 'pause') {
+                stopClock()
+                worker.postMessage({ type: 'pause' } satisfies WorkerRequest)
+            } else if (cmd === 'resume') {
+                worker.postMessage({ type: 'resume' } satisfies WorkerRequest)
+                if (timer === undefined) startClock()
+            }
+        })
+
+        worker.onmessage = (e: MessageEvent<WorkerEvent>) => {
+            if (settled) return
+            const ev = e.data
+            switch (ev.type) {
+                case 'log':
+                    push(ev.line)
+                    break
+                case 'progress':
+                    onProgress?.(Math.max(0, Math.min(100, ev.value)))
+                    break
+                case 'send':
+                    // A bus-attached messenger refuses non-contacts
+                    try {
+                        messenger.send(ev.to, ev.msgType as MessageType, ev.payload)
+                    } catch (err: unknown) {
+                        push(`ERROR: ${err instanceof Error ? err.message : String(err)}`)
+                    }
+                    break
+                case 'artifact': {
+                    const artifact: Artifact = {
+                        name: ev.name, content: ev.content, mimeType: ev.mimeType,
+                        nodeId: context.node.id, timestamp: now(),
+                    }
+                    artifacts.push(artifact)
+                    onArtifact?.(artifact)
+                    break
+                }
+                case 'tool-call': {
+                    const call: ToolCall = { name: ev.name, args: ev.args, nodeId: context.node.id, timestamp: now() }
+                    toolCalls.push(call)
+                    push(`⚡ tool_call: ${ev.name}(${ev.args === undefined ? '' : JSON.stringify(ev.args)})`)
+                    onToolCall?.(call)
+                    break
+                }
+                case 'secret':
+                    Promise.resolve(getSecret?.(ev.name))
+                        .catch(() => undefined)
+                        .then(value => {
+                            if (settled) return
+                            const reply: WorkerRequest = { type: 'secret', requestId: ev.requestId, value }
+                            worker.postMessage(reply)
+                        })
+                    break
+                case 'done':
+                    finish(undefined, undefined, ev.output)
+                    break
+                case 'error':
+                    finish(ev.message, ev.stack)
+                    break
+            }
+        }
+
+        worker.onerror = (e: ErrorEvent) => {
+            e.preventDefault()
+            finish(e.message || 'Worker failed')
+        }
+
+        if (signal?.aborted) return onAbort()
+        signal?.addEventListener('abort', onAbort)
+
+        startClock()
+
+        const request: WorkerRequest = { type: 'run', code, context }
+        worker.postMessage(request)
+    })
 }
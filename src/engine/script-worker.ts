@@ -0,0 +1,194 @@
+/**
+ * Script Worker — sandboxed execution environment for browser scripts.
+ *
+ * Runs inside a dedicated Web Worker spawned by `runScriptInBrowser`, so user
+ * code has no access to `window`, the DOM, `localStorage` or the integration
+ * tokens. An endless loop only blocks this worker — the runner terminates it
+ * when the node's timeout expires or a `terminate` command arrives.
+ *
+ * Protocol:
+ *   main → worker   { type: 'run', code, context }
+ *                   { type: 'secret', requestId, value }
+ *                   { type: 'pause' } | { type: 'resume' }
+ *   worker → main   { type: 'log', line }
+ *                   { type: 'progress', value }
+ *                   { type: 'send', to, msgType, payload }
+ *                   { type: 'artifact', name, content, mimeType? }
+ *                   { type: 'tool-call', name, args? }
+ *                   { type: 'secret', requestId, name }
+ *                   { type: 'done', output } | { type: 'error', message, stack? }
+ *
+ * `activate(ctx)` may be async — the run settles only when its promise does.
+ * Its return value (or a top-level `return`) becomes the node's output.
+ *
+ * While paused, the script suspends at its next await point: timers,
+ * ctx.getSecret() answers and ctx.checkpoint() are held until resume.
+ */
+
+import type { ExecutionContextData } from './execution-context'
+
+// ── Protocol ────────────────────────────────────────────────────────────────────
+
+export type WorkerRequest =
+    | { type: 'run'; code: string; context: ExecutionContextData }
+    | { type: 'secret'; requestId: number; value: string | undefined }
+    | { type: 'pause' }
+    | { type: 'resume' }
+
+export type WorkerEvent =
+    | { type: 'log'; line: string }
+    | { type: 'progress'; value: number }
+    | { type: 'send'; to: string; msgType: string; payload: unknown }
+    | { type: 'artifact'; name: string; content: unknown; mimeType?: string }
+    | { type: 'tool-call'; name: string; args?: unknown }
+    | { type: 'secret'; requestId: number; name: string }
+    | { type: 'done'; output: unknown }
+    | { type: 'error'; message: string; stack?: string }
+
+/** Worker globals hidden from user code (shadowed with `undefined`) */
+const SHADOWED_GLOBALS = ['self', 'globalThis', 'postMessage', 'close', 'importScripts', 'indexedDB', 'caches']
+
+// ── Sandbox ─────────────────────────────────────────────────────────────────────
+
+function post(event: WorkerEvent) {
+    self.postMessage(event)
+}
+
+function formatArgs(args: unknown[]): string {
+    return args.map(a =>
+        typeof a === 'object' && a !== null ? JSON.stringify(a) : String(a),
+    ).join(' ')
+}
+
+/** Values cross the worker boundary — keep them structured-cloneable */
+function toCloneable(value: unknown): unknown {
+    if (value === undefined) return undefined
+    try {
+        return JSON.parse(JSON.stringify(value))
+    } catch {
+        return String(value)
+    }
+}
+
+const sandboxConsole = {
+    log: (...args: unknown[]) => post({ type: 'log', line: formatArgs(args) }),
+    info: (...args: unknown[]) => post({ type: 'log', line: formatArgs(args) }),
+    error: (...args: unknown[]) => post({ type: 'log', line: 'ERROR: ' + formatArgs(args) }),
+    warn: (...args: unknown[]) => post({ type: 'log', line: 'WARN: ' + formatArgs(args) }),
+}
+
+/** Messenger proxy — forwards sends to the node's AgentMessenger on the main thread */
+const messengerProxy = {
+    send: (to: string, msgType: string, payload?: unknown) => {
+        post({ type: 'send', to, msgType, payload: toCloneable(payload) ?? null })
+    },
+}
+
+// ── Pause ───────────────────────────────────────────────────────────────────────
+
+let paused = false
+const heldWhilePaused: (() => void)[] = []
+
+/** Run `fn` now, or on resume when paused */
+function whenResumed(fn: () => void) {
+    if (paused) heldWhilePaused.push(fn)
+    else fn()
+}
+
+/** Pause-aware timers handed to user code */
+const sandboxSetTimeout = (fn: (...args: unknown[]) => void, ms?: number, ...args: unknown[]) =>
+    setTimeout(() => whenResumed(() => fn(...args)), ms)
+const sandboxSetInterval = (fn: (...args: unknown[]) => void, ms?: number, ...args: unknown[]) =>
+    setInterval(() => whenResumed(() => fn(...args)), ms)
+
+/** ctx.checkpoint() — explicit await point for CPU-bound loops */
+function checkpoint(): Promise<void> {
+    return new Promise(resolve => whenResumed(resolve))
+}
+
+// Pending ctx.getSecret() calls, answered by the main thread
+let _secretCounter = 0
+const pendingSecrets: Map<number, (value: string | undefined) => void> = new Map()
+
+function getSecret(name: string): Promise<string | undefined> {
+    const requestId = ++_secretCounter
+    return new Promise(resolve => {
+        pendingSecrets.set(requestId, resolve)
+        post({ type: 'secret', requestId, name: String(name) })
+    })
+}
+
+/** Build the `ctx` object passed to activate() */
+function createContext(data: ExecutionContextData) {
+    return {
+        ...data,
+        messenger: messengerProxy,
+        log: sandboxConsole.log,
+        progress: (value: number) => post({ type: 'progress', value: Number(value) || 0 }),
+        checkpoint,
+        emitArtifact: (name: string, content: unknown, mimeType?: string) => {
+            post({ type: 'artifact', name: String(name), content: toCloneable(content), mimeType })
+        },
+        toolCall: (name: string, args?: unknown) => {
+            post({ type: 'tool-call', name: String(name), args: toCloneable(args) })
+        },
+        getSecret,
+    }
+}
+
+function errorEvent(err: unknown): WorkerEvent {
+    if (err instanceof Error) return { type: 'error', message: err.message, stack: err.stack }
+    return { type: 'error', message: String(err) }
+}
+
+// Fire-and-forget promises that reject are still surfaced in the logs
+self.addEventListener('unhandledrejection', (e: PromiseRejectionEvent) => {
+    const reason = e.reason instanceof Error ? e.reason.message : String(e.reason)
+    post({ type: 'log', line: `ERROR: Unhandled rejection: ${reason}` })
+})
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+    const req = e.data
+
+    if (req.type === 'secret') {
+        const resolve = pendingSecrets.get(req.requestId)
+        pendingSecrets.delete(req.requestId)
+        whenResumed(() => resolve?.(req.value))
+        return
+    }
+
+    if (req.type === 'pause') {
+        paused = true
+        return
+    }
+
+    if (req.type === 'resume') {
+        paused = false
+        heldWhilePaused.splice(0).forEach(fn => fn())
+        return
+    }
+
+    try {
+        // Strip `export` keywords so plain module-style code works
+        const cleanCode = req.code.replace(/^export\s+/gm, '')
+        const ctx = createContext(req.context)
+
+        const fn = new Function(
+            'console',
+            'ctx',
+            'messenger',
+            'nodeName',
+            'setTimeout',
+            'setInterval',
+            ...SHADOWED_GLOBALS,
+            `${cleanCode}\nif (typeof activate === 'function') return activate(ctx);`,
+        )
+
+        // Shadowed globals are left undefined. Await async activate() —
+        // the node stays running until its promise settles.
+        const output = await fn(sandboxConsole, ctx, messengerProxy, ctx.node.name, sandboxSetTimeout, sandboxSetInterval)
+        post({ type: 'done', output: toCloneable(output) })
+    } catch (err: unknown) {
+        post(errorEvent(err))
+    }
+}
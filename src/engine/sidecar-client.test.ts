@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { SidecarEvent, SidecarRequest } from './sidecar-client'
+
+// ── Fake sidecar ────────────────────────────────────────────────────────────────
+
+/** Stands in for the browser WebSocket: greets, then answers runs with `reply` */
+class FakeSidecarSocket {
+    static readonly OPEN = 1
+    static reply: (req: Extract<SidecarRequest, { type: 'run' }>, socket: FakeSidecarSocket) => void = () => {}
+
+    /** The socket the client opened last */
+    static last: FakeSidecarSocket | null = null
+
+    readyState = FakeSidecarSocket.OPEN
+    onmessage: ((e: { data: string }) => void) | null = null
+    onclose: (() => void) | null = null
+
+    constructor() {
+        FakeSidecarSocket.last = this
+        setTimeout(() => this.emit({ type: 'hello', version: 'test', languages: ['sh', 'py'] }))
+    }
+
+    send(data: string) {
+        const req = JSON.parse(data) as SidecarRequest
+        if (req.type === 'run') setTimeout(() => FakeSidecarSocket.reply(req, this))
+    }
+
+    emit(ev: SidecarEvent) {
+        this.onmessage?.({ data: JSON.stringify(ev) })
+    }
+
+    drop() {
+        this.readyState = 3
+        this.onclose?.()
+    }
+}
+
+beforeAll(() => { vi.stubGlobal('WebSocket', FakeSidecarSocket) })
+afterAll(() => { vi.unstubAllGlobals() })
+
+/** The shared client, once it got the fake's hello */
+async function connectedClient() {
+    const { getSidecarClient } = await import('./sidecar-client')
+    const client = getSidecarClient()
+    await vi.waitFor(() => expect(client.getState().status).toBe('online'))
+    return client
+}
+
+// ── Runs ────────────────────────────────────────────────────────────────────────
+
+/** A workflow: start → one job of `data` */
+function oneJob(data: Record<string, unknown>) {
+    return {
+        id: 'wf', name: 'Test', createdAt: 0, updatedAt: 0,
+        nodes: [
+            { id: 's', type: 'starting', position: { x: 0, y: 0 }, data: {} },
+            { id: 'sh', type: 'job', position: { x: 0, y: 0 }, data },
+        ],
+        edges: [{ id: 's-sh', source: 's', target: 'sh' }],
+    }
+}
+
+describe('sidecar jobs', () => {
+    it('output what the sidecar read back from OUTPUT_FILE', async () => {
+        await connectedClient()
+        const { WorkflowExecutor } = await import('./workflow-executor')
+        FakeSidecarSocket.reply = (req, socket) => {
+            socket.emit({ type: 'log', runId: req.runId, stream: 'stdout', line: 'counting' })
+            socket.emit({ type: 'exit', runId: req.runId, code: 0, signal: null, status: 'done', output: { count: 3 } })
+        }
+
+        const run = await new WorkflowExecutor(oneJob({ subType: 'sh', code: 'echo counting' })).run()
+        expect(run.nodes.sh.status).toBe('done')
+        expect(run.nodes.sh.logs).toContain('counting')
+        expect(run.nodes.sh.output).toEqual({ count: 3 })
+    })
+})
+
+describe('sidecar drops', () => {
+    it('takes the job\'s node offline, then fails the node', async () => {
+        await connectedClient()
+        const { MessageBus } = await import('./MessageBus')
+        const { WorkflowExecutor } = await import('./workflow-executor')
+        FakeSidecarSocket.reply = (_req, socket) => socket.drop()
+
+        const doc = oneJob({ subType: 'sh', code: 'echo hi' })
+        const bus = new MessageBus(doc.nodes, doc.edges)
+        const executor = new WorkflowExecutor(doc, { bus })
+        const seen: string[] = []
+        bus.onPresence((id, online) => {
+            if (id === 'sh') seen.push(`${online ? 'online' : 'offline'} (${executor.getState().nodes.sh.status})`)
+        })
+
+        const run = await executor.run()
+        expect(seen).toEqual(['online (running)', 'offline (running)'])
+        expect(run.nodes.sh.error).toBe('Sidecar disconnected')
+    })
+})
+
+describe('sidecar errors without a run', () => {
+    it('show up in the connection state until the next hello', async () => {
+        const { SidecarClient } = await import('./sidecar-client')
+        const client = new SidecarClient()
+        await vi.waitFor(() => expect(client.getState().status).toBe('online'))
+        const socket = FakeSidecarSocket.last!
+        socket.emit({ type: 'error', message: 'Unknown message type "ping"' })
+        expect(client.getState()).toMatchObject({ status: 'online', error: 'Unknown message type "ping"' })
+
+        socket.emit({ type: 'hello', version: 'test', languages: ['sh', 'py'] })
+        expect(client.getState().error).toBeUndefined()
+    })
+})
@@ -0,0 +1,308 @@
+/**
+ * Sidecar Client — runs `sh` / `py` jobs through the local Node.js sidecar.
+ *
+ * The sidecar (packages/sidecar) listens on a localhost WebSocket and spawns
+ * each job in its own temp directory. This client keeps one connection open,
+ * reconnects with backoff while the sidecar is down, and exposes its
+ * connection status via subscribe/getState so the UI can mark shell/python
+ * nodes as unavailable — or show the last error the sidecar reported outside
+ * a run (e.g. a message it could not parse).
+ *
+ * URL: `VITE_SIDECAR_URL` (default ws://localhost:7788). Start the sidecar
+ * with `npm run sidecar`.
+ *
+ * Usage:
+ *   const client = getSidecarClient()
+ *   client.subscribe(() => setStatus(client.getState().status))
+ *   client.getState().error   // e.g. 'Unknown message type "ping"'
+ *
+ *   const result = await runScriptInSidecar(code, messenger, context, {
+ *       language: 'py',
+ *       onLog: line => console.log(line),
+ *   })
+ */
+
+import type { AgentMessenger } from './AgentMessenger'
+import { generateId } from './core'
+import type { ExecutionContextData } from './execution-context'
+import { DEFAULT_SCRIPT_TIMEOUT, type ScriptResult } from './script-runner'
+
+// ── Protocol ────────────────────────────────────────────────────────────────────
+
+export type SidecarLanguage = 'sh' | 'py'
+
+export type SidecarRequest =
+    | { type: 'run'; runId: string; language: SidecarLanguage; code: string; context: ExecutionContextData; timeout?: number }
+    | { type: 'signal'; runId: string; command: 'terminate' | 'pause' | 'resume' }
+
+export type SidecarEvent =
+    | { type: 'hello'; version: string; languages: string[] }
+    | { type: 'log'; runId: string; stream: 'stdout' | 'stderr'; line: string }
+    | { type: 'exit'; runId: string; code: number | null; signal: string | null; status: 'done' | 'error'; reason?: string | null; output?: unknown }
+    | { type: 'error'; runId?: string; message: string }
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export type SidecarStatus = 'connecting' | 'online' | 'offline'
+
+export interface SidecarState {
+    status: SidecarStatus
+    /** Languages the sidecar has interpreters for (from its hello) */
+    languages: string[]
+    /** Sidecar version (from its hello) */
+    version?: string
+    /** Last error the sidecar sent without a run ID — cleared by its next hello */
+    error?: string
+}
+
+interface RunHandlers {
+    onLog: (stream: 'stdout' | 'stderr', line: string) => void
+    /** The connection dropped — onError follows */
+    onDisconnect: () => void
+    onExit: (ev: Extract<SidecarEvent, { type: 'exit' }>) => void
+    onError: (message: string) => void
+}
+
+export const DEFAULT_SIDECAR_URL = 'ws://localhost:7788'
+
+const RECONNECT_MIN_MS = 1000
+const RECONNECT_MAX_MS = 15000
+
+// ── Client ──────────────────────────────────────────────────────────────────────
+
+export class SidecarClient {
+    readonly url: string
+    private state: SidecarState = { status: 'connecting', languages: [] }
+    private listeners: Set<() => void> = new Set()
+    private ws: WebSocket | null = null
+    private runs: Map<string, RunHandlers> = new Map()
+    private retryDelay = RECONNECT_MIN_MS
+    private retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    constructor(url: string = DEFAULT_SIDECAR_URL) {
+        this.url = url
+        this.connect()
+    }
+
+    // ── Subscription ────────────────────────────────────────────────────────
+
+    /** Subscribe to connection changes. Returns unsubscribe function. */
+    subscribe(fn: () => void): () => void {
+        this.listeners.add(fn)
+        return () => { this.listeners.delete(fn) }
+    }
+
+    getState(): SidecarState {
+        return this.state
+    }
+
+    private setState(patch: Partial<SidecarState>) {
+        this.state = { ...this.state, ...patch }
+        this.listeners.forEach(fn => fn())
+    }
+
+    /** True when the sidecar is connected and can run `language` */
+    canRun(language: SidecarLanguage): boolean {
+        return this.state.status === 'online' && this.state.languages.includes(language)
+    }
+
+    // ── Connection ──────────────────────────────────────────────────────────
+
+    private connect() {
+        clearTimeout(this.retryTimer)
+        let ws: WebSocket
+        try {
+            ws = new WebSocket(this.url)
+        } catch {
+            this.handleClose()
+            return
+        }
+        this.ws = ws
+
+        ws.onmessage = (e: MessageEvent<string>) => {
+            let ev: SidecarEvent
+            try {
+                ev = JSON.parse(e.data)
+            } catch {
+                return
+            }
+            this.handleEvent(ev)
+        }
+        ws.onclose = () => {
+            if (this.ws === ws) this.handleClose()
+        }
+    }
+
+    private handleClose() {
+        this.ws = null
+        // In-flight runs can't finish without the sidecar
+        for (const handlers of this.runs.values()) {
+            handlers.onDisconnect()
+            handlers.onError('Sidecar disconnected')
+        }
+        this.runs.clear()
+        if (this.state.status !== 'offline') this.setState({ status: 'offline' })
+
+        this.retryTimer = setTimeout(() => this.connect(), this.retryDelay)
+        this.retryDelay = Math.min(this.retryDelay * 2, RECONNECT_MAX_MS)
+    }
+
+    private handleEvent(ev: SidecarEvent) {
+        switch (ev.type) {
+            case 'hello':
+                this.retryDelay = RECONNECT_MIN_MS
+                this.setState({ status: 'online', languages: ev.languages, version: ev.version, error: undefined })
+                break
+            case 'log':
+                this.runs.get(ev.runId)?.onLog(ev.stream, ev.line)
+                break
+            case 'exit':
+                this.runs.get(ev.runId)?.onExit(ev)
+                this.runs.delete(ev.runId)
+                break
+            case 'error':
+                if (!ev.runId) {
+                    this.setState({ error: ev.message })
+                    break
+                }
+                this.runs.get(ev.runId)?.onError(ev.message)
+                this.runs.delete(ev.runId)
+                break
+        }
+    }
+
+    private send(req: SidecarRequest): boolean {
+        if (this.ws?.readyState !== WebSocket.OPEN) return false
+        this.ws.send(JSON.stringify(req))
+        return true
+    }
+
+    // ── Runs ────────────────────────────────────────────────────────────────
+
+    /**
+     * Start a job on the sidecar. Returns the run ID, or null when the
+     * sidecar is not connected.
+     */
+    start(req: Omit<Extract<SidecarRequest, { type: 'run' }>, 'type' | 'runId'>, handlers: RunHandlers): string | null {
+        const runId = generateId('sidecar-run')
+        this.runs.set(runId, handlers)
+        if (!this.send({ type: 'run', runId, ...req })) {
+            this.runs.delete(runId)
+            return null
+        }
+        return runId
+    }
+
+    /** Forward a control command to a running job */
+    signal(runId: string, command: 'terminate' | 'pause' | 'resume') {
+        this.send({ type: 'signal', runId, command })
+    }
+}
+
+let _client: SidecarClient | null = null
+
+/** Shared client — connects on first use */
+export function getSidecarClient(): SidecarClient {
+    if (!_client) _client = new SidecarClient(import.meta.env.VITE_SIDECAR_URL || DEFAULT_SIDECAR_URL)
+    return _client
+}
+
+// ── Script runs ─────────────────────────────────────────────────────────────────
+
+export interface SidecarRunOptions {
+    language: SidecarLanguage
+    /** Kill the job after this many ms (0 = no limit) */
+    timeout?: number
+    /** Called for every log line as soon as it is produced */
+    onLog?: (line: string) => void
+    /** Called when the sidecar drops while the job runs (the run then fails) */
+    onDisconnect?: () => void
+    /** Terminates the job when aborted */
+    signal?: AbortSignal
+}
+
+/**
+ * Execute a `sh` / `py` script on the sidecar.
+ *
+ * Same contract as runScriptInBrowser: resolves once the job exits or is
+ * killed — never rejects. stderr lines are logged with an `ERROR: ` prefix;
+ * a non-zero exit code ends the run as `error`. The output is what the job
+ * wrote to `$OUTPUT_FILE` (JSON, else text — a Python `activate()` return
+ * value is written there for it). The node's messenger
+ * `pause` / `resume` / `terminate` commands are forwarded to the process;
+ * `shutdown` lets it finish.
+ */
+export function runScriptInSidecar(
+    code: string,
+    messenger: AgentMessenger,
+    context: ExecutionContextData,
+    options: SidecarRunOptions,
+): Promise<ScriptResult> {
+    const { language, timeout = DEFAULT_SCRIPT_TIMEOUT, onLog, onDisconnect, signal } = options
+    const client = getSidecarClient()
+    const logs: string[] = []
+
+    const push = (line: string) => {
+        logs.push(line)
+        onLog?.(line)
+    }
+
+    push(`> Running on sidecar (${language})...`)
+
+    if (!client.canRun(language)) {
+        const error = client.getState().status === 'online'
+            ? `Sidecar has no interpreter for "${language}"`
+            : 'Node.js sidecar is not running (npm run sidecar)'
+        push(`ERROR: ${error}`)
+        return Promise.resolve({ logs, status: 'error', error })
+    }
+
+    return new Promise(resolve => {
+        let settled = false
+        let runId: string | null = null
+        /** Set when the job was killed from this side */
+        let killReason: string | undefined
+
+        const finish = (error?: string, output?: unknown) => {
+            if (settled) return
+            settled = true
+            unsubSystem()
+            signal?.removeEventListener('abort', onAbort)
+            if (error === undefined) {
+                push('> Done ✓')
+                resolve({ logs, status: 'done', output })
+                return
+            }
+            push(`ERROR: ${error}`)
+            resolve({ logs, status: 'error', error })
+        }
+
+        const kill = (reason: string) => {
+            killReason ??= reason
+            if (runId) client.signal(runId, 'terminate')
+        }
+
+        const onAbort = () => kill('Cancelled')
+
+        const unsubSystem = messenger.onSystem(cmd => {
+            if (!runId) return
+            if (cmd === 'pause' || cmd === 'resume') client.signal(runId, cmd)
+            else if (cmd === 'terminate') kill('Terminated')
+            // 'shutdown' drains — the job is allowed to finish
+        })
+
+        runId = client.start({ language, code, context, timeout }, {
+            onLog: (stream, line) => push(stream === 'stderr' ? `ERROR: ${line}` : line),
+            onDisconnect: () => onDisconnect?.(),
+            onExit: (ev) => {
+                if (ev.status === 'done') return finish(undefined, ev.output)
+                finish(killReason || ev.reason || (ev.signal ? `Killed by ${ev.signal}` : `Exited with code ${ev.code}`))
+            },
+            onError: (message) => finish(message),
+        })
+
+        if (!runId) return finish('Node.js sidecar is not running (npm run sidecar)')
+        if (signal?.aborted) return onAbort()
+        signal?.addEventListener('abort', onAbort)
+    })
+}
@@ -0,0 +1,176 @@
+/**
+ * SubFlow — a `subflow` node runs another saved workflow as a child execution.
+ *
+ * The node links the workflow with `data.workflowId` (a WorkflowStore ID).
+ * Its inputs are handed to the child's starting node; the outputs of the
+ * child's last nodes (sinks) become the subflow node's output. Both sides
+ * can be reshaped with dotted-path maps:
+ *   data.inputMap  — { childInput: 'upstreamNodeId.field' }
+ *   data.outputMap — { outputKey: 'childNodeId.field' }
+ * (a single sink's output is not keyed, so its paths start at the output).
+ *
+ * A workflow extracted from a selection (FlowStudioApi.extractToSubflow)
+ * keeps the inputs of its first nodes keyed by the original upstream node
+ * IDs: its starting node → entry edges list them in `inputKeys`, and the
+ * executor hands over those keys of the starting node's output instead of
+ * one input keyed by the starting node.
+ *
+ * Cycles between workflows (A → B → A) are refused at run time, and
+ * findSubflowCycle() lets editors flag them before a run.
+ *
+ * Editors can drill down into a subflow node; childRunAt() / executorAt()
+ * give the part of a live run at such a level.
+ *
+ * Usage:
+ *   const { nodeCount, hasAI } = subflowStats(doc)
+ *   const childInputs = mapValues(node.data.inputMap, ctx.inputs)
+ *   const cycle = findSubflowCycle(doc.id, id => docs.get(id))
+ *   const levelRun = childRunAt(rootExecutor.getState(), ['subflow-1'])
+ */
+
+import type { RunState, WorkflowExecutor } from './workflow-executor'
+import type { WorkflowDoc } from './workflow-store'
+
+// ── Helpers ─────────────────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Read `a.b.0.c` from a value; undefined when any step is missing */
+export function getPath(value: unknown, path: string): unknown {
+    let current: unknown = value
+    for (const key of path.split('.').filter(Boolean)) {
+        if (current === null || typeof current !== 'object') return undefined
+        current = (current as Record<string, unknown>)[key]
+    }
+    return current
+}
+
+/**
+ * Reshape a value with a `{ key: 'dotted.path' }` map (object or JSON text).
+ * Without a map the value passes through unchanged.
+ */
+export function mapValues(map: unknown, source: unknown): unknown {
+    let parsed = map
+    if (typeof map === 'string') {
+        if (!map.trim()) return source
+        try {
+            parsed = JSON.parse(map)
+        } catch (err: unknown) {
+            throw new Error(`Invalid map: ${err instanceof Error ? err.message : String(err)}`)
+        }
+    }
+    if (!isPlainObject(parsed) || Object.keys(parsed).length === 0) return source
+    return Object.fromEntries(Object.entries(parsed).map(([key, path]) => [key, getPath(source, String(path))]))
+}
+
+/** Whether `map` reshapes a value in mapValues() — invalid JSON text counts too (it fails the run) */
+export function isValueMap(map: unknown): boolean {
+    let parsed = map
+    if (typeof map === 'string') {
+        if (!map.trim()) return false
+        try {
+            parsed = JSON.parse(map)
+        } catch {
+            return true
+        }
+    }
+    return isPlainObject(parsed) && Object.keys(parsed).length > 0
+}
+
+/** Input keys of an edge — `inputKeys` on a WorkflowEdge, `data.inputKeys` on a canvas edge */
+export function inputKeysOf(edge: { inputKeys?: unknown; data?: Record<string, unknown> }): string[] | undefined {
+    const keys = edge.inputKeys ?? edge.data?.inputKeys
+    return Array.isArray(keys) ? keys.map(String) : undefined
+}
+
+/** The `keys` of an edge source's output, as inputs — those it has */
+export function pickInputs(output: unknown, keys: string[]): Record<string, unknown> {
+    if (!isPlainObject(output)) return {}
+    return Object.fromEntries(keys.filter(key => key in output).map(key => [key, output[key]]))
+}
+
+// ── Linked workflows ────────────────────────────────────────────────────────────
+
+/** Workflow ID a subflow node is linked to, or '' */
+export function linkedWorkflowId(data: Record<string, unknown>): string {
+    return typeof data.workflowId === 'string' ? data.workflowId : ''
+}
+
+/** IDs of the workflows a workflow's subflow nodes link to */
+export function subflowRefs(doc: WorkflowDoc): string[] {
+    const ids = doc.nodes.filter(n => n.type === 'subflow').map(n => linkedWorkflowId(n.data)).filter(Boolean)
+    return [...new Set(ids)]
+}
+
+/** What a subflow card shows about the linked workflow */
+export function subflowStats(doc: WorkflowDoc): { nodeCount: number; hasAI: boolean } {
+    return {
+        nodeCount: doc.nodes.length,
+        hasAI: doc.nodes.some(n => n.type === 'job' && (n.data.subType ?? 'ai') === 'ai'),
+    }
+}
+
+/**
+ * Find a chain of subflow links that leads from `rootId` back to itself.
+ * Returns the chain of workflow IDs (first and last are `rootId`), or null.
+ */
+export function findSubflowCycle(
+    rootId: string,
+    lookup: (id: string) => WorkflowDoc | undefined,
+): string[] | null {
+    const seen = new Set<string>()
+    const walk = (id: string, chain: string[]): string[] | null => {
+        const doc = lookup(id)
+        if (!doc) return null
+        for (const ref of subflowRefs(doc)) {
+            if (ref === rootId) return [...chain, ref]
+            if (seen.has(ref)) continue
+            seen.add(ref)
+            const found = walk(ref, [...chain, ref])
+            if (found) return found
+        }
+        return null
+    }
+    return walk(rootId, [rootId])
+}
+
+// ── Child results ───────────────────────────────────────────────────────────────
+
+/**
+ * Output of a finished child run — the output of its sink (a finished node
+ * no other finished node follows), or a map of sink ID → output when there
+ * are several.
+ */
+export function childOutput(doc: WorkflowDoc, run: RunState): unknown {
+    const ran = Object.keys(run.nodes).filter(id => run.nodes[id].status === 'done')
+    const sinks = ran.filter(id => !doc.edges.some(e => e.source === id && ran.includes(e.target)))
+    if (sinks.length === 1) return run.nodes[sinks[0]].output
+    return Object.fromEntries(sinks.map(id => [id, run.nodes[id].output]))
+}
+
+// ── Drill-down ──────────────────────────────────────────────────────────────────
+
+/**
+ * The part of a run at a drill-down level — the child run reached through
+ * `path` (subflow node IDs, outermost first). Run ID and status stay those of
+ * the top-level run; nodes are empty while the level has not started.
+ */
+export function childRunAt(run: RunState, path: string[]): RunState {
+    let level: RunState | undefined = run
+    for (const nodeId of path) level = level?.nodes[nodeId]?.child
+    return {
+        workflowId: '', nodes: {}, expectations: {}, edges: {}, payloads: {},
+        ...level,
+        runId: run.runId,
+        status: run.status,
+    }
+}
+
+/** Live executor at a drill-down level, while that child run is going */
+export function executorAt(executor: WorkflowExecutor, path: string[]): WorkflowExecutor | null {
+    let level: WorkflowExecutor | undefined = executor
+    for (const nodeId of path) level = level?.childExecutor(nodeId)
+    return level ?? null
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import {
+    completeTemplate, envNamesOf, filterSuggestions, openTemplateAt, resolveSettings, resolveTemplate,
+    templateKeys, templateRefs, templateRefsIn, templateSuggestions, type TemplateScope,
+} from './templates'
+
+const scope: TemplateScope = {
+    nodes: { fetch: { output: { url: 'https://x.dev', count: 3, tags: ['a'] }, status: 'done' } },
+    inputs: { name: 'Ada' },
+    env: { TOKEN: 'secret' },
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────────────────
+
+describe('templateKeys', () => {
+    it('takes every setting but code fields', () => {
+        expect(templateKeys({ label: {}, prompt: { format: 'textarea' }, code: { format: 'code' } })).toEqual(['label', 'prompt'])
+    })
+})
+
+describe('templateRefs', () => {
+    it('finds the references under nodes, inputs and env', () => {
+        expect(templateRefs('{{inputs.name}} {{ env.TOKEN }} {{ other.x }} {{ nodes.a-1.output }}'))
+            .toEqual(['inputs.name', 'env.TOKEN', 'nodes.a-1.output'])
+    })
+
+    it('looks into the given keys only, nested values included', () => {
+        const data = { label: '{{ inputs.a }}', headers: { auth: ['{{ env.TOKEN }}', '{{ inputs.a }}'] }, code: '{{ env.CODE }}' }
+        expect(templateRefsIn(data, ['label', 'headers'])).toEqual(['inputs.a', 'env.TOKEN'])
+    })
+
+    it('lists the env names to fetch once', () => {
+        expect(envNamesOf(['env.TOKEN', 'inputs.a', 'env.TOKEN', 'env.GITHUB'])).toEqual(['TOKEN', 'GITHUB'])
+    })
+})
+
+// ── Resolving ───────────────────────────────────────────────────────────────────
+
+describe('resolveTemplate', () => {
+    it('keeps the value of a setting that is one expression', () => {
+        expect(resolveTemplate(' {{ nodes.fetch.output.count }} ', scope)).toEqual({ value: 3, missing: [] })
+        expect(resolveTemplate('{{ nodes.fetch.output.tags }}', scope).value).toEqual(['a'])
+    })
+
+    it('writes values out inside text', () => {
+        expect(resolveTemplate('Hi {{ inputs.name }}, {{ nodes.fetch.output.tags }} {{ env.TOKEN }}', scope).value)
+            .toBe('Hi Ada, ["a"] secret')
+    })
+
+    it('reports references that resolve to nothing', () => {
+        expect(resolveTemplate('{{ nodes.nope.output }}', scope)).toEqual({ value: '', missing: ['nodes.nope.output'] })
+        expect(resolveTemplate('to {{ inputs.who }} via {{ env.NONE }}', scope))
+            .toEqual({ value: 'to  via ', missing: ['inputs.who', 'env.NONE'] })
+    })
+
+    it('leaves other braces alone', () => {
+        expect(resolveTemplate('Reply as {{ json }} {"a": 1}', scope)).toEqual({ value: 'Reply as {{ json }} {"a": 1}', missing: [] })
+    })
+})
+
+describe('resolveSettings', () => {
+    it('resolves the given keys only, nested strings included', () => {
+        const data = {
+            label: 'Fetch {{ nodes.fetch.output.url }}',
+            body: { to: ['{{ inputs.name }}'], note: '{{ inputs.none }}' },
+            code: "ctx.log('{{ env.TOKEN }}')",
+            retries: 2,
+        }
+        expect(resolveSettings(data, ['label', 'body', 'retries'], scope)).toEqual({
+            data: {
+                label: 'Fetch https://x.dev',
+                body: { to: ['Ada'], note: '' },
+                code: "ctx.log('{{ env.TOKEN }}')",
+                retries: 2,
+            },
+            missing: ['inputs.none'],
+        })
+    })
+})
+
+// ── Editing ─────────────────────────────────────────────────────────────────────
+
+describe('openTemplateAt', () => {
+    it('finds the unclosed template before the caret', () => {
+        expect(openTemplateAt('Hi {{ inp', 9)).toEqual({ start: 3, partial: 'inp' })
+        expect(openTemplateAt('Hi {{', 5)).toEqual({ start: 3, partial: '' })
+    })
+
+    it('ignores closed templates and text that cannot be a path', () => {
+        expect(openTemplateAt('Hi {{ inputs.a }} x', 19)).toBeUndefined()
+        expect(openTemplateAt('{{ a b', 6)).toBeUndefined()
+        expect(openTemplateAt('plain', 5)).toBeUndefined()
+    })
+})
+
+describe('completeTemplate', () => {
+    it('replaces the partial path and closes the template', () => {
+        expect(completeTemplate('Hi {{ inp', 9, 'inputs.name')).toEqual({ text: 'Hi {{ inputs.name }}', caret: 20 })
+    })
+
+    it('replaces the rest of the path and an existing close after the caret', () => {
+        expect(completeTemplate('{{ nodes.x.out }}!', 7, 'nodes.fetch.output')).toEqual({ text: '{{ nodes.fetch.output }}!', caret: 24 })
+    })
+
+    it('leaves text without an open template unchanged', () => {
+        expect(completeTemplate('plain', 5, 'inputs.name')).toEqual({ text: 'plain', caret: 5 })
+    })
+})
+
+describe('templateSuggestions', () => {
+    const graph = {
+        nodes: [
+            { id: 'start', data: {} },
+            { id: 'fetch', data: { label: 'Fetch' } },
+            { id: 'greet', data: {} },
+            { id: 'after', data: {} },
+        ],
+        edges: [
+            { source: 'start', target: 'fetch' },
+            { source: 'fetch', target: 'greet' },
+            { source: 'greet', target: 'after' },
+            { source: 'after', target: 'greet' },
+        ],
+    }
+    const last = { nodes: { fetch: { output: { url: 'u' } }, start: { output: ['list'] } }, inputs: { name: 'Ada' } }
+
+    it('offers the upstream nodes, nearest first, then the run inputs and secrets', () => {
+        expect(templateSuggestions('greet', graph, last, ['TOKEN']).map(s => s.path)).toEqual([
+            'nodes.fetch.output', 'nodes.fetch.output.url', 'nodes.fetch.status',
+            'nodes.after.output', 'nodes.after.status',
+            'nodes.start.output', 'nodes.start.status',
+            'inputs.name',
+            'env.TOKEN',
+        ])
+    })
+
+    it('names nodes by their label', () => {
+        expect(templateSuggestions('greet', graph, last, [])[1]).toEqual({ path: 'nodes.fetch.output.url', label: 'Fetch → url' })
+    })
+
+    it('filters by path prefix or label', () => {
+        const suggestions = templateSuggestions('greet', graph, last, ['TOKEN'])
+        expect(filterSuggestions(suggestions, 'nodes.f').map(s => s.path))
+            .toEqual(['nodes.fetch.output', 'nodes.fetch.output.url', 'nodes.fetch.status'])
+        expect(filterSuggestions(suggestions, 'secret').map(s => s.path)).toEqual(['env.TOKEN'])
+        expect(filterSuggestions(suggestions, '', 2)).toHaveLength(2)
+    })
+})
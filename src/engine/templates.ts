@@ -0,0 +1,223 @@
+/**
+ * Templates — `{{ … }}` expressions in node settings, resolved at run time.
+ *
+ * A setting (a string declared in the subtype's settingsSchema — labels,
+ * prompts, paths) may reference the current run:
+ *   {{ nodes.<id>.output.field }} — a node's output (also .status / .error)
+ *   {{ inputs.x }}                — the run's inputs (its workflow parameters)
+ *   {{ env.NAME }}                — a secret / env value (ctx.getSecret)
+ *
+ * A setting that is exactly one expression takes the referenced value as is
+ * (a number stays a number); inside text, values are written out (objects as
+ * JSON). A reference that resolves to nothing leaves an empty string and is
+ * reported as missing. Other `{{ … }}` text is left alone, so prompts can
+ * still contain braces.
+ *
+ * Code settings (`format: 'code'`, e.g. a job's script) are never resolved —
+ * pasting values into source would let upstream output inject code and
+ * write secrets into the script and its logs. Scripts read upstream outputs
+ * from `ctx.inputs`, parameters from `ctx.params` and secrets with
+ * `ctx.getSecret()` instead.
+ *
+ * Usage:
+ *   const keys = templateKeys(subTypeRegistry.getSettingsSchema(node.type, subType))
+ *   const { data, missing } = resolveSettings(node.data, keys, { nodes: run.nodes, inputs, env })
+ *   resolveTemplate('Hi {{ inputs.name }}', scope).value   // 'Hi Ada'
+ *   openTemplateAt('Hi {{ inp', 9)                         // { start: 3, partial: 'inp' }
+ */
+
+import { getPath } from './subflow'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+/** What templates can reference */
+export interface TemplateScope {
+    nodes: Record<string, { output?: unknown; status?: string; error?: string } | undefined>
+    inputs: Record<string, unknown>
+    env: Record<string, string | undefined>
+}
+
+export interface TemplateResult {
+    value: unknown
+    /** References that resolved to nothing, e.g. 'nodes.fetch.output.url' */
+    missing: string[]
+}
+
+/** A completion offered while typing a template */
+export interface TemplateSuggestion {
+    /** e.g. 'nodes.node-1.output.url' */
+    path: string
+    /** e.g. 'Fetch → url' */
+    label: string
+}
+
+export const TEMPLATE_ROOTS = ['nodes', 'inputs', 'env'] as const
+
+const TEMPLATE_RE = /\{\{\s*((?:nodes|inputs|env)(?:\.[\w$-]+)*)\s*\}\}/g
+
+// ── Parsing ─────────────────────────────────────────────────────────────────────
+
+/** Settings keys of a subtype's `schema` that take templates — every one but code fields */
+export function templateKeys(schema: Record<string, { format?: string }>): string[] {
+    return Object.keys(schema).filter(key => schema[key].format !== 'code')
+}
+
+/** Paths referenced in `text`, e.g. ['inputs.name', 'env.GITHUB'] */
+export function templateRefs(text: string): string[] {
+    return [...text.matchAll(TEMPLATE_RE)].map(m => m[1])
+}
+
+/** Paths referenced anywhere in the settings `keys` of `data` */
+export function templateRefsIn(data: Record<string, unknown>, keys: string[]): string[] {
+    const refs = new Set<string>()
+    const visit = (value: unknown) => {
+        if (typeof value === 'string') templateRefs(value).forEach(ref => refs.add(ref))
+        else if (Array.isArray(value)) value.forEach(visit)
+        else if (value && typeof value === 'object') Object.values(value).forEach(visit)
+    }
+    for (const key of keys) visit(data[key])
+    return [...refs]
+}
+
+/** Env names referenced by `refs` — the secrets to fetch before resolving */
+export function envNamesOf(refs: string[]): string[] {
+    return [...new Set(refs.filter(ref => ref.startsWith('env.')).map(ref => ref.slice(4)))]
+}
+
+// ── Resolving ───────────────────────────────────────────────────────────────────
+
+function lookup(scope: TemplateScope, path: string): unknown {
+    const [root, ...rest] = path.split('.')
+    if (root === 'env') return scope.env[rest.join('.')]
+    return getPath(scope[root as 'nodes' | 'inputs'], rest.join('.'))
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return ''
+    if (typeof value === 'object') {
+        try {
+            return JSON.stringify(value)
+        } catch {
+            return String(value)
+        }
+    }
+    return String(value)
+}
+
+/** Resolve the templates in `text` against `scope` */
+export function resolveTemplate(text: string, scope: TemplateScope): TemplateResult {
+    const missing: string[] = []
+    const valueOf = (path: string) => {
+        const value = lookup(scope, path)
+        if (value === undefined) missing.push(path)
+        return value
+    }
+    const whole = text.trim().match(new RegExp(`^${TEMPLATE_RE.source}$`))
+    if (whole) {
+        const value = valueOf(whole[1])
+        return { value: value === undefined ? '' : value, missing }
+    }
+    const value = text.replace(TEMPLATE_RE, (_, path: string) => stringify(valueOf(path)))
+    return { value, missing }
+}
+
+/** `data` with the templates in its settings `keys` resolved (nested strings included) */
+export function resolveSettings(
+    data: Record<string, unknown>,
+    keys: string[],
+    scope: TemplateScope,
+): { data: Record<string, unknown>; missing: string[] } {
+    const missing = new Set<string>()
+    const visit = (value: unknown): unknown => {
+        if (typeof value === 'string') {
+            if (!value.includes('{{')) return value
+            const result = resolveTemplate(value, scope)
+            result.missing.forEach(path => missing.add(path))
+            return result.value
+        }
+        if (Array.isArray(value)) return value.map(visit)
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, visit(v)]))
+        }
+        return value
+    }
+    const resolved = { ...data }
+    for (const key of keys) {
+        if (key in resolved) resolved[key] = visit(resolved[key])
+    }
+    return { data: resolved, missing: [...missing] }
+}
+
+// ── Editing ─────────────────────────────────────────────────────────────────────
+
+/** The unclosed `{{ partial` right before `caret`, if the caret is inside one */
+export function openTemplateAt(text: string, caret: number): { start: number; partial: string } | undefined {
+    const before = text.slice(0, caret)
+    const open = before.lastIndexOf('{{')
+    if (open < 0 || before.indexOf('}}', open) >= 0) return undefined
+    const partial = before.slice(open + 2).trimStart()
+    return /^[\w$.-]*$/.test(partial) ? { start: open, partial } : undefined
+}
+
+/** Complete the template open at `caret` with `path` — returns the new text and caret */
+export function completeTemplate(text: string, caret: number, path: string): { text: string; caret: number } {
+    const open = openTemplateAt(text, caret)
+    if (!open) return { text, caret }
+    const after = text.slice(caret).replace(/^[\w$.-]*(\s*\}\})?/, '')
+    const inserted = `{{ ${path} }}`
+    return { text: text.slice(0, open.start) + inserted + after, caret: open.start + inserted.length }
+}
+
+/** Suggestions matching what was typed so far, at most `limit` */
+export function filterSuggestions(suggestions: TemplateSuggestion[], partial: string, limit = 8): TemplateSuggestion[] {
+    const needle = partial.toLowerCase()
+    return suggestions
+        .filter(s => s.path.toLowerCase().startsWith(needle) || s.label.toLowerCase().includes(needle))
+        .slice(0, limit)
+}
+
+/**
+ * What a node's settings can reference: the outputs of the nodes upstream
+ * of it (with the fields of their last output, when it was an object), the
+ * run inputs and the `env` names.
+ */
+export function templateSuggestions(
+    nodeId: string,
+    graph: {
+        nodes: { id: string; data: Record<string, unknown> }[]
+        edges: { source: string; target: string }[]
+    },
+    last: { nodes: TemplateScope['nodes']; inputs: Record<string, unknown> },
+    envNames: string[],
+): TemplateSuggestion[] {
+    const upstream: string[] = []
+    const queue = [nodeId]
+    while (queue.length) {
+        const id = queue.shift()!
+        for (const e of graph.edges) {
+            if (e.target !== id || e.source === nodeId || upstream.includes(e.source)) continue
+            upstream.push(e.source)
+            queue.push(e.source)
+        }
+    }
+
+    const suggestions: TemplateSuggestion[] = []
+    for (const id of upstream) {
+        const name = String(graph.nodes.find(n => n.id === id)?.data.label || id)
+        suggestions.push({ path: `nodes.${id}.output`, label: `${name} → output` })
+        const output = last.nodes[id]?.output
+        if (output && typeof output === 'object' && !Array.isArray(output)) {
+            for (const field of Object.keys(output)) {
+                suggestions.push({ path: `nodes.${id}.output.${field}`, label: `${name} → ${field}` })
+            }
+        }
+        suggestions.push({ path: `nodes.${id}.status`, label: `${name} → status` })
+    }
+    for (const name of Object.keys(last.inputs)) {
+        suggestions.push({ path: `inputs.${name}`, label: `Run input ${name}` })
+    }
+    for (const name of envNames) {
+        suggestions.push({ path: `env.${name}`, label: `Secret ${name}` })
+    }
+    return suggestions
+}
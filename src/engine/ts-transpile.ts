@@ -0,0 +1,89 @@
+/**
+ * TS Transpile — strip types from `job:ts` scripts locally, before execution.
+ *
+ * Uses the TypeScript compiler's `transpileModule` (syntax only, no type
+ * checking, no network). `typescript` is therefore a runtime dependency; it
+ * is loaded lazily on first use, so Vite splits it into its own chunk
+ * (~5.7 MB, ~1.2 MB gzipped) that only pages running `job:ts` scripts fetch.
+ *
+ * Diagnostics carry 1-based line/column numbers of the original source, so
+ * they line up with the editor gutter.
+ *
+ * Usage:
+ *   const { js, diagnostics } = await transpileTs(code)
+ *   if (hasErrors(diagnostics)) diagnostics.forEach(d => log(formatDiagnostic(d)))
+ */
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export interface TsDiagnostic {
+    /** 1-based line in the original source */
+    line: number
+    /** 1-based column in the original source */
+    column: number
+    message: string
+    severity: 'error' | 'warning'
+    /** Character offsets in the original source (for editor markers) */
+    from: number
+    to: number
+}
+
+export interface TsTranspileResult {
+    js: string
+    diagnostics: TsDiagnostic[]
+}
+
+// ── Compiler loading ────────────────────────────────────────────────────────────
+
+type TypeScript = typeof import('typescript')
+
+let _tsPromise: Promise<TypeScript> | null = null
+
+/** The compiler is CommonJS: bundlers hand it over as `default`, plain ESM as the namespace */
+function loadTypeScript() {
+    if (!_tsPromise) _tsPromise = import('typescript').then((m: TypeScript & { default?: TypeScript }) => m.default ?? m)
+    return _tsPromise
+}
+
+// ── API ─────────────────────────────────────────────────────────────────────────
+
+/** Transpile TypeScript source to plain ES2020 JavaScript */
+export async function transpileTs(code: string, fileName = 'script.ts'): Promise<TsTranspileResult> {
+    const ts = await loadTypeScript()
+    const out = ts.transpileModule(code, {
+        fileName,
+        reportDiagnostics: true,
+        compilerOptions: {
+            target: ts.ScriptTarget.ES2020,
+            module: ts.ModuleKind.ESNext,
+            removeComments: false,
+        },
+    })
+
+    const diagnostics: TsDiagnostic[] = (out.diagnostics ?? []).map(d => {
+        const from = d.start ?? 0
+        const pos = d.file
+            ? d.file.getLineAndCharacterOfPosition(from)
+            : { line: 0, character: 0 }
+        return {
+            line: pos.line + 1,
+            column: pos.character + 1,
+            message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+            severity: d.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+            from,
+            to: from + (d.length ?? 0),
+        }
+    })
+
+    return { js: out.outputText, diagnostics }
+}
+
+/** True when any diagnostic is an error (the script must not run) */
+export function hasErrors(diagnostics: TsDiagnostic[]): boolean {
+    return diagnostics.some(d => d.severity === 'error')
+}
+
+/** Log line for a diagnostic — e.g. "Line 3:12 — ';' expected." */
+export function formatDiagnostic(d: TsDiagnostic): string {
+    return `Line ${d.line}:${d.column} — ${d.message}`
+}
@@ -0,0 +1,141 @@
+/**
+ * User form — data entry on a `user` node.
+ *
+ * A user node may declare `data.form`: a map of field key → FieldSchema
+ * (same types as widget settings). When the run reaches the node, the
+ * review dialog renders the form; the submitted values are validated and
+ * become the node's output.
+ *
+ * Form values are edited as text in the UI; validateForm() coerces them to
+ * the field types (numbers, booleans, JSON for arrays / objects) and reports
+ * one error per invalid field.
+ *
+ * Usage:
+ *   const form = formSchemaOf(node.data)
+ *   const initial = initialFormValues(form, nodeRunState.inputs)
+ *   const { values, errors } = validateForm(form, submitted)
+ */
+
+import type { FieldSchema } from './widget-subtypes-registry'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+/** Field key → FieldSchema */
+export type FormSchema = Record<string, FieldSchema>
+
+export type FormValues = Record<string, unknown>
+
+/** Field key → error message */
+export type FormErrors = Record<string, string>
+
+// ── Helpers ─────────────────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isEmpty = (value: unknown) =>
+    value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+
+/** A node's form schema — `data.form` as an object or JSON text; null without fields */
+export function formSchemaOf(data: Record<string, any>): FormSchema | null {
+    let form: unknown = data.form
+    if (typeof form === 'string') {
+        try {
+            form = JSON.parse(form)
+        } catch {
+            return null
+        }
+    }
+    if (!isPlainObject(form)) return null
+    const fields = Object.entries(form).filter(([, f]) => isPlainObject(f) && typeof f.type === 'string')
+    return fields.length ? Object.fromEntries(fields) as FormSchema : null
+}
+
+/**
+ * Values the form opens with: each field's default, overridden by a
+ * same-named key of an upstream output — so a reviewer edits what the
+ * previous agent produced (e.g. its `plan`).
+ */
+export function initialFormValues(schema: FormSchema, inputs: Record<string, unknown> = {}): FormValues {
+    const values: FormValues = {}
+    for (const [key, field] of Object.entries(schema)) {
+        const upstream = Object.values(inputs).find(out => isPlainObject(out) && key in out) as Record<string, unknown> | undefined
+        const value = upstream ? upstream[key] : field.default
+        if (value !== undefined) values[key] = value
+    }
+    return values
+}
+
+/** Text shown in a field's editor */
+export function formValueText(field: FieldSchema, value: unknown): string {
+    if (value === undefined || value === null) return ''
+    if (field.type === 'array' || field.type === 'object') return typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+    return String(value)
+}
+
+// ── Validation ──────────────────────────────────────────────────────────────────
+
+/** Coerce one value to its field type. Throws with a user-facing message. */
+function coerce(field: FieldSchema, value: unknown): unknown {
+    switch (field.type) {
+        case 'number': {
+            const n = typeof value === 'number' ? value : Number(String(value).trim())
+            if (!Number.isFinite(n)) throw new Error('Must be a number')
+            if (field.min !== undefined && n < field.min) throw new Error(`Must be at least ${field.min}`)
+            if (field.max !== undefined && n > field.max) throw new Error(`Must be at most ${field.max}`)
+            return n
+        }
+        case 'boolean':
+            return value === true || value === 'true'
+        case 'enum': {
+            const text = String(value)
+            if (field.enum && !field.enum.some(e => e.value === text)) throw new Error(`Must be one of ${field.enum.map(e => e.value).join(', ')}`)
+            return text
+        }
+        case 'array':
+        case 'object': {
+            let parsed = value
+            if (typeof value === 'string') {
+                try {
+                    parsed = JSON.parse(value)
+                } catch {
+                    throw new Error('Must be valid JSON')
+                }
+            }
+            if (field.type === 'array' && !Array.isArray(parsed)) throw new Error('Must be a JSON array')
+            if (field.type === 'object' && !isPlainObject(parsed)) throw new Error('Must be a JSON object')
+            return parsed
+        }
+        default:
+            return String(value)
+    }
+}
+
+/**
+ * Validate submitted values against a form. Returns the coerced values —
+ * empty optional fields are left out — and one error per invalid field.
+ */
+export function validateForm(schema: FormSchema, submitted: FormValues): { values: FormValues; errors: FormErrors } {
+    const values: FormValues = {}
+    const errors: FormErrors = {}
+    for (const [key, field] of Object.entries(schema)) {
+        const raw = submitted[key]
+        // An unticked checkbox is a value, not a missing one
+        if (isEmpty(raw) && field.type !== 'boolean') {
+            if (field.required) errors[key] = `${field.label || key} is required`
+            continue
+        }
+        try {
+            values[key] = coerce(field, raw ?? false)
+        } catch (err: unknown) {
+            errors[key] = err instanceof Error ? err.message : String(err)
+        }
+    }
+    return { values, errors }
+}
+
+/** One-line summary of form errors, e.g. "ticket: Ticket is required" */
+export function formErrorsSummary(errors: FormErrors): string {
+    return Object.entries(errors).map(([key, msg]) => `${key}: ${msg}`).join('; ')
+}
@@ -113,6 +113,28 @@ const PRESETS: Omit<PresetDefinition, 'id'>[] = [
         defaultData: { label: 'AI Pipeline', nodeCount: 3, avgExecTime: '4.2s', hasAI: true, color: '#8b5cf6' },
     },
 
+    // ── Router presets ──
+    {
+        name: 'default', type: 'router',
+        label: 'Router', description: 'Two cases and a default branch',
+        tags: ['router', 'switch', 'branch', 'default'],
+        defaultData: {
+            label: 'Router', color: '#14b8a6',
+            cases: [
+                { label: 'Approved', expression: 'input?.approved === true' },
+                { label: 'Has errors', expression: 'Array.isArray(input?.errors) && input.errors.length > 0' },
+            ],
+        },
+    },
+
+    // ── Map presets ──
+    {
+        name: 'default', type: 'map',
+        label: 'Map', description: 'For each item, two at a time',
+        tags: ['map', 'fan-out', 'foreach', 'default'],
+        defaultData: { label: 'For each', itemsPath: '', concurrency: 2, color: '#0ea5e9' },
+    },
+
     // ── Group presets ──
     {
         name: 'default', type: 'group',
@@ -140,6 +162,19 @@ const PRESETS: Omit<PresetDefinition, 'id'>[] = [
         tags: ['user', 'approval', 'gate', 'deploy'],
         defaultData: { label: 'Approval', color: '#22c55e', status: 'idle', reviewTitle: 'Deploy Approval', reviewBody: 'Approve to start deployment.' },
     },
+    {
+        name: 'user-form', type: 'user',
+        label: 'Data Entry', description: 'Human fills in a form; the values become the output',
+        tags: ['user', 'form', 'input', 'data'],
+        defaultData: {
+            label: 'Release Info', color: '#f59e0b', status: 'idle',
+            reviewTitle: 'Release Info', reviewBody: 'Pick the target environment and link the ticket.',
+            form: {
+                env: { type: 'enum', label: 'Environment', required: true, default: 'staging', enum: [{ value: 'staging', label: 'Staging' }, { value: 'production', label: 'Production' }] },
+                ticket: { type: 'string', label: 'Ticket ID', required: true },
+            },
+        },
+    },
 
     // ── Informer presets ──
     {
@@ -207,6 +242,13 @@ const PRESETS: Omit<PresetDefinition, 'id'>[] = [
         ui: { color: '#8b5cf6' },
         defaultData: { label: 'Creates PR', subType: 'tool-call', target: 'create_pull_request()', status: 'idle', color: '#8b5cf6' },
     },
+    {
+        name: 'expectation-output', type: 'expectation', subType: 'output',
+        label: 'Output', description: 'Expects the job output to match a JSON schema or regex',
+        tags: ['expectation', 'output', 'schema', 'regex'],
+        ui: { color: '#a855f7' },
+        defaultData: { label: 'Returns JSON', subType: 'output', schema: '{ "type": "object" }', status: 'idle', color: '#a855f7' },
+    },
 
     // ── Starting preset ──
     {
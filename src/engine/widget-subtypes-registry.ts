@@ -5,6 +5,8 @@
  *   • settingsSchema — user-editable fields (label, code, color, etc.)
  *   • stateSchema    — runtime-only fields (status, progress, execTime, etc.)
  *   • uiSchema       — visual definitions (color, icons, borders, palettes)
+ *   • inputSchema / outputSchema — optional port types: what the node accepts
+ *     from each upstream node and what it emits (see ports.ts)
  *
  * uiSchema is the **single source of truth** for all visual properties.
  * Widget renderers should read from here instead of maintaining local color/icon maps.
@@ -89,6 +91,10 @@ export interface SubTypeDefinition extends RegistryItem {
     settingsSchema: Record<string, FieldSchema>
     /** JSON schema for runtime state (read-only in UI) */
     stateSchema: Record<string, FieldSchema>
+    /** Type of the payload accepted from each upstream node — omitted = any */
+    inputSchema?: FieldSchema
+    /** Type of the node's output — omitted = any */
+    outputSchema?: FieldSchema
 }
 
 // ── Shared field definitions ────────────────────────────────────────────────────
@@ -114,6 +120,44 @@ const F_SANDBOX: FieldSchema = {
     ],
     default: 'browser',
 }
+const F_OUTPUT_TYPE: FieldSchema = {
+    type: 'enum', label: 'Output Type', description: 'What the script returns — checked against the ports it connects to',
+    enum: [
+        { value: 'any', label: 'Any' },
+        { value: 'string', label: 'String' },
+        { value: 'number', label: 'Number' },
+        { value: 'boolean', label: 'Boolean' },
+        { value: 'array', label: 'Array' },
+        { value: 'object', label: 'Object' },
+    ],
+    default: 'any',
+}
+const F_TIMEOUT: FieldSchema = { type: 'number', label: 'Timeout', description: 'Kill the script after this many ms (0 = no limit)', default: 5000, min: 0 }
+
+// Retry policy fields (shared across job subtypes — see retry.ts)
+const F_RETRY: Record<string, FieldSchema> = {
+    retries: { type: 'number', label: 'Retries', description: 'Extra attempts after a failure (0 = none)', default: 0, min: 0, max: 10 },
+    retryDelay: { type: 'number', label: 'Retry Delay', description: 'ms before the first retry', default: 1000, min: 0 },
+    retryBackoff: {
+        type: 'enum', label: 'Backoff', description: 'Double the delay on every retry, or keep it fixed',
+        enum: [
+            { value: 'exponential', label: 'Exponential' },
+            { value: 'fixed', label: 'Fixed' },
+        ],
+        default: 'exponential',
+    },
+    retryOn: {
+        type: 'enum', label: 'Retry On', description: 'Which failures are retried',
+        enum: [
+            { value: 'error', label: 'Any error' },
+            { value: 'timeout', label: 'Timeouts' },
+            { value: 'match', label: 'Matching errors' },
+        ],
+        default: 'error',
+    },
+    retryMatch: { type: 'string', label: 'Retry Match', description: 'Regex the error message must match (retry on "Matching errors")' },
+    fallback: { type: 'string', label: 'Fallback', description: 'ID of a downstream node — its edge is taken only after the last attempt failed' },
+}
 
 // State fields (shared across job subtypes)
 const S_STATUS: FieldSchema = {
@@ -122,15 +166,45 @@ const S_STATUS: FieldSchema = {
         { value: 'idle', label: 'Idle' },
         { value: 'waking', label: 'Waking' },
         { value: 'running', label: 'Running' },
+        { value: 'paused', label: 'Paused' },
         { value: 'done', label: 'Done' },
         { value: 'error', label: 'Error' },
+        { value: 'skipped', label: 'Skipped' },
     ],
     default: 'idle',
 }
 const S_EXEC_TIME: FieldSchema = { type: 'string', label: 'Exec Time', description: 'Last execution duration', readOnly: true, default: '—' }
 const S_CALLS_COUNT: FieldSchema = { type: 'number', label: 'Calls', description: 'Number of tool calls', readOnly: true, default: 0, min: 0 }
+const S_AVG_EXEC_TIME: FieldSchema = { type: 'string', label: 'Avg Exec Time', description: 'Average execution duration (run history)', readOnly: true, default: '—' }
+const S_EXEC_TIMES: FieldSchema = { type: 'array', label: 'Exec Times', description: 'Recent execution durations (run history)', readOnly: true, items: { type: 'string', label: 'Duration' } }
+const S_TOTAL_RUNS: FieldSchema = { type: 'number', label: 'Total Runs', description: 'Cumulative run count', readOnly: true, default: 0, min: 0 }
 const S_PROGRESS: FieldSchema = { type: 'number', label: 'Progress', description: 'Completion percentage', readOnly: true, default: 0, min: 0, max: 100 }
 const S_LOGS: FieldSchema = { type: 'array', label: 'Logs', description: 'Execution log lines', readOnly: true, items: { type: 'string', label: 'Log line' } }
+const S_ATTEMPT: FieldSchema = { type: 'object', label: 'Attempt', description: 'Current attempt and its timeout (see retry.ts)', readOnly: true }
+const S_JOIN: FieldSchema = { type: 'object', label: 'Join', description: 'How the inputs were joined in the last run (see join.ts)', readOnly: true }
+
+// Join fields (shared across executable subtypes — see join.ts)
+const F_JOIN: Record<string, FieldSchema> = {
+    joinMode: {
+        type: 'enum', label: 'Join', description: 'With several incoming edges: wait for all inputs, the first one, or N of them',
+        enum: [
+            { value: 'all', label: 'All inputs' },
+            { value: 'any', label: 'Any input' },
+            { value: 'n', label: 'N inputs' },
+        ],
+        default: 'all',
+    },
+    joinCount: { type: 'number', label: 'Join Count', description: 'Inputs to wait for (join "N inputs")', default: 2, min: 1 },
+    joinTimeout: { type: 'number', label: 'Join Timeout', description: 'Stop waiting this many ms after the first input arrived (0 = no limit)', default: 0, min: 0 },
+    joinOnTimeout: {
+        type: 'enum', label: 'On Join Timeout', description: 'Fail the node, or run it with the inputs that arrived',
+        enum: [
+            { value: 'fail', label: 'Fail' },
+            { value: 'proceed', label: 'Proceed' },
+        ],
+        default: 'fail',
+    },
+}
 
 // Expectation status (shared)
 const S_ASSERTION: FieldSchema = {
@@ -142,6 +216,7 @@ const S_ASSERTION: FieldSchema = {
     ],
     default: 'pending',
 }
+const S_EXPLANATION: FieldSchema = { type: 'string', label: 'Explanation', description: 'Why the assertion passed or failed', readOnly: true }
 
 // ── Sticker palette (moved from InformerNode.tsx) ───────────────────────────────
 
@@ -172,8 +247,13 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
         settingsSchema: {
             label: F_LABEL,
             agent: { type: 'string', label: 'Agent', description: 'AI model or agent name', default: 'Claude 3.5' },
+            prompt: { type: 'string', label: 'Prompt', description: 'Task for the agent (ctx.node.data.prompt) — may use {{ … }} templates', format: 'multiline' },
             code: { ...F_CODE, default: `export function activate(ctx) {\n   console.log('hello from AI');\n}` },
             language: F_LANGUAGE,
+            outputType: F_OUTPUT_TYPE,
+            timeout: F_TIMEOUT,
+            ...F_RETRY,
+            ...F_JOIN,
             color: F_COLOR,
             borderColors: { type: 'array', label: 'Border Colors', description: 'Gradient border colors', items: { type: 'string', label: 'Color', format: 'color' } },
         },
@@ -181,9 +261,13 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
             status: S_STATUS,
             thought: { type: 'string', label: 'Thought', description: 'Current agent thinking', readOnly: true },
             progress: S_PROGRESS,
+            attempt: S_ATTEMPT,
+            join: S_JOIN,
             execTime: S_EXEC_TIME,
             callsCount: S_CALLS_COUNT,
-            totalRuns: { type: 'number', label: 'Total Runs', description: 'Cumulative run count', readOnly: true, default: 0, min: 0 },
+            avgExecTime: S_AVG_EXEC_TIME,
+            execTimes: S_EXEC_TIMES,
+            totalRuns: S_TOTAL_RUNS,
             logs: S_LOGS,
         },
     },
@@ -203,12 +287,22 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
             code: { ...F_CODE, default: `export function activate(ctx) {\n   console.log('Hello from js');\n}` },
             language: { ...F_LANGUAGE, default: 'js' },
             sandbox: F_SANDBOX,
+            outputType: F_OUTPUT_TYPE,
+            timeout: F_TIMEOUT,
+            ...F_RETRY,
+            ...F_JOIN,
             color: { ...F_COLOR, default: '#f7df1e' },
         },
         stateSchema: {
             status: S_STATUS,
+            progress: S_PROGRESS,
+            attempt: S_ATTEMPT,
+            join: S_JOIN,
             execTime: S_EXEC_TIME,
             callsCount: S_CALLS_COUNT,
+            avgExecTime: S_AVG_EXEC_TIME,
+            execTimes: S_EXEC_TIMES,
+            totalRuns: S_TOTAL_RUNS,
             logs: S_LOGS,
         },
     },
@@ -228,12 +322,22 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
             code: { ...F_CODE, default: `export function activate(ctx: Context) {\n   console.log('Hello from', ctx.node.name);\n}` },
             language: { ...F_LANGUAGE, default: 'ts' },
             sandbox: F_SANDBOX,
+            outputType: F_OUTPUT_TYPE,
+            timeout: F_TIMEOUT,
+            ...F_RETRY,
+            ...F_JOIN,
             color: { ...F_COLOR, default: '#3178c6' },
         },
         stateSchema: {
             status: S_STATUS,
+            progress: S_PROGRESS,
+            attempt: S_ATTEMPT,
+            join: S_JOIN,
             execTime: S_EXEC_TIME,
             callsCount: S_CALLS_COUNT,
+            avgExecTime: S_AVG_EXEC_TIME,
+            execTimes: S_EXEC_TIMES,
+            totalRuns: S_TOTAL_RUNS,
             logs: S_LOGS,
         },
     },
@@ -252,13 +356,23 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
             label: F_LABEL,
             code: { ...F_CODE, default: `#!/bin/bash\necho "Hello from $NODE_NAME"` },
             language: { ...F_LANGUAGE, default: 'sh' },
-            sandbox: F_SANDBOX,
+            sandbox: { ...F_SANDBOX, default: 'node' },
+            outputType: F_OUTPUT_TYPE,
+            timeout: F_TIMEOUT,
+            ...F_RETRY,
+            ...F_JOIN,
             color: { ...F_COLOR, default: '#4caf50' },
         },
         stateSchema: {
             status: S_STATUS,
+            progress: S_PROGRESS,
+            attempt: S_ATTEMPT,
+            join: S_JOIN,
             execTime: S_EXEC_TIME,
             callsCount: S_CALLS_COUNT,
+            avgExecTime: S_AVG_EXEC_TIME,
+            execTimes: S_EXEC_TIMES,
+            totalRuns: S_TOTAL_RUNS,
             logs: S_LOGS,
         },
     },
@@ -277,13 +391,23 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
             label: F_LABEL,
             code: { ...F_CODE, default: `def activate(ctx):\n    print(f"Hello from {ctx.node.name}")` },
             language: { ...F_LANGUAGE, default: 'py' },
-            sandbox: F_SANDBOX,
+            sandbox: { ...F_SANDBOX, default: 'node' },
+            outputType: F_OUTPUT_TYPE,
+            timeout: F_TIMEOUT,
+            ...F_RETRY,
+            ...F_JOIN,
             color: { ...F_COLOR, default: '#3776ab' },
         },
         stateSchema: {
             status: S_STATUS,
+            progress: S_PROGRESS,
+            attempt: S_ATTEMPT,
+            join: S_JOIN,
             execTime: S_EXEC_TIME,
             callsCount: S_CALLS_COUNT,
+            avgExecTime: S_AVG_EXEC_TIME,
+            execTimes: S_EXEC_TIMES,
+            totalRuns: S_TOTAL_RUNS,
             logs: S_LOGS,
         },
     },
@@ -342,7 +466,7 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
             target: { type: 'string', label: 'Target', description: 'Expected artifact name (e.g. README.md)', required: true },
             color: { ...F_COLOR, default: '#ec4899' },
         },
-        stateSchema: { status: S_ASSERTION },
+        stateSchema: { status: S_ASSERTION, explanation: S_EXPLANATION },
     },
     // ── Expectation: Tool Call ──
     {
@@ -358,9 +482,29 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
         settingsSchema: {
             label: F_LABEL,
             target: { type: 'string', label: 'Target', description: 'Expected tool call (e.g. deploy())', required: true },
+            args: { type: 'object', label: 'Args', description: 'Partial argument matcher — "/regex/" strings match by pattern' },
             color: { ...F_COLOR, default: '#06b6d4' },
         },
-        stateSchema: { status: S_ASSERTION },
+        stateSchema: { status: S_ASSERTION, explanation: S_EXPLANATION },
+    },
+    // ── Expectation: Output ──
+    {
+        type: 'expectation:output', widgetType: 'expectation', subType: 'output',
+        label: 'Output', description: 'Expects the job output to match a JSON schema or regex',
+        tags: ['expectation', 'output', 'schema', 'regex', 'assert'],
+        color: '#a855f7',
+        uiSchema: {
+            color: '#a855f7',
+            border: { style: 'dashed', width: 1.5, radius: 10 },
+            icons: { default: 'braces', done: 'check-circle', error: 'x-circle' },
+        },
+        settingsSchema: {
+            label: F_LABEL,
+            schema: { type: 'string', label: 'JSON Schema', description: 'Schema the output must satisfy', format: 'code' },
+            pattern: { type: 'string', label: 'Pattern', description: 'Regex the output must match (objects are matched as JSON)' },
+            color: { ...F_COLOR, default: '#a855f7' },
+        },
+        stateSchema: { status: S_ASSERTION, explanation: S_EXPLANATION },
     },
 
     // ── User (default) ──
@@ -378,11 +522,15 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
             label: F_LABEL,
             reviewTitle: { type: 'string', label: 'Review Title', description: 'Title shown in the review dialog' },
             reviewBody: { type: 'string', label: 'Review Body', description: 'Instructions for the reviewer', format: 'multiline' },
+            form: { type: 'object', label: 'Form', description: 'Fields the reviewer fills in (key → FieldSchema); the submitted values become the output', format: 'code' },
+            ...F_JOIN,
             color: { ...F_COLOR, default: '#f59e0b' },
         },
         stateSchema: {
             status: S_STATUS,
+            join: S_JOIN,
         },
+        outputSchema: { type: 'object', label: 'Decision', description: 'Submitted form values, or { approved, comment }' },
     },
 
     // ── SubFlow (default) ──
@@ -398,15 +546,85 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
         },
         settingsSchema: {
             label: F_LABEL,
+            workflowId: { type: 'string', label: 'Workflow', description: 'ID of the saved workflow (WorkflowStore) this node runs' },
+            inputMap: { type: 'object', label: 'Input Map', description: 'Child inputs from upstream outputs — { "name": "nodeId.field" } (default: all inputs)', format: 'code' },
+            outputMap: { type: 'object', label: 'Output Map', description: 'Output from the child result — { "key": "field" } (default: the whole result)', format: 'code' },
+            ...F_JOIN,
             color: { ...F_COLOR, default: '#6366f1' },
         },
         stateSchema: {
-            nodeCount: { type: 'number', label: 'Node Count', description: 'Number of nodes inside', readOnly: true, default: 0, min: 0 },
+            status: S_STATUS,
+            progress: S_PROGRESS,
+            execTime: S_EXEC_TIME,
+            logs: S_LOGS,
+            join: S_JOIN,
+            nodeCount: { type: 'number', label: 'Node Count', description: 'Number of nodes in the linked workflow', readOnly: true, default: 0, min: 0 },
             avgExecTime: { type: 'string', label: 'Avg Exec Time', description: 'Average execution time of child nodes', readOnly: true, default: '—' },
-            hasAI: { type: 'boolean', label: 'Has AI', description: 'Whether the subflow contains AI nodes', readOnly: true, default: false },
+            hasAI: { type: 'boolean', label: 'Has AI', description: 'Whether the linked workflow contains AI nodes', readOnly: true, default: false },
         },
     },
 
+    // ── Router (default) ──
+    {
+        type: 'router:default', widgetType: 'router', subType: 'default',
+        label: 'Router', description: 'Switch — follows the first case that matches the input, else the default branch',
+        tags: ['router', 'switch', 'branch', 'condition'],
+        color: '#14b8a6',
+        uiSchema: {
+            color: '#14b8a6',
+            border: { style: 'solid', width: 1, radius: 12 },
+            icons: { default: 'split' },
+        },
+        settingsSchema: {
+            label: F_LABEL,
+            cases: {
+                type: 'array', label: 'Cases', format: 'code',
+                description: 'Ordered branches — [{ "label": "High", "expression": "input.score > 0.5" }]; `input` and `inputs` are in scope',
+                items: { type: 'object', label: 'Case' },
+            },
+            ...F_JOIN,
+            color: { ...F_COLOR, default: '#14b8a6' },
+        },
+        stateSchema: {
+            status: S_STATUS,
+            route: { type: 'string', label: 'Route', description: 'Handle of the branch taken in the last run', readOnly: true },
+            join: S_JOIN,
+        },
+    },
+
+    // ── Map (default) ──
+    {
+        type: 'map:default', widgetType: 'map', subType: 'default',
+        label: 'Map', description: 'Fan-out — runs the job after it once per list item and collects the results',
+        tags: ['map', 'fan-out', 'foreach', 'parallel'],
+        color: '#0ea5e9',
+        uiSchema: {
+            color: '#0ea5e9',
+            border: { style: 'solid', width: 1, radius: 12 },
+            icons: { default: 'layers' },
+        },
+        settingsSchema: {
+            label: F_LABEL,
+            itemsPath: {
+                type: 'string', label: 'Items Path',
+                description: 'Dotted path to the list in the input, e.g. "files" (empty = the input itself)',
+            },
+            concurrency: { type: 'number', label: 'Concurrency', description: 'Items processed at the same time', default: 2, min: 1, max: 32 },
+            ...F_JOIN,
+            color: { ...F_COLOR, default: '#0ea5e9' },
+        },
+        stateSchema: {
+            status: S_STATUS,
+            items: {
+                type: 'array', label: 'Items', description: 'Per-item state of the last run', readOnly: true,
+                items: { type: 'object', label: 'Item' },
+            },
+            join: S_JOIN,
+        },
+        inputSchema: { type: 'array', label: 'List', description: 'The list to fan out over (an object with "Items Path" set)' },
+        outputSchema: { type: 'array', label: 'List' },
+    },
+
     // ── Group (default) ──
     {
         type: 'group:default', widgetType: 'group', subType: 'default',
@@ -438,9 +656,12 @@ const SUBTYPES: Omit<SubTypeDefinition, 'id'>[] = [
         },
         settingsSchema: {
             label: F_LABEL,
+            params: { type: 'object', label: 'Parameters', description: 'Workflow parameters (name → FieldSchema with default / required); Run asks for them', format: 'code' },
+            paramSets: { type: 'object', label: 'Parameter Sets', description: 'Saved parameter values for Run (set name → values)', format: 'code' },
             color: { ...F_COLOR, default: '#22c55e' },
         },
         stateSchema: {},
+        outputSchema: { type: 'object', label: 'Run inputs' },
     },
 ]
 
@@ -478,6 +699,16 @@ class SubTypeRegistry extends Registry<SubTypeDefinition> {
         return def?.stateSchema ?? {}
     }
 
+    /** Get the input port type for a widget+subType — undefined accepts anything */
+    getInputSchema(widgetType: string, subType?: string): FieldSchema | undefined {
+        return this._resolve(widgetType, subType)?.inputSchema
+    }
+
+    /** Get the output port type for a widget+subType — undefined emits anything */
+    getOutputSchema(widgetType: string, subType?: string): FieldSchema | undefined {
+        return this._resolve(widgetType, subType)?.outputSchema
+    }
+
     // ── UI accessors (single source of truth) ──
 
     /** Get the full UI schema for a widget+subType. Falls back to 'default'. */
@@ -32,7 +32,7 @@ export interface WidgetUI {
 
 // ── Widget definition ───────────────────────────────────────────────────────────
 
-export type WidgetCategory = 'AI' | 'Script' | 'Job' | 'Layout' | 'Informer' | 'Expectation' | 'Starting' | 'SubFlow'
+export type WidgetCategory = 'AI' | 'Script' | 'Job' | 'Layout' | 'Informer' | 'Expectation' | 'Starting' | 'SubFlow' | 'Control'
 
 export interface WidgetDefinition extends RegistryItem {
     category: WidgetCategory
@@ -68,6 +68,32 @@ const WIDGETS: Omit<WidgetDefinition, 'id'>[] = [
             defaultSize: { w: 14, h: 8 },
         },
     },
+    // ── Router (branching) ──
+    {
+        type: 'router',
+        label: 'Router',
+        category: 'Control',
+        tags: ['router', 'switch', 'branch', 'condition', 'if', 'case', 'route'],
+        description: 'Routes the flow to the first branch whose case matches its input',
+        ui: {
+            icons: { default: 'split' },
+            color: '#14b8a6',
+            defaultSize: { w: 8, h: 6 },
+        },
+    },
+    // ── Map (fan-out) ──
+    {
+        type: 'map',
+        label: 'Map',
+        category: 'Control',
+        tags: ['map', 'fan-out', 'foreach', 'each', 'loop', 'parallel', 'batch'],
+        description: 'Runs the job after it once per item of a list and collects the results',
+        ui: {
+            icons: { default: 'layers' },
+            color: '#0ea5e9',
+            defaultSize: { w: 8, h: 6 },
+        },
+    },
     // ── Layout ──
     {
         type: 'group',
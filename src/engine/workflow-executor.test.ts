@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest'
+import { WorkflowExecutor } from './workflow-executor'
+import { nodeRunnerRegistry } from './node-runners'
+import { subTypeRegistry } from './widget-subtypes-registry'
+import type { WorkflowDoc, WorkflowEdge, WorkflowNode } from './workflow-store'
+
+// ── Fixtures ────────────────────────────────────────────────────────────────────
+
+/** Test job — outputs `data.value` (else its ID) after `data.delay` ms, or on the next microtask */
+nodeRunnerRegistry.register('job:test', async (ctx) => {
+    const delay = Number(ctx.node.data.delay ?? 0)
+    if (delay) await new Promise(resolve => setTimeout(resolve, delay))
+    else await Promise.resolve()
+    return ctx.node.data.value ?? ctx.node.id
+})
+
+const start: WorkflowNode = { id: 's', type: 'starting', position: { x: 0, y: 0 }, data: {} }
+
+function job(id: string, data: Record<string, unknown> = {}): WorkflowNode {
+    return { id, type: 'job', position: { x: 0, y: 0 }, data: { label: id, subType: 'test', ...data } }
+}
+
+function node(id: string, type: string, data: Record<string, unknown> = {}): WorkflowNode {
+    return { id, type, position: { x: 0, y: 0 }, data: { label: id, ...data } }
+}
+
+/** Edges from 'a->b' specs */
+function edges(...specs: string[]): WorkflowEdge[] {
+    return specs.map(spec => {
+        const [source, target] = spec.split('->')
+        return { id: `${source}-${target}`, source, target }
+    })
+}
+
+function workflow(nodes: WorkflowNode[], workflowEdges: WorkflowEdge[]): WorkflowDoc {
+    return { id: 'wf', name: 'Test', nodes: [start, ...nodes], edges: workflowEdges, createdAt: 0, updatedAt: 0 }
+}
+
+// ── Joins ───────────────────────────────────────────────────────────────────────
+
+describe('joins', () => {
+    it('waits for both branches of a diamond that finish in the same tick', async () => {
+        const doc = workflow([job('a'), job('b'), job('c')], edges('s->a', 's->b', 'a->c', 'b->c'))
+        const run = await new WorkflowExecutor(doc).run()
+
+        expect(run.status).toBe('done')
+        expect(run.nodes.c.inputs).toEqual({ a: 'a', b: 'b' })
+        expect(run.nodes.c.join).toEqual({ label: 'all 2', arrived: ['a', 'b'], outcome: 'met' })
+    })
+
+    it('waits for both branches when they are routers', async () => {
+        const doc = workflow([node('a', 'router'), node('b', 'router'), job('c')], edges('s->a', 's->b', 'a->c', 'b->c'))
+        const run = await new WorkflowExecutor(doc).run()
+
+        expect(run.status).toBe('done')
+        expect(Object.keys(run.nodes.c.inputs ?? {})).toEqual(['a', 'b'])
+        expect(run.nodes.c.join?.arrived).toEqual(['a', 'b'])
+    })
+
+    // fast arrives at once, mid after 40 ms, slow after 400 ms
+    const branches = () => [job('fast'), job('mid', { delay: 40 }), job('slow', { delay: 400 })]
+    const into = edges('s->fast', 's->mid', 's->slow', 'fast->j', 'mid->j', 'slow->j')
+
+    it('runs on the first input with joinMode any', async () => {
+        const run = await new WorkflowExecutor(workflow([...branches(), job('j', { joinMode: 'any' })], into)).run()
+
+        expect(run.nodes.j.inputs).toEqual({ fast: 'fast' })
+        expect(run.nodes.j.join).toMatchObject({ label: 'any of 3', outcome: 'met' })
+    })
+
+    it('runs on N inputs with joinMode n', async () => {
+        const run = await new WorkflowExecutor(workflow([...branches(), job('j', { joinMode: 'n', joinCount: 2 })], into)).run()
+
+        expect(run.nodes.j.inputs).toEqual({ fast: 'fast', mid: 'mid' })
+        expect(run.nodes.j.join).toMatchObject({ label: '2 of 3', outcome: 'met' })
+    })
+
+    it('fails the node when its join times out', async () => {
+        const run = await new WorkflowExecutor(workflow([...branches(), job('j', { joinTimeout: 150 })], into)).run()
+
+        expect(run.status).toBe('error')
+        expect(run.nodes.j.status).toBe('error')
+        expect(run.nodes.j.error).toBe('Join timed out — 2 input(s) arrived, waited for all 3')
+    })
+
+    it('runs the node with what arrived when its join times out with proceed', async () => {
+        const j = job('j', { joinTimeout: 150, joinOnTimeout: 'proceed' })
+        const run = await new WorkflowExecutor(workflow([...branches(), j], into)).run()
+
+        expect(run.status).toBe('done')
+        expect(run.nodes.j.inputs).toEqual({ fast: 'fast', mid: 'mid' })
+        expect(run.nodes.j.join).toMatchObject({ outcome: 'timeout', arrived: ['fast', 'mid'] })
+    })
+})
+
+// ── Branches ────────────────────────────────────────────────────────────────────
+
+describe('branches', () => {
+    const cases = [{ label: 'High', expression: 'input > 0.5' }]
+    /** s → score → router → high (case-0) | low (default) */
+    const routed = (score: number, into?: WorkflowEdge['condition']) => workflow(
+        [job('score', { value: score }), node('router', 'router', { cases }), job('high'), job('low')],
+        [
+            { id: 's-score', source: 's', target: 'score' },
+            { id: 'score-router', source: 'score', target: 'router', condition: into },
+            { id: 'router-high', source: 'router', target: 'high', sourceHandle: 'case-0' },
+            { id: 'router-low', source: 'router', target: 'low', sourceHandle: 'default' },
+        ],
+    )
+
+    it('takes the branch of the first matching router case and skips the others', async () => {
+        const run = await new WorkflowExecutor(routed(0.9)).run()
+
+        expect(run.status).toBe('done')
+        expect(run.nodes.router.route).toBe('case-0')
+        expect(run.nodes.router.logs).toContain('→ High')
+        expect(run.nodes.high.status).toBe('done')
+        expect(run.nodes.low.status).toBe('skipped')
+        expect(run.edges).toMatchObject({ 'router-high': true, 'router-low': false })
+    })
+
+    it('takes the default branch when no case matches', async () => {
+        const run = await new WorkflowExecutor(routed(0.1)).run()
+
+        expect(run.nodes.router.route).toBe('default')
+        expect(run.nodes.high.status).toBe('skipped')
+        expect(run.nodes.low.status).toBe('done')
+    })
+
+    it('skips everything after an edge whose condition does not hold', async () => {
+        const run = await new WorkflowExecutor(routed(0.9, { kind: 'expression', expression: 'output < 0.5' })).run()
+
+        expect(run.status).toBe('done')
+        expect(['router', 'high', 'low'].map(id => run.nodes[id].status)).toEqual(['skipped', 'skipped', 'skipped'])
+    })
+
+    it('logs an expression that fails on its source and does not take the edge', async () => {
+        const doc = workflow([job('a'), job('b')], [
+            { id: 's-a', source: 's', target: 'a' },
+            { id: 'a-b', source: 'a', target: 'b', condition: { kind: 'expression', expression: 'window.localStorage.length >= 0' } },
+        ])
+        const run = await new WorkflowExecutor(doc).run()
+
+        expect(run.status).toBe('done')
+        expect(run.nodes.a.logs).toContain('ERROR: Condition "window.localStorage.length >= 0": window is not defined')
+        expect(run.nodes.b.status).toBe('skipped')
+    })
+
+    it('carries the output over the edges it took', async () => {
+        const run = await new WorkflowExecutor(routed(0.9)).run()
+
+        expect(run.payloads['score-router']).toBe(0.9)
+        expect(run.payloads['router-high']).toBe(0.9)
+        expect(run.payloads).not.toHaveProperty('router-low')
+    })
+})
+
+// ── Fan-out ─────────────────────────────────────────────────────────────────────
+
+/** Map body — doubles the item it gets from the map node */
+nodeRunnerRegistry.register('job:double', async (ctx) => {
+    const item = Object.values(ctx.inputs)[0] as number
+    if (item < 0) throw new Error(`negative item ${item}`)
+    return item * 2
+})
+
+describe('fan-out', () => {
+    /** s → list → map → body (doubles) → report */
+    const mapped = (list: unknown, mapData: Record<string, unknown> = {}) => workflow(
+        [job('list', { value: list }), node('map', 'map', mapData), job('body', { subType: 'double' }), job('report')],
+        edges('s->list', 'list->map', 'map->body', 'body->report'),
+    )
+
+    it('runs the body once per item and hands on the results in item order', async () => {
+        const run = await new WorkflowExecutor(mapped({ files: [1, 2, 3, 4] }, { itemsPath: 'files', concurrency: 2 })).run()
+
+        expect(run.status).toBe('done')
+        expect(run.nodes.map.output).toEqual([1, 2, 3, 4])
+        expect(run.nodes.body.output).toEqual([2, 4, 6, 8])
+        expect(run.nodes.body.items?.map(item => item.status)).toEqual(['done', 'done', 'done', 'done'])
+        expect(run.nodes.body.logs).toContain('4/4 done')
+        expect(run.nodes.report.inputs).toEqual({ body: [2, 4, 6, 8] })
+    })
+
+    it('fails the body once all items ran if any of them failed', async () => {
+        const run = await new WorkflowExecutor(mapped([1, -2, 3])).run()
+
+        expect(run.nodes.body.status).toBe('error')
+        expect(run.nodes.body.error).toBe('1 of 3 item(s) failed: negative item -2')
+        expect(run.nodes.body.items?.map(item => item.status)).toEqual(['done', 'error', 'done'])
+        // The failure stops the branch
+        expect(run.status).toBe('error')
+        expect(run.nodes.report.status).toBe('idle')
+    })
+
+    it('fails the map node when its input is not a list', async () => {
+        const run = await new WorkflowExecutor(mapped({ files: 3 }, { itemsPath: 'missing' })).run()
+
+        expect(run.status).toBe('error')
+        expect(run.nodes.map.error).toBe('Map input at "missing" is not an array')
+        expect(run.nodes.body.status).toBe('idle')
+    })
+})
+
+// ── Retries ─────────────────────────────────────────────────────────────────────
+
+/** Attempts per run and node of the `job:flaky` runner */
+const attempts = new Map<string, number>()
+
+/** Flaky job — fails its first `data.failures` attempts with `data.error` */
+nodeRunnerRegistry.register('job:flaky', async (ctx) => {
+    const key = `${ctx.runId}:${ctx.node.id}`
+    const attempt = (attempts.get(key) ?? 0) + 1
+    attempts.set(key, attempt)
+    if (attempt <= Number(ctx.node.data.failures ?? 0)) throw new Error(String(ctx.node.data.error ?? 'Timed out after 300ms'))
+    return attempt
+})
+
+describe('retries', () => {
+    const flaky = (data: Record<string, unknown>) => job('flaky', { subType: 'flaky', retryDelay: 10, ...data })
+
+    it('retries a failed attempt and logs it', async () => {
+        const run = await new WorkflowExecutor(workflow([flaky({ failures: 2, retries: 2 })], edges('s->flaky'))).run()
+
+        expect(run.status).toBe('done')
+        expect(run.nodes.flaky.output).toBe(3)
+        expect(run.nodes.flaky.attempt).toMatchObject({ number: 3, of: 3 })
+        expect(run.nodes.flaky.logs).toEqual([
+            '↻ Attempt 1 of 3 failed — retrying in 10ms',
+            '↻ Attempt 2 of 3 failed — retrying in 20ms',
+        ])
+    })
+
+    it('does not retry failures its retryOn leaves out', async () => {
+        const data = { failures: 1, retries: 2, retryOn: 'timeout', error: 'boom' }
+        const run = await new WorkflowExecutor(workflow([flaky(data)], edges('s->flaky'))).run()
+
+        expect(run.status).toBe('error')
+        expect(run.nodes.flaky.error).toBe('boom')
+        expect(run.nodes.flaky.attempt?.number).toBe(1)
+    })
+
+    it('takes the fallback edge only after the last attempt failed', async () => {
+        const doc = (failures: number) => workflow(
+            [flaky({ failures, retries: 1, retryOn: 'timeout', fallback: 'backup' }), job('next'), job('backup')],
+            edges('s->flaky', 'flaky->next', 'flaky->backup'),
+        )
+
+        const failed = await new WorkflowExecutor(doc(2)).run()
+        expect(failed.status).toBe('done')
+        expect(failed.nodes.flaky.status).toBe('error')
+        expect(failed.nodes.flaky.error).toBe('Timed out after 300ms')
+        expect(failed.nodes.backup.status).toBe('done')
+        expect(failed.nodes.next.status).toBe('skipped')
+
+        const recovered = await new WorkflowExecutor(doc(1)).run()
+        expect(recovered.nodes.next.status).toBe('done')
+        expect(recovered.nodes.backup.status).toBe('skipped')
+    })
+})
+
+// ── Templates ───────────────────────────────────────────────────────────────────
+
+/** Echo job — a JS job's settings schema; outputs the settings it ran with */
+subTypeRegistry.register('job:echo', { ...subTypeRegistry.get('job:js')!, id: 'job:echo', type: 'job:echo', subType: 'echo' })
+nodeRunnerRegistry.register('job:echo', async (ctx) => ({ label: ctx.node.data.label, code: ctx.node.data.code }))
+
+describe('templates', () => {
+    it('resolves settings against the run, leaving code as written', async () => {
+        const code = "ctx.log('{{ env.TOKEN }}')"
+        const echo = job('echo', { subType: 'echo', label: '{{ nodes.fetch.output.greeting }} {{ env.TOKEN }}', code })
+        const doc = workflow([job('fetch', { value: { greeting: 'hello' } }), echo], edges('s->fetch', 'fetch->echo'))
+        const run = await new WorkflowExecutor(doc, { getSecret: async name => `<${name}>` }).run()
+
+        expect(run.nodes.echo.output).toEqual({ label: 'hello <TOKEN>', code })
+    })
+
+    it('logs references that resolve to nothing', async () => {
+        const echo = job('echo', { subType: 'echo', label: 'Hi {{ nodes.nope.output }}', code: '' })
+        const run = await new WorkflowExecutor(workflow([echo], edges('s->echo'))).run()
+
+        expect(run.nodes.echo.output).toMatchObject({ label: 'Hi ' })
+        expect(run.nodes.echo.logs).toContain('⚠ Template {{ nodes.nope.output }} resolved to nothing')
+    })
+})
+
+// ── Parameters ──────────────────────────────────────────────────────────────────
+
+describe('parameters', () => {
+    const params = { replicas: { type: 'number', label: 'Replicas', default: 2 }, token: { type: 'string', label: 'Token', required: true } }
+
+    /** s (declaring `params`) → next */
+    function withParams(next: WorkflowNode): WorkflowDoc {
+        const doc = workflow([next], edges(`s->${next.id}`))
+        return { ...doc, nodes: [{ ...start, data: { params } }, next] }
+    }
+
+    it('outputs the resolved parameters from the starting node, for templates to read', async () => {
+        const doc = withParams(job('echo', { subType: 'echo', label: '{{ inputs.token }} x{{ inputs.replicas }}', code: '' }))
+        const run = await new WorkflowExecutor(doc, { inputs: { token: 'abc' } }).run()
+
+        expect(run.nodes.s.output).toEqual({ replicas: 2, token: 'abc' })
+        expect(run.nodes.echo.output).toMatchObject({ label: 'abc x2' })
+    })
+
+    it('fails the starting node on invalid parameters', async () => {
+        const run = await new WorkflowExecutor(withParams(job('a')), { inputs: { replicas: 'many' } }).run()
+
+        expect(run.status).toBe('error')
+        expect(run.nodes.s.error).toBe('Invalid parameters — replicas: Must be a number; token: Token is required')
+        expect(run.nodes.a.status).toBe('idle')
+    })
+})
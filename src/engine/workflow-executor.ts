@@ -0,0 +1,1143 @@
+/**
+ * WorkflowExecutor — runs a WorkflowDoc by following its edges.
+ *
+ * Execution model:
+ *   - The run starts at the `starting` node, which outputs the run inputs —
+ *     checked against its parameters (`data.params`, see workflow-params.ts):
+ *     defaults filled in, a missing required or invalid one fails it.
+ *   - When a node finishes, each outgoing edge is settled as taken or not
+ *     (see Branching below).
+ *   - A node's inputs are the outputs of its upstream nodes, keyed by their
+ *     IDs — or, over an edge with `inputKeys`, those keys of the output.
+ *   - A downstream node is scheduled once ALL of its upstream nodes have
+ *     finished and at least one of its incoming edges was taken — or, with
+ *     another join (`data.joinMode` 'any' / 'n', see join.ts), as soon as
+ *     enough inputs arrived. A join may time out (`data.joinTimeout`) and
+ *     then fail the node or run it with what arrived.
+ *   - Independent branches run concurrently (each node is an async task).
+ *   - A failed node stops its branch; the run ends as `error` unless an
+ *     `on error` edge handles the failure.
+ *   - Only control-flow widgets execute (starting, job, user, subflow, router,
+ *     map); informers, expectations and groups are ignored by the scheduler.
+ *   - Expectations attached to a node (edge node → expectation) are
+ *     evaluated when it finishes (see expectations.ts); the verdicts land
+ *     in `RunState.expectations` and do not affect the run's status.
+ *
+ * A node is online on the message bus while its runner runs (see
+ * MessageBus.ts).
+ *
+ * Run controls dispatch SystemCommands to the nodes' messengers:
+ *   - pause(id?) / resume(id?) — suspend a node (or every running node and
+ *     the scheduler) at its next await point
+ *   - terminate(id) / killBranch(id) — abort node(s), marked `error` with a reason
+ *   - stop() — terminate everything; shutdown() — drain: running nodes
+ *     finish, nothing new starts
+ *
+ * Human-in-the-loop: a `user` node parks the run in `waiting` until
+ * approve(id) (carries on), reject(id) (follows the node's `reject` edges —
+ * sourceHandle 'reject' — or, without any, fails the node) or keeps
+ * waiting after comment(id) sends a `text` message to the upstream agent.
+ * Every decision is recorded on the node (`decisions`). A user node with a
+ * `data.form` (see user-form.ts) is approved with the reviewer's values,
+ * which are validated and become its output.
+ *
+ * Branching (see conditions.ts): an edge with a `condition` is taken only
+ * when it holds for its finished source (on success / on error / on
+ * approval / an expression over the output); plain edges are taken on
+ * success. A `router` node routes to the source handle of its first
+ * matching case (ctx.route). A node none of whose incoming edges were taken
+ * ends as `skipped`, and so does everything only it leads to. Settled
+ * edges are recorded in `RunState.edges`.
+ *
+ * Retries (see retry.ts): a job that fails is run again as its policy
+ * allows (`data.retries`, backoff, `data.retryOn`); only its last failure
+ * settles its edges. The edge to `data.fallback` is taken only then.
+ *
+ * Templates (see templates.ts): `{{ nodes.<id>.output… }}`, `{{ inputs.x }}`
+ * and `{{ env.NAME }}` in a node's settings are resolved against the run
+ * when the node starts; its runner sees the resolved settings. Code
+ * settings are left as written. References that resolve to nothing are
+ * logged on the node.
+ *
+ * Fan-out (see fan-out.ts): a job after a `map` node runs once per item of
+ * the map's list, `data.concurrency` at a time, and outputs the results
+ * array. Per-item progress is recorded on the job (`items`).
+ *
+ * Subflows: a `subflow` node linked to a saved workflow runs it as a child
+ * WorkflowExecutor (see subflow.ts). The child's progress and state bubble
+ * up to the subflow node (`child`), its failure fails the node, and run
+ * controls on the node reach the child. A workflow that is already running
+ * higher up the chain is refused (no recursive cycles).
+ *
+ * Breakpoints (only with `debug: true`): `data.breakpoints` on a node —
+ * `{ before, after }` — pauses the whole run when the node is about to start
+ * or has just finished. While stopped, the node's inputs (before) or output
+ * (after) can be edited with setBreakValue(); continue() carries on,
+ * step() carries on and breaks again before the next node starts.
+ *
+ * The executor owns an immutable RunState snapshot that is replaced on every
+ * change, so it can be fed straight into React state (same subscribe/getState
+ * pattern as StepStore).
+ *
+ * Usage:
+ *   const executor = new WorkflowExecutor(doc)
+ *   executor.subscribe(() => setRun(executor.getState()))
+ *   await executor.run()
+ */
+
+import { MessageBus } from './MessageBus'
+import type { SystemCommand } from './AgentMessenger'
+import { generateId, now, formatDuration } from './core'
+import { nodeRunnerRegistry, type NodeRunContext, type NodeRunner } from './node-runners'
+import { neighborsOf, type Artifact, type SecretResolver, type ToolCall } from './execution-context'
+import { evaluateExpectation, type ExpectationResult } from './expectations'
+import { formSchemaOf, validateForm, formErrorsSummary, type FormErrors, type FormValues } from './user-form'
+import { childOutput, pickInputs } from './subflow'
+import { conditionHolds, conditionOf, DEFAULT_HANDLE } from './conditions'
+import { joinOf, joinVerdict, joinLabel, joinMessage, type JoinResult, type JoinSettings } from './join'
+import { mapConcurrency, mapSummary, runPool, type MapItemState } from './fan-out'
+import { isFallbackEdge, retryDelayOf, retryPolicyOf, shouldRetry, type AttemptState, type RetryPolicy } from './retry'
+import { envNamesOf, resolveSettings, templateKeys, templateRefsIn } from './templates'
+import { resolveParams, workflowParamsOf } from './workflow-params'
+import { subTypeRegistry } from './widget-subtypes-registry'
+import type { WorkflowDoc, WorkflowEdge, WorkflowNode } from './workflow-store'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export type NodeRunStatus = 'idle' | 'waking' | 'running' | 'paused' | 'waiting' | 'done' | 'error' | 'skipped'
+
+export type RunStatus = 'idle' | 'running' | 'paused' | 'stopped' | 'done' | 'error'
+
+export interface NodeRunState {
+    status: NodeRunStatus
+    progress: number
+    logs: string[]
+    execTime: string
+    startedAt?: number
+    finishedAt?: number
+    output?: unknown
+    error?: string
+    artifacts: Artifact[]
+    /** Tool calls reported by the node (ctx.toolCall) */
+    toolCalls: ToolCall[]
+    /** Inputs the node was (or is about to be) started with */
+    inputs?: Record<string, unknown>
+    /** Set while the node is stopped at a breakpoint */
+    breakpoint?: BreakpointKind
+    /** Reviewer decisions on a user node, in order */
+    decisions?: ApprovalDecision[]
+    /** The node was rejected — only its `reject` edges are followed */
+    rejected?: boolean
+    /** Run of the linked workflow (subflow nodes) */
+    child?: RunState
+    /** Source handle the node routed to (routers) — only its edges are taken */
+    route?: string
+    /** How the node's inputs were joined (several incoming edges) */
+    join?: JoinResult
+    /** One entry per list item when the node runs after a map node (see fan-out.ts) */
+    items?: MapItemState[]
+    /** The attempt a job is on (see retry.ts) */
+    attempt?: AttemptState
+}
+
+export type ApprovalAction = 'approve' | 'reject' | 'comment'
+
+/** A reviewer's decision on a waiting user node */
+export interface ApprovalDecision {
+    action: ApprovalAction
+    /** Comment, or the reason of a rejection */
+    text?: string
+    /** Submitted form values (user nodes with a form) */
+    values?: FormValues
+    at: number
+}
+
+export type BreakpointKind = 'before' | 'after'
+
+/** Breakpoints of a node, stored as `data.breakpoints` */
+export interface NodeBreakpoints {
+    before?: boolean
+    after?: boolean
+}
+
+export interface RunState {
+    runId: string
+    workflowId: string
+    status: RunStatus
+    startedAt?: number
+    finishedAt?: number
+    nodes: { [id: string]: NodeRunState }
+    /** Verdicts of expectation nodes, keyed by expectation node ID */
+    expectations: { [id: string]: ExpectationResult }
+    /** Whether each settled edge was taken, keyed by edge ID */
+    edges: { [id: string]: boolean }
+    /** What each taken edge carried — its source's output, keyed by edge ID (see ports.ts) */
+    payloads: { [id: string]: unknown }
+}
+
+export interface WorkflowExecutorOptions {
+    /** Bus that owns the node messengers — defaults to one built from the doc */
+    bus?: MessageBus
+    /** Answers ctx.getSecret() in scripts */
+    getSecret?: SecretResolver
+    /** Honour node breakpoints (FlowStudioStore.debugMode) */
+    debug?: boolean
+    /** Run inputs — checked against the workflow parameters and handed to the starting node, which outputs them */
+    inputs?: Record<string, unknown>
+    /** Resolves subflow links — defaults to WorkflowStore */
+    loadWorkflow?: (workflowId: string) => Promise<WorkflowDoc | undefined>
+    /** IDs of the workflows running this one as a subflow, outermost first */
+    callStack?: string[]
+    /** Called with each child executor a subflow node starts (e.g. to track its approvals) */
+    onSubflow?: (child: WorkflowExecutor, nodeId: string) => void
+}
+
+/** Default subflow resolver — loaded lazily, so runs without subflows never open IndexedDB */
+async function loadFromWorkflowStore(workflowId: string): Promise<WorkflowDoc | undefined> {
+    const { getWorkflowStore } = await import('./workflow-store')
+    return (await getWorkflowStore()).load(workflowId)
+}
+
+/** Widget types that take part in control flow */
+const EXECUTABLE_TYPES = new Set(['starting', 'job', 'user', 'subflow', 'router', 'map'])
+
+/** Source handle of the edges a rejected user node routes to */
+export const REJECT_HANDLE = 'reject'
+
+// ── Helpers ─────────────────────────────────────────────────────────────────────
+
+function initialNodeState(): NodeRunState {
+    return { status: 'idle', progress: 0, logs: [], execTime: '—', artifacts: [], toolCalls: [] }
+}
+
+/** Resolve a node's subType (job nodes default to 'ai', like JobNode) */
+export function nodeSubType(node: { type?: string; data: Record<string, any> }): string {
+    if (node.data.subType) return String(node.data.subType)
+    return node.type === 'job' ? 'ai' : 'default'
+}
+
+// ── Executor ────────────────────────────────────────────────────────────────────
+
+export class WorkflowExecutor {
+    readonly doc: WorkflowDoc
+    private state: RunState
+    private listeners: Set<() => void> = new Set()
+    private abort = new AbortController()
+    private bus: MessageBus
+    private parked: Map<string, { resolve: (v: unknown) => void; reject: (e: Error) => void }> = new Map()
+    private launched: Set<string> = new Set()
+    /** Set by stop() / shutdown() — no new nodes are scheduled */
+    private halted: 'stop' | 'shutdown' | null = null
+    private paused = false
+    private resumeWaiters: (() => void)[] = []
+    /** Reasons given to terminate(), reported instead of the runner's error */
+    private terminateReasons: Map<string, string> = new Map()
+    private getSecretOpt?: SecretResolver
+    private debug: boolean
+    private breakpoints: Map<string, NodeBreakpoints> = new Map()
+    /** Nodes stopped at a breakpoint, released by continue() / step() */
+    private breaks: Map<string, { resolve: () => void; reject: (e: Error) => void }> = new Map()
+    /** Armed by step() — break before the next node starts */
+    private stepping = false
+    private options: WorkflowExecutorOptions
+    /** Run inputs resolved against the workflow parameters */
+    private params: { values: Record<string, unknown>; errors: FormErrors }
+    /** Child executors of running subflow nodes */
+    private children: Map<string, WorkflowExecutor> = new Map()
+    /** Joins waiting on a timeout, released when the node starts or the run halts */
+    private joinWaits: Map<string, { timer: ReturnType<typeof setTimeout>; resolve: () => void }> = new Map()
+
+    constructor(doc: WorkflowDoc, options: WorkflowExecutorOptions = {}) {
+        this.doc = doc
+        this.options = options
+        this.bus = options.bus ?? new MessageBus(doc.nodes, doc.edges)
+        this.getSecretOpt = options.getSecret
+        this.debug = !!options.debug
+        this.params = resolveParams(workflowParamsOf(doc.nodes), options.inputs)
+        for (const n of doc.nodes) {
+            if (n.data.breakpoints) this.breakpoints.set(n.id, n.data.breakpoints as NodeBreakpoints)
+        }
+
+        const nodes: { [id: string]: NodeRunState } = {}
+        const expectations: { [id: string]: ExpectationResult } = {}
+        for (const n of this.executableNodes()) {
+            nodes[n.id] = initialNodeState()
+            for (const exp of this.expectationsOf(n.id)) expectations[exp.id] = { jobId: n.id, status: 'pending' }
+        }
+
+        this.state = {
+            runId: generateId('run'),
+            workflowId: doc.id,
+            status: 'idle',
+            nodes,
+            expectations,
+            edges: {},
+            payloads: {},
+        }
+    }
+
+    // ── Subscription ────────────────────────────────────────────────────────
+
+    /** Subscribe to state changes. Returns unsubscribe function. */
+    subscribe(fn: () => void): () => void {
+        this.listeners.add(fn)
+        return () => { this.listeners.delete(fn) }
+    }
+
+    private notify() {
+        this.listeners.forEach(fn => fn())
+    }
+
+    /** Current run snapshot (read-only) */
+    getState(): RunState {
+        return this.state
+    }
+
+    /** Executor of the child run a subflow node is running, if any */
+    childExecutor(nodeId: string): WorkflowExecutor | undefined {
+        return this.children.get(nodeId)
+    }
+
+    // ── Graph helpers ───────────────────────────────────────────────────────
+
+    private executableNodes(): WorkflowNode[] {
+        return this.doc.nodes.filter(n => EXECUTABLE_TYPES.has(n.type))
+    }
+
+    private getNode(id: string): WorkflowNode | undefined {
+        return this.doc.nodes.find(n => n.id === id)
+    }
+
+    private isExecutable(id: string): boolean {
+        const node = this.getNode(id)
+        return !!node && EXECUTABLE_TYPES.has(node.type)
+    }
+
+    /** IDs of executable upstream nodes */
+    upstreamOf(nodeId: string): string[] {
+        return this.doc.edges
+            .filter(e => e.target === nodeId && this.isExecutable(e.source))
+            .map(e => e.source)
+    }
+
+    /** IDs of executable downstream nodes */
+    downstreamOf(nodeId: string): string[] {
+        return this.doc.edges
+            .filter(e => e.source === nodeId && this.isExecutable(e.target))
+            .map(e => e.target)
+    }
+
+    /** Edges between executable nodes that enter a node */
+    private incomingOf(nodeId: string): WorkflowEdge[] {
+        return this.doc.edges.filter(e => e.target === nodeId && this.isExecutable(e.source))
+    }
+
+    /** Edges between executable nodes that leave a node */
+    private outgoingOf(nodeId: string): WorkflowEdge[] {
+        return this.doc.edges.filter(e => e.source === nodeId && this.isExecutable(e.target))
+    }
+
+    /**
+     * Whether an edge is taken from its finished source — a rejected node
+     * only follows its `reject` edges, a routed node only the edges of its
+     * route, anything else the edges whose condition holds.
+     */
+    private follows(edge: WorkflowEdge, source: NodeRunState): boolean {
+        if (source.status === 'skipped') return false
+        if (source.rejected || edge.sourceHandle === REJECT_HANDLE) {
+            return !!source.rejected && source.status === 'done' && edge.sourceHandle === REJECT_HANDLE
+        }
+        if (source.route) return source.status === 'done' && (edge.sourceHandle || DEFAULT_HANDLE) === source.route
+        if (isFallbackEdge(this.getNode(edge.source)?.data, edge.target)) return source.status === 'error'
+        try {
+            return conditionHolds(conditionOf(edge), source)
+        } catch (err: unknown) {
+            const msg = `Condition "${conditionOf(edge)?.expression}": ${err instanceof Error ? err.message : String(err)}`
+            this.patchNode(edge.source, prev => ({ logs: [...prev.logs, `ERROR: ${msg}`] }))
+            return false
+        }
+    }
+
+    /** Settle the outgoing edges of a finished node; taken ones carry its output */
+    private settleEdges(nodeId: string) {
+        const source = this.state.nodes[nodeId]
+        const edges = { ...this.state.edges }
+        const payloads = { ...this.state.payloads }
+        for (const e of this.outgoingOf(nodeId)) {
+            edges[e.id] = this.follows(e, source)
+            if (edges[e.id]) payloads[e.id] = source.output
+        }
+        this.patchRun({ edges, payloads })
+    }
+
+    /** A failure no taken edge handles */
+    private isUnhandledError(nodeId: string): boolean {
+        return this.state.nodes[nodeId]?.status === 'error' &&
+            !this.outgoingOf(nodeId).some(e => this.state.edges[e.id])
+    }
+
+    /** Expectation nodes attached to a node */
+    expectationsOf(nodeId: string): WorkflowNode[] {
+        return this.doc.edges
+            .filter(e => e.source === nodeId)
+            .map(e => this.getNode(e.target))
+            .filter((n): n is WorkflowNode => n?.type === 'expectation')
+    }
+
+    // ── State mutation ──────────────────────────────────────────────────────
+
+    private patchRun(patch: Partial<RunState>) {
+        this.state = { ...this.state, ...patch }
+        this.notify()
+    }
+
+    private patchNode(nodeId: string, patch: Partial<NodeRunState> | ((prev: NodeRunState) => Partial<NodeRunState>)) {
+        const prev = this.state.nodes[nodeId] ?? initialNodeState()
+        const next = typeof patch === 'function' ? patch(prev) : patch
+        this.state = {
+            ...this.state,
+            nodes: { ...this.state.nodes, [nodeId]: { ...prev, ...next } },
+        }
+        this.notify()
+    }
+
+    // ── Execution ───────────────────────────────────────────────────────────
+
+    /** Run the workflow to completion. Resolves with the final RunState. */
+    async run(): Promise<RunState> {
+        if (this.state.status !== 'idle') throw new Error('WorkflowExecutor can only run once')
+
+        const start = this.doc.nodes.find(n => n.type === 'starting')
+        if (!start) throw new Error('Workflow has no starting node')
+
+        this.patchRun({ status: 'running', startedAt: now() })
+        await this.visit(start.id)
+
+        const failed = Object.keys(this.state.nodes).some(id => this.isUnhandledError(id))
+        this.patchRun({ status: this.halted ? 'stopped' : failed ? 'error' : 'done', finishedAt: now() })
+        return this.state
+    }
+
+    /** Resolves immediately, or on resume() while the whole run is paused */
+    private whenResumed(): Promise<void> {
+        if (!this.paused) return Promise.resolve()
+        return new Promise(resolve => this.resumeWaiters.push(resolve))
+    }
+
+    /** Execute a node, then settle its edges and the downstream nodes */
+    private async visit(nodeId: string): Promise<void> {
+        if (this.launched.has(nodeId)) return
+        this.launched.add(nodeId)
+        this.releaseJoin(nodeId)
+
+        await this.execNode(nodeId)
+        await this.whenResumed()
+        if (this.halted || this.abort.signal.aborted) return
+
+        await this.handOver(nodeId)
+    }
+
+    private async handOver(nodeId: string): Promise<void> {
+        this.settleEdges(nodeId)
+        const next = [...new Set(this.outgoingOf(nodeId).map(e => e.target))]
+        await Promise.all(next.map(id => this.schedule(id)))
+    }
+
+    /**
+     * Run a node once its join is met (see join.ts), skip one none of whose
+     * edges were taken. A failure upstream that no taken edge handles stops
+     * the branch — the node stays idle — unless the join can do without it.
+     * The first input to arrive starts the join's timeout, if any.
+     */
+    private async schedule(nodeId: string): Promise<void> {
+        if (this.launched.has(nodeId)) return
+        const incoming = this.incomingOf(nodeId)
+        const join = joinOf(this.getNode(nodeId)?.data ?? {})
+        const arrived = incoming.filter(e => this.state.edges[e.id]).length
+        // An edge is pending until its source settled it — a finished source may not have handed over yet
+        const pending = incoming.filter(e => !(e.id in this.state.edges)).length
+        const failed = incoming.some(e => this.isUnhandledError(e.source))
+        const verdict = joinVerdict(join, arrived, pending, incoming.length)
+
+        if (verdict === 'wait') {
+            if (arrived > 0 && join.timeout) await this.awaitJoin(nodeId, join)
+            return
+        }
+        if (failed && (join.mode === 'all' || arrived === 0)) return
+        if (verdict === 'run') {
+            if (incoming.length > 1) this.recordJoin(nodeId, join, 'met')
+            return this.visit(nodeId)
+        }
+        if (arrived > 0) return this.closeJoin(nodeId, join, 'unmet')
+
+        this.launched.add(nodeId)
+        this.releaseJoin(nodeId)
+        this.patchNode(nodeId, { status: 'skipped', finishedAt: now() })
+        await this.handOver(nodeId)
+    }
+
+    private recordJoin(nodeId: string, join: JoinSettings, outcome: JoinResult['outcome']): JoinResult {
+        const incoming = this.incomingOf(nodeId)
+        const result: JoinResult = {
+            label: joinLabel(join, incoming.length),
+            arrived: incoming.filter(e => this.state.edges[e.id]).map(e => e.source),
+            outcome,
+        }
+        this.patchNode(nodeId, { join: result })
+        return result
+    }
+
+    /** Resolves when the join's timeout expires (and was handled) or the node is released */
+    private awaitJoin(nodeId: string, join: JoinSettings): Promise<void> {
+        if (this.joinWaits.has(nodeId)) return Promise.resolve()
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                this.joinWaits.delete(nodeId)
+                if (this.launched.has(nodeId) || this.halted || this.abort.signal.aborted) return resolve()
+                resolve(this.closeJoin(nodeId, join, 'timeout'))
+            }, join.timeout)
+            this.joinWaits.set(nodeId, { timer, resolve })
+        })
+    }
+
+    private releaseJoin(nodeId: string) {
+        const wait = this.joinWaits.get(nodeId)
+        if (!wait) return
+        clearTimeout(wait.timer)
+        this.joinWaits.delete(nodeId)
+        wait.resolve()
+    }
+
+    private releaseJoins() {
+        for (const id of [...this.joinWaits.keys()]) this.releaseJoin(id)
+    }
+
+    /** A join that timed out or can no longer be met — fail the node, or run it with what arrived */
+    private async closeJoin(nodeId: string, join: JoinSettings, outcome: 'timeout' | 'unmet'): Promise<void> {
+        const result = this.recordJoin(nodeId, join, outcome)
+        if (join.onTimeout === 'proceed') return this.visit(nodeId)
+
+        const msg = joinMessage(result)
+        const at = now()
+        this.launched.add(nodeId)
+        this.releaseJoin(nodeId)
+        this.patchNode(nodeId, prev => ({
+            status: 'error', error: msg, startedAt: at, finishedAt: at,
+            logs: [...prev.logs, `ERROR: ${msg}`],
+        }))
+        this.evaluateExpectations(nodeId)
+        await this.handOver(nodeId)
+    }
+
+    /** Run a single node through its runner. Returns true on success. */
+    private async execNode(nodeId: string): Promise<boolean> {
+        const node = this.getNode(nodeId)
+        if (!node) return false
+
+        const subType = nodeSubType(node)
+        const runner = nodeRunnerRegistry.resolve(node.type, subType)
+
+        if (!runner) {
+            const at = now()
+            this.patchNode(nodeId, {
+                status: 'error', startedAt: at, finishedAt: at,
+                error: `No runner for ${node.type}:${subType}`,
+                logs: [`ERROR: No runner for ${node.type}:${subType}`],
+            })
+            return false
+        }
+
+        let inputs: Record<string, unknown> = node.type === 'starting' ? { ...this.params.values } : {}
+        for (const e of this.incomingOf(nodeId)) {
+            if (!this.state.edges[e.id]) continue
+            const output = this.state.nodes[e.source]?.output
+            // An edge with inputKeys hands over those keys of the output (see subflow.ts)
+            if (e.inputKeys) Object.assign(inputs, pickInputs(output, e.inputKeys))
+            else inputs[e.source] = output
+        }
+        let startedAt = now()
+
+        try {
+            if (node.type === 'starting' && Object.keys(this.params.errors).length) {
+                throw new Error(`Invalid parameters — ${formErrorsSummary(this.params.errors)}`)
+            }
+            if (this.shouldBreak(nodeId, 'before')) {
+                this.patchNode(nodeId, { inputs })
+                await this.breakAt(nodeId, 'before')
+                inputs = this.state.nodes[nodeId].inputs ?? inputs
+                startedAt = now()
+            }
+
+            const join = this.state.nodes[nodeId]?.join
+            const logs = join && join.outcome !== 'met' ? [`⚠ ${joinMessage(join)} — proceeding`] : []
+            const { node: resolved, missing } = await this.withTemplates(node)
+            for (const path of missing) logs.push(`⚠ Template {{ ${path} }} resolved to nothing`)
+            const fanOut = this.fanOutOf(nodeId, inputs)
+            const items = fanOut?.items.map((): MapItemState => ({ status: 'idle', progress: 0 }))
+            this.patchNode(nodeId, {
+                status: 'running', startedAt, progress: 0, logs, artifacts: [], toolCalls: [], inputs, items, attempt: undefined,
+            })
+            this.bus.setOnline(nodeId, true)
+
+            // A run for one item of a map body logs with the item's number and reports the item's progress
+            const contextFor = (runInputs: Record<string, unknown>, item?: number): NodeRunContext => ({
+                runId: this.state.runId,
+                node: resolved,
+                inputs: runInputs,
+                params: this.params.values,
+                ...neighborsOf(this.doc.nodes, this.doc.edges, nodeId, n => EXECUTABLE_TYPES.has(n.type)),
+                messenger: this.bus.get(nodeId),
+                signal: this.abort.signal,
+                setOnline: (online) => this.bus.setOnline(nodeId, online),
+                log: (line) => this.patchNode(nodeId, prev => ({
+                    logs: [...prev.logs, item === undefined ? line : `[${item + 1}] ${line}`],
+                })),
+                progress: (pct) => {
+                    const clamped = Math.max(0, Math.min(100, pct))
+                    if (item === undefined) this.patchNode(nodeId, { progress: clamped })
+                    else this.patchItem(nodeId, item, { progress: clamped })
+                },
+                emitArtifact: (artifact) => this.patchNode(nodeId, prev => ({ artifacts: [...prev.artifacts, artifact] })),
+                toolCall: (call) => this.patchNode(nodeId, prev => ({ toolCalls: [...prev.toolCalls, call] })),
+                getSecret: async (name) => this.getSecretOpt?.(name),
+                park: () => new Promise((resolve, reject) => {
+                    this.parked.set(nodeId, { resolve, reject })
+                    this.patchNode(nodeId, { status: 'waiting' })
+                }),
+                runWorkflow: (workflowId, childInputs) => this.runChild(nodeId, workflowId, childInputs),
+                route: (handle) => this.patchNode(nodeId, { route: handle }),
+            })
+
+            // Jobs run under their retry policy — per item after a map node
+            const policy = node.type === 'job' ? retryPolicyOf(resolved.data) : undefined
+            const attempt = (ctx: NodeRunContext, track: boolean) =>
+                policy ? this.runAttempts(nodeId, runner, ctx, policy, track) : runner(ctx)
+
+            let output = fanOut
+                ? await this.runEach(nodeId, ctx => attempt(ctx, false), fanOut.items.length, fanOut.concurrency,
+                    index => contextFor({ ...inputs, [fanOut.mapId]: fanOut.items[index] }, index))
+                : await attempt(contextFor(inputs), true)
+            const finishedAt = now()
+
+            if (this.shouldBreak(nodeId, 'after')) {
+                this.patchNode(nodeId, { output, progress: 100, finishedAt })
+                await this.breakAt(nodeId, 'after')
+                output = this.state.nodes[nodeId].output
+            }
+
+            this.patchNode(nodeId, {
+                status: 'done', progress: 100, output, finishedAt,
+                execTime: formatDuration(finishedAt - startedAt),
+            })
+            this.evaluateExpectations(nodeId)
+            return true
+        } catch (err: unknown) {
+            const msg = this.terminateReasons.get(nodeId) ?? (err instanceof Error ? err.message : String(err))
+            const finishedAt = now()
+            this.patchNode(nodeId, prev => ({
+                status: 'error', error: msg, finishedAt,
+                execTime: formatDuration(finishedAt - startedAt),
+                logs: prev.logs.includes(`ERROR: ${msg}`) ? prev.logs : [...prev.logs, `ERROR: ${msg}`],
+            }))
+            this.evaluateExpectations(nodeId)
+            return false
+        } finally {
+            this.parked.delete(nodeId)
+            this.bus.setOnline(nodeId, false)
+        }
+    }
+
+    // ── Templates ───────────────────────────────────────────────────────────
+
+    /** The node with the templates in its settings resolved against the run so far */
+    private async withTemplates(node: WorkflowNode): Promise<{ node: WorkflowNode; missing: string[] }> {
+        const keys = templateKeys(subTypeRegistry.getSettingsSchema(node.type, nodeSubType(node)))
+        const refs = templateRefsIn(node.data, keys)
+        if (!refs.length) return { node, missing: [] }
+        const env: Record<string, string | undefined> = {}
+        for (const name of envNamesOf(refs)) env[name] = await this.getSecretOpt?.(name)
+        const { data, missing } = resolveSettings(node.data, keys, {
+            nodes: this.state.nodes,
+            inputs: this.params.values,
+            env,
+        })
+        return { node: { ...node, data }, missing }
+    }
+
+    // ── Retries ─────────────────────────────────────────────────────────────
+
+    /**
+     * Run a job under its retry policy (see retry.ts): a failed attempt the
+     * policy allows is retried after its backoff. With `track` the attempt
+     * is recorded on the node (its card shows it).
+     */
+    private async runAttempts(
+        nodeId: string,
+        runner: NodeRunner,
+        ctx: NodeRunContext,
+        policy: RetryPolicy,
+        track: boolean,
+    ): Promise<unknown> {
+        const of = policy.retries + 1
+        for (let number = 1; ; number++) {
+            if (track) this.patchNode(nodeId, { attempt: { number, of, startedAt: now(), timeout: policy.timeout } })
+            try {
+                return await runner(ctx)
+            } catch (err: unknown) {
+                const msg = err instanceof Error ? err.message : String(err)
+                if (number >= of || !shouldRetry(policy, msg) || this.isCancelled(nodeId)) throw err
+                const delay = retryDelayOf(policy, number)
+                ctx.log(`↻ Attempt ${number} of ${of} failed — retrying in ${formatDuration(delay)}`)
+                await this.backoff(nodeId, delay)
+                if (this.isCancelled(nodeId)) throw err
+            }
+        }
+    }
+
+    /** Wait `ms` before a retry — cut short when the node is terminated or the run cancelled */
+    private backoff(nodeId: string, ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const done = () => {
+                clearTimeout(timer)
+                unsubSystem()
+                this.abort.signal.removeEventListener('abort', done)
+                resolve()
+            }
+            const timer = setTimeout(done, ms)
+            const unsubSystem = this.bus.get(nodeId).onSystem(cmd => { if (cmd === 'terminate') done() })
+            this.abort.signal.addEventListener('abort', done)
+        })
+    }
+
+    private isCancelled(nodeId: string): boolean {
+        return this.terminateReasons.has(nodeId) || this.abort.signal.aborted
+    }
+
+    // ── Fan-out ─────────────────────────────────────────────────────────────
+
+    /** The map node a job runs after, with the list it fans out over (see fan-out.ts) */
+    private fanOutOf(nodeId: string, inputs: Record<string, unknown>): { mapId: string; items: unknown[]; concurrency: number } | undefined {
+        if (this.getNode(nodeId)?.type !== 'job') return undefined
+        for (const e of this.incomingOf(nodeId)) {
+            const source = this.getNode(e.source)
+            const items = inputs[e.source]
+            if (source?.type === 'map' && this.state.edges[e.id] && Array.isArray(items)) {
+                return { mapId: source.id, items, concurrency: mapConcurrency(source.data) }
+            }
+        }
+        return undefined
+    }
+
+    /**
+     * Run a map body once per item, `concurrency` at a time. Resolves with
+     * the results in item order; fails once all are done if any item failed.
+     */
+    private async runEach(
+        nodeId: string,
+        runner: NodeRunner,
+        count: number,
+        concurrency: number,
+        contextOf: (index: number) => NodeRunContext,
+    ): Promise<unknown[]> {
+        const settled = await runPool(count, concurrency, async (index) => {
+            this.patchItem(nodeId, index, { status: 'running' })
+            try {
+                const output = await runner(contextOf(index))
+                this.patchItem(nodeId, index, { status: 'done', progress: 100, output })
+                return output
+            } catch (err: unknown) {
+                this.patchItem(nodeId, index, { status: 'error', error: err instanceof Error ? err.message : String(err) })
+                throw err
+            }
+        }, () => this.isCancelled(nodeId))
+
+        this.patchNode(nodeId, prev => ({ logs: [...prev.logs, mapSummary(prev.items ?? [])] }))
+        if (settled.some(r => !r)) throw new Error(this.terminateReasons.get(nodeId) ?? 'Run cancelled')
+        const failed = settled.filter((r): r is PromiseRejectedResult => r?.status === 'rejected')
+        if (failed.length) {
+            const reason = failed[0].reason
+            throw new Error(`${failed.length} of ${count} item(s) failed: ${reason instanceof Error ? reason.message : String(reason)}`)
+        }
+        // One result per item, by index
+        return settled.map(r => (r as PromiseFulfilledResult<unknown>).value)
+    }
+
+    /** Update one item of a map body; the node's progress is the items' average */
+    private patchItem(nodeId: string, index: number, patch: Partial<MapItemState>) {
+        this.patchNode(nodeId, prev => {
+            const items = (prev.items ?? []).map((item, i) => i === index ? { ...item, ...patch } : item)
+            const progress = items.length ? Math.round(items.reduce((sum, item) => sum + item.progress, 0) / items.length) : 0
+            return { items, progress }
+        })
+    }
+
+    /**
+     * Run a linked workflow as a child of a subflow node. Its progress, state
+     * and finished nodes bubble up to the node; resolves with its output.
+     */
+    private async runChild(nodeId: string, workflowId: string, inputs: Record<string, unknown>): Promise<unknown> {
+        const callStack = [...(this.options.callStack ?? []), this.doc.id]
+        const load = this.options.loadWorkflow ?? loadFromWorkflowStore
+        const doc = await load(workflowId)
+        if (!doc) throw new Error(`Workflow ${workflowId} not found`)
+        if (callStack.includes(workflowId)) {
+            throw new Error(`Subflow cycle: "${doc.name}" is already running in this chain`)
+        }
+
+        const child = new WorkflowExecutor(doc, {
+            getSecret: this.getSecretOpt,
+            inputs,
+            loadWorkflow: this.options.loadWorkflow,
+            callStack,
+            onSubflow: this.options.onSubflow,
+        })
+        const labelOf = (id: string) => String(doc.nodes.find(n => n.id === id)?.data.label || id)
+        const startId = doc.nodes.find(n => n.type === 'starting')?.id
+        const seen: { [id: string]: NodeRunStatus } = {}
+        const unsubscribe = child.subscribe(() => {
+            const run = child.getState()
+            const nodes = Object.entries(run.nodes)
+            const finished = nodes.filter(([, n]) => n.status === 'done' || n.status === 'error' || n.status === 'skipped').length
+            const lines: string[] = []
+            for (const [id, n] of nodes) {
+                if (id === startId || seen[id] === n.status) continue
+                seen[id] = n.status
+                if (n.status === 'done') lines.push(`↳ ${labelOf(id)}: done (${n.execTime})`)
+                if (n.status === 'error') lines.push(`↳ ${labelOf(id)}: ${n.error}`)
+            }
+            this.patchNode(nodeId, prev => ({
+                child: run,
+                progress: nodes.length ? Math.round(finished / nodes.length * 100) : 0,
+                ...(lines.length ? { logs: [...prev.logs, ...lines] } : {}),
+            }))
+        })
+
+        this.children.set(nodeId, child)
+        this.options.onSubflow?.(child, nodeId)
+        this.patchNode(nodeId, prev => ({ logs: [...prev.logs, `▶ ${doc.name}`] }))
+        try {
+            const result = await child.run()
+            if (result.status !== 'done') {
+                const failedId = Object.keys(result.nodes).find(id => result.nodes[id].status === 'error')
+                const reason = failedId ? `${labelOf(failedId)}: ${result.nodes[failedId].error}` : result.status
+                throw new Error(`Subflow "${doc.name}" failed — ${reason}`)
+            }
+            return childOutput(doc, result)
+        } finally {
+            unsubscribe()
+            this.children.delete(nodeId)
+        }
+    }
+
+    /** Check the expectations attached to a finished node */
+    private evaluateExpectations(nodeId: string) {
+        const attached = this.expectationsOf(nodeId)
+        if (attached.length === 0) return
+        const job = this.state.nodes[nodeId]
+        const expectations = { ...this.state.expectations }
+        for (const exp of attached) {
+            expectations[exp.id] = { jobId: nodeId, ...evaluateExpectation(exp, job) }
+        }
+        this.patchRun({ expectations })
+    }
+
+    // ── Breakpoints ─────────────────────────────────────────────────────────
+
+    private shouldBreak(nodeId: string, kind: BreakpointKind): boolean {
+        if (!this.debug || this.halted || this.abort.signal.aborted) return false
+        if (kind === 'before' && this.stepping) return true
+        return !!this.breakpoints.get(nodeId)?.[kind]
+    }
+
+    /** Stop the run at a node until continue() / step() releases it */
+    private breakAt(nodeId: string, kind: BreakpointKind): Promise<void> {
+        this.stepping = false
+        return new Promise<void>((resolve, reject) => {
+            this.breaks.set(nodeId, { resolve, reject })
+            this.patchNode(nodeId, { status: 'paused', breakpoint: kind })
+            this.pause()
+        }).finally(() => this.patchNode(nodeId, { breakpoint: undefined }))
+    }
+
+    /** Let a stopped node carry on, or fail it with an error */
+    private releaseBreak(nodeId: string, error?: Error): boolean {
+        const stopped = this.breaks.get(nodeId)
+        if (!stopped) return false
+        this.breaks.delete(nodeId)
+        if (error) stopped.reject(error)
+        else stopped.resolve()
+        return true
+    }
+
+    /** Replace the breakpoints of a node (takes effect on its next boundary) */
+    setBreakpoints(nodeId: string, breakpoints: NodeBreakpoints): void {
+        this.breakpoints.set(nodeId, breakpoints)
+    }
+
+    /** Nodes currently stopped at a breakpoint */
+    breakpointNodeIds(): string[] {
+        return Array.from(this.breaks.keys())
+    }
+
+    /**
+     * Edit what a stopped node carries on with — its inputs at a `before`
+     * breakpoint, its output at an `after` breakpoint.
+     */
+    setBreakValue(nodeId: string, value: unknown): boolean {
+        const kind = this.state.nodes[nodeId]?.breakpoint
+        if (!kind || !this.breaks.has(nodeId)) return false
+        if (kind === 'before') this.patchNode(nodeId, { inputs: value as Record<string, unknown> })
+        else this.patchNode(nodeId, { output: value })
+        return true
+    }
+
+    /** Release one stopped node (or all of them) and resume the run */
+    continue(nodeId?: string): void {
+        const ids = nodeId ? [nodeId] : this.breakpointNodeIds()
+        for (const id of ids) this.releaseBreak(id)
+        if (this.breaks.size === 0) this.resume()
+    }
+
+    /** Like continue(), then break again before the next node starts */
+    step(nodeId?: string): void {
+        if (!this.debug) return
+        this.stepping = true
+        this.continue(nodeId)
+    }
+
+    // ── External control ────────────────────────────────────────────────────
+
+    /** Complete a parked node with an output (e.g. user approval) */
+    resolveNode(nodeId: string, output?: unknown): boolean {
+        const p = this.parked.get(nodeId)
+        if (!p) return false
+        p.resolve(output)
+        return true
+    }
+
+    /** Fail a parked node with a reason */
+    rejectNode(nodeId: string, reason: string): boolean {
+        const p = this.parked.get(nodeId)
+        if (!p) return false
+        p.reject(new Error(reason))
+        return true
+    }
+
+    // ── Approvals ───────────────────────────────────────────────────────────
+
+    /** User nodes currently waiting for a decision */
+    waitingNodeIds(): string[] {
+        return Array.from(this.parked.keys()).filter(id => this.getNode(id)?.type === 'user')
+    }
+
+    private recordDecision(nodeId: string, action: ApprovalAction, text?: string, values?: FormValues) {
+        const line = action === 'approve' ? `✓ Approved${text ? `: ${text}` : ''}`
+            : action === 'reject' ? `✗ Rejected: ${text}`
+                : `💬 ${text}`
+        this.patchNode(nodeId, prev => ({
+            decisions: [...(prev.decisions ?? []), { action, ...(text ? { text } : {}), ...(values ? { values } : {}), at: now() }],
+            logs: [...prev.logs, line],
+        }))
+    }
+
+    /**
+     * Approve a waiting user node — it completes with `{ approved: true, comment? }`.
+     * A node with a form completes with the validated `values` instead; invalid
+     * values are logged and the node keeps waiting (returns false).
+     */
+    approve(nodeId: string, comment?: string, values?: FormValues): boolean {
+        if (!this.parked.has(nodeId)) return false
+        const form = formSchemaOf(this.getNode(nodeId)?.data ?? {})
+        if (form) {
+            const result = validateForm(form, values ?? {})
+            if (Object.keys(result.errors).length) {
+                const msg = `Invalid form — ${formErrorsSummary(result.errors)}`
+                this.patchNode(nodeId, prev => ({ logs: [...prev.logs, `ERROR: ${msg}`] }))
+                return false
+            }
+            this.recordDecision(nodeId, 'approve', comment, result.values)
+            return this.resolveNode(nodeId, result.values)
+        }
+        this.recordDecision(nodeId, 'approve', comment)
+        return this.resolveNode(nodeId, { approved: true, ...(comment ? { comment } : {}) })
+    }
+
+    /**
+     * Reject a waiting user node. With `reject` edges it completes with
+     * `{ approved: false, reason }` and only those edges are followed;
+     * without, the node fails with the reason.
+     */
+    reject(nodeId: string, reason = 'Rejected'): boolean {
+        if (!this.parked.has(nodeId)) return false
+        this.recordDecision(nodeId, 'reject', reason)
+        const hasBranch = this.doc.edges.some(e => e.source === nodeId && e.sourceHandle === REJECT_HANDLE)
+        if (!hasBranch) return this.rejectNode(nodeId, `Rejected: ${reason}`)
+        this.patchNode(nodeId, { rejected: true })
+        return this.resolveNode(nodeId, { approved: false, reason })
+    }
+
+    /**
+     * Comment on a waiting user node — sent as a `text` message to the
+     * upstream agent(s); the node keeps waiting.
+     */
+    comment(nodeId: string, text: string): boolean {
+        if (!this.parked.has(nodeId)) return false
+        this.recordDecision(nodeId, 'comment', text)
+        const agents = this.upstreamOf(nodeId).filter(id => this.getNode(id)?.type === 'job')
+        for (const id of agents) {
+            try {
+                this.bus.get(nodeId).send(id, 'text', text)
+            } catch (err: unknown) {
+                const msg = err instanceof Error ? err.message : String(err)
+                this.patchNode(nodeId, prev => ({ logs: [...prev.logs, `ERROR: ${msg}`] }))
+            }
+        }
+        return true
+    }
+
+    // ── Run controls ────────────────────────────────────────────────────────
+
+    /** Nodes currently executing (running, paused or parked) */
+    activeNodeIds(): string[] {
+        return Object.entries(this.state.nodes)
+            .filter(([, n]) => n.status === 'running' || n.status === 'paused' || n.status === 'waiting')
+            .map(([id]) => id)
+    }
+
+    private command(nodeId: string, cmd: SystemCommand) {
+        this.bus.systemCommand(cmd, nodeId)
+    }
+
+    /**
+     * Pause one node, or — without an ID — every running node and the
+     * scheduler. Scripts suspend at their next await point.
+     */
+    pause(nodeId?: string): void {
+        if (this.state.status !== 'running' && this.state.status !== 'paused') return
+        const ids = nodeId ? [nodeId] : this.activeNodeIds()
+        for (const id of ids) {
+            if (this.state.nodes[id]?.status !== 'running') continue
+            this.command(id, 'pause')
+            this.children.get(id)?.pause()
+            this.patchNode(id, { status: 'paused' })
+        }
+        if (!nodeId) {
+            this.paused = true
+            this.patchRun({ status: 'paused' })
+        }
+    }
+
+    /** Resume one paused node, or — without an ID — the whole run */
+    resume(nodeId?: string): void {
+        const ids = nodeId ? [nodeId] : this.activeNodeIds()
+        for (const id of ids) {
+            // Nodes at a breakpoint have not been paused by a command
+            if (this.state.nodes[id]?.status !== 'paused' || this.state.nodes[id].breakpoint) continue
+            this.command(id, 'resume')
+            this.children.get(id)?.resume()
+            this.patchNode(id, { status: 'running' })
+        }
+        if (!nodeId && this.paused) {
+            this.paused = false
+            this.resumeWaiters.splice(0).forEach(fn => fn())
+            this.patchRun({ status: 'running' })
+        }
+    }
+
+    /** Abort a node — it ends as `error` with `reason` */
+    terminate(nodeId: string, reason = 'Terminated'): void {
+        const status = this.state.nodes[nodeId]?.status
+        if (status !== 'running' && status !== 'paused' && status !== 'waiting') return
+        this.terminateReasons.set(nodeId, reason)
+        if (this.releaseBreak(nodeId, new Error(reason))) return
+        const child = this.children.get(nodeId)
+        if (child) child.stop(reason)
+        else if (!this.rejectNode(nodeId, reason)) this.command(nodeId, 'terminate')
+    }
+
+    /** Terminate a node and every active node downstream of it */
+    killBranch(nodeId: string, reason = 'Branch killed'): void {
+        const seen = new Set<string>()
+        const queue = [nodeId]
+        while (queue.length) {
+            const id = queue.shift()!
+            if (seen.has(id)) continue
+            seen.add(id)
+            this.terminate(id, reason)
+            queue.push(...this.downstreamOf(id))
+        }
+    }
+
+    /** Stop all — terminate every active node, schedule nothing new */
+    stop(reason = 'Stopped'): void {
+        if (this.halted === 'stop') return
+        this.halted = 'stop'
+        this.releaseJoins()
+        for (const id of this.activeNodeIds()) this.terminate(id, reason)
+        this.resume()
+    }
+
+    /**
+     * Drain the workflow — running nodes get the `shutdown` command and may
+     * finish, parked nodes fail, nothing new is scheduled.
+     */
+    shutdown(reason = 'Shutdown'): void {
+        if (this.halted) return
+        this.halted = 'shutdown'
+        this.releaseJoins()
+        for (const id of this.activeNodeIds()) {
+            if (this.state.nodes[id].status === 'waiting') this.terminate(id, reason)
+            else if (this.children.has(id)) this.children.get(id)!.shutdown(reason)
+            else this.command(id, 'shutdown')
+        }
+        this.resume()
+    }
+
+    /** Cancel the run — parked nodes fail, no further nodes are scheduled */
+    cancel(reason = 'Run cancelled'): void {
+        this.abort.abort()
+        this.releaseJoins()
+        for (const child of this.children.values()) child.cancel(reason)
+        for (const id of [...this.parked.keys()]) this.rejectNode(id, reason)
+        for (const id of this.breakpointNodeIds()) this.releaseBreak(id, new Error(reason))
+    }
+}
+
+// ── UI projection ───────────────────────────────────────────────────────────────
+
+/**
+ * Project a RunState onto canvas nodes.
+ *
+ * Writes the run's node fields into `data.state`, limited to the keys the
+ * node's stateSchema declares. Logs are also mirrored to `data.logs`,
+ * which is where the JobNode renderers read terminal output from.
+ * Expectation nodes get their verdict (status + explanation).
+ */
+export function applyRunState<T extends { id: string; type?: string; data: Record<string, any> }>(
+    nodes: T[],
+    run: RunState | null,
+): T[] {
+    if (!run) return nodes
+    return nodes.map(n => {
+        const verdict = run.expectations[n.id]
+        if (verdict) {
+            const state = { ...(n.data.state || {}), status: verdict.status, explanation: verdict.explanation }
+            return { ...n, data: { ...n.data, state } }
+        }
+        const ns = run.nodes[n.id]
+        if (!ns) return n
+        const schema = subTypeRegistry.getStateSchema(n.type || '', nodeSubType(n))
+        const state: Record<string, any> = { ...(n.data.state || {}) }
+        for (const key of ['status', 'progress', 'execTime', 'logs', 'route', 'attempt', 'join'] as const) {
+            if (key in schema) state[key] = ns[key]
+        }
+        // Review rounds of a user node (UserNode reads these from data)
+        const review = ns.decisions
+            ? {
+                commentCount: ns.decisions.filter(d => d.action === 'comment').length,
+                rejected: ns.decisions.some(d => d.action === 'reject'),
+            }
+            : {}
+        return { ...n, data: { ...n.data, state, logs: ns.logs, ...review } }
+    })
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { paramSetsOf, paramsSchemaOf, resolveParams, withParamSet, workflowParamsOf } from './workflow-params'
+import type { FormSchema } from './user-form'
+
+const params: FormSchema = {
+    env: { type: 'enum', label: 'Environment', required: true, default: 'staging', enum: [{ value: 'staging', label: 'Staging' }, { value: 'production', label: 'Production' }] },
+    replicas: { type: 'number', label: 'Replicas', default: 2, min: 1 },
+    token: { type: 'string', label: 'Token', required: true },
+}
+
+// ── Declaration ─────────────────────────────────────────────────────────────────
+
+describe('workflowParamsOf', () => {
+    it('reads the parameters of the starting node', () => {
+        const nodes = [{ type: 'job', data: { params } }, { type: 'starting', data: { params: JSON.stringify(params) } }]
+        expect(workflowParamsOf(nodes)).toEqual(params)
+    })
+
+    it('is null without parameters', () => {
+        expect(workflowParamsOf([{ type: 'job', data: { params } }])).toBeNull()
+        expect(paramsSchemaOf({})).toBeNull()
+        expect(paramsSchemaOf({ params: { bad: { label: 'No type' } } })).toBeNull()
+    })
+})
+
+// ── Resolving ───────────────────────────────────────────────────────────────────
+
+describe('resolveParams', () => {
+    it('fills in defaults and coerces values, passing unknown inputs through', () => {
+        expect(resolveParams(params, { replicas: '3', token: 'abc', extra: 1 })).toEqual({
+            values: { extra: 1, env: 'staging', replicas: 3, token: 'abc' },
+            errors: {},
+        })
+    })
+
+    it('reports missing required and invalid parameters', () => {
+        expect(resolveParams(params, { env: 'dev', replicas: 0 }).errors).toEqual({
+            env: 'Must be one of staging, production',
+            replicas: 'Must be at least 1',
+            token: 'Token is required',
+        })
+    })
+
+    it('passes inputs through without parameters', () => {
+        expect(resolveParams(null, { a: 1 })).toEqual({ values: { a: 1 }, errors: {} })
+        expect(resolveParams(null)).toEqual({ values: {}, errors: {} })
+    })
+})
+
+// ── Saved sets ──────────────────────────────────────────────────────────────────
+
+describe('parameter sets', () => {
+    it('reads the valid sets only', () => {
+        expect(paramSetsOf({ paramSets: { prod: { env: 'production' }, broken: 'x', list: [] } })).toEqual({ prod: { env: 'production' } })
+        expect(paramSetsOf({ paramSets: [] })).toEqual({})
+    })
+
+    it('saves, replaces and removes a set', () => {
+        const sets = withParamSet({ prod: { env: 'production' } }, 'stage', { env: 'staging' })
+        expect(sets).toEqual({ prod: { env: 'production' }, stage: { env: 'staging' } })
+        expect(withParamSet(sets, 'prod', { env: 'production', replicas: 5 }).prod).toEqual({ env: 'production', replicas: 5 })
+        expect(withParamSet(sets, 'prod')).toEqual({ stage: { env: 'staging' } })
+    })
+})
@@ -0,0 +1,77 @@
+/**
+ * Workflow parameters — what a run asks for before it starts.
+ *
+ * The `starting` node declares them in `data.params`: a map of parameter
+ * name → FieldSchema (type, label, default, required) — the same shape as a
+ * user node's form (see user-form.ts). A run's inputs are checked against
+ * them: missing values take the defaults, values are coerced to their types
+ * and a missing required or invalid one fails the starting node. The
+ * resolved values are the starting node's output, `ctx.params` in scripts
+ * and `{{ inputs.<name> }}` in templates. Inputs without a parameter pass
+ * through unchanged.
+ *
+ * Named parameter sets (e.g. staging vs production) are saved on the
+ * starting node too (`data.paramSets`: set name → values), so they travel
+ * with the workflow.
+ *
+ * Usage:
+ *   const params = workflowParamsOf(doc.nodes)
+ *   const { values, errors } = resolveParams(params, inputs)
+ *   paramSetsOf(startNode.data)   // { staging: { env: 'staging' }, … }
+ */
+
+import { formSchemaOf, initialFormValues, validateForm, type FormErrors, type FormSchema, type FormValues } from './user-form'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+/** Set name → parameter values */
+export type ParamSets = Record<string, FormValues>
+
+type GraphNode = { type?: string; data: Record<string, any> }
+
+// ── Declaration ─────────────────────────────────────────────────────────────────
+
+/** Parameters declared on a starting node's data — null without any */
+export function paramsSchemaOf(data: Record<string, any>): FormSchema | null {
+    return formSchemaOf({ form: data.params })
+}
+
+/** The workflow's parameters — those of its starting node, null without any */
+export function workflowParamsOf(nodes: GraphNode[]): FormSchema | null {
+    const start = nodes.find(n => n.type === 'starting')
+    return start ? paramsSchemaOf(start.data) : null
+}
+
+// ── Resolving ───────────────────────────────────────────────────────────────────
+
+/**
+ * Run inputs checked against `params`: defaults filled in, values coerced,
+ * one error per missing required / invalid parameter. Without parameters
+ * the inputs pass through.
+ */
+export function resolveParams(
+    params: FormSchema | null,
+    inputs: Record<string, unknown> = {},
+): { values: Record<string, unknown>; errors: FormErrors } {
+    if (!params) return { values: { ...inputs }, errors: {} }
+    const { values, errors } = validateForm(params, { ...initialFormValues(params), ...inputs })
+    const extra = Object.fromEntries(Object.entries(inputs).filter(([key]) => !(key in params)))
+    return { values: { ...extra, ...values }, errors }
+}
+
+// ── Saved sets ──────────────────────────────────────────────────────────────────
+
+/** Saved parameter sets on a starting node's data */
+export function paramSetsOf(data: Record<string, any>): ParamSets {
+    const sets = data.paramSets
+    if (!sets || typeof sets !== 'object' || Array.isArray(sets)) return {}
+    return Object.fromEntries(
+        Object.entries(sets).filter(([, values]) => values && typeof values === 'object' && !Array.isArray(values)),
+    ) as ParamSets
+}
+
+/** `sets` with `name` saved as `values` — or removed, without values */
+export function withParamSet(sets: ParamSets, name: string, values?: FormValues): ParamSets {
+    const { [name]: _replaced, ...rest } = sets
+    return values ? { ...rest, [name]: values } : rest
+}
@@ -15,6 +15,8 @@
 
 import * as Automerge from '@automerge/automerge'
 import { generateId, now } from './core'
+import { openDB, idbGet, idbPut, idbDelete, idbGetAll, STORE_DOCS, STORE_INDEX } from './idb'
+import type { EdgeCondition } from './conditions'
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -31,6 +33,12 @@ export interface WorkflowEdge {
     id: string
     source: string
     target: string
+    /** Handle the edge leaves from (e.g. a user node's 'reject' branch) */
+    sourceHandle?: string | null
+    /** Followed only when it holds for the finished source (see conditions.ts) */
+    condition?: EdgeCondition
+    /** Keys of the source's output handed over as inputs of their own (see subflow.ts) */
+    inputKeys?: string[]
     animated?: boolean
     style?: Record<string, unknown>
 }
@@ -52,66 +60,6 @@ export interface WorkflowMeta {
     nodeCount: number
 }
 
-// ── IndexedDB helpers ──────────────────────────────────────────────────────
-
-const DB_NAME = 'wibeboard-workflows'
-const DB_VERSION = 1
-const STORE_DOCS = 'docs'       // binary Automerge docs
-const STORE_INDEX = 'index'     // lightweight metadata
-
-function openDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-        const req = indexedDB.open(DB_NAME, DB_VERSION)
-        req.onupgradeneeded = () => {
-            const db = req.result
-            if (!db.objectStoreNames.contains(STORE_DOCS)) {
-                db.createObjectStore(STORE_DOCS, { keyPath: 'id' })
-            }
-            if (!db.objectStoreNames.contains(STORE_INDEX)) {
-                db.createObjectStore(STORE_INDEX, { keyPath: 'id' })
-            }
-        }
-        req.onsuccess = () => resolve(req.result)
-        req.onerror = () => reject(req.error)
-    })
-}
-
-function idbGet<T>(db: IDBDatabase, store: string, key: string): Promise<T | undefined> {
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(store, 'readonly')
-        const req = tx.objectStore(store).get(key)
-        req.onsuccess = () => resolve(req.result as T | undefined)
-        req.onerror = () => reject(req.error)
-    })
-}
-
-function idbPut(db: IDBDatabase, store: string, value: unknown): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(store, 'readwrite')
-        tx.objectStore(store).put(value)
-        tx.oncomplete = () => resolve()
-        tx.onerror = () => reject(tx.error)
-    })
-}
-
-function idbDelete(db: IDBDatabase, store: string, key: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(store, 'readwrite')
-        tx.objectStore(store).delete(key)
-        tx.oncomplete = () => resolve()
-        tx.onerror = () => reject(tx.error)
-    })
-}
-
-function idbGetAll<T>(db: IDBDatabase, store: string): Promise<T[]> {
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(store, 'readonly')
-        const req = tx.objectStore(store).getAll()
-        req.onsuccess = () => resolve(req.result as T[])
-        req.onerror = () => reject(req.error)
-    })
-}
-
 // ── Store ──────────────────────────────────────────────────────────────────
 
 // ID generation moved to engine/core/utils.ts
@@ -185,7 +133,8 @@ export class WorkflowStore {
         const db = this.getDB()
 
         // Create Automerge document and serialize to binary
-        const amDoc = Automerge.from<WorkflowDoc>(doc)
+        // (JSON round-trip: Automerge rejects `undefined`, e.g. an unset sourceHandle)
+        const amDoc = Automerge.from<WorkflowDoc>(JSON.parse(JSON.stringify(doc)))
         const binary = Automerge.save(amDoc)
 
         // Save binary
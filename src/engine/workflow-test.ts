@@ -0,0 +1,282 @@
+/**
+ * Workflow Test — runs a workflow as a test suite of its expectation nodes.
+ *
+ * Each repetition is a normal WorkflowExecutor run; the verdicts of every
+ * expectation node (see expectations.ts) are collected per run and
+ * summarised into a TestReport:
+ *   - pass rate per expectation across repetitions
+ *   - flaky — passed in some runs and failed in others
+ *   - an expectation whose job never finished counts as a failure
+ *
+ * Reports export as JUnit XML (one testcase per expectation and run, so CI
+ * tooling can gate on them like tests/*.e2e.ts) or JSON.
+ *
+ * Same subscribe/getState pattern as WorkflowExecutor.
+ *
+ * Usage:
+ *   const tester = new WorkflowTestRunner(doc, { runs: 5, workflowName: 'Deploy' })
+ *   tester.subscribe(() => setTest(tester.getState()))
+ *   const report = await tester.run()
+ *   download('report.xml', testReportToJUnit(report))
+ */
+
+import { now, formatDuration } from './core'
+import { WorkflowExecutor, type RunStatus, type WorkflowExecutorOptions } from './workflow-executor'
+import { expectationSubType, type ExpectationResult } from './expectations'
+import type { WorkflowDoc } from './workflow-store'
+
+// ── Types ───────────────────────────────────────────────────────────────────────
+
+export type ExpectationOutcome = 'pass' | 'fail' | 'flaky'
+
+/** One repetition of the workflow */
+export interface TestRunResult {
+    runId: string
+    status: RunStatus
+    durationMs: number
+    /** Verdicts keyed by expectation node ID */
+    expectations: { [id: string]: ExpectationResult }
+}
+
+/** One expectation across all repetitions */
+export interface ExpectationReport {
+    id: string
+    label: string
+    subType: string
+    jobId: string
+    jobLabel: string
+    outcome: ExpectationOutcome
+    passed: number
+    failed: number
+    /** passed / runs, 0-1 */
+    passRate: number
+    /** Verdict per run (same order as TestReport.runs) */
+    results: ExpectationResult[]
+}
+
+export interface TestReport {
+    workflowId: string
+    workflowName: string
+    startedAt: number
+    finishedAt: number
+    durationMs: number
+    runs: TestRunResult[]
+    expectations: ExpectationReport[]
+    /** Every expectation passed in every run */
+    passed: boolean
+}
+
+export type TestStatus = 'idle' | 'running' | 'done' | 'cancelled'
+
+export interface TestState {
+    status: TestStatus
+    /** Repetitions requested */
+    total: number
+    /** Repetitions finished */
+    completed: number
+    report: TestReport | null
+}
+
+export interface WorkflowTestOptions {
+    /** Repetitions (default 1) */
+    runs?: number
+    /** Name used in the report (defaults to the doc's) */
+    workflowName?: string
+    /** Passed to every WorkflowExecutor */
+    executor?: WorkflowExecutorOptions
+    /** Called with each repetition's executor before it runs */
+    onRunStart?: (executor: WorkflowExecutor) => void
+    /** Called once a repetition has finished */
+    onRunEnd?: (executor: WorkflowExecutor) => void
+}
+
+// ── Report ──────────────────────────────────────────────────────────────────────
+
+/** Summarise the runs of a test into a report */
+export function buildTestReport(
+    doc: WorkflowDoc,
+    runs: TestRunResult[],
+    timing: { workflowName?: string; startedAt: number; finishedAt: number },
+): TestReport {
+    const labelOf = (id: string) => String(doc.nodes.find(n => n.id === id)?.data.label || id)
+
+    const expectations: ExpectationReport[] = doc.nodes
+        .filter(n => n.type === 'expectation')
+        .map(n => {
+            const results = runs.map(r => r.expectations[n.id] ?? { jobId: '', status: 'fail' as const, explanation: 'Not attached to a job' })
+            const normalized = results.map(r => r.status === 'pending'
+                ? { ...r, status: 'fail' as const, explanation: 'Not evaluated — the job did not finish' }
+                : r)
+            const passed = normalized.filter(r => r.status === 'pass').length
+            const failed = normalized.length - passed
+            const jobId = normalized.find(r => r.jobId)?.jobId ?? ''
+            return {
+                id: n.id,
+                label: labelOf(n.id),
+                subType: expectationSubType(n.data),
+                jobId,
+                jobLabel: jobId ? labelOf(jobId) : '—',
+                outcome: failed === 0 ? 'pass' : passed === 0 ? 'fail' : 'flaky',
+                passed,
+                failed,
+                passRate: normalized.length ? passed / normalized.length : 0,
+                results: normalized,
+            }
+        })
+
+    return {
+        workflowId: doc.id,
+        workflowName: timing.workflowName ?? doc.name,
+        startedAt: timing.startedAt,
+        finishedAt: timing.finishedAt,
+        durationMs: timing.finishedAt - timing.startedAt,
+        runs,
+        expectations,
+        passed: expectations.every(e => e.outcome === 'pass'),
+    }
+}
+
+// ── Export ──────────────────────────────────────────────────────────────────────
+
+function xmlEscape(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3)
+
+/** JUnit XML — one testcase per expectation and run */
+export function testReportToJUnit(report: TestReport): string {
+    const repeated = report.runs.length > 1
+    const cases = report.expectations.flatMap(e => e.results.map((r, i) => {
+        const name = repeated ? `${e.label} (run ${i + 1}/${report.runs.length})` : e.label
+        const attrs = `classname="${xmlEscape(`${report.workflowName}.${e.jobLabel}`)}" name="${xmlEscape(name)}" time="${seconds(report.runs[i].durationMs)}"`
+        if (r.status === 'pass') return `    <testcase ${attrs}/>`
+        const message = xmlEscape(r.explanation ?? 'Failed')
+        return [
+            `    <testcase ${attrs}>`,
+            `      <failure message="${message}" type="${xmlEscape(e.subType)}">${message}</failure>`,
+            '    </testcase>',
+        ].join('\n')
+    }))
+    const tests = cases.length
+    const failures = report.expectations.reduce((sum, e) => sum + e.failed, 0)
+    const flaky = report.expectations.filter(e => e.outcome === 'flaky').map(e => e.label)
+    const suite = `name="${xmlEscape(report.workflowName)}" tests="${tests}" failures="${failures}" time="${seconds(report.durationMs)}"`
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites ${suite}>`,
+        `  <testsuite ${suite} timestamp="${new Date(report.startedAt).toISOString()}">`,
+        '    <properties>',
+        `      <property name="runs" value="${report.runs.length}"/>`,
+        `      <property name="flaky" value="${xmlEscape(flaky.join(', '))}"/>`,
+        '    </properties>',
+        ...cases,
+        '  </testsuite>',
+        '</testsuites>',
+        '',
+    ].join('\n')
+}
+
+/** Pretty-printed JSON of the whole report */
+export function testReportToJson(report: TestReport): string {
+    return JSON.stringify(report, null, 2)
+}
+
+/** One-line summary, e.g. "3/4 passed · 1 flaky · 5 runs in 2.1s" */
+export function testReportSummary(report: TestReport): string {
+    const count = report.expectations.length
+    const passed = report.expectations.filter(e => e.outcome === 'pass').length
+    const flaky = report.expectations.filter(e => e.outcome === 'flaky').length
+    const runs = `${report.runs.length} run${report.runs.length === 1 ? '' : 's'}`
+    return [
+        `${passed}/${count} passed`,
+        ...(flaky ? [`${flaky} flaky`] : []),
+        `${runs} in ${formatDuration(report.durationMs)}`,
+    ].join(' · ')
+}
+
+// ── Runner ──────────────────────────────────────────────────────────────────────
+
+export class WorkflowTestRunner {
+    readonly doc: WorkflowDoc
+    private options: WorkflowTestOptions
+    private state: TestState
+    private listeners: Set<() => void> = new Set()
+    private current: WorkflowExecutor | null = null
+    /** Set by cancel() — no further repetitions start */
+    private cancelled = false
+
+    constructor(doc: WorkflowDoc, options: WorkflowTestOptions = {}) {
+        this.doc = doc
+        this.options = options
+        this.state = { status: 'idle', total: Math.max(1, Math.floor(options.runs ?? 1)), completed: 0, report: null }
+    }
+
+    /** Subscribe to state changes. Returns unsubscribe function. */
+    subscribe(fn: () => void): () => void {
+        this.listeners.add(fn)
+        return () => { this.listeners.delete(fn) }
+    }
+
+    /** Current test snapshot (read-only) */
+    getState(): TestState {
+        return this.state
+    }
+
+    private patch(patch: Partial<TestState>) {
+        this.state = { ...this.state, ...patch }
+        this.listeners.forEach(fn => fn())
+    }
+
+    /** Run every repetition in turn. Resolves with the report of the runs that finished. */
+    async run(): Promise<TestReport> {
+        if (this.state.status !== 'idle') throw new Error('WorkflowTestRunner can only run once')
+        const startedAt = now()
+        const runs: TestRunResult[] = []
+        this.patch({ status: 'running' })
+
+        for (let i = 0; i < this.state.total && !this.cancelled; i++) {
+            const executor = new WorkflowExecutor(this.doc, this.options.executor)
+            this.current = executor
+            this.options.onRunStart?.(executor)
+            try {
+                const result = await executor.run()
+                // A repetition cut short by cancel() is not part of the report
+                if (this.cancelled) break
+                runs.push({
+                    runId: result.runId,
+                    status: result.status,
+                    durationMs: (result.finishedAt ?? now()) - (result.startedAt ?? startedAt),
+                    expectations: result.expectations,
+                })
+            } catch (err: unknown) {
+                this.cancelled = true
+                this.patch({ status: 'cancelled' })
+                throw err
+            } finally {
+                this.current = null
+                this.options.onRunEnd?.(executor)
+            }
+            this.patch({ completed: runs.length })
+        }
+
+        const report = buildTestReport(this.doc, runs, {
+            workflowName: this.options.workflowName,
+            startedAt,
+            finishedAt: now(),
+        })
+        this.patch({ status: this.cancelled ? 'cancelled' : 'done', report })
+        return report
+    }
+
+    /** Stop the current repetition and skip the rest */
+    cancel(reason = 'Test cancelled'): void {
+        if (this.state.status !== 'running') return
+        this.cancelled = true
+        this.current?.stop(reason)
+    }
+}
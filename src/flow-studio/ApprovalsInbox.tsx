@@ -0,0 +1,167 @@
+/**
+ * ApprovalsInbox — bell button with the number of pending approvals
+ * (approvalInbox) and a drop-down listing them across every workflow.
+ *
+ * Each entry can be approved, rejected (the text field is the reason) or
+ * commented (the text is sent to the upstream agent; the node keeps
+ * waiting). Clicking the workflow name opens that workflow. Nodes with a
+ * form are approved on the node, where the form is filled in.
+ *
+ * Usage:
+ *   <ApprovalsInbox onOpen={workflowId => setActiveId(workflowId)} />
+ */
+
+import { useState, useEffect } from 'react'
+import { Bell, Check, X, MessageSquare } from 'lucide-react'
+import { approvalInbox, type PendingApproval } from '@/engine/approval-inbox'
+import { formatDuration, now } from '@/engine/core'
+
+const actionStyle = (color: string) => ({
+    height: 24, padding: '0 8px', borderRadius: 5,
+    border: `1px solid ${color}33`,
+    background: `${color}1a`,
+    color,
+    fontFamily: 'Inter, sans-serif', fontSize: 10, fontWeight: 600,
+    cursor: 'pointer',
+    display: 'flex', alignItems: 'center', gap: 4,
+}) as const
+
+function ApprovalItem({ item, onOpen }: { item: PendingApproval; onOpen: (workflowId: string) => void }) {
+    const [text, setText] = useState('')
+    const decide = (fn: () => void) => {
+        fn()
+        setText('')
+    }
+
+    return (
+        <div
+            data-testid={`approval-${item.nodeId}`}
+            style={{ padding: '8px 10px', borderTop: '1px solid rgba(255,255,255,0.06)' }}
+        >
+            <div style={{ display: 'flex', alignItems: 'baseline', gap: 6, marginBottom: 6 }}>
+                <button
+                    data-testid="approval-open"
+                    onClick={() => onOpen(item.workflowId)}
+                    title="Open workflow"
+                    style={{
+                        padding: 0, border: 'none', background: 'none',
+                        color: '#c084fc', fontSize: 11, fontWeight: 600,
+                        fontFamily: 'Inter, sans-serif', cursor: 'pointer',
+                    }}
+                >
+                    {item.workflowName}
+                </button>
+                <span style={{ color: '#e2e8f0', fontSize: 11 }}>{item.reviewTitle || item.nodeLabel}</span>
+                <span style={{ flex: 1 }} />
+                {item.comments > 0 && (
+                    <span style={{ color: '#f59e0b', fontSize: 9 }}>Round {item.comments + 1}</span>
+                )}
+                <span style={{ color: '#64748b', fontSize: 9 }}>{formatDuration(now() - item.since)}</span>
+            </div>
+            <input
+                data-testid="approval-text"
+                value={text}
+                onChange={e => setText(e.target.value)}
+                placeholder="Comment or reason…"
+                style={{
+                    width: '100%', boxSizing: 'border-box', marginBottom: 6,
+                    padding: '4px 6px', borderRadius: 5,
+                    border: '1px solid rgba(255,255,255,0.08)',
+                    background: 'rgba(255,255,255,0.03)',
+                    color: '#e2e8f0', fontSize: 10,
+                    fontFamily: "'JetBrains Mono', monospace",
+                }}
+            />
+            <div style={{ display: 'flex', gap: 6 }}>
+                <button
+                    data-testid="approval-approve"
+                    onClick={() => decide(() => approvalInbox.approve(item.key, text.trim() || undefined))}
+                    disabled={item.hasForm}
+                    title={item.hasForm ? 'Open the workflow to fill in the form' : undefined}
+                    style={{ ...actionStyle('#22c55e'), opacity: item.hasForm ? 0.5 : 1 }}
+                >
+                    <Check size={11} /> Approve
+                </button>
+                <button
+                    data-testid="approval-reject"
+                    onClick={() => decide(() => approvalInbox.reject(item.key, text.trim() || undefined))}
+                    style={actionStyle('#ef4444')}
+                >
+                    <X size={11} /> Reject
+                </button>
+                <button
+                    data-testid="approval-comment"
+                    onClick={() => decide(() => approvalInbox.comment(item.key, text.trim()))}
+                    disabled={!text.trim()}
+                    style={{ ...actionStyle('#f59e0b'), opacity: text.trim() ? 1 : 0.5 }}
+                >
+                    <MessageSquare size={11} /> Comment
+                </button>
+            </div>
+        </div>
+    )
+}
+
+export function ApprovalsInbox({ onOpen }: { onOpen: (workflowId: string) => void }) {
+    const [pending, setPending] = useState(approvalInbox.getState())
+    const [open, setOpen] = useState(false)
+
+    useEffect(() => {
+        setPending(approvalInbox.getState())
+        return approvalInbox.subscribe(() => setPending(approvalInbox.getState()))
+    }, [])
+
+    const count = pending.length
+
+    return (
+        <div style={{ position: 'relative' }}>
+            <button
+                data-testid="approvals-btn"
+                onClick={() => setOpen(o => !o)}
+                title="Pending approvals"
+                style={{
+                    minHeight: 44, minWidth: 44,
+                    padding: '6px 12px',
+                    borderRadius: 8,
+                    border: count ? '1px solid rgba(245,158,11,0.4)' : '1px solid rgba(255,255,255,0.06)',
+                    background: count ? 'rgba(245,158,11,0.12)' : 'rgba(255,255,255,0.03)',
+                    color: count ? '#f59e0b' : '#94a3b8',
+                    fontSize: 12, fontWeight: 600,
+                    fontFamily: 'Inter, sans-serif',
+                    cursor: 'pointer',
+                    display: 'flex', alignItems: 'center', gap: 4,
+                    transition: 'all 0.15s',
+                }}
+            >
+                <Bell size={14} />
+                <span data-testid="approvals-count">{count}</span>
+            </button>
+            {open && (
+                <div
+                    data-testid="approvals-inbox"
+                    style={{
+                        position: 'fixed', top: 58, right: 12, zIndex: 1000,
+                        width: 320, maxHeight: 360, overflow: 'auto',
+                        borderRadius: 10,
+                        background: 'rgba(15,15,30,0.97)',
+                        border: '1px solid rgba(255,255,255,0.08)',
+                        boxShadow: '0 16px 48px rgba(0,0,0,0.6)',
+                        fontFamily: 'Inter, sans-serif',
+                    }}
+                >
+                    <div style={{ padding: '8px 10px', fontSize: 11, fontWeight: 600, color: '#94a3b8' }}>
+                        Pending approvals
+                    </div>
+                    {count === 0 && (
+                        <div style={{ padding: '0 10px 10px', fontSize: 10, color: '#64748b' }}>
+                            Nothing waiting for review
+                        </div>
+                    )}
+                    {pending.map(item => (
+                        <ApprovalItem key={item.key} item={item} onOpen={id => { setOpen(false); onOpen(id) }} />
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
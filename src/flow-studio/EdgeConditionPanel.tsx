@@ -0,0 +1,178 @@
+/**
+ * EdgeConditionPanel — edit the branch condition of an edge (see
+ * engine/conditions.ts): always, on success, on error, on approval or a
+ * custom expression over the source's `output` / `status` / `error`.
+ * Edges leaving a router follow its cases instead, so they only show the
+ * branch they belong to. Opens when an edge is clicked on the canvas.
+ *
+ * Below the condition: the edge's port types with a warning when the
+ * target cannot accept the source's output (see engine/ports.ts), and
+ * after a run the payload that flowed across it.
+ *
+ * Usage:
+ *   <EdgeConditionPanel
+ *       title="Review → Deploy"
+ *       condition={edge.data?.condition}
+ *       ports="object → any"
+ *       payload={run ? { taken: run.edges[edge.id], value: run.payloads[edge.id] } : undefined}
+ *       onChange={condition => updateEdge(edge.id, condition)}
+ *       onClose={() => setEdgeId(null)}
+ *   />
+ */
+
+import { AlertTriangle, GitBranch, X } from 'lucide-react'
+import { CONDITION_KINDS, type EdgeCondition, type EdgeConditionKind } from '@/engine/conditions'
+
+export function EdgeConditionPanel({ title, condition, routerBranch, ports, portMismatch, payload, onChange, onClose }: {
+    /** e.g. "Review → Deploy" */
+    title: string
+    condition?: EdgeCondition
+    /** Label of the router case the edge leaves from, if it leaves a router */
+    routerBranch?: string
+    /** Port types, e.g. "object → any" */
+    ports?: string
+    /** Set when the target cannot accept the payload, e.g. "number → array" */
+    portMismatch?: string
+    /** The edge in the last run — whether it was taken (undefined = not settled) and what it carried */
+    payload?: { taken?: boolean; value: unknown }
+    /** Called with undefined when the edge becomes unconditional */
+    onChange: (condition: EdgeCondition | undefined) => void
+    onClose: () => void
+}) {
+    const kind = condition?.kind ?? ''
+
+    const setKind = (next: EdgeConditionKind | '') => {
+        if (!next) return onChange(undefined)
+        onChange(next === 'expression' ? { kind: next, expression: condition?.expression ?? '' } : { kind: next })
+    }
+
+    return (
+        <div
+            data-testid="edge-condition-panel"
+            style={{
+                position: 'absolute', top: 56, right: 12, zIndex: 30,
+                width: 280,
+                padding: 12,
+                borderRadius: 10,
+                background: 'rgba(15,15,30,0.95)',
+                border: '1px solid rgba(99,102,241,0.25)',
+                boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
+                fontFamily: 'Inter, sans-serif',
+                fontSize: 11,
+                color: '#e2e8f0',
+                display: 'flex', flexDirection: 'column', gap: 8,
+            }}
+        >
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <GitBranch size={12} color="#6366f1" />
+                <span style={{ flex: 1, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {title}
+                </span>
+                <button
+                    data-testid="edge-condition-close"
+                    onClick={onClose}
+                    style={{ background: 'none', border: 'none', color: '#64748b', cursor: 'pointer', padding: 0, display: 'flex' }}
+                >
+                    <X size={12} />
+                </button>
+            </div>
+
+            {routerBranch ? (
+                <div style={{ color: '#94a3b8' }}>
+                    Router branch <b style={{ color: '#5eead4' }}>{routerBranch}</b> — taken when the router picks it.
+                </div>
+            ) : (
+                <>
+                    <label style={{ display: 'flex', flexDirection: 'column', gap: 4, color: '#94a3b8' }}>
+                        Follow this edge
+                        <select
+                            data-testid="edge-condition-kind"
+                            value={kind}
+                            onChange={e => setKind(e.target.value as EdgeConditionKind | '')}
+                            style={{
+                                padding: '4px 6px', borderRadius: 5,
+                                background: '#0f0f1a', color: '#e2e8f0',
+                                border: '1px solid rgba(148,163,184,0.25)',
+                                fontSize: 11,
+                            }}
+                        >
+                            <option value="">Always (on success)</option>
+                            {CONDITION_KINDS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+                        </select>
+                    </label>
+                    {kind === 'expression' && (
+                        <label style={{ display: 'flex', flexDirection: 'column', gap: 4, color: '#94a3b8' }}>
+                            Expression
+                            <input
+                                data-testid="edge-condition-expression"
+                                value={condition?.expression ?? ''}
+                                placeholder="output.score > 0.5"
+                                spellCheck={false}
+                                onChange={e => onChange({ kind: 'expression', expression: e.target.value })}
+                                style={{
+                                    padding: '4px 6px', borderRadius: 5,
+                                    background: '#0f0f1a', color: '#a5f3fc',
+                                    border: '1px solid rgba(148,163,184,0.25)',
+                                    fontSize: 11, fontFamily: "'JetBrains Mono', monospace",
+                                }}
+                            />
+                            <span style={{ fontSize: 10, color: '#64748b' }}>
+                                In scope: output, status, error of the source node
+                            </span>
+                        </label>
+                    )}
+                </>
+            )}
+
+            {ports && (
+                <div data-testid="edge-ports" style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#94a3b8' }}>
+                    Ports
+                    <code style={{ color: portMismatch ? '#fbbf24' : '#a5f3fc', fontFamily: "'JetBrains Mono', monospace" }}>
+                        {ports}
+                    </code>
+                </div>
+            )}
+            {portMismatch && (
+                <div data-testid="edge-port-warning" style={{ display: 'flex', alignItems: 'center', gap: 5, color: '#fbbf24' }}>
+                    <AlertTriangle size={11} />
+                    The target does not accept this output ({portMismatch})
+                </div>
+            )}
+
+            {payload && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4, color: '#94a3b8' }}>
+                    Payload (last run)
+                    {payload.taken ? (
+                        <pre
+                            data-testid="edge-payload"
+                            style={{
+                                margin: 0, padding: '6px 8px', borderRadius: 5,
+                                maxHeight: 160, overflow: 'auto',
+                                background: '#0f0f1a',
+                                border: '1px solid rgba(148,163,184,0.15)',
+                                color: '#e2e8f0',
+                                fontSize: 10, fontFamily: "'JetBrains Mono', monospace",
+                                whiteSpace: 'pre-wrap', wordBreak: 'break-all',
+                            }}
+                        >
+                            {formatPayload(payload.value)}
+                        </pre>
+                    ) : (
+                        <span data-testid="edge-payload-none" style={{ color: '#64748b' }}>
+                            {payload.taken === false ? 'Not taken in the last run' : 'Nothing flowed yet'}
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+function formatPayload(value: unknown): string {
+    if (value === undefined) return 'undefined'
+    try {
+        return JSON.stringify(value, null, 2)
+    } catch {
+        return String(value)
+    }
+}
@@ -2,7 +2,9 @@
  * EventsPanel — collapsible bottom panel showing AgentMessenger events.
  *
  * Displays all messages sent by script nodes with timestamp,
- * sender, and payload. Sits at the bottom of the FlowStudio canvas.
+ * sender, recipient (for node → node hops) and payload, and nodes going
+ * online / offline. Fed from the MessageBus tap and presence listeners.
+ * Sits at the bottom of the FlowStudio canvas.
  */
 
 import { useState } from 'react'
@@ -12,7 +14,10 @@ export interface FlowEvent {
     timestamp: number
     nodeId: string
     nodeName: string
-    type: 'message' | 'log' | 'error'
+    /** Recipient of a node → node message */
+    targetName?: string
+    /** 'presence' — the node went online / offline on the bus */
+    type: 'message' | 'log' | 'error' | 'presence'
     content: string
 }
 
@@ -95,6 +100,7 @@ export function EventsPanel({ events }: { events: FlowEvent[] }) {
                             <div
                                 key={evt.id}
                                 data-testid={`event-${evt.id}`}
+                                data-event-type={evt.type}
                                 style={{
                                     display: 'flex',
                                     alignItems: 'baseline',
@@ -122,8 +128,13 @@ export function EventsPanel({ events }: { events: FlowEvent[] }) {
                                 }}>
                                     {evt.nodeName}
                                 </span>
+                                {evt.targetName && (
+                                    <span style={{ color: '#8b5cf6', flexShrink: 0, fontSize: 8 }}>
+                                        → {evt.targetName}
+                                    </span>
+                                )}
                                 <span style={{
-                                    color: evt.type === 'error' ? '#fca5a5' : '#94a3b8',
+                                    color: evt.type === 'error' ? '#fca5a5' : evt.type === 'presence' ? '#64748b' : '#94a3b8',
                                     overflow: 'hidden',
                                     textOverflow: 'ellipsis',
                                     whiteSpace: 'nowrap',
@@ -10,6 +10,9 @@
  *  - WidgetPicker sidebar (editMode)
  *  - Drag-and-drop from WidgetPicker sidebar
  *  - SwipeButtons radial menu for node actions
+ *  - onNodeDoubleClick — e.g. drill down into a subflow node
+ *  - onEdgeClick — e.g. edit an edge's branch condition
+ *  - onConnect — drag from one handle to another to add an edge (with nodesConnectable)
  */
 
 import {
@@ -72,6 +75,10 @@ export const FlowStudio = observer(function FlowStudio({
     onConfigure,
     onRename,
     hideBeforeButton,
+    canInline,
+    onNodeDoubleClick,
+    onEdgeClick,
+    onConnect,
     sidebarContent,
     onUndo,
     onRedo,
@@ -325,6 +332,9 @@ export const FlowStudio = observer(function FlowStudio({
                         nodeTypes={nodeTypes}
                         onNodesChange={onNodesChange}
                         onNodeDragStop={editMode ? handleNodeDragStop : undefined}
+                        onNodeDoubleClick={onNodeDoubleClick ? (_, node) => onNodeDoubleClick(node.id) : undefined}
+                        onEdgeClick={onEdgeClick ? (_, edge) => onEdgeClick(edge.id) : undefined}
+                        onConnect={onConnect}
                         nodesDraggable={nodesDraggable || editMode}
                         nodesConnectable={nodesConnectable}
                         panOnDrag={panOnDrag}
@@ -490,6 +500,9 @@ export const FlowStudio = observer(function FlowStudio({
                     currentLabel={String(selectedNode.data?.label || selectedNode.id)}
                     activationMode={store.controlMode}
                     directions={hideBeforeButton?.(selectedNode.id) ? ['top', 'right', 'bottom', 'bottom-right'] : undefined}
+                    showBreakpoints={store.debugMode}
+                    showInline={canInline?.(selectedNode.id)}
+                    breakpoints={selectedNode.data?.breakpoints as { before?: boolean; after?: boolean } | undefined}
                     onAddBefore={(id, widgetType) => {
                         onAddBefore?.(id, widgetType)
                         store.clearSelectedNode()
@@ -500,7 +513,8 @@ export const FlowStudio = observer(function FlowStudio({
                     }}
                     onConfigure={(id, action) => {
                         onConfigure?.(id, action)
-                        if (action === 'delete') {
+                        // The node is gone (inline replaces it with the subflow's nodes)
+                        if (action === 'delete' || action === 'inline') {
                             store.clearSelectedNode()
                         }
                     }}
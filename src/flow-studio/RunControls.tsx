@@ -0,0 +1,176 @@
+/**
+ * RunControls — StepPlayer-style toolbar for a live WorkflowExecutor run.
+ *
+ * Run-wide: pause / resume all, stop all, shutdown (drain).
+ * Selected node (FlowStudioStore.selectedNodeId): pause, resume, kill branch.
+ * Stopped at a breakpoint (debug mode): continue / step.
+ *
+ * Every button dispatches a SystemCommand through the executor; the nodes'
+ * runners react to it. Sits at the top of the FlowStudio canvas.
+ *
+ * Usage:
+ *   <RunControls executor={executor} />
+ */
+
+import { useState, useEffect } from 'react'
+import { observer } from 'mobx-react-lite'
+import { Pause, Play, Square, Power, Scissors, StepForward } from 'lucide-react'
+import { useFlowStudioStore } from './FlowStudioStore'
+import type { WorkflowExecutor } from '@/engine/workflow-executor'
+
+export const RunControls = observer(function RunControls({ executor }: { executor: WorkflowExecutor }) {
+    const store = useFlowStudioStore()
+    const [run, setRun] = useState(executor.getState())
+
+    useEffect(() => {
+        setRun(executor.getState())
+        return executor.subscribe(() => setRun(executor.getState()))
+    }, [executor])
+
+    const live = run.status === 'running' || run.status === 'paused'
+    if (!live) return null
+
+    const nodeId = store.selectedNodeId
+    const nodeStatus = nodeId ? run.nodes[nodeId]?.status : undefined
+    const nodeActive = nodeStatus === 'running' || nodeStatus === 'paused' || nodeStatus === 'waiting'
+    const labelOf = (id: string) => String(executor.doc.nodes.find(n => n.id === id)?.data.label || id)
+    const nodeLabel = nodeId ? labelOf(nodeId) : ''
+    const stopped = Object.entries(run.nodes).filter(([, n]) => n.breakpoint)
+
+    return (
+        <div
+            data-testid="run-controls"
+            style={{
+                position: 'absolute', top: 8, left: '50%', transform: 'translateX(-50%)',
+                zIndex: 20,
+                display: 'flex', alignItems: 'center', gap: 8,
+                padding: '6px 12px',
+                borderRadius: 8,
+                background: 'rgba(15,15,30,0.95)',
+                border: '1px solid rgba(255,255,255,0.06)',
+                fontFamily: "'JetBrains Mono', monospace",
+                fontSize: 10,
+                userSelect: 'none',
+            }}
+        >
+            {/* Run-wide controls */}
+            <div style={{ display: 'flex', gap: 2 }}>
+                {stopped.length > 0 ? (
+                    <>
+                        <ControlButton
+                            testId="run-continue"
+                            icon={<Play size={12} />}
+                            onClick={() => executor.continue()}
+                            accent
+                            title="Continue"
+                        />
+                        <ControlButton
+                            testId="run-step"
+                            icon={<StepForward size={12} />}
+                            onClick={() => executor.step()}
+                            title="Step — continue and break before the next node"
+                        />
+                    </>
+                ) : run.status === 'paused' ? (
+                    <ControlButton
+                        testId="run-resume-all"
+                        icon={<Play size={12} />}
+                        onClick={() => executor.resume()}
+                        accent
+                        title="Resume all"
+                    />
+                ) : (
+                    <ControlButton
+                        testId="run-pause-all"
+                        icon={<Pause size={12} />}
+                        onClick={() => executor.pause()}
+                        accent
+                        title="Pause all"
+                    />
+                )}
+                <ControlButton
+                    testId="run-stop-all"
+                    icon={<Square size={12} />}
+                    onClick={() => executor.stop()}
+                    title="Stop all"
+                />
+                <ControlButton
+                    testId="run-shutdown"
+                    icon={<Power size={12} />}
+                    onClick={() => executor.shutdown()}
+                    title="Shutdown — let running nodes finish, start nothing new"
+                />
+            </div>
+
+            <span data-testid="run-controls-status" style={{ color: run.status === 'paused' ? '#eab308' : '#8b5cf6', fontWeight: 600 }}>
+                {run.status}
+            </span>
+
+            {stopped.length > 0 && (
+                <span data-testid="run-breakpoint" style={{ color: '#ef4444', maxWidth: 160, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    ● {stopped.map(([id, n]) => `${labelOf(id)} (${n.breakpoint})`).join(', ')}
+                </span>
+            )}
+
+            {/* Selected node controls */}
+            {nodeId && nodeActive && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: 2, paddingLeft: 8, borderLeft: '1px solid rgba(255,255,255,0.06)' }}>
+                    <span style={{ color: '#94a3b8', marginRight: 4, maxWidth: 100, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {nodeLabel}
+                    </span>
+                    {nodeStatus === 'paused' ? (
+                        <ControlButton
+                            testId="run-resume-node"
+                            icon={<Play size={12} />}
+                            onClick={() => executor.resume(nodeId)}
+                            title="Resume node"
+                        />
+                    ) : (
+                        <ControlButton
+                            testId="run-pause-node"
+                            icon={<Pause size={12} />}
+                            onClick={() => executor.pause(nodeId)}
+                            disabled={nodeStatus !== 'running'}
+                            title="Pause node"
+                        />
+                    )}
+                    <ControlButton
+                        testId="run-kill-branch"
+                        icon={<Scissors size={12} />}
+                        onClick={() => executor.killBranch(nodeId)}
+                        title="Kill branch — terminate this node and everything downstream"
+                    />
+                </div>
+            )}
+        </div>
+    )
+})
+
+function ControlButton({ icon, onClick, disabled, accent, title, testId }: {
+    icon: React.ReactNode
+    onClick: () => void
+    disabled?: boolean
+    accent?: boolean
+    title: string
+    testId: string
+}) {
+    return (
+        <button
+            data-testid={testId}
+            onClick={onClick}
+            disabled={disabled}
+            title={title}
+            style={{
+                width: 26, height: 26, borderRadius: 5, border: 'none',
+                background: accent ? 'rgba(139,92,246,0.2)' : 'rgba(255,255,255,0.04)',
+                color: disabled ? '#334155' : accent ? '#8b5cf6' : '#94a3b8',
+                cursor: disabled ? 'default' : 'pointer',
+                display: 'flex', alignItems: 'center', justifyContent: 'center',
+                opacity: disabled ? 0.4 : 1,
+                transition: 'all 0.15s',
+            }}
+        >
+            {icon}
+        </button>
+    )
+}
@@ -0,0 +1,189 @@
+/**
+ * RunParamsForm — asks for a workflow's parameters before it runs (see
+ * engine/workflow-params.ts).
+ *
+ * One field per parameter of the starting node, opening with the values of
+ * the last run (or the defaults). A saved parameter set (e.g. "staging",
+ * "production") fills the fields in; the current values can be saved under
+ * a name or a set deleted. **Run** validates the values and starts the run
+ * with them.
+ *
+ * Usage:
+ *   <RunParamsForm
+ *       workflowName="Deploy"
+ *       params={workflowParamsOf(nodes)!}
+ *       sets={paramSetsOf(startNode.data)}
+ *       onRun={inputs => run(inputs)}
+ *       onSaveSet={(name, values) => saveSet(name, values)}
+ *       onClose={() => setOpen(false)}
+ *   />
+ */
+
+import { useState } from 'react'
+import { Play, Save, Trash2, X } from 'lucide-react'
+import { FormField } from '@/widgets/FormField'
+import { initialFormValues, validateForm, type FormErrors, type FormSchema, type FormValues } from '@/engine/user-form'
+import type { ParamSets } from '@/engine/workflow-params'
+
+const COLOR = '#22c55e'
+
+const controlStyle = {
+    padding: '4px 6px', borderRadius: 5,
+    background: '#0f0f1a', color: '#e2e8f0',
+    border: '1px solid rgba(148,163,184,0.25)',
+    fontSize: 11,
+}
+
+const buttonStyle = (accent: string) => ({
+    display: 'flex', alignItems: 'center', gap: 4,
+    padding: '4px 8px', borderRadius: 5,
+    border: `1px solid ${accent}44`,
+    background: `${accent}18`,
+    color: accent,
+    fontSize: 11, fontWeight: 600,
+    cursor: 'pointer',
+})
+
+export function RunParamsForm({ workflowName, params, sets, initial, onRun, onSaveSet, onDeleteSet, onClose }: {
+    workflowName: string
+    params: FormSchema
+    sets: ParamSets
+    /** Values the form opens with — e.g. the last run's (default: the parameters' defaults) */
+    initial?: FormValues
+    onRun: (inputs: FormValues) => void
+    onSaveSet: (name: string, values: FormValues) => void
+    onDeleteSet: (name: string) => void
+    onClose: () => void
+}) {
+    const [values, setValues] = useState<FormValues>(() => ({ ...initialFormValues(params), ...initial }))
+    const [errors, setErrors] = useState<FormErrors>({})
+    const [setName, setSetName] = useState('')
+    const names = Object.keys(sets)
+    const selected = names.includes(setName) ? setName : ''
+
+    /** The values if they are valid, else undefined (and the errors shown) */
+    const validValues = () => {
+        const result = validateForm(params, values)
+        setErrors(result.errors)
+        return Object.keys(result.errors).length ? undefined : result.values
+    }
+
+    const pickSet = (name: string) => {
+        setSetName(name)
+        setErrors({})
+        setValues({ ...initialFormValues(params), ...(name ? sets[name] : {}) })
+    }
+
+    const saveSet = () => {
+        const name = setName.trim()
+        const valid = validValues()
+        if (name && valid) onSaveSet(name, valid)
+    }
+
+    const run = () => {
+        const valid = validValues()
+        if (valid) onRun(valid)
+    }
+
+    return (
+        <div
+            data-testid="run-params-form"
+            onKeyDown={e => {
+                if (e.key === 'Escape') onClose()
+            }}
+            style={{
+                position: 'absolute', top: 56, left: '50%', transform: 'translateX(-50%)', zIndex: 40,
+                width: 320,
+                maxHeight: 'calc(100% - 80px)', overflow: 'auto',
+                padding: 12,
+                borderRadius: 10,
+                background: 'rgba(15,15,30,0.97)',
+                border: `1px solid ${COLOR}40`,
+                boxShadow: '0 16px 48px rgba(0,0,0,0.6)',
+                fontFamily: 'Inter, sans-serif',
+                fontSize: 11,
+                color: '#e2e8f0',
+                display: 'flex', flexDirection: 'column', gap: 8,
+            }}
+        >
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <Play size={12} color={COLOR} />
+                <span style={{ flex: 1, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    Run {workflowName}
+                </span>
+                <button
+                    data-testid="run-params-close"
+                    onClick={onClose}
+                    style={{ background: 'none', border: 'none', color: '#64748b', cursor: 'pointer', padding: 0, display: 'flex' }}
+                >
+                    <X size={12} />
+                </button>
+            </div>
+
+            {/* Saved sets */}
+            <div style={{ display: 'flex', gap: 4 }}>
+                <select
+                    data-testid="run-params-set"
+                    value={selected}
+                    onChange={e => pickSet(e.target.value)}
+                    style={{ ...controlStyle, flex: 1 }}
+                >
+                    <option value="">Defaults</option>
+                    {names.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+                {selected && (
+                    <button
+                        data-testid="run-params-delete"
+                        onClick={() => {
+                            onDeleteSet(selected)
+                            pickSet('')
+                        }}
+                        title={`Delete the "${selected}" set`}
+                        style={buttonStyle('#ef4444')}
+                    >
+                        <Trash2 size={11} />
+                    </button>
+                )}
+            </div>
+
+            {/* Parameters */}
+            <div>
+                {Object.entries(params).map(([key, field]) => (
+                    <FormField
+                        key={key}
+                        id={key}
+                        field={field}
+                        value={values[key]}
+                        error={errors[key]}
+                        color={COLOR}
+                        testIdPrefix="run-param"
+                        onChange={value => setValues(prev => ({ ...prev, [key]: value }))}
+                    />
+                ))}
+            </div>
+
+            {/* Save as set / run */}
+            <div style={{ display: 'flex', gap: 4 }}>
+                <input
+                    data-testid="run-params-set-name"
+                    value={setName}
+                    placeholder="Set name, e.g. staging"
+                    onChange={e => setSetName(e.target.value)}
+                    style={{ ...controlStyle, flex: 1, minWidth: 0 }}
+                />
+                <button
+                    data-testid="run-params-save"
+                    onClick={saveSet}
+                    disabled={!setName.trim()}
+                    title="Save these values as a named set"
+                    style={{ ...buttonStyle('#94a3b8'), opacity: setName.trim() ? 1 : 0.5 }}
+                >
+                    <Save size={11} /> Save
+                </button>
+                <button data-testid="run-params-run" onClick={run} style={buttonStyle(COLOR)}>
+                    <Play size={11} /> Run
+                </button>
+            </div>
+        </div>
+    )
+}
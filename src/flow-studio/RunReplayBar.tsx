@@ -0,0 +1,86 @@
+/**
+ * RunReplayBar — StepPlayer for a recorded run, with a picker for the
+ * workflow's past runs and a close button.
+ *
+ * The host owns the StepStore (createRunReplay) and projects its state onto
+ * the canvas with applyReplayState; this bar only drives it.
+ *
+ * Usage:
+ *   <RunReplayBar
+ *       runs={runs}
+ *       record={record}
+ *       store={replayStore}
+ *       onSelect={runId => openReplay(runId)}
+ *       onClose={closeReplay}
+ *   />
+ */
+
+import { X } from 'lucide-react'
+import { StepPlayer } from '@/engine/step-player'
+import type { StepStore } from '@/engine/automerge-store'
+import type { RunRecord } from '@/engine/run-store'
+
+function runLabel(run: RunRecord): string {
+    const time = new Date(run.startedAt).toLocaleTimeString()
+    return `${time} · ${run.status}`
+}
+
+export function RunReplayBar({ runs, record, store, onSelect, onClose }: {
+    runs: RunRecord[]
+    record: RunRecord
+    store: StepStore
+    onSelect: (runId: string) => void
+    onClose: () => void
+}) {
+    return (
+        <div
+            data-testid="run-replay"
+            style={{
+                display: 'flex', alignItems: 'center', gap: 8,
+                paddingLeft: 12,
+                background: 'rgba(15,15,30,0.95)',
+                borderTop: '1px solid rgba(255,255,255,0.06)',
+                fontFamily: "'JetBrains Mono', monospace",
+                fontSize: 10,
+                flexShrink: 0,
+            }}
+        >
+            <span style={{ color: '#8b5cf6', fontWeight: 600 }}>Replay</span>
+            <select
+                data-testid="run-replay-select"
+                value={record.id}
+                onChange={e => onSelect(e.target.value)}
+                style={{
+                    background: 'rgba(255,255,255,0.04)',
+                    color: '#94a3b8',
+                    border: '1px solid rgba(255,255,255,0.06)',
+                    borderRadius: 5,
+                    fontFamily: 'inherit',
+                    fontSize: 10,
+                    padding: '3px 4px',
+                }}
+            >
+                {runs.map(run => (
+                    <option key={run.id} value={run.id}>{runLabel(run)}</option>
+                ))}
+            </select>
+            <div style={{ flex: 1 }}>
+                <StepPlayer key={record.id} store={store} />
+            </div>
+            <button
+                data-testid="run-replay-close"
+                onClick={onClose}
+                title="Close replay"
+                style={{
+                    width: 26, height: 26, marginRight: 12, borderRadius: 5, border: 'none',
+                    background: 'rgba(255,255,255,0.04)',
+                    color: '#94a3b8',
+                    cursor: 'pointer',
+                    display: 'flex', alignItems: 'center', justifyContent: 'center',
+                }}
+            >
+                <X size={12} />
+            </button>
+        </div>
+    )
+}
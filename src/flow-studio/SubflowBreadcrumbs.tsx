@@ -0,0 +1,70 @@
+/**
+ * SubflowBreadcrumbs — path of drill-down levels when a subflow node has been
+ * opened in place (double-click): the top-level workflow, then one crumb per
+ * subflow. Clicking a crumb goes back to that level; the last one is the
+ * workflow on the canvas. Sits at the top-left of the FlowStudio canvas.
+ *
+ * Usage:
+ *   <SubflowBreadcrumbs
+ *       levels={[{ label: 'Deploy' }, { label: 'Build', title: 'via Build step' }]}
+ *       onSelect={depth => drillOut(depth)}
+ *   />
+ */
+
+import { ChevronRight, Workflow } from 'lucide-react'
+
+export interface BreadcrumbLevel {
+    label: string
+    /** Tooltip, e.g. the subflow node that leads to this level */
+    title?: string
+}
+
+export function SubflowBreadcrumbs({ levels, onSelect }: {
+    levels: BreadcrumbLevel[]
+    onSelect: (depth: number) => void
+}) {
+    if (levels.length < 2) return null
+
+    return (
+        <div
+            data-testid="subflow-breadcrumbs"
+            style={{
+                position: 'absolute', top: 8, left: 12, zIndex: 20,
+                display: 'flex', alignItems: 'center', gap: 2,
+                padding: '4px 8px',
+                borderRadius: 8,
+                background: 'rgba(15,15,30,0.95)',
+                border: '1px solid rgba(99,102,241,0.25)',
+                fontFamily: 'Inter, sans-serif',
+                fontSize: 11,
+                userSelect: 'none',
+            }}
+        >
+            <Workflow size={12} color="#6366f1" style={{ marginRight: 4 }} />
+            {levels.map((level, depth) => {
+                const current = depth === levels.length - 1
+                return (
+                    <span key={depth} style={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                        {depth > 0 && <ChevronRight size={11} color="#475569" />}
+                        <button
+                            data-testid={`breadcrumb-${depth}`}
+                            onClick={current ? undefined : () => onSelect(depth)}
+                            title={level.title}
+                            style={{
+                                padding: '2px 6px', borderRadius: 5,
+                                border: 'none',
+                                background: current ? 'rgba(99,102,241,0.15)' : 'none',
+                                color: current ? '#a5b4fc' : '#94a3b8',
+                                fontSize: 11, fontWeight: 600,
+                                fontFamily: 'Inter, sans-serif',
+                                cursor: current ? 'default' : 'pointer',
+                            }}
+                        >
+                            {level.label}
+                        </button>
+                    </span>
+                )
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,148 @@
+/**
+ * TestReportPanel — result of a workflow test (WorkflowTestRunner): one row
+ * per expectation with its outcome, pass rate and latest failure, plus
+ * JUnit XML / JSON export.
+ *
+ * While the test runs it shows the repetition count instead.
+ *
+ * Usage:
+ *   <TestReportPanel test={tester.getState()} onClose={closeTest} />
+ */
+
+import { X, Download } from 'lucide-react'
+import {
+    testReportSummary, testReportToJUnit, testReportToJson,
+    type ExpectationOutcome, type ExpectationReport, type TestState,
+} from '@/engine/workflow-test'
+
+const OUTCOME_STYLE: Record<ExpectationOutcome, { label: string; color: string }> = {
+    pass: { label: 'PASS', color: '#10b981' },
+    fail: { label: 'FAIL', color: '#ef4444' },
+    flaky: { label: 'FLAKY', color: '#f59e0b' },
+}
+
+/** Save text as a file via a temporary object URL */
+function download(filename: string, content: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    a.click()
+    URL.revokeObjectURL(url)
+}
+
+/** File-name-safe slug of the workflow name */
+function slug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow'
+}
+
+function latestFailure(e: ExpectationReport): string | undefined {
+    return [...e.results].reverse().find(r => r.status !== 'pass')?.explanation
+}
+
+const buttonStyle = {
+    height: 24, padding: '0 8px', borderRadius: 5, border: 'none',
+    background: 'rgba(255,255,255,0.04)',
+    color: '#94a3b8',
+    fontFamily: 'inherit', fontSize: 10,
+    cursor: 'pointer',
+    display: 'flex', alignItems: 'center', gap: 4,
+} as const
+
+export function TestReportPanel({ test, onClose }: {
+    test: TestState
+    onClose: () => void
+}) {
+    const { report } = test
+    const running = test.status === 'running'
+
+    return (
+        <div
+            data-testid="test-report"
+            style={{
+                maxHeight: 220, overflow: 'auto',
+                padding: '8px 12px',
+                background: 'rgba(15,15,30,0.95)',
+                borderTop: '1px solid rgba(255,255,255,0.06)',
+                fontFamily: "'JetBrains Mono', monospace",
+                fontSize: 10,
+                color: '#94a3b8',
+                flexShrink: 0,
+            }}
+        >
+            {/* ── Header ── */}
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+                <span style={{ color: '#8b5cf6', fontWeight: 600 }}>Test</span>
+                <span data-testid="test-report-summary" style={{
+                    flex: 1,
+                    color: running ? '#94a3b8' : report?.passed ? '#10b981' : '#ef4444',
+                }}>
+                    {running || !report
+                        ? `Running ${Math.min(test.completed + 1, test.total)}/${test.total}…`
+                        : `${test.status === 'cancelled' ? 'Cancelled · ' : ''}${testReportSummary(report)}`}
+                </span>
+                {report && (
+                    <>
+                        <button
+                            data-testid="test-export-junit"
+                            onClick={() => download(`${slug(report.workflowName)}-test.xml`, testReportToJUnit(report), 'application/xml')}
+                            title="Export as JUnit XML"
+                            style={buttonStyle}
+                        >
+                            <Download size={10} /> JUnit
+                        </button>
+                        <button
+                            data-testid="test-export-json"
+                            onClick={() => download(`${slug(report.workflowName)}-test.json`, testReportToJson(report), 'application/json')}
+                            title="Export as JSON"
+                            style={buttonStyle}
+                        >
+                            <Download size={10} /> JSON
+                        </button>
+                    </>
+                )}
+                <button
+                    data-testid="test-report-close"
+                    onClick={onClose}
+                    title={running ? 'Cancel test' : 'Close report'}
+                    style={{ ...buttonStyle, width: 24, padding: 0, justifyContent: 'center' }}
+                >
+                    <X size={12} />
+                </button>
+            </div>
+
+            {/* ── One row per expectation ── */}
+            {report && report.expectations.length === 0 && (
+                <div style={{ color: '#64748b' }}>No expectation nodes — attach one with Config → Attach → Expect</div>
+            )}
+            {report?.expectations.map(e => {
+                const outcome = OUTCOME_STYLE[e.outcome]
+                const failure = latestFailure(e)
+                return (
+                    <div
+                        key={e.id}
+                        data-testid={`test-row-${e.id}`}
+                        style={{ display: 'flex', alignItems: 'baseline', gap: 8, padding: '2px 0' }}
+                    >
+                        <span data-testid="test-row-outcome" style={{ width: 40, color: outcome.color, fontWeight: 600 }}>
+                            {outcome.label}
+                        </span>
+                        <span style={{ color: '#e2e8f0', whiteSpace: 'nowrap' }}>{e.label}</span>
+                        <span style={{ color: '#64748b', whiteSpace: 'nowrap' }}>{e.jobLabel}</span>
+                        <span data-testid="test-row-rate" style={{ whiteSpace: 'nowrap' }}>
+                            {e.passed}/{e.results.length} ({Math.round(e.passRate * 100)}%)
+                        </span>
+                        {failure && (
+                            <span style={{
+                                color: '#ef4444aa',
+                                overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+                            }}>
+                                {failure}
+                            </span>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
@@ -4,11 +4,13 @@
  * Renders ALL nodes in a vertical top-to-bottom flow, ignoring ReactFlow
  * positions and sizes. Uses topological ordering from edges to determine
  * the correct node sequence. Parallel (concurrent) nodes at the same
- * level are displayed side-by-side in compact cards.
+ * level are displayed side-by-side in compact cards. Nodes that join
+ * several branches carry a badge with their join (see engine/join.ts).
  */
 
 import { useMemo } from 'react'
 import type { Node, Edge } from '@xyflow/react'
+import { joinOf, joinLabel } from '@/engine/join'
 
 // ── Types ──
 
@@ -80,7 +82,7 @@ function topoSort(nodes: Node[], edges: Edge[]): Node[][] {
 
 // ── Node Card ──
 
-function MobileNodeCard({ node, isCompact }: { node: Node; isCompact: boolean }) {
+function MobileNodeCard({ node, isCompact, join }: { node: Node; isCompact: boolean; join?: string }) {
     const data = node.data as any
     const label = String(data?.label || node.id)
     const wtype = String(data?.widgetType || node.type || '')
@@ -142,6 +144,22 @@ function MobileNodeCard({ node, isCompact }: { node: Node; isCompact: boolean })
                 }}>
                     {label}
                 </span>
+                {join && (
+                    <span
+                        data-testid={`mobile-join-${node.id}`}
+                        title="Join — inputs this node waits for"
+                        style={{
+                            marginLeft: 'auto', flexShrink: 0,
+                            fontSize: 8, fontWeight: 600,
+                            padding: '1px 5px', borderRadius: 4,
+                            background: 'rgba(148,163,184,0.12)',
+                            color: '#94a3b8',
+                            whiteSpace: 'nowrap',
+                        }}
+                    >
+                        ⋈ {join}
+                    </span>
+                )}
             </div>
 
             {/* Type badge (only in full mode) */}
@@ -182,6 +200,16 @@ export function MobileRenderer({ nodes, edges }: RendererProps) {
     // Topological sort: group nodes into levels using edges
     const levels = useMemo(() => topoSort(nodes, edges), [nodes, edges])
 
+    // Joins — nodes with several incoming edges
+    const joins = useMemo(() => {
+        const result: Record<string, string> = {}
+        for (const n of nodes) {
+            const incoming = edges.filter(e => e.target === n.id).length
+            if (incoming > 1) result[n.id] = joinLabel(joinOf(n.data as Record<string, unknown>), incoming)
+        }
+        return result
+    }, [nodes, edges])
+
     return (
         <div style={{
             width: '100%', height: '100%', position: 'relative',
@@ -220,11 +248,11 @@ export function MobileRenderer({ nodes, edges }: RendererProps) {
                                     justifyContent: 'center', flexWrap: 'wrap',
                                 }}>
                                     {level.map(node => (
-                                        <MobileNodeCard key={node.id} node={node} isCompact />
+                                        <MobileNodeCard key={node.id} node={node} isCompact join={joins[node.id]} />
                                     ))}
                                 </div>
                             ) : (
-                                <MobileNodeCard node={level[0]} isCompact={false} />
+                                <MobileNodeCard node={level[0]} isCompact={false} join={joins[level[0].id]} />
                             )}
                         </div>
                     )
@@ -2,7 +2,7 @@
  * Shared types for the FlowStudio family of components.
  */
 
-import type { Node, Edge, NodeTypes, OnNodesChange, Viewport } from '@xyflow/react'
+import type { Node, Edge, NodeTypes, OnNodesChange, Viewport, Connection } from '@xyflow/react'
 import type { PresetDefinition } from '@/engine/widget-preset-registry'
 
 // ── Visual types ────────────────────────────────────────────────────────────────
@@ -75,6 +75,23 @@ export interface FlowStudioProps {
      * Useful for starting/entry-point nodes that shouldn't have predecessors.
      */
     hideBeforeButton?: (nodeId: string) => boolean
+    /**
+     * When returns true for a given nodeId, Config → Inline is shown
+     * (subflow nodes whose workflow can be expanded in place).
+     */
+    canInline?: (nodeId: string) => boolean
+    /**
+     * Called when a node is double-clicked, e.g. to open a subflow node's workflow.
+     */
+    onNodeDoubleClick?: (nodeId: string) => void
+    /**
+     * Called when an edge is clicked, e.g. to edit its branch condition.
+     */
+    onEdgeClick?: (edgeId: string) => void
+    /**
+     * Called when two handles are connected by dragging (needs `nodesConnectable`).
+     */
+    onConnect?: (connection: Connection) => void
     /**
      * When provided, replaces the default WidgetPicker in the right sidebar.
      * Useful for showing a node configuration panel after creation.
@@ -18,6 +18,22 @@ export const INTEGRATIONS: IntegrationConfig[] = [
     { id: 'claudecode', name: 'ClaudeCode', envKey: 'VITE_CLAUDE_TOKEN', storageKey: 'integration_claudecode_token' },
 ]
 
+/**
+ * Read an integration secret outside React (e.g. for ctx.getSecret in scripts).
+ * `name` may be the integration ID ('github') or its env key ('VITE_GITHUB_TOKEN').
+ * Env values take precedence over localStorage, same as useIntegrations().
+ */
+export function resolveIntegrationSecret(name: string): string | undefined {
+    let custom: IntegrationConfig[] = []
+    try {
+        custom = JSON.parse(localStorage.getItem('custom_integrations') || '[]')
+    } catch { /* ignore */ }
+    const config = [...INTEGRATIONS, ...custom].find(c => c.id === name || c.envKey === name)
+    if (!config) return undefined
+    const envValue = config.envKey ? (import.meta as any).env[config.envKey] : undefined
+    return envValue || localStorage.getItem(config.storageKey) || undefined
+}
+
 export interface IntegrationState {
     id: IntegrationId
     value: string
@@ -14,26 +14,76 @@
  *  - Add After / Add Before via SwipeButtons
  *  - Delete via Config → Delete
  *  - Undo / Redo via Cmd+Z / Cmd+Shift+Z and on-screen buttons
+ *  - Run — executes the whole workflow from the starting node (WorkflowExecutor)
+ *  - Run controls — pause / resume / stop / shutdown, per node or for the whole run
+ *  - Run history — every run is saved (RunStore); nodes show avg exec time + total runs
+ *  - Replay — scrub through a recorded run with StepPlayer (prev / next / play)
+ *  - Breakpoints (debug mode) — Config → Break; inspect / edit inputs in the DebugOverlay, continue or step
+ *  - SubFlows — a subflow node runs the workflow in `data.workflowId` (open tab or WorkflowStore) as a child run
+ *  - Drill-down — double-click a subflow node to open its workflow; breadcrumbs lead back, with the run shown at every level
+ *  - Extract / inline — selected nodes become a new workflow behind a subflow node; Config → Inline expands it back
+ *  - Branching — click an edge to give it a condition (on success / error / approval / expression); router nodes pick a case; skipped branches are greyed out
+ *  - Fan-out — a map node runs the job after it once per list item; the map card stacks a mini-card per item
+ *  - Retries — job settings set timeout, retries with backoff, which errors retry and a fallback node; the card shows the attempt
+ *  - Parameters — the starting node declares workflow parameters; Run asks for them in a form, with saved named sets (e.g. staging / production)
+ *  - Templates — `{{ nodes.<id>.output.x }}` / `{{ inputs.x }}` / `{{ env.NAME }}` in settings, with completion and a preview from the last run
+ *  - Ports — drag between handles to connect nodes; edges whose payload the target cannot accept are flagged; click an edge after a run to see its payload
+ *  - Approvals — user nodes park the run; approve / reject / comment on the node or from the 🔔 inbox (every workflow)
+ *  - Shell / Python jobs run on the local Node.js sidecar (marked unavailable while it's down)
+ *
+ * Run history, test mode, run parameters, settings templates and approvals
+ * are hooks / components in components/builder.
  */
 
-import { ReactFlowProvider, useReactFlow, type Node, type Edge, applyNodeChanges, type NodeChange } from '@xyflow/react'
+import { ReactFlowProvider, useReactFlow, type Node, type Edge, type Viewport, type Connection, applyNodeChanges, type NodeChange } from '@xyflow/react'
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react'
+import { observer } from 'mobx-react-lite'
 // (individual widget imports replaced by useThemeAwareNodeTypes)
 import { FlowStudio, FlowStudioStoreProvider, useFlowHistory } from '@/flow-studio'
 import { widgetRegistry } from '@/engine/widget-types-registry'
+import { subTypeRegistry } from '@/engine/widget-subtypes-registry'
 import { presetRegistry, type PresetDefinition } from '@/engine/widget-preset-registry'
 import { FlowStudioApi } from '@/engine/FlowStudioApi'
-import { generateId } from '@/engine/core'
-import { AgentMessenger } from '@/engine/AgentMessenger'
+import { generateId, now } from '@/engine/core'
+import { MessageBus } from '@/engine/MessageBus'
 import { runScriptInBrowser } from '@/engine/script-runner'
+import { scriptLanguageOf, isSidecarLanguage } from '@/engine/node-runners'
+import { getSidecarClient, runScriptInSidecar, type SidecarState } from '@/engine/sidecar-client'
+import {
+    WorkflowExecutor, applyRunState,
+    type RunState, type BreakpointKind, type NodeBreakpoints, type WorkflowExecutorOptions,
+} from '@/engine/workflow-executor'
+import { RunRecorder, applyRunStats, type RunRecord } from '@/engine/run-store'
+import { applyReplayState } from '@/engine/run-replay'
+import { approvalInbox } from '@/engine/approval-inbox'
+import type { FormValues } from '@/engine/user-form'
+import { resolveParams, workflowParamsOf } from '@/engine/workflow-params'
+import { conditionOf, conditionLabel, routerCases, routerHandles, DEFAULT_HANDLE, type EdgeCondition } from '@/engine/conditions'
+import { isFallbackEdge, retryPolicyOf } from '@/engine/retry'
+import { edgePortMismatch, edgeSchemaOf, inputSchemaOf, portTypeLabel } from '@/engine/ports'
+import { linkedWorkflowId, subflowRefs, subflowStats, findSubflowCycle, childRunAt, executorAt, inputKeysOf } from '@/engine/subflow'
+import { neighborsOf, toNodeInfo, type NodeInfo } from '@/engine/execution-context'
+import { resolveIntegrationSecret } from '@/hooks/useIntegrations'
+import { getWorkflowStore, type WorkflowDoc } from '@/engine/workflow-store'
 import { EventsPanel, type FlowEvent } from '@/flow-studio/EventsPanel'
+import { RunControls } from '@/flow-studio/RunControls'
+import { RunReplayBar } from '@/flow-studio/RunReplayBar'
+import { TestReportPanel } from '@/flow-studio/TestReportPanel'
+import { ApprovalsInbox } from '@/flow-studio/ApprovalsInbox'
+import { SubflowBreadcrumbs } from '@/flow-studio/SubflowBreadcrumbs'
+import { EdgeConditionPanel } from '@/flow-studio/EdgeConditionPanel'
+import { RunParamsForm } from '@/flow-studio/RunParamsForm'
 import { NodeSettingsPanel } from '@/components/kit/NodeSettingsPanel'
+import {
+    ToolbarButton, TestRunButton, useRunHistory, useWorkflowTest, useRunParams, useSettingsTemplates, withApprovalActions,
+} from '@/components/builder'
+import type { DebugBreak } from '@/widgets/DebugOverlay'
 import '@xyflow/react/dist/style.css'
 
 import { useThemeAwareNodeTypes } from '@/widgets/theme-aware-nodes'
 
 // Starting node is always wibeglow (no pixel/ghub variant)
-const WIDGET_TYPES = ['starting', 'job', 'user', 'subflow']
+const WIDGET_TYPES = ['starting', 'job', 'user', 'subflow', 'router', 'map']
 
 // ── iPad-friendly constants ──
 const DEFAULT_ZOOM = 0.85
@@ -47,6 +97,57 @@ interface Workflow {
     edges: Edge[]
 }
 
+/** Snapshot a canvas workflow as a plain WorkflowDoc for the executor */
+function toWorkflowDoc(wf: Workflow): WorkflowDoc {
+    return {
+        id: wf.id,
+        name: wf.name,
+        nodes: wf.nodes.map(n => ({
+            id: n.id, type: n.type || 'job', position: n.position,
+            data: n.data, width: n.width, height: n.height,
+        })),
+        edges: wf.edges.map(e => ({
+            id: e.id, source: e.source, target: e.target, sourceHandle: e.sourceHandle,
+            condition: conditionOf(e), inputKeys: inputKeysOf(e),
+        })),
+        createdAt: now(),
+        updatedAt: now(),
+    }
+}
+
+/** Open a saved WorkflowDoc on the canvas */
+function fromWorkflowDoc(doc: WorkflowDoc): Workflow {
+    return {
+        id: doc.id,
+        name: doc.name,
+        nodes: doc.nodes.map(n => ({
+            id: n.id, type: n.type, position: n.position,
+            data: n.data, width: n.width, height: n.height,
+        })),
+        edges: doc.edges.map(e => ({
+            id: e.id, source: e.source, target: e.target, sourceHandle: e.sourceHandle,
+            ...(e.condition || e.inputKeys ? { data: { condition: e.condition, inputKeys: e.inputKeys } } : {}),
+        })),
+    }
+}
+
+/** Source handle for a new edge out of a node — a router's first branch without an edge */
+function branchHandleOf(node: Node | undefined, edges: Edge[]): string | undefined {
+    if (node?.type !== 'router') return undefined
+    const used = new Set(edges.filter(e => e.source === node.id).map(e => e.sourceHandle || DEFAULT_HANDLE))
+    return routerHandles(node.data).find(h => !used.has(h)) ?? DEFAULT_HANDLE
+}
+
+/** A level above the open workflow, after drilling down into a subflow node */
+interface DrillLevel {
+    /** Workflow the subflow node belongs to */
+    workflowId: string
+    /** Subflow node that was opened */
+    nodeId: string
+    /** Viewport to restore when going back */
+    viewport: Viewport
+}
+
 function createWorkflow(name: string): Workflow {
     return {
         id: generateId('wf'),
@@ -74,67 +175,43 @@ function loadWorkflows(): { workflows: Workflow[]; activeId: string } {
 const api = new FlowStudioApi()
 
 // ── Resolve widgetType string to { type, data } ──
-function resolveWidgetType(widgetType: string): { nodeType: string; data: Record<string, any> } {
-    if (widgetType === 'user') {
-        const def = widgetRegistry.get('user')
-        const tpl = presetRegistry.getDefault(def?.type ?? '')
-        return {
-            nodeType: 'user',
-            data: {
-                ...tpl?.defaultData,
-                label: tpl?.defaultData.label || 'User',
-                width: widgetRegistry.getDefaultWidthPx(def?.type || ''),
-                height: widgetRegistry.getDefaultHeightPx(def?.type || ''),
-            },
-        }
-    }
-    if (widgetType === 'subflow') {
-        const def = widgetRegistry.get('subflow')
-        const tpl = presetRegistry.getDefault(def?.type ?? '')
-        return {
-            nodeType: 'subflow',
-            data: {
-                ...tpl?.defaultData,
-                label: tpl?.defaultData.label || 'SubFlow',
-                width: widgetRegistry.getDefaultWidthPx(def?.type || ''),
-                height: widgetRegistry.getDefaultHeightPx(def?.type || ''),
-            },
-        }
+
+/** Widget types added with their default preset, labelled after the widget when the preset has no label */
+const PRESET_WIDGETS = ['user', 'subflow', 'router', 'map', 'expectation']
+
+/** A preset's data, sized to the widget's default size */
+function presetData(widgetType: string, tpl: PresetDefinition | undefined, label: string): Record<string, any> {
+    return {
+        ...tpl?.defaultData,
+        label: tpl?.defaultData.label || label,
+        width: widgetRegistry.getDefaultWidthPx(widgetType),
+        height: widgetRegistry.getDefaultHeightPx(widgetType),
     }
-    if (widgetType.startsWith('script:') || widgetType.startsWith('ai:')) {
-        const [prefix, variant] = widgetType.split(':')
-        const def = widgetRegistry.get('job')
-        const subType = prefix === 'ai' ? 'ai' : variant
-        const tpl = presetRegistry.getByWidget(def?.type ?? '').find(t => t.defaultData.subType === subType) || presetRegistry.getDefault(def?.type ?? '')
-        const label = tpl?.defaultData.label || `${variant} Script`
-        return {
-            nodeType: 'job',
-            data: {
-                ...tpl?.defaultData,
-                subType,
-                label,
-                width: widgetRegistry.getDefaultWidthPx(def?.type || ''),
-                height: widgetRegistry.getDefaultHeightPx(def?.type || ''),
-                configured: true,
-                sandbox: 'browser',
-                code: `// ${label}\nmessenger.send('system', 'text', 'Hello from ${label}')`,
-            },
-        }
+}
+
+function resolveWidgetType(widgetType: string): { nodeType: string; data: Record<string, any> } {
+    const def = widgetRegistry.get(widgetType)
+    if (def && PRESET_WIDGETS.includes(def.type)) {
+        return { nodeType: def.type, data: presetData(def.type, presetRegistry.getDefault(def.type), def.label) }
     }
-    // Fallback: treat as job with default JS script
-    const def = widgetRegistry.get('job')
-    const tpl = presetRegistry.getByWidget(def?.type ?? '').find(t => t.defaultData.subType === 'js') || presetRegistry.getDefault(def?.type ?? '')
-    const label = tpl?.defaultData.label || 'Script'
+
+    // Anything else is a job: `script:<language>`, `ai:<variant>`, or a JS script
+    const [prefix, variant] = widgetType.split(':')
+    const isVariant = variant !== undefined && (prefix === 'script' || prefix === 'ai')
+    const subType = !isVariant ? 'js' : prefix === 'ai' ? 'ai' : variant
+    const runsInSidecar = subType === 'sh' || subType === 'py'
+    const tpl = presetRegistry.getByWidget('job').find(t => t.defaultData.subType === subType) || presetRegistry.getDefault('job')
+    const data = presetData('job', tpl, isVariant ? `${variant} Script` : 'Script')
     return {
         nodeType: 'job',
         data: {
-            ...tpl?.defaultData,
-            label,
-            width: widgetRegistry.getDefaultWidthPx(def?.type || ''),
-            height: widgetRegistry.getDefaultHeightPx(def?.type || ''),
+            ...data,
+            ...(isVariant ? { subType } : {}),
             configured: true,
-            sandbox: 'browser',
-            code: `// ${label}\nmessenger.send('system', 'text', 'Hello from ${label}')`,
+            sandbox: runsInSidecar ? 'node' : 'browser',
+            code: runsInSidecar
+                ? subTypeRegistry.getDefaultSettings('job', subType).code
+                : `// ${data.label}\nmessenger.send('system', 'text', 'Hello from ${data.label}')`,
         },
     }
 }
@@ -150,14 +227,32 @@ export default function BuilderSimplePage() {
     )
 }
 
+/** Compact script ctx of a node, for the breakpoint inspector */
+function debugCtx(nodes: Node[], edges: Edge[], node: Node, runId: string, inputs: unknown): Record<string, unknown> {
+    const brief = (info: NodeInfo | null) => info && { id: info.id, name: info.name, type: info.type, subType: info.subType }
+    const { leftNode, rightNode } = neighborsOf(nodes, edges, node.id)
+    return { runId, node: brief(toNodeInfo(node)), leftNode: brief(leftNode), rightNode: brief(rightNode), inputs }
+}
+
 // ── Inner component (uses hooks that need ReactFlowProvider) ──
-function BuilderSimpleInner() {
+const BuilderSimpleInner = observer(function BuilderSimpleInner() {
     const { workflows: loadedWorkflows, activeId: loadedActiveId } = loadWorkflows()
     const [workflows, setWorkflows] = useState<Workflow[]>(loadedWorkflows)
     const [activeId, setActiveId] = useState<string>(loadedActiveId)
     const [events, setEvents] = useState<FlowEvent[]>([])
-    const messengersRef = useRef<Map<string, AgentMessenger>>(new Map())
+    /** One bus per workflow — a run waiting for approval keeps its contacts while another workflow is open */
+    const busesRef = useRef<Map<string, MessageBus>>(new Map())
+    const busRef = useRef<MessageBus>(new MessageBus())
     const [settingsNodeId, setSettingsNodeId] = useState<string | null>(null)
+    // Edge whose branch condition is being edited
+    const [conditionEdgeId, setConditionEdgeId] = useState<string | null>(null)
+    const executorRef = useRef<WorkflowExecutor | null>(null)
+    /** Latest run per workflow ID — runs keep going when switching workflows */
+    const runsRef = useRef<Map<string, WorkflowExecutor>>(new Map())
+    const [runState, setRunState] = useState<RunState | null>(null)
+    /** Drill-down path into subflows — empty at the top level */
+    const [drill, setDrill] = useState<DrillLevel[]>([])
+    const restoreViewportRef = useRef<Viewport | null>(null)
 
     const active = workflows.find(w => w.id === activeId) || workflows[0]
     const nodes = active?.nodes || []
@@ -172,7 +267,7 @@ function BuilderSimpleInner() {
 
     const { pushHistory, undo, redo, canUndo, canRedo, resetHistory } = useFlowHistory(updateWorkflow)
 
-    const { fitView } = useReactFlow()
+    const { fitView, getViewport, setViewport } = useReactFlow()
 
     // ── Auto-fit when node count changes or workflow switches ──
     const prevCountRef = useRef(nodes.length)
@@ -194,10 +289,13 @@ function BuilderSimpleInner() {
             const wf = workflows.find(w => w.id === activeId)
             if (wf) {
                 resetHistory(wf.nodes, wf.edges)
-                setTimeout(() => fitView({ padding: FIT_VIEW_PADDING, maxZoom: DEFAULT_ZOOM }), 100)
+                // Going back up a drill-down level restores where that level was left
+                const viewport = restoreViewportRef.current
+                restoreViewportRef.current = null
+                setTimeout(() => viewport ? setViewport(viewport) : fitView({ padding: FIT_VIEW_PADDING, maxZoom: DEFAULT_ZOOM }), 100)
             }
         }
-    }, [activeId, workflows, resetHistory, fitView])
+    }, [activeId, workflows, resetHistory, fitView, setViewport])
 
     // ── Use refs for synced mutations ──
     const nodesRef = useRef(nodes)
@@ -205,6 +303,74 @@ function BuilderSimpleInner() {
     nodesRef.current = nodes
     edgesRef.current = edges
 
+    // ── SubFlows: linked workflows come from the open tabs, else WorkflowStore ──
+    const [storedDocs, setStoredDocs] = useState<{ [id: string]: WorkflowDoc | null }>({})
+
+    const lookupWorkflow = useCallback((id: string): WorkflowDoc | undefined => {
+        const open = workflows.find(w => w.id === id)
+        return open ? toWorkflowDoc(open) : storedDocs[id] ?? undefined
+    }, [workflows, storedDocs])
+
+    useEffect(() => {
+        const linked = workflows.flatMap(w => subflowRefs(toWorkflowDoc(w)))
+        const missing = [...new Set(linked)].filter(id => !workflows.some(w => w.id === id) && !(id in storedDocs))
+        if (missing.length === 0) return
+        getWorkflowStore()
+            .then(store => Promise.all(missing.map(id => store.load(id))))
+            .then(docs => setStoredDocs(prev => ({
+                ...prev,
+                ...Object.fromEntries(missing.map((id, i) => [id, docs[i] ?? null])),
+            })))
+            .catch(() => setStoredDocs(prev => ({ ...prev, ...Object.fromEntries(missing.map(id => [id, null])) })))
+    }, [workflows, storedDocs])
+
+    /** Executor options for child runs of subflow nodes */
+    const subflowOptions = useMemo((): Pick<WorkflowExecutorOptions, 'loadWorkflow' | 'onSubflow'> => ({
+        loadWorkflow: async id => lookupWorkflow(id) ?? (await getWorkflowStore()).load(id),
+        onSubflow: child => { approvalInbox.track(child, child.doc.name) },
+    }), [lookupWorkflow])
+
+    // ── Message bus: contacts follow the graph, every hop and presence change lands in EventsPanel ──
+    if (!busesRef.current.has(activeId)) busesRef.current.set(activeId, new MessageBus())
+    busRef.current = busesRef.current.get(activeId)!
+
+    const graphKey = JSON.stringify([
+        nodes.map(n => [n.id, n.data?.label, n.data?.subagents]),
+        edges.map(e => [e.source, e.target]),
+    ])
+    useEffect(() => {
+        busRef.current.sync(nodesRef.current, edgesRef.current)
+    }, [graphKey, activeId])
+
+    useEffect(() => {
+        const bus = busRef.current
+        return bus.tap(({ message: msg, delivered, error }) => {
+            setEvents(prev => [...prev, {
+                id: generateId('evt'),
+                timestamp: msg.timestamp,
+                nodeId: msg.from,
+                nodeName: bus.nameOf(msg.from),
+                targetName: msg.to === 'system' ? undefined : bus.nameOf(msg.to),
+                type: delivered ? 'message' : 'error',
+                content: delivered ? String(msg.payload ?? '') : error || 'Message rejected',
+            }])
+        })
+    }, [activeId])
+
+    useEffect(() => {
+        const bus = busRef.current
+        return bus.onPresence((nodeId, online) => {
+            setEvents(prev => [...prev, {
+                id: generateId('evt'),
+                timestamp: Date.now(),
+                nodeId,
+                nodeName: bus.nameOf(nodeId),
+                type: 'presence',
+                content: online ? '● online' : '○ offline',
+            }])
+        })
+    }, [activeId])
+
     const mutateState = useCallback((
         fn: (nodes: Node[], edges: Edge[]) => { nodes: Node[]; edges: Edge[] },
     ) => {
@@ -213,6 +379,14 @@ function BuilderSimpleInner() {
         pushHistory(result.nodes, result.edges)
     }, [pushHistory, updateWorkflow])
 
+    // Transient runtime updates (streamed logs) — not recorded in undo history
+    const patchNodeData = useCallback((nodeId: string, fn: (data: Record<string, any>) => Record<string, any>) => {
+        setWorkflows(prev => prev.map(w => w.id !== activeId ? w : {
+            ...w,
+            nodes: w.nodes.map(n => n.id === nodeId ? { ...n, data: fn(n.data) } : n),
+        }))
+    }, [activeId])
+
     const onNodesChange = useCallback(
         (changes: NodeChange[]) => {
             const wf = workflows.find(w => w.id === activeId)
@@ -243,10 +417,29 @@ function BuilderSimpleInner() {
                 position,
                 data,
             }],
-            edges: [...prevEdges, api.makeEdge(sourceNodeId, newNodeId)],
+            edges: [...prevEdges, {
+                ...api.makeEdge(sourceNodeId, newNodeId),
+                sourceHandle: branchHandleOf(prevNodes.find(n => n.id === sourceNodeId), prevEdges),
+            }],
         }))
     }, [mutateState])
 
+    // ── Connect two nodes by dragging between their handles ──
+    const handleConnect = useCallback((connection: Connection) => {
+        const { source, target } = connection
+        if (!source || !target || source === target) return
+        mutateState((prevNodes, prevEdges) => {
+            if (prevEdges.some(e => e.source === source && e.target === target)) return { nodes: prevNodes, edges: prevEdges }
+            return {
+                nodes: prevNodes,
+                edges: [...prevEdges, {
+                    ...api.makeEdge(source, target),
+                    sourceHandle: connection.sourceHandle ?? undefined,
+                }],
+            }
+        })
+    }, [mutateState])
+
     // ── Sidebar widget picker: create node from widget ──
     const handleNodeCreated = useCallback((
         nodeId: string,
@@ -296,7 +489,10 @@ function BuilderSimpleInner() {
                         : e
                 )
             }
-            newEdges = [...newEdges, api.makeEdge(newNodeId, targetNodeId)]
+            newEdges = [...newEdges, {
+                ...api.makeEdge(newNodeId, targetNodeId),
+                sourceHandle: branchHandleOf(newNodes.find(n => n.id === newNodeId), []),
+            }]
 
             return { nodes: newNodes, edges: newEdges }
         })
@@ -310,83 +506,425 @@ function BuilderSimpleInner() {
             )
         } else if (action === 'settings') {
             setSettingsNodeId(nodeId)
+        } else if (action === 'attach:expectation') {
+            // Attached below the node; evaluated by the executor when it finishes
+            const { nodeType, data } = resolveWidgetType('expectation')
+            const newNodeId = generateId('node')
+            const sourceNode = nodesRef.current.find(n => n.id === nodeId)
+            const attached = edgesRef.current.filter(e =>
+                e.source === nodeId && nodesRef.current.some(n => n.id === e.target && n.type === 'expectation'),
+            ).length
+            const position = sourceNode
+                ? api.positionBelow(sourceNode, nodeType, data, attached)
+                : { x: 0, y: 100 }
+            mutateState((prevNodes, prevEdges) => ({
+                nodes: [...prevNodes, { id: newNodeId, type: nodeType, position, data }],
+                edges: [...prevEdges, api.makeEdge(nodeId, newNodeId)],
+            }))
+        } else if (action === 'inline') {
+            const node = nodesRef.current.find(n => n.id === nodeId)
+            const linked = node && lookupWorkflow(linkedWorkflowId(node.data))
+            if (!linked) return
+            const blocker = api.inlineBlocker(node)
+            if (blocker) {
+                // Inlining would drop the data mapping — say why nothing happened
+                setEvents(prev => [...prev, {
+                    id: generateId('evt'),
+                    timestamp: Date.now(),
+                    nodeId,
+                    nodeName: String(node.data.label || nodeId),
+                    type: 'error',
+                    content: `Can't inline: ${blocker}`,
+                }])
+                return
+            }
+            mutateState((prevNodes, prevEdges) =>
+                api.inlineSubflow(nodeId, prevNodes, prevEdges, fromWorkflowDoc(linked))
+            )
+        } else if (action.startsWith('breakpoint:')) {
+            const kind = action.slice('breakpoint:'.length) as BreakpointKind
+            const prev: NodeBreakpoints = nodesRef.current.find(n => n.id === nodeId)?.data.breakpoints ?? {}
+            const breakpoints = { ...prev, [kind]: !prev[kind] }
+            executorRef.current?.setBreakpoints(nodeId, breakpoints)
+            mutateState((prevNodes, prevEdges) => ({
+                nodes: prevNodes.map(n =>
+                    n.id === nodeId ? { ...n, data: { ...n.data, breakpoints } } : n
+                ),
+                edges: prevEdges,
+            }))
         }
-    }, [mutateState])
+    }, [mutateState, lookupWorkflow])
+
+    const canInline = useCallback((nodeId: string) => {
+        const node = nodesRef.current.find(n => n.id === nodeId)
+        return node?.type === 'subflow' && !!lookupWorkflow(linkedWorkflowId(node.data))
+    }, [lookupWorkflow])
+
+    // ── Extract selected nodes to a subflow ──
+    const extractable = nodes.filter(n => n.selected && n.type !== 'starting')
+    const extractBlocker = extractable.length >= 2 ? api.extractBlocker(extractable.map(n => n.id), nodes, edges) : null
+    const handleExtractSubflow = useCallback(() => {
+        const selected = nodesRef.current.filter(n => n.selected && n.type !== 'starting')
+        if (selected.length < 2 || api.extractBlocker(selected.map(n => n.id), nodesRef.current, edgesRef.current)) return
+        const name = `Subflow ${workflows.length + 1}`
+        const workflowId = generateId('wf')
+        const { data } = resolveWidgetType('subflow')
+        const { workflow, ...board } = api.extractToSubflow(selected.map(n => n.id), nodesRef.current, edgesRef.current, {
+            id: generateId('node'),
+            data: { ...data, label: name, workflowId },
+        })
+        const wf: Workflow = { id: workflowId, name, ...workflow }
+        mutateState(() => board)
+        setWorkflows(prev => [...prev, wf])
+        // Saved, so it can be linked from other workflows too
+        getWorkflowStore().then(store => store.save(toWorkflowDoc(wf))).catch(() => { })
+    }, [workflows.length, mutateState])
 
     // ── Script execution ──
-    const getMessenger = useCallback((nodeId: string): AgentMessenger => {
-        let m = messengersRef.current.get(nodeId)
-        if (!m) {
-            m = new AgentMessenger(nodeId)
-            messengersRef.current.set(nodeId, m)
-        }
-        return m
-    }, [])
+    const getMessenger = useCallback((nodeId: string) => busRef.current.get(nodeId), [])
 
     const handleRunScript = useCallback((nodeId: string) => {
         const node = nodesRef.current.find(n => n.id === nodeId)
         if (!node) return
         const code = String(node.data?.code || '')
-        const nodeName = String(node.data?.label || nodeId)
         const messenger = getMessenger(nodeId)
 
-        // Listen for messages sent during execution
-        const unsub = messenger.onMessage((msg) => {
-            setEvents(prev => [...prev, {
-                id: generateId('evt'),
-                timestamp: msg.timestamp,
-                nodeId,
-                nodeName,
-                type: 'message',
-                content: String(msg.payload ?? ''),
-            }])
-        })
+        // The node gets what it got in the last run: its inputs, and the run's
+        // parameters (the starting node outputs them). Before any run it gets
+        // the parameter defaults and no inputs — and says so in its logs.
+        const start = nodesRef.current.find(n => n.type === 'starting')
+        const lastInputs = runState?.nodes[nodeId]?.inputs
+        const params = (start && runState?.nodes[start.id]?.output as Record<string, unknown> | undefined)
+            ?? resolveParams(workflowParamsOf(nodesRef.current)).values
+        const notes = lastInputs ? [] : ['⚠ Not run in this workflow yet — running without inputs']
 
         // Update status to running
         mutateState((prevNodes, prevEdges) => ({
             nodes: prevNodes.map(n =>
-                n.id === nodeId ? { ...n, data: { ...n.data, logs: ['> Running...'], state: { ...(n.data.state || {}), status: 'running' } } } : n
+                n.id === nodeId ? { ...n, data: { ...n.data, logs: notes, state: { ...(n.data.state || {}), status: 'running' } } } : n
             ),
             edges: prevEdges,
         }))
 
-        // Execute after a brief delay to show running state
-        setTimeout(() => {
-            const result = runScriptInBrowser(code, messenger, nodeName)
-            unsub()
-
+        // Execute in the sandbox worker (or on the sidecar for sh/py) —
+        // log lines stream in as they happen
+        const { timeout } = retryPolicyOf(node.data)
+        const context = { node: toNodeInfo(node), ...neighborsOf(nodesRef.current, edgesRef.current, nodeId), inputs: lastInputs ?? {}, params }
+        const language = scriptLanguageOf(node.data)
+        const onLog = (line: string) => patchNodeData(nodeId, data => ({ ...data, logs: [...(data.logs || []), line] }))
+        const bus = busRef.current
+        bus.setOnline(nodeId, true)
+        const run = isSidecarLanguage(language)
+            ? runScriptInSidecar(code, messenger, context, { language, timeout, onLog, onDisconnect: () => bus.setOnline(nodeId, false) })
+            : runScriptInBrowser(code, messenger, context, {
+                language,
+                timeout,
+                getSecret: resolveIntegrationSecret,
+                onLog,
+                onProgress: (progress) => patchNodeData(nodeId, data => ({ ...data, state: { ...(data.state || {}), progress } })),
+            })
+        run.then(result => {
+            bus.setOnline(nodeId, false)
             mutateState((prevNodes, prevEdges) => ({
                 nodes: prevNodes.map(n =>
-                    n.id === nodeId ? { ...n, data: { ...n.data, logs: result.logs, state: { ...(n.data.state || {}), status: result.status } } } : n
+                    n.id === nodeId ? { ...n, data: { ...n.data, logs: [...notes, ...result.logs], diagnostics: result.diagnostics, state: { ...(n.data.state || {}), status: result.status } } } : n
                 ),
                 edges: prevEdges,
             }))
-        }, 300)
-    }, [getMessenger, mutateState])
+        })
+    }, [getMessenger, mutateState, patchNodeData, runState])
 
     const handleSaveScript = useCallback((nodeId: string, code: string) => {
         mutateState((prevNodes, prevEdges) => ({
             nodes: prevNodes.map(n =>
-                n.id === nodeId ? { ...n, data: { ...n.data, code } } : n
+                n.id === nodeId ? { ...n, data: { ...n.data, code, diagnostics: undefined } } : n
             ),
             edges: prevEdges,
         }))
     }, [mutateState])
 
-    // ── Decorate nodes with script callbacks ──
+    // ── Run history + replay (a replay replaces the live run overlay) ──
+    const handleRunNotSaved = useCallback((record: RunRecord, err: unknown) => {
+        setEvents(prev => [...prev, {
+            id: generateId('evt'),
+            timestamp: Date.now(),
+            nodeId: '',
+            nodeName: record.workflowName,
+            type: 'error',
+            content: `Run history not saved — ${err instanceof Error ? err.message : String(err)}`,
+        }])
+    }, [])
+    const history = useRunHistory(activeId, handleRunNotSaved)
+    const { replay, replayState, saveRun, closeReplay } = history
+
+    // ── Run overlay ──
+    // Runs belong to the top-level workflow of the drill-down path; deeper
+    // levels show their part of it (the child run of each subflow node).
+    const runRoot = workflows.find(w => w.id === drill[0]?.workflowId) ?? active
+    const drillPath = useMemo(() => drill.map(level => level.nodeId), [drill])
+    const overlayRef = useRef<object | null>(null)
+
+    /** Overlay `executor`'s run at the open level; the latest call wins */
+    const showRun = useCallback((executor: WorkflowExecutor | null) => {
+        const overlay = {}
+        overlayRef.current = overlay
+        const update = () => {
+            if (overlayRef.current !== overlay) return
+            executorRef.current = executor && executorAt(executor, drillPath)
+            setRunState(executor ? childRunAt(executor.getState(), drillPath) : null)
+        }
+        update()
+        return executor?.subscribe(update)
+    }, [drillPath])
+
+    // ── Run parameters (saved sets live on the run's starting node) ──
+    const updateNodesOf = useCallback((workflowId: string, patch: (nodes: Node[]) => Node[]) => {
+        if (workflowId === activeId) mutateState((prevNodes, prevEdges) => ({ nodes: patch(prevNodes), edges: prevEdges }))
+        else setWorkflows(prev => prev.map(w => w.id === workflowId ? { ...w, nodes: patch(w.nodes) } : w))
+    }, [activeId, mutateState])
+    const runParams = useRunParams(runRoot, updateNodesOf)
+    const { setOpen: setRunParamsOpen, remember: rememberParams, lastInputs: lastParams } = runParams
+
+    // ── Workflow run ──
+    const handleRunWorkflow = useCallback((inputs?: FormValues) => {
+        if (!runRoot) return
+        setRunParamsOpen(false)
+        closeReplay()
+        runsRef.current.get(runRoot.id)?.cancel()
+        if (inputs) rememberParams(runRoot.id, inputs)
+        const executor = new WorkflowExecutor(toWorkflowDoc(runRoot), {
+            bus: busesRef.current.get(runRoot.id) ?? busRef.current,
+            getSecret: resolveIntegrationSecret,
+            debug: api.state.debugMode,
+            inputs,
+            ...subflowOptions,
+        })
+        runsRef.current.set(runRoot.id, executor)
+        // Only the open workflow's run drives the overlay
+        showRun(executor)
+        approvalInbox.track(executor, runRoot.name)
+        const recorder = new RunRecorder(executor, runRoot.name)
+
+        executor.run().catch(err => {
+            setEvents(prev => [...prev, {
+                id: generateId('evt'),
+                timestamp: Date.now(),
+                nodeId: '',
+                nodeName: runRoot.name,
+                type: 'error',
+                content: err instanceof Error ? err.message : String(err),
+            }])
+        }).finally(() => saveRun(recorder.finish()))
+    }, [runRoot, saveRun, closeReplay, subflowOptions, showRun, setRunParamsOpen, rememberParams])
+
+    // ── Test mode ──
+    const testMode = useWorkflowTest()
+    const { start: startTest, close: handleCloseTest } = testMode
+
+    const handleRunTest = useCallback(() => {
+        if (!runRoot) return
+        closeReplay()
+        runsRef.current.get(runRoot.id)?.cancel()
+        let recorder: RunRecorder | null = null
+        startTest(toWorkflowDoc(runRoot), {
+            workflowName: runRoot.name,
+            executor: {
+                bus: busesRef.current.get(runRoot.id) ?? busRef.current,
+                getSecret: resolveIntegrationSecret,
+                // Parameters of the last run, else their defaults
+                inputs: lastParams(runRoot.id),
+                ...subflowOptions,
+            },
+            onRunStart: executor => {
+                runsRef.current.set(runRoot.id, executor)
+                showRun(executor)
+                approvalInbox.track(executor, runRoot.name)
+                recorder = new RunRecorder(executor, runRoot.name)
+            },
+            onRunEnd: () => {
+                if (recorder) saveRun(recorder.finish())
+                recorder = null
+            },
+        }).catch(err => {
+            setEvents(prev => [...prev, {
+                id: generateId('evt'),
+                timestamp: Date.now(),
+                nodeId: '',
+                nodeName: runRoot.name,
+                type: 'error',
+                content: err instanceof Error ? err.message : String(err),
+            }])
+        })
+    }, [runRoot, startTest, saveRun, closeReplay, subflowOptions, showRun, lastParams])
+
+    // Show the switched-to workflow's run (runs elsewhere keep going, e.g. waiting for approval)
+    const runRootId = runRoot?.id
+    useEffect(() => showRun(runRootId ? runsRef.current.get(runRootId) ?? null : null), [runRootId, showRun])
+    useEffect(() => {
+        handleCloseTest()
+    }, [runRootId, handleCloseTest])
+
+    const isRunning = testMode.isTesting || runState?.status === 'running' || runState?.status === 'paused'
+    const debugMode = api.state.debugMode
+
+    // ── Sidecar availability (only connect once sh/py nodes exist) ──
+    const needsSidecar = nodes.some(n => n.type === 'job' && isSidecarLanguage(scriptLanguageOf(n.data)))
+    const [sidecar, setSidecar] = useState<SidecarState | null>(null)
+    useEffect(() => {
+        if (!needsSidecar) return
+        const client = getSidecarClient()
+        setSidecar(client.getState())
+        return client.subscribe(() => setSidecar(client.getState()))
+    }, [needsSidecar])
+
+    // ── Decorate nodes with script callbacks + live run state ──
     const decoratedNodes = useMemo(() => {
-        return nodes.map(n => {
+        const withRun = replay ? applyReplayState(nodes, replayState) : applyRunState(nodes, runState)
+        return applyRunStats(withRun, history.stats).map(n => {
+            if (n.type === 'user') {
+                return withApprovalActions(n, () => executorRef.current, replay ? undefined : runState?.nodes[n.id]?.inputs)
+            }
+            if (n.type === 'subflow') {
+                // The card shows what the linked workflow contains, or why it cannot run
+                const workflowId = linkedWorkflowId(n.data)
+                if (!workflowId) return n
+                const linked = lookupWorkflow(workflowId)
+                // Only cycles that go through this node's link
+                const self: WorkflowDoc = {
+                    id: activeId, name: active.name, edges: [], createdAt: 0, updatedAt: 0,
+                    nodes: [{ id: n.id, type: 'subflow', position: n.position, data: n.data }],
+                }
+                const cycle = findSubflowCycle(activeId, id => id === activeId ? self : lookupWorkflow(id))
+                const nameOf = (id: string) => lookupWorkflow(id)?.name ?? id
+                return {
+                    ...n,
+                    data: {
+                        ...n.data,
+                        workflowName: linked?.name,
+                        subflowError: !linked ? (workflowId in storedDocs ? `Workflow ${workflowId} not found` : undefined)
+                            : cycle ? `Cycle: ${cycle.map(nameOf).join(' → ')}`
+                            : undefined,
+                        state: linked ? { ...(n.data.state as object | undefined), ...subflowStats(linked) } : n.data.state,
+                    },
+                }
+            }
+            if (n.type === 'map') {
+                // The card stacks the per-item runs of the job after it
+                const body = edges.find(e => e.source === n.id && runState?.nodes[e.target]?.items)
+                const items = replay || !body ? undefined : runState?.nodes[body.target]?.items
+                if (!items) return n
+                return { ...n, data: { ...n.data, state: { ...(n.data.state as object | undefined), items } } }
+            }
             if (n.type !== 'job') return n
+            const language = scriptLanguageOf(n.data)
             return {
                 ...n,
                 data: {
                     ...n.data,
+                    sandboxUnavailable: isSidecarLanguage(language) && !!sidecar && (
+                        sidecar.status === 'offline' ||
+                        (sidecar.status === 'online' && !sidecar.languages.includes(language))
+                    ),
+                    sandboxError: isSidecarLanguage(language) ? sidecar?.error : undefined,
                     onRunScript: () => handleRunScript(n.id),
                     onSaveScript: (code: string) => handleSaveScript(n.id, code),
                 },
             }
+        }).map(n => {
+            // Branches the run did not take are greyed out
+            if ((n.data.state as { status?: string } | undefined)?.status !== 'skipped') return n
+            return { ...n, style: { ...n.style, opacity: 0.35, filter: 'grayscale(1)' } }
+        }).map(n => {
+            if (!debugMode) return n
+            // Debug mode: DebugOverlay on every node, an inspector on nodes stopped at a breakpoint
+            const ns = replay ? undefined : runState?.nodes[n.id]
+            const executor = executorRef.current
+            const debugBreak: DebugBreak | undefined = ns?.breakpoint && executor ? {
+                kind: ns.breakpoint,
+                value: ns.breakpoint === 'before' ? ns.inputs : ns.output,
+                ctx: debugCtx(nodes, edges, n, runState!.runId, ns.inputs),
+                inbox: busRef.current.get(n.id).getInbox().map(m => ({
+                    from: busRef.current.nameOf(m.from), type: m.type, payload: m.payload,
+                })),
+                onEdit: (value) => executor.setBreakValue(n.id, value),
+                onContinue: () => executor.continue(n.id),
+                onStep: () => executor.step(n.id),
+            } : undefined
+            return { ...n, data: { ...n.data, debugMode: true, _debugId: n.id, debugBreak } }
         })
-    }, [nodes, handleRunScript, handleSaveScript])
+    }, [nodes, edges, runState, replay, replayState, history.stats, activeId, sidecar, debugMode, handleRunScript, handleSaveScript, active, lookupWorkflow, storedDocs])
+
+    // ── Decorate edges with their condition, port mismatch + whether the run took them ──
+    const decoratedEdges = useMemo(() => edges.map(e => {
+        const source = nodes.find(n => n.id === e.source)
+        const target = nodes.find(n => n.id === e.target)
+        const mismatch = source && target ? edgePortMismatch(source, target) : undefined
+        const condition = isFallbackEdge(source?.data, e.target)
+            ? 'fallback'
+            : conditionLabel(conditionOf(e))
+        const label = [condition, mismatch && `⚠ ${mismatch}`].filter(Boolean).join(' · ')
+        const taken = replay ? undefined : runState?.edges[e.id]
+        if (!label && taken !== false) return e
+        return {
+            ...e,
+            ...(mismatch ? {
+                style: { ...e.style, stroke: '#f59e0b' },
+            } : {}),
+            ...(label ? {
+                label,
+                labelStyle: { fill: mismatch ? '#fbbf24' : '#cbd5e1', fontSize: 10, fontFamily: "'JetBrains Mono', monospace" },
+                labelBgStyle: { fill: '#0f0f1a', fillOpacity: 0.9 },
+                labelBgPadding: [4, 2] as [number, number],
+                labelBgBorderRadius: 4,
+            } : {}),
+            ...(taken === false ? {
+                animated: false,
+                style: { ...e.style, stroke: '#334155', strokeDasharray: '4 4', opacity: 0.5 },
+            } : {}),
+        }
+    }), [nodes, edges, runState, replay])
+
+    // ── Edge conditions ──
+    const conditionEdge = conditionEdgeId ? edges.find(e => e.id === conditionEdgeId) : undefined
+    useEffect(() => {
+        if (conditionEdgeId && !conditionEdge) setConditionEdgeId(null)
+    }, [conditionEdgeId, conditionEdge])
+
+    const handleConditionChange = useCallback((edgeId: string, condition: EdgeCondition | undefined) => {
+        mutateState((prevNodes, prevEdges) => ({
+            nodes: prevNodes,
+            edges: prevEdges.map(e => {
+                if (e.id !== edgeId) return e
+                const { condition: _removed, ...data } = e.data ?? {}
+                return { ...e, data: condition ? { ...data, condition } : data }
+            }),
+        }))
+    }, [mutateState])
+
+    // A router edge follows the router's case it leaves from
+    const conditionRouterBranch = useMemo(() => {
+        const source = conditionEdge && nodes.find(n => n.id === conditionEdge.source)
+        if (!conditionEdge || source?.type !== 'router') return undefined
+        const handle = conditionEdge.sourceHandle || DEFAULT_HANDLE
+        const index = routerHandles(source.data).indexOf(handle)
+        return routerCases(source.data)[index]?.label ?? 'Default'
+    }, [conditionEdge, nodes])
+
+    // Port types of the edge, and what flowed across it in the last run
+    const conditionEdgePorts = useMemo(() => {
+        const source = conditionEdge && nodes.find(n => n.id === conditionEdge.source)
+        const target = conditionEdge && nodes.find(n => n.id === conditionEdge.target)
+        if (!source || !target) return undefined
+        return {
+            label: `${portTypeLabel(edgeSchemaOf(source, target))} → ${portTypeLabel(inputSchemaOf(target))}`,
+            mismatch: edgePortMismatch(source, target),
+        }
+    }, [conditionEdge, nodes])
+    const conditionEdgePayload = conditionEdge && runState && !replay
+        ? { taken: runState.edges[conditionEdge.id], value: runState.payloads[conditionEdge.id] }
+        : undefined
+
+    const labelOfNode = (id: string) => String(nodes.find(n => n.id === id)?.data.label || id)
 
     // ── Update node data from settings panel ──
     const handleSettingsUpdate = useCallback((nodeId: string, data: Record<string, any>) => {
@@ -400,6 +938,9 @@ function BuilderSimpleInner() {
 
     const settingsNode = settingsNodeId ? nodes.find(n => n.id === settingsNodeId) : null
 
+    // Templates in settings: completions and a preview against the last run (secrets masked)
+    const settingsTemplates = useSettingsTemplates(settingsNode, nodes, edges, runState)
+
     // ── Rename handler ──
     const handleRename = useCallback((nodeId: string, newName: string) => {
         mutateState((prevNodes, prevEdges) => ({
@@ -416,16 +957,52 @@ function BuilderSimpleInner() {
         return node?.type === 'starting'
     }, [])
 
+    // ── Drill-down into subflow nodes ──
+    const handleNodeDoubleClick = useCallback((nodeId: string) => {
+        const node = nodesRef.current.find(n => n.id === nodeId)
+        const workflowId = node?.type === 'subflow' ? linkedWorkflowId(node.data) : ''
+        if (!workflowId || workflowId === activeId) return
+        if (!workflows.some(w => w.id === workflowId)) {
+            // A workflow only saved in WorkflowStore opens as a tab
+            const doc = storedDocs[workflowId]
+            if (!doc) return
+            setWorkflows(prev => [...prev, fromWorkflowDoc(doc)])
+        }
+        setDrill(prev => [...prev, { workflowId: activeId, nodeId, viewport: getViewport() }])
+        setActiveId(workflowId)
+    }, [activeId, workflows, storedDocs, getViewport])
+
+    /** Go back up to the drill-down level at `depth` (0 = top level) */
+    const handleDrillOut = useCallback((depth: number) => {
+        const level = drill[depth]
+        if (!level) return
+        restoreViewportRef.current = level.viewport
+        setDrill(drill.slice(0, depth))
+        setActiveId(level.workflowId)
+    }, [drill])
+
+    // One crumb per level; below the top, the tooltip names the subflow node that leads there
+    const breadcrumbs = [...drill.map(level => level.workflowId), activeId].map((workflowId, depth) => {
+        const via = drill[depth - 1]
+        const viaNode = via && workflows.find(w => w.id === via.workflowId)?.nodes.find(n => n.id === via.nodeId)
+        return {
+            label: workflows.find(w => w.id === workflowId)?.name ?? workflowId,
+            title: viaNode ? `via ${viaNode.data.label ?? viaNode.id}` : undefined,
+        }
+    })
+
     // ── Workflow actions ──
     const handleNewWorkflow = useCallback(() => {
         const wf = createWorkflow(`Workflow ${workflows.length + 1}`)
         setWorkflows(prev => [...prev, wf])
+        setDrill([])
         setActiveId(wf.id)
         resetHistory(wf.nodes, wf.edges)
         setTimeout(() => fitView({ padding: FIT_VIEW_PADDING, maxZoom: DEFAULT_ZOOM }), 200)
     }, [workflows.length, fitView, resetHistory])
 
     const handleSelectWorkflow = useCallback((id: string) => {
+        setDrill([])
         setActiveId(id)
         setTimeout(() => fitView({ padding: FIT_VIEW_PADDING }), 150)
     }, [fitView])
@@ -445,58 +1022,71 @@ function BuilderSimpleInner() {
                 }}
             >
                 {workflows.map(wf => (
-                    <button
+                    <ToolbarButton
                         key={wf.id}
                         data-testid={`workflow-tab-${wf.id}`}
+                        tone="neutral"
+                        active={activeId === wf.id}
                         onClick={() => handleSelectWorkflow(wf.id)}
-                        style={{
-                            minHeight: 44, minWidth: 44,
-                            padding: '6px 16px',
-                            borderRadius: 8,
-                            border: activeId === wf.id
-                                ? '1px solid rgba(139,92,246,0.4)'
-                                : '1px solid rgba(255,255,255,0.06)',
-                            background: activeId === wf.id
-                                ? 'rgba(139,92,246,0.15)'
-                                : 'rgba(255,255,255,0.03)',
-                            color: activeId === wf.id ? '#c084fc' : '#94a3b8',
-                            fontSize: 12, fontWeight: 600,
-                            fontFamily: 'Inter, sans-serif',
-                            cursor: 'pointer',
-                            whiteSpace: 'nowrap',
-                            transition: 'all 0.15s',
-                        }}
                     >
                         {wf.name}
-                    </button>
+                    </ToolbarButton>
                 ))}
-                <button
+                <ToolbarButton
                     data-testid="workflow-new-btn"
+                    tone="green"
                     onClick={handleNewWorkflow}
-                    style={{
-                        minHeight: 44, minWidth: 44,
-                        padding: '6px 16px',
-                        borderRadius: 8,
-                        border: '1px solid rgba(34,197,94,0.3)',
-                        background: 'rgba(34,197,94,0.08)',
-                        color: '#22c55e',
-                        fontSize: 12, fontWeight: 600,
-                        fontFamily: 'Inter, sans-serif',
-                        cursor: 'pointer',
-                        whiteSpace: 'nowrap',
-                        display: 'flex', alignItems: 'center', gap: 4,
-                        transition: 'all 0.15s',
-                    }}
+                    style={{ display: 'flex', alignItems: 'center', gap: 4 }}
                 >
                     + New
-                </button>
+                </ToolbarButton>
+                <div style={{ flex: 1 }} />
+                <ApprovalsInbox onOpen={handleSelectWorkflow} />
+                <ToolbarButton
+                    data-testid="workflow-run-btn"
+                    tone="violet"
+                    onClick={() => runParams.params ? setRunParamsOpen(open => !open) : handleRunWorkflow()}
+                    disabled={isRunning}
+                    title="Run workflow from the starting node"
+                >
+                    {isRunning ? '⏳ Running…' : '▶ Run'}
+                </ToolbarButton>
+                {runState && runState.status !== 'idle' && (
+                    <span
+                        data-testid="workflow-run-status"
+                        style={{
+                            fontSize: 11, fontWeight: 600, fontFamily: 'Inter, sans-serif',
+                            color: runState.status === 'error' ? '#ef4444'
+                                : runState.status === 'done' ? '#22c55e' : '#94a3b8',
+                        }}
+                    >
+                        {runState.status}
+                    </span>
+                )}
+                <ToolbarButton
+                    data-testid="workflow-replay-btn"
+                    tone="neutral"
+                    active={!!replay}
+                    onClick={() => replay ? closeReplay() : history.openReplay()}
+                    disabled={isRunning || !history.hasHistory}
+                    title="Replay the last recorded run step by step"
+                >
+                    ⏮ Replay
+                </ToolbarButton>
+                <TestRunButton
+                    test={testMode.test}
+                    runs={testMode.runs}
+                    onRunsChange={testMode.setRuns}
+                    disabled={isRunning}
+                    onRun={handleRunTest}
+                />
             </div>
 
             {/* ── Canvas area ── */}
             <div style={{ flex: 1, position: 'relative' }}>
                 <FlowStudio
                     nodes={decoratedNodes}
-                    edges={edges}
+                    edges={decoratedEdges}
                     nodeTypes={memoNodeTypes}
                     onNodesChange={onNodesChange}
                     editMode
@@ -508,11 +1098,73 @@ function BuilderSimpleInner() {
                     onConfigure={handleConfigure}
                     onRename={handleRename}
                     hideBeforeButton={hideBeforeButton}
+                    canInline={canInline}
+                    onNodeDoubleClick={handleNodeDoubleClick}
+                    onEdgeClick={setConditionEdgeId}
+                    nodesConnectable
+                    onConnect={handleConnect}
                     onUndo={undo}
                     onRedo={redo}
                     canUndo={canUndo}
                     canRedo={canRedo}
                 >
+                    <SubflowBreadcrumbs levels={breadcrumbs} onSelect={handleDrillOut} />
+                    {runParams.open && runParams.params && runRoot && (
+                        <RunParamsForm
+                            key={runRoot.id}
+                            workflowName={runRoot.name}
+                            params={runParams.params}
+                            sets={runParams.sets}
+                            initial={lastParams(runRoot.id)}
+                            onRun={handleRunWorkflow}
+                            onSaveSet={runParams.saveSet}
+                            onDeleteSet={name => runParams.saveSet(name)}
+                            onClose={() => setRunParamsOpen(false)}
+                        />
+                    )}
+                    {conditionEdge && (
+                        <EdgeConditionPanel
+                            title={`${labelOfNode(conditionEdge.source)} → ${labelOfNode(conditionEdge.target)}`}
+                            condition={conditionOf(conditionEdge)}
+                            routerBranch={conditionRouterBranch}
+                            ports={conditionEdgePorts?.label}
+                            portMismatch={conditionEdgePorts?.mismatch}
+                            payload={conditionEdgePayload}
+                            onChange={condition => handleConditionChange(conditionEdge.id, condition)}
+                            onClose={() => setConditionEdgeId(null)}
+                        />
+                    )}
+                    {extractable.length >= 2 && (
+                        <button
+                            data-testid="extract-subflow-btn"
+                            onClick={handleExtractSubflow}
+                            disabled={!!extractBlocker}
+                            title={extractBlocker
+                                ? `Can't extract: ${extractBlocker}`
+                                : 'Move the selected nodes into a new workflow behind a subflow node'}
+                            style={{
+                                position: 'absolute', bottom: 16, left: '50%', transform: 'translateX(-50%)',
+                                zIndex: 20,
+                                padding: '6px 12px',
+                                borderRadius: 8,
+                                border: '1px solid rgba(99,102,241,0.4)',
+                                background: 'rgba(15,15,30,0.95)',
+                                color: '#a5b4fc',
+                                fontSize: 11, fontWeight: 600,
+                                fontFamily: 'Inter, sans-serif',
+                                cursor: extractBlocker ? 'not-allowed' : 'pointer',
+                                opacity: extractBlocker ? 0.6 : 1,
+                            }}
+                        >
+                            Extract to subflow ({extractable.length})
+                            {extractBlocker && (
+                                <span data-testid="extract-subflow-blocker" style={{ display: 'block', color: '#f59e0b', fontWeight: 400 }}>
+                                    {extractBlocker}
+                                </span>
+                            )}
+                        </button>
+                    )}
+                    {executorRef.current && <RunControls executor={executorRef.current} />}
                     <EventsPanel events={events} />
                 </FlowStudio>
                 {settingsNode && (
@@ -520,9 +1172,26 @@ function BuilderSimpleInner() {
                         node={settingsNode}
                         onClose={() => setSettingsNodeId(null)}
                         onUpdate={handleSettingsUpdate}
+                        templateSuggestions={settingsTemplates.suggestions}
+                        templateScope={settingsTemplates.scope}
+                        templateKeys={settingsTemplates.keys}
                     />
                 )}
             </div>
+
+            {/* ── Test report ── */}
+            {testMode.test && <TestReportPanel test={testMode.test} onClose={handleCloseTest} />}
+
+            {/* ── Replay of a recorded run ── */}
+            {replay && (
+                <RunReplayBar
+                    runs={replay.runs}
+                    record={replay.record}
+                    store={replay.store}
+                    onSelect={runId => history.openReplay(runId)}
+                    onClose={closeReplay}
+                />
+            )}
         </div>
     )
-}
+})
@@ -22,6 +22,7 @@ import { WidgetIcon } from '@/components/WidgetIcon'
 import { CodeEditor, IconSelector, ToggleGroup, ToggleGroupItem } from '@/components/kit'
 import type { CodeLanguage } from '@/components/kit'
 import { generateId } from '@/engine/core'
+import { SCRIPT_SCOPE } from '@/engine/execution-context'
 import type { ThemeKey } from '@/flow-studio/types'
 
 // Widget node components for live preview
@@ -942,6 +943,7 @@ function VisualField({ fieldKey, value, widgetDef, onChange }: {
                     value={String(value)}
                     onChange={v => handleChange(v)}
                     language={codeLanguage}
+                    scope={widgetDef.type === 'job' ? SCRIPT_SCOPE : undefined}
                     minHeight={120}
                     maxHeight={300}
                     testId={`field-${fieldKey}`}
@@ -5,8 +5,27 @@
  *   Compact (≤60px)  → Node ID + type badge
  *   Normal  (61-280) → JSON of state
  *   Large   (>280px) → Full node data JSON
+ *
+ * Breakpoints (data.breakpoints) are shown as badges. While the run is
+ * stopped at one of the node's breakpoints (data.debugBreak), the overlay
+ * becomes an inspector: inputs / output (editable), ctx and messenger inbox,
+ * with Continue and Step buttons.
  */
 
+import { useState, useEffect, useRef } from 'react'
+
+/** What the host passes in `data.debugBreak` while a node is stopped at a breakpoint */
+export interface DebugBreak {
+    kind: 'before' | 'after'
+    /** Inputs (before) or output (after) the node carries on with */
+    value: unknown
+    ctx: Record<string, unknown>
+    inbox: { from: string; type: string; payload: unknown }[]
+    onEdit: (value: unknown) => void
+    onContinue: () => void
+    onStep: () => void
+}
+
 interface DebugOverlayProps {
     data: Record<string, any>
     nodeId?: string
@@ -60,6 +79,26 @@ export function DebugOverlay({ data, nodeId, type, subType }: DebugOverlayProps)
         )
     }
 
+    const breakpoints: { before?: boolean; after?: boolean } = data.breakpoints || {}
+    const breakBadges = (['before', 'after'] as const).filter(k => breakpoints[k]).map(k => (
+        <span key={k} data-testid={`debug-breakpoint-${k}`} style={{ ...badge, color: '#f87171', borderColor: 'rgba(239,68,68,0.4)', background: 'rgba(239,68,68,0.12)' }}>
+            ● {k}
+        </span>
+    ))
+
+    // ── Stopped at a breakpoint: inspector ──
+    if (data.debugBreak) {
+        return (
+            <div style={overlay}>
+                <div style={{ display: 'flex', gap: 4, alignItems: 'center', marginBottom: 4 }}>
+                    <span style={{ fontWeight: 700, color: '#4ade80', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>🐛 {nodeId || '—'}</span>
+                    <span style={{ ...badge, color: '#fbbf24', borderColor: 'rgba(234,179,8,0.4)' }}>⏸ {data.debugBreak.kind}</span>
+                </div>
+                <BreakInspector dbg={data.debugBreak} />
+            </div>
+        )
+    }
+
     // ── Large: full node data JSON ──
     if (isLarge) {
         // Filter out functions and very large fields
@@ -75,6 +114,7 @@ export function DebugOverlay({ data, nodeId, type, subType }: DebugOverlayProps)
                 <div style={{ display: 'flex', gap: 4, alignItems: 'center', marginBottom: 4 }}>
                     <span style={{ fontWeight: 700, color: '#4ade80' }}>🐛 {nodeId || '—'}</span>
                     <span style={badge}>{type}{subType ? `:${subType}` : ''}</span>
+                    {breakBadges}
                 </div>
                 <div style={{
                     flex: 1, overflow: 'auto',
@@ -108,6 +148,7 @@ export function DebugOverlay({ data, nodeId, type, subType }: DebugOverlayProps)
                     {nodeId || '—'}
                 </span>
                 <span style={badge}>{type}{subType ? `:${subType}` : ''}</span>
+                {breakBadges}
             </div>
             <div style={{
                 flex: 1, overflow: 'auto',
@@ -121,3 +162,131 @@ export function DebugOverlay({ data, nodeId, type, subType }: DebugOverlayProps)
         </div>
     )
 }
+
+// ── Breakpoint inspector ─────────────────────────────────────────────────────
+
+type InspectorTab = 'value' | 'ctx' | 'inbox'
+
+function BreakInspector({ dbg }: { dbg: DebugBreak }) {
+    const [tab, setTab] = useState<InspectorTab>('value')
+    const [draft, setDraft] = useState(() => JSON.stringify(dbg.value ?? null, null, 2))
+    const [error, setError] = useState<string | null>(null)
+    const rootRef = useRef<HTMLDivElement>(null)
+
+    // Keep clicks inside the inspector from (de)selecting the node — the
+    // canvas listens with native listeners, so React's stopPropagation is too late
+    useEffect(() => {
+        const el = rootRef.current
+        if (!el) return
+        const stop = (e: Event) => e.stopPropagation()
+        el.addEventListener('pointerdown', stop)
+        el.addEventListener('pointerup', stop)
+        return () => {
+            el.removeEventListener('pointerdown', stop)
+            el.removeEventListener('pointerup', stop)
+        }
+    }, [])
+
+    // A new stop (or an edit applied elsewhere) resets the draft
+    useEffect(() => {
+        setDraft(JSON.stringify(dbg.value ?? null, null, 2))
+        setError(null)
+    }, [dbg.value])
+
+    /** Parse and hand the draft to the executor; false when it isn't valid JSON */
+    const apply = (): boolean => {
+        try {
+            const value = JSON.parse(draft)
+            if (JSON.stringify(value) !== JSON.stringify(dbg.value ?? null)) dbg.onEdit(value)
+            setError(null)
+            return true
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e))
+            return false
+        }
+    }
+
+    const tabs: [InspectorTab, string][] = [
+        ['value', dbg.kind === 'before' ? 'inputs' : 'output'],
+        ['ctx', 'ctx'],
+        ['inbox', `inbox (${dbg.inbox.length})`],
+    ]
+    const pane: React.CSSProperties = {
+        flex: 1, overflow: 'auto', minHeight: 0,
+        background: 'rgba(0,0,0,0.3)',
+        borderRadius: 3, padding: 3,
+    }
+    const button = (color: string): React.CSSProperties => ({
+        flex: 1, padding: '2px 0', borderRadius: 3,
+        border: `1px solid ${color}66`, background: `${color}22`, color,
+        fontFamily: 'inherit', fontSize: 'inherit', fontWeight: 700,
+        cursor: 'pointer',
+    })
+
+    return (
+        <div
+            ref={rootRef}
+            className="nodrag nopan nowheel"
+            data-testid="debug-inspector"
+            style={{ flex: 1, minHeight: 0, display: 'flex', flexDirection: 'column', gap: 3 }}
+        >
+            <div style={{ display: 'flex', gap: 2 }}>
+                {tabs.map(([key, label]) => (
+                    <button
+                        key={key}
+                        data-testid={`debug-tab-${key}`}
+                        onClick={() => setTab(key)}
+                        style={{
+                            padding: '0 4px', borderRadius: 3, border: 'none',
+                            background: tab === key ? 'rgba(34,197,94,0.2)' : 'transparent',
+                            color: tab === key ? '#4ade80' : '#166534',
+                            fontFamily: 'inherit', fontSize: 'inherit', cursor: 'pointer',
+                        }}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'value' && (
+                <textarea
+                    data-testid="debug-break-value"
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    onBlur={apply}
+                    spellCheck={false}
+                    style={{
+                        ...pane, resize: 'none', border: error ? '1px solid #ef4444' : '1px solid transparent',
+                        color: '#86efac', fontFamily: 'inherit', fontSize: 'inherit', lineHeight: 'inherit',
+                        outline: 'none',
+                    }}
+                />
+            )}
+            {tab === 'ctx' && (
+                <pre style={{ ...pane, margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-all', color: '#86efac' }}>
+                    {JSON.stringify(dbg.ctx, null, 1)}
+                </pre>
+            )}
+            {tab === 'inbox' && (
+                <div data-testid="debug-inbox" style={pane}>
+                    {dbg.inbox.length === 0 && <span style={{ color: '#166534' }}>empty</span>}
+                    {dbg.inbox.map((m, i) => (
+                        <div key={i} style={{ wordBreak: 'break-all' }}>
+                            <span style={{ color: '#4ade80' }}>{m.from}</span> [{m.type}] {typeof m.payload === 'string' ? m.payload : JSON.stringify(m.payload)}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {error && <div data-testid="debug-break-error" style={{ color: '#ef4444', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{error}</div>}
+
+            <div style={{ display: 'flex', gap: 3 }}>
+                <button data-testid="debug-continue" onClick={() => apply() && dbg.onContinue()} style={button('#22c55e')}>
+                    ▶ Continue
+                </button>
+                <button data-testid="debug-step" onClick={() => apply() && dbg.onStep()} style={button('#eab308')}>
+                    ⤼ Step
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,71 @@
+/**
+ * FormField — editor for one field of a FieldSchema form (see
+ * engine/user-form.ts), chosen by the field's type / format: checkbox,
+ * select, textarea (arrays, objects, multiline, code) or input.
+ *
+ * Values are edited as text; validateForm() coerces them on submit.
+ * Used by user-node review forms and the run parameters form.
+ */
+
+import type { FieldSchema } from '@/engine/widget-subtypes-registry'
+import { formValueText } from '@/engine/user-form'
+
+const fieldStyle = (color: string, invalid: boolean) => ({
+    width: '100%', boxSizing: 'border-box' as const,
+    background: 'rgba(255,255,255,0.03)', color: '#e2e8f0',
+    border: `1px solid ${invalid ? '#ef444488' : `${color}22`}`, borderRadius: 6,
+    padding: '4px 6px', fontSize: 10,
+    fontFamily: "'JetBrains Mono', monospace",
+    outline: 'none',
+})
+
+/** Editor for one form field, chosen by its FieldSchema type / format */
+export function FormField({ id, field, value, error, color, testIdPrefix = 'user-form', onChange }: {
+    id: string
+    field: FieldSchema
+    value: unknown
+    error?: string
+    color: string
+    /** Test IDs are `<prefix>-<id>` and `<prefix>-error-<id>` */
+    testIdPrefix?: string
+    onChange: (value: unknown) => void
+}) {
+    const style = fieldStyle(color, !!error)
+    const testId = `${testIdPrefix}-${id}`
+    let editor
+    if (field.type === 'boolean') {
+        editor = <input data-testid={testId} type="checkbox" checked={value === true} onChange={e => onChange(e.target.checked)} />
+    } else if (field.type === 'enum') {
+        editor = (
+            <select data-testid={testId} value={formValueText(field, value)} onChange={e => onChange(e.target.value)} style={style}>
+                {!field.required && <option value="">—</option>}
+                {field.enum?.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+        )
+    } else if (field.type === 'array' || field.type === 'object' || field.format === 'multiline' || field.format === 'code') {
+        editor = (
+            <textarea
+                data-testid={testId} rows={3} value={formValueText(field, value)}
+                onChange={e => onChange(e.target.value)} style={{ ...style, resize: 'vertical' }}
+            />
+        )
+    } else {
+        editor = (
+            <input
+                data-testid={testId} type={field.type === 'number' ? 'number' : 'text'}
+                min={field.min} max={field.max} value={formValueText(field, value)}
+                onChange={e => onChange(e.target.value)} style={style}
+            />
+        )
+    }
+
+    return (
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 2, marginBottom: 6 }} title={field.description}>
+            <span style={{ fontSize: 9, fontWeight: 600, color: '#94a3b8', fontFamily: 'Inter' }}>
+                {field.label || id}{field.required && <span style={{ color: '#ef4444' }}> *</span>}
+            </span>
+            {editor}
+            {error && <span data-testid={`${testIdPrefix}-error-${id}`} style={{ fontSize: 9, color: '#ef4444', fontFamily: 'Inter' }}>{error}</span>}
+        </label>
+    )
+}
@@ -11,8 +11,10 @@ export const STATUS_DOT_COLORS: Record<string, string> = {
     idle: '#475569',
     waking: '#f59e0b',
     running: '#3b82f6',
+    paused: '#eab308',
     done: '#10b981',
     error: '#ef4444',
+    skipped: '#334155',
 }
 
 export function StatusDot({ status }: { status: string }) {
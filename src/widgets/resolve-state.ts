@@ -13,6 +13,10 @@
  *   // then use state.status, state.execTime, etc.
  */
 
+import type { MapItemState } from '@/engine/fan-out'
+import type { AttemptState } from '@/engine/retry'
+import type { JoinResult } from '@/engine/join'
+
 export interface NodeState {
     status?: string
     currentTask?: string
@@ -20,10 +24,27 @@ export interface NodeState {
     progress?: number
     execTime?: string
     callsCount?: number
+    /** Run history (see engine/run-store.ts) */
+    avgExecTime?: string
+    totalRuns?: number
+    /** Expectation verdict (see engine/expectations.ts) */
+    explanation?: string
+    /** Linked workflow of a subflow (see engine/subflow.ts) */
+    nodeCount?: number
+    hasAI?: boolean
+    /** Branch a router took (see engine/conditions.ts) */
+    route?: string
+    /** Per-item state of a map's body (see engine/fan-out.ts) */
+    items?: MapItemState[]
+    /** Current attempt of a job (see engine/retry.ts) */
+    attempt?: AttemptState
+    /** How a node's inputs were joined (see engine/join.ts) */
+    join?: JoinResult
 }
 
 const STATE_KEYS: (keyof NodeState)[] = [
-    'status', 'currentTask', 'thought', 'progress', 'execTime', 'callsCount',
+    'status', 'currentTask', 'thought', 'progress', 'execTime', 'callsCount', 'avgExecTime', 'totalRuns', 'explanation',
+    'nodeCount', 'hasAI', 'route', 'items', 'attempt', 'join',
 ]
 
 export function resolveState(data: Record<string, any>): NodeState {
@@ -28,6 +28,8 @@ const THEME_COMPONENTS: Record<ThemeKey, Record<string, NodeComponent>> = {
         job: wibeglow.JobNode,
         user: wibeglow.UserNode,
         subflow: wibeglow.SubFlowNode,
+        router: wibeglow.RouterNode,
+        map: wibeglow.MapNode,
         group: wibeglow.GroupNode,
         informer: wibeglow.InformerNode,
         expectation: wibeglow.ExpectationNode,
@@ -69,7 +71,7 @@ function createThemeAwareNode(widgetType: string, store: FlowStudioStore) {
  */
 export function useThemeAwareNodeTypes(
     store: FlowStudioStore,
-    widgetTypes: string[] = ['starting', 'job', 'user', 'subflow', 'group', 'informer', 'expectation', 'artifact'],
+    widgetTypes: string[] = ['starting', 'job', 'user', 'subflow', 'router', 'map', 'group', 'informer', 'expectation', 'artifact'],
 ): Record<string, React.ComponentType<any>> {
     // Memoize on store identity only — the observer inside each wrapper
     // handles re-render when store.theme changes
@@ -1,17 +1,20 @@
 import { Handle, Position } from '@xyflow/react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { CheckCircle2, XCircle, Clock, Loader2, FileText, Wrench, Briefcase } from 'lucide-react'
+import { CheckCircle2, XCircle, Clock, Loader2, FileText, Wrench, Briefcase, Braces } from 'lucide-react'
 import { resolveState } from '@/widgets/resolve-state'
 import { subTypeRegistry } from '@/engine/widget-subtypes-registry'
 
 /**
  * ExpectationNode (wibeglow) — assertion node connected on the side of an agent.
  *
- * Used to verify that an agent produces a specific artifact or calls a specific tool.
+ * Used to verify that an agent produces a specific artifact, calls a specific
+ * tool or returns a matching output. The WorkflowExecutor evaluates it when
+ * the attached job finishes (engine/expectations.ts).
  *
  * data.label     — expectation title (e.g. "Creates README.md")
- * data.variant   — 'artifact' | 'tool-call' | 'job'
+ * data.variant   — 'artifact' | 'tool-call' | 'output' | 'job'
  * data.status    — 'idle' | 'working' | 'pass' | 'fail'
+ * data.state.explanation — why the last evaluation passed or failed
  * data.progress  — 0-100 (fills border from dashed→solid)
  * data.target    — expected artifact name or tool name
  * data.color     — accent color override
@@ -59,6 +62,7 @@ function getStatusConfig(status: string, accentColor: string) {
 const VARIANT_ICON: Record<string, React.ComponentType<any>> = {
     'artifact': FileText,
     'tool-call': Wrench,
+    'output': Braces,
     'job': Briefcase,
 }
 
@@ -121,13 +125,14 @@ export function ExpectationNode({ data }: { data: any }) {
     const accentColor = data.color || getVariantColor(variant)
     const progress = st.progress ?? data.progress ?? 0
     const cfg = getStatusConfig(status, accentColor)
+    const explanation: string | undefined = st.explanation
     const VariantIcon = VARIANT_ICON[variant] || FileText
     const isCompact = w <= 80
     const isWorking = status === 'working'
     const borderRadius = isCompact ? 8 : 10
 
     return (
-        <div style={{ position: 'relative' }}>
+        <div style={{ position: 'relative' }} title={explanation}>
             {/* Input handle — left side, connects from agent */}
             <Handle type="target" position={Position.Left} style={{
                 background: cfg.color, border: `2px solid ${cfg.border}`,
@@ -186,7 +191,7 @@ export function ExpectationNode({ data }: { data: any }) {
                 {isCompact ? (
                     <CompactView cfg={cfg} variant={variant} VariantIcon={VariantIcon} data={data} accentColor={accentColor} />
                 ) : (
-                    <FullView cfg={cfg} VariantIcon={VariantIcon} data={data} w={w} h={h} accentColor={accentColor} progress={progress} status={status} />
+                    <FullView cfg={cfg} VariantIcon={VariantIcon} data={data} w={w} h={h} accentColor={accentColor} progress={progress} status={status} explanation={explanation} />
                 )}
 
                 {/* Pass pulse animation */}
@@ -269,7 +274,7 @@ function CompactView({ cfg, VariantIcon, data, accentColor }: {
 
 // ── Full view (M/L size) ────────────────────────────────────────────────────────
 
-function FullView({ cfg, VariantIcon, data, w, h, accentColor, progress, status }: {
+function FullView({ cfg, VariantIcon, data, w, h, accentColor, progress, status, explanation }: {
     cfg: ReturnType<typeof getStatusConfig>
     VariantIcon: React.ComponentType<any>
     data: any
@@ -278,6 +283,7 @@ function FullView({ cfg, VariantIcon, data, w, h, accentColor, progress, status
     accentColor: string
     progress: number
     status: string
+    explanation?: string
 }) {
     const StatusIcon = cfg.icon
     const isLarge = w >= 200
@@ -344,6 +350,21 @@ function FullView({ cfg, VariantIcon, data, w, h, accentColor, progress, status
                     </div>
                 )}
 
+                {/* Verdict explanation (after evaluation) */}
+                {explanation && (
+                    <div data-testid="expectation-explanation" style={{
+                        marginTop: 2,
+                        fontSize: isLarge ? 8 : 7,
+                        color: cfg.color,
+                        lineHeight: 1.2,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                    }}>
+                        {explanation}
+                    </div>
+                )}
+
                 {/* Progress bar (when working + progress > 0) */}
                 {status === 'working' && progress > 0 && isLarge && h > 50 && (
                     <div style={{
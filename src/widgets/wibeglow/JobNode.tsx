@@ -8,8 +8,9 @@ import { StatusDot } from '@/widgets/StatusDot'
 import { ShimmeringText, SplittingText } from '@/components/animate-ui'
 import { BaseNode } from '@/widgets/BaseNode'
 import { WidgetIcon, AnimatedIcon } from '@/components/WidgetIcon'
-import { resolveState } from '@/widgets/resolve-state'
+import { resolveState, type NodeState } from '@/widgets/resolve-state'
 import { subTypeRegistry } from '@/engine/widget-subtypes-registry'
+import { attemptLabel, timeoutLeft } from '@/engine/retry'
 
 /**
  * JobNode (wibeglow) — Unified modern dark node for agents and scripts.
@@ -28,10 +29,79 @@ import { subTypeRegistry } from '@/engine/widget-subtypes-registry'
  * data.code — source code (script variant)
  * data.configured — true after save (script variant)
  * data.logs — string[] output
+ * data.diagnostics — TS transpile diagnostics [{ line, message }] (script variant)
+ * data.sandboxUnavailable — true while the sidecar for sh/py jobs is down (script variant)
+ * data.sandboxError — last error the sidecar reported outside a run (script variant)
+ * data.state.avgExecTime / totalRuns — run history stats (see run-store.ts)
+ * data.state.attempt — current attempt + timeout (see retry.ts)
+ * data.state.join — how its inputs were joined in the last run (see join.ts)
  * data.progress — 0-100
  * data.width / data.height — dimensions
  */
 
+/** Average exec time + total runs from run history (hidden before the first run) */
+function RunStats({ state }: { state: NodeState }) {
+    if (!state.totalRuns) return null
+    return (
+        <span data-testid="node-run-stats" title={`Average over ${state.totalRuns} runs`}>
+            ⌀ {state.avgExecTime || '—'} · {state.totalRuns} {state.totalRuns === 1 ? 'run' : 'runs'}
+        </span>
+    )
+}
+
+/** "attempt N of M" with retries, plus the time left on the attempt's timeout while running */
+function AttemptBadge({ state, color }: { state: NodeState; color: string }) {
+    const attempt = state.attempt
+    const running = state.status === 'running'
+    const [at, setAt] = useState(() => Date.now())
+    useEffect(() => {
+        if (!running || !attempt?.timeout) return
+        setAt(Date.now())
+        const timer = setInterval(() => setAt(Date.now()), 250)
+        return () => clearInterval(timer)
+    }, [running, attempt?.timeout, attempt?.startedAt])
+
+    if (!attempt) return null
+    const left = running ? timeoutLeft(attempt, Math.max(at, attempt.startedAt)) : undefined
+    if (attempt.of <= 1 && !left) return null
+    return (
+        <span
+            data-testid="job-attempt"
+            title={attempt.timeout > 0 ? `Timeout ${attempt.timeout}ms per attempt` : undefined}
+            style={{
+                fontSize: 7, fontWeight: 700, color,
+                background: `${color}18`, padding: '1px 5px', borderRadius: 3,
+                fontFamily: "'JetBrains Mono', monospace",
+                whiteSpace: 'nowrap', flexShrink: 0,
+            }}
+        >
+            {[attempt.of > 1 ? attemptLabel(attempt) : '', left ? `⏱ ${left}` : ''].filter(Boolean).join(' · ')}
+        </span>
+    )
+}
+
+/** "⋈ 2 of 3" once a join ran, with its outcome when it was not met (same badge as MobileRenderer) */
+function JoinBadge({ state, color }: { state: NodeState; color: string }) {
+    const join = state.join
+    if (!join) return null
+    const accent = join.outcome === 'met' ? color : '#f59e0b'
+    return (
+        <span
+            data-testid="job-join"
+            data-outcome={join.outcome}
+            title={`Join — ${join.arrived.length} input(s) arrived`}
+            style={{
+                fontSize: 7, fontWeight: 700, color: accent,
+                background: `${accent}18`, padding: '1px 5px', borderRadius: 3,
+                fontFamily: "'JetBrains Mono', monospace",
+                whiteSpace: 'nowrap', flexShrink: 0,
+            }}
+        >
+            ⋈ {join.label}{join.outcome === 'met' ? '' : ` · ${join.outcome}`}
+        </span>
+    )
+}
+
 /** Resolve language color from subtype registry, with fallback */
 function getLangColor(lang: string): string {
     return subTypeRegistry.resolveColor('job', lang)
@@ -245,6 +315,15 @@ function AgentVariant({ data }: { data: any }) {
                             fontFamily: "'JetBrains Mono', monospace",
                             flexShrink: 0,
                         }}>⚡{st.callsCount ?? 0}</span>
+                        <AttemptBadge state={st} color={color} />
+                        <JoinBadge state={st} color={color} />
+                        {(st.totalRuns ?? 0) > 0 && (
+                            <span style={{
+                                fontSize: 8, color: '#475569',
+                                fontFamily: "'JetBrains Mono', monospace",
+                                flexShrink: 0,
+                            }}><RunStats state={st} /></span>
+                        )}
                     </div>
 
                     {/* ── Current task row ── */}
@@ -310,7 +389,7 @@ function AgentVariant({ data }: { data: any }) {
 // ── Script variant (language-colored border + code editor) ──────────────────
 
 function ScriptVariant({ data }: { data: any }) {
-    const lang = data.language || 'js'
+    const lang = data.language || data.subType || 'js'
     const langColor = getLangColor(lang)
     const w = data.width || 280
     const h = data.height || 200
@@ -318,6 +397,11 @@ function ScriptVariant({ data }: { data: any }) {
     const logs: string[] = data.logs || []
     const st2 = resolveState(data)
     const status = st2.status || 'idle'
+    const scriptProgress = status === 'running' ? (st2.progress ?? 0) : 0
+    // TS transpile diagnostics from the last run, keyed by 1-based line
+    const diagnosticLines = new Map<number, string>(
+        (data.diagnostics || []).map((d: { line: number; message: string }) => [d.line, d.message]),
+    )
 
     const [editingCode, setEditingCode] = useState<string>(data.code || '')
     const [isEditing, setIsEditing] = useState(!isConfigured)
@@ -397,10 +481,17 @@ function ScriptVariant({ data }: { data: any }) {
                                 display: 'flex', flexDirection: 'column', paddingTop: 8, userSelect: 'none',
                             }}>
                                 {editingCode.split('\n').map((_, i) => (
-                                    <div key={i} style={{
-                                        fontSize: 9, color: '#475569', textAlign: 'right',
-                                        paddingRight: 6, lineHeight: '16px', height: 16,
-                                    }}>{i + 1}</div>
+                                    <div
+                                        key={i}
+                                        title={diagnosticLines.get(i + 1)}
+                                        data-testid={diagnosticLines.has(i + 1) ? `diagnostic-line-${i + 1}` : undefined}
+                                        style={{
+                                            fontSize: 9, textAlign: 'right',
+                                            color: diagnosticLines.has(i + 1) ? '#ef4444' : '#475569',
+                                            background: diagnosticLines.has(i + 1) ? '#ef444422' : 'transparent',
+                                            paddingRight: 6, lineHeight: '16px', height: 16,
+                                        }}
+                                    >{i + 1}</div>
                                 ))}
                             </div>
                             <textarea
@@ -553,6 +644,7 @@ function ScriptVariant({ data }: { data: any }) {
                     <div style={{
                         width: 6, height: 6, borderRadius: '50%',
                         background: status === 'running' ? '#f7df1e'
+                            : status === 'paused' ? '#eab308'
                             : status === 'done' ? '#28c840'
                                 : status === 'error' ? '#ff5f57'
                                     : '#475569',
@@ -576,6 +668,34 @@ function ScriptVariant({ data }: { data: any }) {
                     }}>
                         {lang}
                     </div>
+                    <AttemptBadge state={st2} color={langColor} />
+                    <JoinBadge state={st2} color={langColor} />
+                    {data.sandboxUnavailable && (
+                        <div
+                            data-testid="sandbox-unavailable"
+                            title="Node.js sidecar is not running (npm run sidecar)"
+                            style={{
+                                fontSize: 7, fontWeight: 700, color: '#ff5f57',
+                                background: '#ff5f5718', padding: '1px 5px', borderRadius: 3,
+                                textTransform: 'uppercase', letterSpacing: '0.5px',
+                            }}
+                        >
+                            offline
+                        </div>
+                    )}
+                    {!data.sandboxUnavailable && data.sandboxError && (
+                        <div
+                            data-testid="sandbox-error"
+                            title={`Sidecar: ${data.sandboxError}`}
+                            style={{
+                                fontSize: 7, fontWeight: 700, color: '#febc2e',
+                                background: '#febc2e18', padding: '1px 5px', borderRadius: 3,
+                                textTransform: 'uppercase', letterSpacing: '0.5px',
+                            }}
+                        >
+                            sidecar error
+                        </div>
+                    )}
                     <div className="nodrag nopan" style={{ display: 'flex', gap: 3 }}>
                         <button
                             data-testid="run-script-btn"
@@ -603,6 +723,19 @@ function ScriptVariant({ data }: { data: any }) {
                     </div>
                 </div>
 
+                {/* Progress strip — driven by ctx.progress(n) */}
+                {scriptProgress > 0 && (
+                    <div style={{ height: 2, background: `${langColor}15`, flexShrink: 0 }}>
+                        <motion.div
+                            data-testid="script-progress"
+                            initial={false}
+                            animate={{ width: `${scriptProgress}%` }}
+                            transition={{ duration: 0.3 }}
+                            style={{ height: '100%', background: langColor }}
+                        />
+                    </div>
+                )}
+
                 {isLarge ? (
                     <div style={{ flex: 1, overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
                         <div style={{ flex: 1, position: 'relative', overflow: 'hidden' }}>
@@ -655,6 +788,7 @@ function ScriptVariant({ data }: { data: any }) {
                                 <span style={{ opacity: 0.5 }}>·</span>
                                 <span>{st2.execTime || '—'}</span>
                                 <span>⚡{st2.callsCount ?? 0}</span>
+                                <RunStats state={st2} />
                             </span>
                         </div>
                     </div>
@@ -719,6 +853,7 @@ function ScriptVariant({ data }: { data: any }) {
                                         <span style={{ opacity: 0.5 }}>·</span>
                                         <span>{st2.execTime || '—'}</span>
                                         <span>⚡{st2.callsCount ?? 0}</span>
+                                        <RunStats state={st2} />
                                     </span>
                                 </div>
                             </>
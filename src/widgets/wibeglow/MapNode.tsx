@@ -0,0 +1,135 @@
+import { Handle, Position } from '@xyflow/react'
+import { Layers } from 'lucide-react'
+import { StatusDot, STATUS_DOT_COLORS } from '@/widgets/StatusDot'
+import { resolveState } from '@/widgets/resolve-state'
+import { mapConcurrency, mapSummary } from '@/engine/fan-out'
+
+const HEADER_H = 28
+const CARD_W = 30
+const CARD_H = 20
+const GAP = 4
+/** Mini-cards shown before the rest collapse into "+N" */
+const MAX_CARDS = 15
+
+/**
+ * MapNode (wibeglow) — fan-out over a list (see engine/fan-out.ts).
+ *
+ * The job connected after it runs once per item; during and after a run
+ * each item shows as a mini-card with its status and progress, stacked in
+ * rows like parallel siblings.
+ *
+ * data.label       — node label (default: "Map")
+ * data.color       — accent color (default: sky #0ea5e9)
+ * data.itemsPath   — where the list is in the input
+ * data.concurrency — items processed at the same time
+ * data.state.status / items — live run state (items come from the body job)
+ * data.width / data.height — dimensions
+ */
+export function MapNode({ data }: { data: any }) {
+    const color = data.color || '#0ea5e9'
+    const state = resolveState(data)
+    const status = state.status || 'idle'
+    const items = state.items ?? []
+    const shown = items.slice(0, MAX_CARDS)
+    const w = data.width || 160
+    const perRow = Math.max(1, Math.floor((w - 20 + GAP) / (CARD_W + GAP)))
+    const rows = Math.ceil((shown.length + (items.length > MAX_CARDS ? 1 : 0)) / perRow)
+    const h = Math.max(data.height || 0, HEADER_H + 22 + rows * (CARD_H + GAP) + 8)
+
+    return (
+        <div style={{
+            width: w, height: h,
+            padding: 1.5,
+            borderRadius: 12,
+            background: `linear-gradient(135deg, ${color}, ${color}66)`,
+            boxShadow: `0 0 14px ${color}22, 0 4px 12px rgba(0,0,0,0.3)`,
+            position: 'relative',
+            boxSizing: 'border-box',
+        }}>
+            <Handle type="target" position={Position.Left} style={{
+                background: color, border: `2px solid ${color}55`, width: 8, height: 8,
+            }} />
+            <Handle type="source" position={Position.Right} style={{
+                background: color, border: `2px solid ${color}55`, width: 8, height: 8,
+            }} />
+            {status !== 'idle' && <StatusDot status={status} />}
+
+            <div style={{
+                background: '#0f0f1a', borderRadius: 10.5,
+                width: '100%', height: '100%',
+                boxSizing: 'border-box',
+                fontFamily: 'Inter',
+                overflow: 'hidden',
+            }}>
+                <div style={{
+                    height: HEADER_H,
+                    display: 'flex', alignItems: 'center', gap: 5,
+                    padding: '0 10px',
+                    fontSize: 10, fontWeight: 600, color,
+                    borderBottom: `1px solid ${color}20`,
+                    boxSizing: 'border-box',
+                }}>
+                    <Layers size={11} />
+                    {data.label || 'Map'}
+                </div>
+
+                <div
+                    data-testid="map-summary"
+                    style={{
+                        height: 22,
+                        display: 'flex', alignItems: 'center',
+                        padding: '0 10px',
+                        fontSize: 9,
+                        fontFamily: "'JetBrains Mono', monospace",
+                        color: '#94a3b8',
+                        whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis',
+                    }}
+                >
+                    {items.length
+                        ? mapSummary(items)
+                        : `each of ${data.itemsPath || 'input'} · ×${mapConcurrency(data)}`}
+                </div>
+
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: GAP, padding: '0 10px' }}>
+                    {shown.map((item, i) => {
+                        const itemColor = STATUS_DOT_COLORS[item.status] || STATUS_DOT_COLORS.idle
+                        return (
+                            <div
+                                key={i}
+                                data-testid={`map-item-${i}`}
+                                data-status={item.status}
+                                title={item.error || `Item ${i + 1}: ${item.status}`}
+                                style={{
+                                    width: CARD_W, height: CARD_H,
+                                    borderRadius: 5,
+                                    border: `1px solid ${itemColor}66`,
+                                    background: `${itemColor}14`,
+                                    boxSizing: 'border-box',
+                                    display: 'flex', flexDirection: 'column', justifyContent: 'space-between',
+                                    padding: '2px 3px',
+                                    fontSize: 8,
+                                    fontFamily: "'JetBrains Mono', monospace",
+                                    color: item.status === 'idle' ? '#64748b' : '#e2e8f0',
+                                }}
+                            >
+                                <span style={{ lineHeight: 1 }}>{i + 1}</span>
+                                <div style={{ height: 2, borderRadius: 1, background: '#1e293b', overflow: 'hidden' }}>
+                                    <div style={{ width: `${item.progress}%`, height: '100%', background: itemColor }} />
+                                </div>
+                            </div>
+                        )
+                    })}
+                    {items.length > MAX_CARDS && (
+                        <div style={{
+                            width: CARD_W, height: CARD_H,
+                            display: 'flex', alignItems: 'center', justifyContent: 'center',
+                            fontSize: 8, color: '#64748b',
+                        }}>
+                            +{items.length - MAX_CARDS}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,109 @@
+import { Handle, Position } from '@xyflow/react'
+import { Split } from 'lucide-react'
+import { StatusDot } from '@/widgets/StatusDot'
+import { resolveState } from '@/widgets/resolve-state'
+import { routerCases, caseHandle, DEFAULT_HANDLE } from '@/engine/conditions'
+
+const HEADER_H = 28
+const ROW_H = 20
+
+/**
+ * RouterNode (wibeglow) — switch with ordered case branches.
+ *
+ * One row per case, each with its own source handle (`case-<index>`), plus
+ * a `default` row taken when no case matches. After a run the matched row
+ * is highlighted and the others dimmed.
+ *
+ * data.label  — node label (default: "Router")
+ * data.color  — accent color (default: teal #14b8a6)
+ * data.cases  — [{ label, expression }] (see engine/conditions.ts)
+ * data.state.status / route — live run state
+ * data.width / data.height — dimensions
+ */
+export function RouterNode({ data }: { data: any }) {
+    const color = data.color || '#14b8a6'
+    const state = resolveState(data)
+    const status = state.status || 'idle'
+    const route = state.route
+    const cases = routerCases(data)
+    const rows = [
+        ...cases.map((c, i) => ({ handle: caseHandle(i), label: c.label, expression: c.expression })),
+        { handle: DEFAULT_HANDLE, label: 'Default', expression: '' },
+    ]
+    const w = data.width || 160
+    const h = Math.max(data.height || 0, HEADER_H + rows.length * ROW_H + 8)
+
+    return (
+        <div style={{
+            width: w, height: h,
+            padding: 1.5,
+            borderRadius: 12,
+            background: `linear-gradient(135deg, ${color}, ${color}66)`,
+            boxShadow: `0 0 14px ${color}22, 0 4px 12px rgba(0,0,0,0.3)`,
+            position: 'relative',
+            boxSizing: 'border-box',
+        }}>
+            <Handle type="target" position={Position.Left} style={{
+                background: color, border: `2px solid ${color}55`, width: 8, height: 8,
+            }} />
+            {rows.map((row, i) => (
+                <Handle
+                    key={row.handle}
+                    type="source"
+                    position={Position.Right}
+                    id={row.handle}
+                    style={{
+                        top: HEADER_H + i * ROW_H + ROW_H / 2,
+                        background: row.handle === DEFAULT_HANDLE ? '#64748b' : color,
+                        border: '2px solid rgba(100,116,139,0.3)', width: 7, height: 7,
+                    }}
+                />
+            ))}
+            {status !== 'idle' && <StatusDot status={status} />}
+
+            <div style={{
+                background: '#0f0f1a', borderRadius: 10.5,
+                width: '100%', height: '100%',
+                boxSizing: 'border-box',
+                fontFamily: 'Inter',
+                overflow: 'hidden',
+            }}>
+                <div style={{
+                    height: HEADER_H,
+                    display: 'flex', alignItems: 'center', gap: 5,
+                    padding: '0 10px',
+                    fontSize: 10, fontWeight: 600, color,
+                    borderBottom: `1px solid ${color}20`,
+                    boxSizing: 'border-box',
+                }}>
+                    <Split size={11} />
+                    {data.label || 'Router'}
+                </div>
+                {rows.map(row => {
+                    const matched = route === row.handle
+                    return (
+                        <div
+                            key={row.handle}
+                            data-testid={`router-case-${row.handle}`}
+                            data-matched={matched ? 'true' : 'false'}
+                            title={row.expression || 'No case matched'}
+                            style={{
+                                height: ROW_H,
+                                display: 'flex', alignItems: 'center',
+                                padding: '0 12px 0 10px',
+                                fontSize: 9,
+                                fontFamily: "'JetBrains Mono', monospace",
+                                color: matched ? '#e2e8f0' : route ? '#475569' : '#94a3b8',
+                                background: matched ? `${color}25` : 'transparent',
+                                fontWeight: matched ? 700 : 400,
+                                overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+                            }}
+                        >
+                            {row.handle === DEFAULT_HANDLE ? 'else' : row.label}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -1,5 +1,6 @@
 import { Handle, Position } from '@xyflow/react'
 import { Play } from 'lucide-react'
+import { paramsSchemaOf } from '@/engine/workflow-params'
 
 /**
  * StartingNode (wibeglow) — entry point of a flow.
@@ -8,6 +9,7 @@ import { Play } from 'lucide-react'
  * Designed as the starting point for workflows.
  *
  * data.label  — node label (default: "Start")
+ * data.params — workflow parameters; their count shows under the label
  * data.color  — accent color (default: green #22c55e)
  * data.width  — width (default: 60)
  * data.height — height (default: 60)
@@ -17,6 +19,7 @@ export function StartingNode({ data }: { data: any }) {
     const w = data.width || 60
     const h = data.height || 60
     const label = data.label || 'Start'
+    const paramCount = Object.keys(paramsSchemaOf(data) ?? {}).length
 
     return (
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
@@ -71,6 +74,11 @@ export function StartingNode({ data }: { data: any }) {
             >
                 {label}
             </span>
+            {paramCount > 0 && (
+                <span data-testid="start-params" style={{ fontSize: 8, color: '#94a3b8', fontFamily: 'Inter' }}>
+                    {paramCount} param{paramCount === 1 ? '' : 's'}
+                </span>
+            )}
         </div>
     )
 }
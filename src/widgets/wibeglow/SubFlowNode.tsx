@@ -1,24 +1,34 @@
 import { Handle, Position } from '@xyflow/react'
 import { motion } from 'framer-motion'
 import { Workflow } from 'lucide-react'
+import { StatusDot } from '@/widgets/StatusDot'
+import { resolveState } from '@/widgets/resolve-state'
 
 /**
  * SubFlowNode (wibeglow) — nested sub-flow container.
  *
  * data.label      — subflow name
  * data.color      — accent color
- * data.nodeCount  — number of nodes inside
+ * data.nodeCount  — number of nodes inside (state, derived from the linked workflow)
  * data.avgExecTime — average execution time string
  * data.hasAI      — if true, renders AI-style rainbow gradient border
+ * data.workflowName — name of the linked workflow (data.workflowId)
+ * data.subflowError — problem with the link (missing workflow, cycle)
+ * data.state.status / progress / logs — live child execution
  * data.width / data.height — dimensions
  */
 export function SubFlowNode({ data }: { data: any }) {
     const color = data.color || '#6366f1'
     const w = data.width || 280
     const h = data.height || 160
-    const hasAI = data.hasAI ?? false
-    const nodeCount = data.nodeCount ?? 0
-    const avgExecTime = data.avgExecTime || '—'
+    const state = resolveState(data)
+    const hasAI = state.hasAI ?? data.hasAI ?? false
+    const nodeCount = state.nodeCount ?? data.nodeCount ?? 0
+    const avgExecTime = state.avgExecTime || data.avgExecTime || '—'
+    const status = state.status || 'idle'
+    const progress = state.progress ?? 0
+    const logs: string[] = data.logs || []
+    const lastLog = logs[logs.length - 1]
 
     // AI-style rainbow gradient or plain indigo
     const borderBg = hasAI
@@ -72,10 +82,35 @@ export function SubFlowNode({ data }: { data: any }) {
                     <Workflow size={10} />
                     {data.label || 'SubFlow'}
                 </div>
+                {status !== 'idle' && <StatusDot status={status} />}
+
+                {/* Linked workflow + live child run */}
+                <div style={{
+                    flex: 1, minHeight: 0,
+                    display: 'flex', flexDirection: 'column', justifyContent: 'center', gap: 4,
+                    padding: '14px 12px 4px',
+                    fontFamily: "'JetBrains Mono', monospace", fontSize: 9,
+                }}>
+                    <div data-testid="subflow-link" style={{ color: data.subflowError ? '#ef4444' : '#94a3b8' }}>
+                        {data.subflowError || (data.workflowName ? `→ ${data.workflowName}` : data.workflowId ? `→ ${data.workflowId}` : 'No linked workflow')}
+                    </div>
+                    {(status === 'running' || status === 'paused') && (
+                        <div style={{ height: 3, borderRadius: 2, background: `${color}20`, overflow: 'hidden' }}>
+                            <div style={{ width: `${progress}%`, height: '100%', background: color, transition: 'width 0.2s' }} />
+                        </div>
+                    )}
+                    {lastLog && status !== 'idle' && (
+                        <div data-testid="subflow-last-log" style={{
+                            color: status === 'error' ? '#ef4444' : '#64748b',
+                            overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+                        }}>
+                            {lastLog}
+                        </div>
+                    )}
+                </div>
 
                 {/* Stats row — bottom */}
                 <div style={{
-                    marginTop: 'auto',
                     display: 'flex', alignItems: 'center', gap: 8,
                     padding: '6px 12px',
                     borderTop: `1px solid ${color}15`,
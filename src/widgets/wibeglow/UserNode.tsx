@@ -1,25 +1,38 @@
+import { useState, useEffect } from 'react'
 import { Handle, Position, NodeToolbar } from '@xyflow/react'
 import { motion } from 'framer-motion'
-import { User, MessageSquare, Check } from 'lucide-react'
+import { User, MessageSquare, Check, X } from 'lucide-react'
 import { StatusDot } from '@/widgets/StatusDot'
 import { resolveState } from '@/widgets/resolve-state'
+import { FormField } from '@/widgets/FormField'
+import {
+    formSchemaOf, initialFormValues, validateForm,
+    type FormSchema, type FormValues, type FormErrors,
+} from '@/engine/user-form'
 
 /**
  * UserNode (wibeglow) — Human interaction node.
  *
  * Shows a user avatar/icon with status. When status is 'waiting',
- * clicking opens a code review dialog with Approve / Comment buttons.
+ * clicking opens a code review dialog with Approve / Comment buttons
+ * (and Reject when data.onReject is given). The dialog's text field is the
+ * comment, or the reason of a rejection.
  *
  * data.label — node name (e.g. "Code Review")
  * data.color — accent color (default: amber #f59e0b)
  * data.status — 'idle' | 'waiting' | 'done'
  * data.width / data.height — dimensions
- * data.onApprove — callback when user clicks Approve
- * data.onComment — callback when user clicks Comment
+ * data.onApprove — callback when user clicks Approve (receives the text, if any)
+ * data.onComment — callback when user clicks Comment (receives the text)
+ * data.onReject — callback when user clicks Reject (receives the reason)
+ * data.rejected — the review ended in a rejection
  * data.reviewTitle — title shown in review dialog
  * data.reviewBody — body text in review dialog
+ * data.form — fields to fill in (key → FieldSchema); Approve becomes Submit and
+ *   passes the validated values as the second argument of onApprove
+ * data.formValues — values the form opens with (default: the fields' defaults)
  * data.commentCount — number of previous comments
- * data.connectedHandles — handle visibility
+ * data.connectedHandles — handle visibility ('reject' — bottom handle of the rejection branch)
  * data.editMode — show all handles
  */
 export function UserNode({ data }: { data: any }) {
@@ -31,6 +44,35 @@ export function UserNode({ data }: { data: any }) {
     const isWaiting = status === 'waiting'
     const editMode = !!data.editMode
     const connectedHandles: string[] = data.connectedHandles || ['in', 'out']
+    const rejected = !!data.rejected
+    const [text, setText] = useState('')
+    const form: FormSchema | null = formSchemaOf(data)
+    const [values, setValues] = useState<FormValues>({})
+    const [errors, setErrors] = useState<FormErrors>({})
+
+    // Fresh form whenever the node starts waiting
+    const initialKey = isWaiting && form ? JSON.stringify(data.formValues ?? initialFormValues(form)) : ''
+    useEffect(() => {
+        if (!initialKey) return
+        setValues(JSON.parse(initialKey))
+        setErrors({})
+    }, [initialKey])
+
+    /** Approve — with a form, only once its values are valid */
+    const approve = () => {
+        if (!form) return submit(data.onApprove)
+        const result = validateForm(form, values)
+        setErrors(result.errors)
+        if (Object.keys(result.errors).length) return
+        data.onApprove?.(text.trim(), result.values)
+        setText('')
+    }
+
+    /** Hand the typed text to a callback and clear the field */
+    const submit = (fn?: (text: string) => void) => {
+        fn?.(text.trim())
+        setText('')
+    }
 
     const borderGradient = isWaiting
         ? `linear-gradient(135deg, ${color}, #ef4444, #8b5cf6)`
@@ -130,6 +172,42 @@ export function UserNode({ data }: { data: any }) {
                         {data.reviewBody || 'Review the changes and approve or request modifications.'}
                     </div>
 
+                    {/* Form */}
+                    {form && (
+                        <div data-testid="user-form" style={{ padding: '0 12px 4px' }}>
+                            {Object.entries(form).map(([key, field]) => (
+                                <FormField
+                                    key={key}
+                                    id={key}
+                                    field={field}
+                                    value={values[key]}
+                                    error={errors[key]}
+                                    color={color}
+                                    onChange={value => setValues(prev => ({ ...prev, [key]: value }))}
+                                />
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Comment / rejection reason */}
+                    <div style={{ padding: '0 12px 8px' }}>
+                        <textarea
+                            data-testid="user-review-input"
+                            value={text}
+                            onChange={e => setText(e.target.value)}
+                            placeholder="Comment or reason…"
+                            rows={2}
+                            style={{
+                                width: '100%', boxSizing: 'border-box', resize: 'none',
+                                background: 'rgba(255,255,255,0.03)', color: '#e2e8f0',
+                                border: `1px solid ${color}22`, borderRadius: 6,
+                                padding: '4px 6px', fontSize: 10,
+                                fontFamily: "'JetBrains Mono', monospace",
+                                outline: 'none',
+                            }}
+                        />
+                    </div>
+
                     {/* Actions */}
                     <div style={{
                         display: 'flex', gap: 6,
@@ -138,7 +216,7 @@ export function UserNode({ data }: { data: any }) {
                     }}>
                         <button
                             data-testid="user-comment-btn"
-                            onClick={() => data.onComment?.()}
+                            onClick={() => submit(data.onComment)}
                             style={{
                                 flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 4,
                                 background: 'rgba(245,158,11,0.1)', color: '#f59e0b',
@@ -150,9 +228,25 @@ export function UserNode({ data }: { data: any }) {
                         >
                             <MessageSquare size={12} /> Comment
                         </button>
+                        {data.onReject && (
+                            <button
+                                data-testid="user-reject-btn"
+                                onClick={() => submit(data.onReject)}
+                                style={{
+                                    flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 4,
+                                    background: 'rgba(239,68,68,0.1)', color: '#ef4444',
+                                    border: '1px solid rgba(239,68,68,0.2)',
+                                    borderRadius: 6, padding: '5px 10px', fontSize: 10,
+                                    fontWeight: 600, cursor: 'pointer',
+                                    fontFamily: 'Inter',
+                                }}
+                            >
+                                <X size={12} /> Reject
+                            </button>
+                        )}
                         <button
                             data-testid="user-approve-btn"
-                            onClick={() => data.onApprove?.()}
+                            onClick={approve}
                             style={{
                                 flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 4,
                                 background: 'rgba(34,197,94,0.15)', color: '#22c55e',
@@ -162,7 +256,7 @@ export function UserNode({ data }: { data: any }) {
                                 fontFamily: 'Inter',
                             }}
                         >
-                            <Check size={12} /> Approve
+                            <Check size={12} /> {form ? 'Submit' : 'Approve'}
                         </button>
                     </div>
                 </div>
@@ -187,6 +281,9 @@ export function UserNode({ data }: { data: any }) {
                 {(editMode || connectedHandles.includes('out')) && <Handle type="source" position={Position.Right} id="out" style={{
                     background: '#64748b', border: '2px solid rgba(100,116,139,0.3)', width: 8, height: 8,
                 }} />}
+                {(editMode || connectedHandles.includes('reject')) && <Handle type="source" position={Position.Bottom} id="reject" style={{
+                    background: '#ef4444', border: '2px solid rgba(239,68,68,0.3)', width: 8, height: 8,
+                }} />}
 
                 <div style={{
                     background: '#1a1b26', borderRadius: 13,
@@ -209,7 +306,7 @@ export function UserNode({ data }: { data: any }) {
                                 {data.label || 'User'}
                             </div>
                             <div style={{ fontSize: 8, color: '#64748b', fontFamily: 'Inter' }}>
-                                {status === 'waiting' ? '⏳ Awaiting review' : status === 'done' ? '✓ Approved' : 'Not yet active'}
+                                {status === 'waiting' ? '⏳ Awaiting review' : rejected ? '✗ Rejected' : status === 'done' ? '✓ Approved' : 'Not yet active'}
                             </div>
                         </div>
                         <StatusDot status={status === 'waiting' ? 'running' : status} />
@@ -228,7 +325,7 @@ export function UserNode({ data }: { data: any }) {
                             Click to review changes ↑
                         </motion.div>
                     )}
-                    {status === 'done' && (
+                    {status === 'done' && !rejected && (
                         <div style={{
                             fontSize: 9, color: '#22c55e', fontFamily: "'JetBrains Mono', monospace",
                             textAlign: 'center', padding: '4px 0',
@@ -236,6 +333,14 @@ export function UserNode({ data }: { data: any }) {
                             ✓ Changes approved
                         </div>
                     )}
+                    {rejected && (
+                        <div data-testid="user-rejected" style={{
+                            fontSize: 9, color: '#ef4444', fontFamily: "'JetBrains Mono', monospace",
+                            textAlign: 'center', padding: '4px 0',
+                        }}>
+                            ✗ Changes rejected
+                        </div>
+                    )}
                 </div>
             </motion.div>
         </>
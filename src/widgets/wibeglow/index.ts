@@ -7,3 +7,5 @@ export { ArtifactNode } from './ArtifactNode'
 export { UserNode } from './UserNode'
 export { StartingNode } from './StartingNode'
 export { SubFlowNode } from './SubFlowNode'
+export { RouterNode } from './RouterNode'
+export { MapNode } from './MapNode'
@@ -0,0 +1,103 @@
+/**
+ * Builder — Approvals E2E tests (?page=builder-simple).
+ *
+ * User nodes: review from the approvals inbox and the card, and forms.
+ */
+
+import { test, expect } from '@playwright/test'
+// @ts-ignore — .mjs has no type declarations
+import { breath } from '../packages/test-runner/src/human.mjs'
+import { addAfter, newWorkflow, openPage, patchNodeData } from './helpers/builder'
+
+test.setTimeout(90_000)
+
+test.describe('Builder — Approvals', () => {
+
+    test('a user node blocks the run until it is approved or rejected', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → JS → User ──
+        const jobId = await addAfter(page, 'start-1', 'job')
+        const userId = await addAfter(page, jobId, 'user')
+        const userNode = page.locator(`.react-flow__node[data-id="${userId}"]`)
+
+        // ── Parked: the run stays live, the inbox counts it ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(userNode).toContainText('Awaiting review', { timeout: 5_000 })
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('running')
+        await expect(page.getByTestId('approvals-count')).toHaveText('1')
+
+        // ── Comment from the inbox → text message to the agent, still waiting ──
+        await page.getByTestId('approvals-btn').click()
+        const item = page.getByTestId(`approval-${userId}`)
+        await item.getByTestId('approval-text').fill('Please add tests')
+        await item.getByTestId('approval-comment').click()
+        await expect(page.getByTestId('events-list')).toContainText('Please add tests')
+        await expect(item).toContainText('Round 2')
+
+        // ── Reject without a reject branch → the run fails ──
+        await item.getByTestId('approval-text').fill('Not good enough')
+        await item.getByTestId('approval-reject').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('error', { timeout: 5_000 })
+        await expect(userNode.getByTestId('user-rejected')).toBeVisible()
+        await expect(page.getByTestId('approvals-count')).toHaveText('0')
+
+        // ── Run again and approve on the node → done ──
+        await page.getByTestId('approvals-btn').click()
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(userNode).toContainText('Awaiting review', { timeout: 5_000 })
+        await page.getByTestId('user-approve-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(userNode).toContainText('Changes approved')
+
+        await breath()
+    })
+
+    test('a user node form is validated and its values become the output', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → User (form) → JS that logs its inputs ──
+        const userId = await addAfter(page, 'start-1', 'user')
+        await patchNodeData(page, userId, {
+            form: {
+                env: { type: 'enum', label: 'Environment', required: true, default: 'staging', enum: [{ value: 'staging', label: 'Staging' }, { value: 'production', label: 'Production' }] },
+                ticket: { type: 'string', label: 'Ticket ID', required: true },
+            },
+        })
+
+        const jobId = await addAfter(page, userId, 'job')
+        await patchNodeData(page, jobId, {
+            code: [
+                'export function activate(ctx) {',
+                "    ctx.log('got ' + JSON.stringify(Object.values(ctx.inputs)[0]))",
+                '}',
+            ].join('\n'),
+        })
+
+        await page.getByTestId('workflow-run-btn').click()
+        const form = page.getByTestId('user-form')
+        await expect(form).toBeVisible({ timeout: 5_000 })
+        await expect(page.getByTestId('user-form-env')).toHaveValue('staging')
+
+        // ── Missing required field → error, still waiting ──
+        await page.getByTestId('user-approve-btn').click()
+        await expect(page.getByTestId('user-form-error-ticket')).toHaveText('Ticket ID is required')
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('running')
+
+        // ── Valid → submitted values flow downstream ──
+        await page.getByTestId('user-form-env').selectOption('production')
+        await page.getByTestId('user-form-ticket').fill('OPS-42')
+        await page.getByTestId('user-approve-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(page.locator(`.react-flow__node[data-id="${jobId}"]`))
+            .toContainText('got {"env":"production","ticket":"OPS-42"}')
+
+        await breath()
+    })
+})
@@ -0,0 +1,116 @@
+/**
+ * Builder — Expectations E2E tests (?page=builder-simple).
+ *
+ * Expectation nodes attached to jobs, and test mode with its report and JUnit export.
+ */
+
+import { test, expect } from '@playwright/test'
+// @ts-ignore — .mjs has no type declarations
+import { breath } from '../packages/test-runner/src/human.mjs'
+import { addAfter, clickNode, clickSwipeBtn, getLastNodeId, newWorkflow, nodeCount, openPage, patchNodeData } from './helpers/builder'
+
+test.setTimeout(90_000)
+
+test.describe('Builder — Expectations', () => {
+
+    test('attached expectations are evaluated when the job finishes', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const jobId = await addAfter(page, 'start-1', 'job')
+
+        await patchNodeData(page, jobId, {
+            code: [
+                'export function activate(ctx) {',
+                "    ctx.emitArtifact('report.md', '# Report')",
+                "    ctx.toolCall('deploy', { env: 'production' })",
+                '    return { ok: true }',
+                '}',
+            ].join('\n'),
+        })
+
+        // ── Config → Attach → Expect (default: README.md artifact) ──
+        await clickNode(page, jobId)
+        await clickSwipeBtn(page, 'swipe-btn-configure')
+        await clickSwipeBtn(page, 'ext-cfg-attach')
+        await clickSwipeBtn(page, 'ext-cfg-attach-expectation')
+        await page.waitForTimeout(600)
+        expect(await nodeCount(page)).toBe(3)
+        const expId = await getLastNodeId(page)
+        const expectation = page.locator(`.react-flow__node[data-id="${expId}"]`)
+        const explanation = expectation.getByTestId('expectation-explanation')
+
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(explanation).toContainText('"README.md" was not produced (got report.md)', { timeout: 5_000 })
+
+        // ── Artifact the job does produce ──
+        await patchNodeData(page, expId, { target: 'report.md' })
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(explanation).toContainText('"report.md" was produced', { timeout: 5_000 })
+
+        // ── Tool call with an argument matcher ──
+        await patchNodeData(page, expId, { subType: 'tool-call', target: 'deploy()', args: { env: '/^prod/' } })
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(explanation).toContainText('deploy was called with matching args', { timeout: 5_000 })
+
+        await breath()
+    })
+
+    test('test mode runs the workflow N times and reports every expectation', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const jobId = await addAfter(page, 'start-1', 'job')
+
+        await patchNodeData(page, jobId, {
+            code: [
+                'export function activate(ctx) {',
+                "    ctx.emitArtifact('report.md', '# Report')",
+                '}',
+            ].join('\n'),
+        })
+
+        // ── Two expectations: report.md (met) and the default README.md (not met) ──
+        const attach = async () => {
+            await clickNode(page, jobId)
+            await clickSwipeBtn(page, 'swipe-btn-configure')
+            await clickSwipeBtn(page, 'ext-cfg-attach')
+            await clickSwipeBtn(page, 'ext-cfg-attach-expectation')
+            await page.waitForTimeout(600)
+            return getLastNodeId(page)
+        }
+        const passId = await attach()
+        await patchNodeData(page, passId, { target: 'report.md' })
+        const failId = await attach()
+
+        await page.getByTestId('workflow-test-runs').fill('3')
+        await page.getByTestId('workflow-test-btn').click()
+
+        const report = page.getByTestId('test-report')
+        await expect(report).toBeVisible()
+        await expect(page.getByTestId('test-report-summary')).toContainText('1/2 passed · 3 runs', { timeout: 10_000 })
+        const passRow = page.getByTestId(`test-row-${passId}`)
+        await expect(passRow.getByTestId('test-row-outcome')).toHaveText('PASS')
+        await expect(passRow.getByTestId('test-row-rate')).toHaveText('3/3 (100%)')
+        const failRow = page.getByTestId(`test-row-${failId}`)
+        await expect(failRow.getByTestId('test-row-outcome')).toHaveText('FAIL')
+        await expect(failRow).toContainText('"README.md" was not produced')
+
+        // ── JUnit export ──
+        const download = page.waitForEvent('download')
+        await page.getByTestId('test-export-junit').click()
+        expect((await download).suggestedFilename()).toMatch(/-test\.xml$/)
+
+        await page.getByTestId('test-report-close').click()
+        await expect(report).toHaveCount(0)
+
+        await breath()
+    })
+})
@@ -0,0 +1,205 @@
+/**
+ * Builder — Flow control E2E tests (?page=builder-simple).
+ *
+ * What the builder shows for branching: router cases, join badges, map item
+ * cards, retry attempts and typed ports. The engine rules behind them are
+ * unit-tested next to their modules (src/engine/*.test.ts).
+ */
+
+import { test, expect } from '@playwright/test'
+// @ts-ignore — .mjs has no type declarations
+import { breath } from '../packages/test-runner/src/human.mjs'
+import { addAfter, connectNodes, newWorkflow, openPage, patchNodeData } from './helpers/builder'
+
+test.setTimeout(90_000)
+
+test.describe('Builder — Flow control', () => {
+
+    test('a router follows the matching case and skipped branches are greyed out', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → score → Router (High: score > 0.5 | else) ──
+        const scoreId = await addAfter(page, 'start-1', 'job')
+        await patchNodeData(page, scoreId, {
+            code: [
+                'export function activate(ctx) {',
+                '    return { score: 0.9 }',
+                '}',
+            ].join('\n'),
+        })
+        const routerId = await addAfter(page, scoreId, 'router')
+        await patchNodeData(page, routerId, { cases: [{ label: 'High', expression: 'input.score > 0.5' }] })
+
+        // First add → the High branch, second → the default branch
+        const highId = await addAfter(page, routerId, 'job')
+        const lowId = await addAfter(page, routerId, 'job')
+
+        // ── Run: only the High branch runs ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        const router = page.locator(`.react-flow__node[data-id="${routerId}"]`)
+        await expect(router.getByTestId('router-case-case-0')).toHaveAttribute('data-matched', 'true')
+        await expect(router.getByTestId('router-case-default')).toHaveAttribute('data-matched', 'false')
+        await expect(page.locator(`.react-flow__node[data-id="${highId}"]`)).toHaveCSS('opacity', '1')
+        await expect(page.locator(`.react-flow__node[data-id="${lowId}"]`)).toHaveCSS('opacity', '0.35')
+
+        // ── A router edge shows its branch ──
+        await page.getByTestId(`rf__edge-edge-${routerId}-${highId}`).click()
+        await expect(page.getByTestId('edge-condition-panel')).toContainText('Router branch High')
+
+        // ── A custom condition is edited in the panel and labels the edge ──
+        await page.getByTestId(`rf__edge-edge-${scoreId}-${routerId}`).click()
+        await page.getByTestId('edge-condition-kind').selectOption('expression')
+        await page.getByTestId('edge-condition-expression').fill('output.score < 0.5')
+        await expect(page.locator('.react-flow__edge-text')).toContainText(['if output.score < 0.5'])
+        await page.getByTestId('edge-condition-close').click()
+        await expect(page.getByTestId('edge-condition-panel')).toHaveCount(0)
+
+        await breath()
+    })
+
+    test('a join node shows how many of its inputs it waits for', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → A → B → C → join; A → join, B → join ──
+        const ids: string[] = []
+        let last = 'start-1'
+        for (let i = 0; i < 3; i++) {
+            last = await addAfter(page, last, 'job')
+            ids.push(last)
+        }
+        const [nodeAId, nodeBId] = ids
+        const joinId = await addAfter(page, last, 'job')
+        await page.locator('.react-flow__controls-fitview').click()
+        await page.waitForTimeout(400)
+        await connectNodes(page, nodeAId, joinId)
+        await connectNodes(page, nodeBId, joinId)
+        await expect(page.getByTestId(`rf__edge-edge-${nodeAId}-${joinId}`)).toHaveCount(1)
+        await expect(page.getByTestId(`rf__edge-edge-${nodeBId}-${joinId}`)).toHaveCount(1)
+
+        // ── Once it ran, the badge counts the incoming edges and shows the outcome ──
+        await patchNodeData(page, joinId, { joinMode: 'n', joinCount: 2 })
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 10_000 })
+        const badge = page.locator(`.react-flow__node[data-id="${joinId}"]`).getByTestId('job-join')
+        await expect(badge).toHaveText('⋈ 2 of 3')
+        await expect(badge).toHaveAttribute('data-outcome', 'met')
+
+        await breath()
+    })
+
+    test('a map node shows one card per item of the job it runs', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → list → Map (files) → double ──
+        const listId = await addAfter(page, 'start-1', 'job')
+        await patchNodeData(page, listId, {
+            code: [
+                'export function activate(ctx) {',
+                '    return { files: [1, 2, 3, 4] }',
+                '}',
+            ].join('\n'),
+        })
+        const mapId = await addAfter(page, listId, 'map')
+        await patchNodeData(page, mapId, { itemsPath: 'files', concurrency: 2 })
+
+        const bodyId = await addAfter(page, mapId, 'job')
+        await patchNodeData(page, bodyId, {
+            code: [
+                'export function activate(ctx) {',
+                `    return ctx.inputs['${mapId}'] * 2`,
+                '}',
+            ].join('\n'),
+        })
+
+        // ── Run: one mini-card per item ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 10_000 })
+        const map = page.locator(`.react-flow__node[data-id="${mapId}"]`)
+        await expect(map.locator('[data-testid^="map-item-"]')).toHaveCount(4)
+        await expect(map.getByTestId('map-item-3')).toHaveAttribute('data-status', 'done')
+        await expect(map.getByTestId('map-summary')).toHaveText('4/4 done')
+
+        await breath()
+    })
+
+    test('a retried job shows its attempt and the fallback edge it takes', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → slow (timeout 300ms, 1 retry) → next | fallback ──
+        const slowId = await addAfter(page, 'start-1', 'job')
+        const nextId = await addAfter(page, slowId, 'job')
+        const fallbackId = await addAfter(page, slowId, 'job')
+
+        await patchNodeData(page, slowId, {
+            code: [
+                'export async function activate(ctx) {',
+                '    await new Promise(resolve => setTimeout(resolve, 10000))',
+                '}',
+            ].join('\n'),
+            timeout: 300,
+            retries: 1,
+            retryDelay: 100,
+            retryOn: 'timeout',
+            fallback: fallbackId,
+        })
+        await expect(page.locator('.react-flow__edge-text')).toContainText(['fallback'])
+
+        // ── Run: the attempt badge counts up, then the skipped branch is greyed out ──
+        await page.getByTestId('workflow-run-btn').click()
+        const slow = page.locator(`.react-flow__node[data-id="${slowId}"]`)
+        await expect(slow.getByTestId('job-attempt')).toContainText('attempt 2 of 2', { timeout: 5_000 })
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 10_000 })
+        await expect(page.locator(`.react-flow__node[data-id="${fallbackId}"]`)).toHaveCSS('opacity', '1')
+        await expect(page.locator(`.react-flow__node[data-id="${nextId}"]`)).toHaveCSS('opacity', '0.35')
+
+        await breath()
+    })
+
+    test('incompatible ports are flagged and an edge shows the payload it carried', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → count (number) → next | list (map, wants an array) ──
+        const countId = await addAfter(page, 'start-1', 'job')
+        const nextId = await addAfter(page, countId, 'job')
+        const mapId = await addAfter(page, countId, 'map')
+
+        await patchNodeData(page, countId, {
+            code: 'export async function activate(ctx) {\n    return 42\n}',
+            outputType: 'number',
+        })
+        await expect(page.locator('.react-flow__edge-text')).toContainText(['⚠ number → array'])
+
+        await page.getByTestId(`rf__edge-edge-${countId}-${mapId}`).click()
+        await expect(page.getByTestId('edge-ports')).toContainText('number → array')
+        await expect(page.getByTestId('edge-port-warning')).toBeVisible()
+        await page.getByTestId('edge-condition-close').click()
+
+        // ── Run: the compatible edge carried 42 ──
+        await page.getByTestId('workflow-run-btn').click()
+        // The map fails on its number input; the edge to `next` was settled before that
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('error', { timeout: 10_000 })
+
+        await page.getByTestId(`rf__edge-edge-${countId}-${nextId}`).click()
+        await expect(page.getByTestId('edge-ports')).toContainText('number → any')
+        await expect(page.getByTestId('edge-port-warning')).toHaveCount(0)
+        await expect(page.getByTestId('edge-payload')).toHaveText('42')
+
+        await breath()
+    })
+})
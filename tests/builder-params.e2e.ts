@@ -0,0 +1,120 @@
+/**
+ * Builder — Parameters and templates E2E tests (?page=builder-simple).
+ *
+ * The Run form for workflow parameters with saved sets, and template
+ * completion and preview in node settings.
+ */
+
+import { test, expect } from '@playwright/test'
+// @ts-ignore — .mjs has no type declarations
+import { breath } from '../packages/test-runner/src/human.mjs'
+import { addAfter, clickNode, clickSwipeBtn, newWorkflow, openPage, patchNodeData } from './helpers/builder'
+
+test.setTimeout(90_000)
+
+test.describe('Builder — Parameters and templates', () => {
+
+    test('template settings offer completion and preview the last run', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → fetch → greet ──
+        const fetchId = await addAfter(page, 'start-1', 'job')
+        await patchNodeData(page, fetchId, {
+            code: "export function activate(ctx) {\n    return { greeting: 'hello' }\n}",
+        })
+
+        const greetId = await addAfter(page, fetchId, 'job')
+        await patchNodeData(page, greetId, { label: `Greet {{ nodes.${fetchId}.output.greeting }}` })
+
+        // ── Run, so the preview has values to show ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 10_000 })
+
+        // ── Settings: `{{` offers the upstream fields, the preview uses the last run ──
+        await clickNode(page, greetId)
+        await clickSwipeBtn(page, 'swipe-btn-configure')
+        await clickSwipeBtn(page, 'ext-cfg-settings')
+        const label = page.getByTestId('settings-field-label')
+        await label.fill('Greet {{ nod')
+        await expect(page.getByTestId('template-suggestions')).toBeVisible()
+        await page.locator('[data-testid^="template-suggestion-"]', { hasText: `nodes.${fetchId}.output.greeting` }).click()
+        await expect(label).toHaveValue(`Greet {{ nodes.${fetchId}.output.greeting }}`)
+        await expect(page.getByTestId('template-preview-label')).toContainText('→ Greet hello')
+
+        await label.fill('{{ nodes.nope.output }}')
+        await expect(page.getByTestId('template-preview-label')).toContainText('no value for nodes.nope.output')
+
+        // ── Code takes no templates: no completion, no preview ──
+        const code = page.getByTestId('settings-field-code')
+        await code.click()
+        await code.press('End')
+        await code.pressSequentially(' {{ nod')
+        await expect(page.getByTestId('template-suggestions')).toHaveCount(0)
+        await expect(page.getByTestId('template-preview-code')).toHaveCount(0)
+
+        await breath()
+    })
+
+    test('Run asks for the workflow parameters, with saved parameter sets', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start (env, replicas, token) → deploy ──
+        await patchNodeData(page, 'start-1', {
+            params: {
+                env: {
+                    type: 'enum', label: 'Environment', required: true, default: 'staging',
+                    enum: [{ value: 'staging', label: 'Staging' }, { value: 'production', label: 'Production' }],
+                },
+                replicas: { type: 'number', label: 'Replicas', default: 2 },
+                token: { type: 'string', label: 'Token', required: true },
+            },
+        })
+        await expect(page.getByTestId('start-params')).toHaveText('3 params')
+
+        const deployId = await addAfter(page, 'start-1', 'job')
+        await patchNodeData(page, deployId, {
+            label: 'Deploy {{ inputs.token }}',
+            code: [
+                'export function activate(ctx) {',
+                "    ctx.log('deploy ' + ctx.params.env + ' x' + ctx.params.replicas + ' ' + ctx.node.name)",
+                '}',
+            ].join('\n'),
+        })
+
+        // ── Run opens the form with the defaults; a missing required value blocks it ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('run-params-form')).toBeVisible()
+        await expect(page.getByTestId('run-param-env')).toHaveValue('staging')
+        await expect(page.getByTestId('run-param-replicas')).toHaveValue('2')
+        await page.getByTestId('run-params-run').click()
+        await expect(page.getByTestId('run-param-error-token')).toBeVisible()
+
+        // ── Save the production values as a set ──
+        await page.getByTestId('run-param-env').selectOption('production')
+        await page.getByTestId('run-param-replicas').fill('3')
+        await page.getByTestId('run-param-token').fill('abc')
+        await page.getByTestId('run-params-set-name').fill('prod')
+        await page.getByTestId('run-params-save').click()
+
+        await page.getByTestId('run-params-set').selectOption('')
+        await expect(page.getByTestId('run-param-env')).toHaveValue('staging')
+        await expect(page.getByTestId('run-param-token')).toHaveValue('')
+        await page.getByTestId('run-params-set').selectOption('prod')
+        await expect(page.getByTestId('run-param-env')).toHaveValue('production')
+        await expect(page.getByTestId('run-param-token')).toHaveValue('abc')
+
+        // ── Run with the set: scripts and templates see the parameters ──
+        await page.getByTestId('run-params-run').click()
+        await expect(page.getByTestId('run-params-form')).toHaveCount(0)
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 10_000 })
+        await expect(page.locator(`.react-flow__node[data-id="${deployId}"]`)).toContainText('deploy production x3 Deploy abc')
+
+        await breath()
+    })
+})
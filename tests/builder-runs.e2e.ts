@@ -0,0 +1,187 @@
+/**
+ * Builder — Runs E2E tests (?page=builder-simple).
+ *
+ * Whole-workflow runs: Run along the edges, run history stats, debug
+ * breakpoints, replay in StepPlayer and the pause / resume / stop controls.
+ */
+
+import { test, expect } from '@playwright/test'
+// @ts-ignore — .mjs has no type declarations
+import { breath } from '../packages/test-runner/src/human.mjs'
+import { addAfter, clickNode, clickSwipeBtn, newWorkflow, nodeCount, openPage, patchNodeData } from './helpers/builder'
+
+test.setTimeout(90_000)
+
+test.describe('Builder — Runs', () => {
+
+    test('Run executes the whole workflow along its edges', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → JS → JS ──
+        const nodeAId = await addAfter(page, 'start-1', 'job')
+        await addAfter(page, nodeAId, 'job')
+        expect(await nodeCount(page)).toBe(3)
+
+        // ── Run the workflow (no per-node clicks) ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+
+        // Both scripts ran in order → 2 "Hello from" events
+        const eventItems = page.getByTestId('events-list').locator('[data-event-type="message"]')
+        await expect(eventItems).toHaveCount(2, { timeout: 5_000 })
+
+        // Each node was online on the bus while it ran, and is offline again
+        const presence = page.getByTestId('events-list').locator('[data-event-type="presence"]')
+        await expect(presence.filter({ hasText: 'online' })).toHaveCount(3)
+        await expect(presence.filter({ hasText: 'offline' })).toHaveCount(3)
+
+        await breath()
+    })
+
+    test('run history feeds average exec time and total runs on node cards', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const nodeId = await addAfter(page, 'start-1', 'job')
+        const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
+
+        // No history yet
+        await expect(node.getByTestId('node-run-stats')).toHaveCount(0)
+
+        for (const expected of ['1 run', '2 runs']) {
+            await page.getByTestId('workflow-run-btn').click()
+            await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+            await expect(node.getByTestId('node-run-stats')).toContainText(expected, { timeout: 5_000 })
+        }
+        await expect(node.getByTestId('node-run-stats')).toContainText('⌀')
+
+        await breath()
+    })
+
+    test('debug mode: a breakpoint stops the run and edited inputs are used', async ({ page }) => {
+        await page.addInitScript(() => localStorage.setItem('flowstudio_debug_mode', '1'))
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const nodeId = await addAfter(page, 'start-1', 'job')
+        const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
+
+        await patchNodeData(page, nodeId, {
+            code: [
+                'export function activate(ctx) {',
+                "    ctx.log('x=' + ctx.inputs['start-1']?.x)",
+                '}',
+            ].join('\n'),
+        })
+
+        // ── Config → Break → Before ──
+        await clickNode(page, nodeId)
+        await clickSwipeBtn(page, 'swipe-btn-configure')
+        await clickSwipeBtn(page, 'ext-cfg-breakpoint')
+        await clickSwipeBtn(page, 'ext-cfg-breakpoint-before')
+        await expect(node.getByTestId('debug-breakpoint-before')).toBeVisible()
+        await clickNode(page, nodeId)
+
+        // ── Run stops before the node ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('paused', { timeout: 5_000 })
+        await expect(page.getByTestId('run-breakpoint')).toContainText('(before)')
+        await expect(node.getByTestId('debug-inspector')).toBeVisible()
+
+        // ── Edit the inputs, then continue ──
+        await node.getByTestId('debug-break-value').fill('{ "start-1": { "x": 42 } }')
+        await node.getByTestId('debug-continue').click()
+
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(node).toContainText('x=42')
+
+        await breath()
+    })
+
+    test('a recorded run can be replayed step by step in StepPlayer', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        await addAfter(page, 'start-1', 'job')
+
+        // Nothing recorded yet
+        await expect(page.getByTestId('workflow-replay-btn')).toBeDisabled()
+
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(page.getByTestId('workflow-replay-btn')).toBeEnabled({ timeout: 5_000 })
+
+        // ── Open the replay at the start of the run ──
+        await page.getByTestId('workflow-replay-btn').click()
+        const player = page.getByTestId('step-player')
+        await expect(player).toBeVisible()
+        await expect(player.getByTestId('step-label')).toHaveText('Click ▶ to start')
+
+        // Step through transitions
+        await player.getByTestId('btn-next').click()
+        await expect(player.getByTestId('step-label')).toContainText('Start → ')
+        await player.getByTestId('btn-prev').click()
+        await expect(player.getByTestId('step-label')).toHaveText('Click ▶ to start')
+
+        // Play to the end
+        await player.getByTestId('btn-play').click()
+        await expect(player.getByTestId('step-label')).toContainText('Run done', { timeout: 10_000 })
+
+        await page.getByTestId('run-replay-close').click()
+        await expect(player).toHaveCount(0)
+
+        await breath()
+    })
+
+    test('run controls pause, resume and stop a running workflow', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const nodeId = await addAfter(page, 'start-1', 'job')
+        const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
+
+        // Two-tick script with a timer await point in between
+        await patchNodeData(page, nodeId, {
+            timeout: 0,
+            code: [
+                'export async function activate(ctx) {',
+                "    ctx.log('tick 1')",
+                '    await new Promise(r => setTimeout(r, 1500))',
+                "    ctx.log('tick 2')",
+                '}',
+            ].join('\n'),
+        })
+
+        // ── Pause all → held at the timer; resume → finishes ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(node).toContainText('tick 1', { timeout: 5_000 })
+        await page.getByTestId('run-pause-all').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('paused')
+        await page.waitForTimeout(2500)
+        await expect(node).not.toContainText('tick 2')
+
+        await page.getByTestId('run-resume-all').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(node).toContainText('tick 2')
+
+        // ── Stop all → node terminated with a reason ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(node).toContainText('tick 1', { timeout: 5_000 })
+        await page.getByTestId('run-stop-all').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('stopped', { timeout: 5_000 })
+        await expect(node).toContainText('ERROR: Stopped')
+
+        await breath()
+    })
+})
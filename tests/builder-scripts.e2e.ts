@@ -0,0 +1,202 @@
+/**
+ * Builder — Scripts E2E tests (?page=builder-simple).
+ *
+ * Job scripts run from their cards: the sandbox timeout, async activate,
+ * the ExecutionContext, TypeScript, sidecar languages and messages along edges.
+ */
+
+import { test, expect } from '@playwright/test'
+// @ts-ignore — .mjs has no type declarations
+import { breath } from '../packages/test-runner/src/human.mjs'
+import { addAfter, newWorkflow, openPage, patchNodeData } from './helpers/builder'
+
+test.setTimeout(90_000)
+
+test.describe('Builder — Scripts', () => {
+
+    test('endless loop is killed by the sandbox timeout', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const nodeId = await addAfter(page, 'start-1', 'job')
+
+        // ── Replace the script with an endless loop and a short timeout ──
+        await patchNodeData(page, nodeId, { code: 'while (true) {}', timeout: 500 })
+
+        // ── Run — page stays responsive, node ends in error ──
+        const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
+        await node.getByTestId('run-script-btn').click()
+        await expect(node).toContainText('Timed out', { timeout: 5_000 })
+        await expect(page.getByTestId('workflow-new-btn')).toBeEnabled()
+
+        await breath()
+    })
+
+    test('async activate stays running until its promise settles', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const nodeId = await addAfter(page, 'start-1', 'job')
+
+        await patchNodeData(page, nodeId, {
+            code: [
+                'export async function activate(ctx) {',
+                '    ctx.progress(50)',
+                '    await new Promise(r => setTimeout(r, 1000))',
+                "    throw new Error('boom')",
+                '}',
+            ].join('\n'),
+        })
+
+        const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
+        await node.getByTestId('run-script-btn').click()
+
+        // Still running while the promise is pending, with progress reported
+        await expect(node.getByTestId('script-progress')).toBeVisible({ timeout: 2_000 })
+        await expect(node).not.toContainText('Done')
+
+        // Rejection → error with the message in the logs
+        await expect(node).toContainText('ERROR: boom', { timeout: 5_000 })
+
+        await breath()
+    })
+
+    test('scripts receive an ExecutionContext with neighbors and inputs', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → A → B ──
+        const nodeAId = await addAfter(page, 'start-1', 'job')
+        const nodeBId = await addAfter(page, nodeAId, 'job')
+
+        // A logs its neighbors and returns an output; B reads it from inputs
+        await patchNodeData(page, nodeAId, {
+            code: [
+                'export function activate(ctx) {',
+                "    ctx.log('left=' + ctx.leftNode.id + ' right=' + ctx.rightNode.type)",
+                "    return { greeting: 'hi from ' + ctx.node.name }",
+                '}',
+            ].join('\n'),
+        })
+        await patchNodeData(page, nodeBId, {
+            code: [
+                'export function activate(ctx) {',
+                `    ctx.log('got ' + ctx.inputs['${nodeAId}'].greeting)`,
+                '}',
+            ].join('\n'),
+        })
+
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+
+        const nodeA = page.locator(`.react-flow__node[data-id="${nodeAId}"]`)
+        const nodeB = page.locator(`.react-flow__node[data-id="${nodeBId}"]`)
+        await expect(nodeA).toContainText('left=start-1 right=job')
+        await expect(nodeB).toContainText('got hi from')
+
+        // Run alone, B gets the inputs of the last run again
+        await nodeB.getByTestId('run-script-btn').click()
+        await expect(nodeB).toContainText('Done', { timeout: 5_000 })
+        await expect(nodeB).toContainText('got hi from')
+        await expect(nodeB).not.toContainText('running without inputs')
+
+        await breath()
+    })
+
+    test('TypeScript scripts are transpiled locally; diagnostics show line numbers', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const nodeId = await addAfter(page, 'start-1', 'job')
+        const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
+
+        // ── Typed code runs ──
+        await patchNodeData(page, nodeId, {
+            subType: 'ts',
+            language: 'ts',
+            code: [
+                'interface Greeting { text: string }',
+                'export function activate(ctx: Context): Greeting {',
+                "    const text: string = 'typed ' + ctx.node.name",
+                '    console.log(text)',
+                '    return { text }',
+                '}',
+            ].join('\n'),
+        })
+        await node.getByTestId('run-script-btn').click()
+        await expect(node).toContainText('typed', { timeout: 15_000 })
+        await expect(node).toContainText('Done', { timeout: 5_000 })
+
+        // ── Syntax error → node error with the editor line number ──
+        await patchNodeData(page, nodeId, {
+            code: [
+                'export function activate(ctx: Context) {',
+                '    const x: number = ;',
+                '}',
+            ].join('\n'),
+        })
+        await node.getByTestId('run-script-btn').click()
+        await expect(node).toContainText('Line 2:', { timeout: 15_000 })
+
+        await breath()
+    })
+
+    test('shell scripts are marked unavailable while the sidecar is down', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        const nodeId = await addAfter(page, 'start-1', 'job')
+        const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
+
+        // No sidecar in the test environment → offline pill, run fails cleanly
+        await patchNodeData(page, nodeId, { subType: 'sh', language: 'sh', sandbox: 'node', code: 'echo hi' })
+        await expect(node.getByTestId('sandbox-unavailable')).toBeVisible({ timeout: 5_000 })
+
+        await node.getByTestId('run-script-btn').click()
+        await expect(node).toContainText('sidecar is not running', { timeout: 5_000 })
+
+        await breath()
+    })
+
+    test('messages are delivered along edges; non-contacts are rejected', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → A → B ──
+        const nodeAId = await addAfter(page, 'start-1', 'job')
+        await addAfter(page, nodeAId, 'job')
+
+        await patchNodeData(page, nodeAId, {
+            label: 'Sender',
+            code: [
+                'export function activate(ctx) {',
+                "    messenger.send(ctx.rightNode.id, 'text', 'ping from A')",
+                "    messenger.send('nobody', 'text', 'lost')",
+                '}',
+            ].join('\n'),
+        })
+
+        const nodeA = page.locator(`.react-flow__node[data-id="${nodeAId}"]`)
+        await nodeA.getByTestId('run-script-btn').click()
+
+        // A → B hop shows up in EventsPanel; the non-contact send fails in A's logs
+        const eventsList = page.getByTestId('events-list')
+        await expect(eventsList).toContainText('ping from A', { timeout: 5_000 })
+        await expect(eventsList).toContainText('→')
+        await expect(nodeA).toContainText('is not a contact', { timeout: 5_000 })
+
+        await breath()
+    })
+})
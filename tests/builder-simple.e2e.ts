@@ -11,86 +11,13 @@
  *  7. Undo (Cmd+Z) = deleted node restored
  */
 
-import { test, expect, type Page } from '@playwright/test'
+import { test, expect } from '@playwright/test'
 // @ts-ignore — .mjs has no type declarations
 import { breath } from '../packages/test-runner/src/human.mjs'
+import { clickNode, clickSwipeBtn, edgeCount, getLastNodeId, nodeCount, openPage } from './helpers/builder'
 
 test.setTimeout(90_000)
 
-// ── Helpers ──────────────────────────────────────────────────────────────────
-
-/** Navigate to builder-simple page with clean localStorage */
-async function openPage(page: Page) {
-    // Inject cleanup script that runs BEFORE any page JS
-    await page.addInitScript(() => {
-        localStorage.removeItem('flowstudio_workflows')
-        localStorage.removeItem('flowstudio_active_workflow')
-    })
-    await page.goto('?page=builder-simple')
-    await page.waitForSelector('.react-flow__renderer', { timeout: 10_000 })
-    await expect(page.locator('.react-flow__node').first()).toBeVisible({ timeout: 5_000 })
-}
-
-/** Count nodes on the canvas */
-async function nodeCount(page: Page) {
-    return page.locator('.react-flow__node').count()
-}
-
-/** Count edges on the canvas */
-async function edgeCount(page: Page) {
-    return page.locator('.react-flow__edge').count()
-}
-
-/** Click a node by data-id — dispatches pointer events that FlowStudio needs for selection */
-async function clickNode(page: Page, nodeId: string) {
-    const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
-    await expect(node).toBeVisible({ timeout: 5_000 })
-    await page.evaluate((nid) => {
-        const el = document.querySelector(`.react-flow__node[data-id="${nid}"]`)
-        if (el) {
-            el.dispatchEvent(new PointerEvent('pointerdown', { bubbles: true, cancelable: true }))
-            el.dispatchEvent(new PointerEvent('pointerup', { bubbles: true, cancelable: true }))
-        }
-    }, nodeId)
-    await page.waitForTimeout(400)
-}
-
-/**
- * Click a SwipeButtons button by test-id.
- *
- * Dispatches pointerenter + click in browser context — framer-motion
- * motion.button with position: fixed doesn't respond to Playwright's .click().
- */
-async function clickSwipeBtn(page: Page, testId: string) {
-    const btn = page.getByTestId(testId)
-    await expect(btn).toBeVisible({ timeout: 5_000 })
-    await page.evaluate((tid) => {
-        const el = document.querySelector(`[data-testid="${tid}"]`)
-        if (el) {
-            el.dispatchEvent(new PointerEvent('pointerenter', { bubbles: true, cancelable: true }))
-            el.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }))
-        }
-    }, testId)
-    await page.waitForTimeout(400)
-}
-
-/** Find the most recently added node ID (highest numeric timestamp) */
-async function getLastNodeId(page: Page): Promise<string> {
-    const nodes = page.locator('.react-flow__node')
-    const count = await nodes.count()
-    const ids: string[] = []
-    for (let i = 0; i < count; i++) {
-        const id = await nodes.nth(i).getAttribute('data-id')
-        if (id) ids.push(id)
-    }
-    ids.sort((a, b) => {
-        const tsA = parseInt(a.replace('node-', '')) || 0
-        const tsB = parseInt(b.replace('node-', '')) || 0
-        return tsB - tsA
-    })
-    return ids[0] || ''
-}
-
 // ── Test suite ───────────────────────────────────────────────────────────────
 
 test.describe('Builder Demo Simple — flow construction', () => {
@@ -420,7 +347,7 @@ test.describe('Builder Demo Simple — JS execution in browser', () => {
         await expect(eventsList).toBeVisible()
 
         // Each script sends "Hello from <nodeName>" via messenger
-        const eventItems = eventsList.locator('[data-testid^="event-"]')
+        const eventItems = eventsList.locator('[data-event-type="message"]')
         await expect(eventItems).toHaveCount(2, { timeout: 5_000 })
 
         // Check both messages contain "Hello from"
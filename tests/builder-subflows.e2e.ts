@@ -0,0 +1,201 @@
+/**
+ * Builder — Subflows E2E tests (?page=builder-simple).
+ *
+ * Subflow nodes: child runs, drilling down, extracting and inlining.
+ */
+
+import { test, expect } from '@playwright/test'
+// @ts-ignore — .mjs has no type declarations
+import { breath } from '../packages/test-runner/src/human.mjs'
+import { addAfter, clickNode, clickSwipeBtn, edgeCount, getLastNodeId, newWorkflow, nodeCount, openPage, patchNodeData } from './helpers/builder'
+
+test.setTimeout(90_000)
+
+test.describe('Builder — Subflows', () => {
+
+    test('a subflow node runs the linked workflow as a child run', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        // ── Child workflow: start → JS that returns a result ──
+        await newWorkflow(page)
+        const childTab = page.locator('[data-testid^="workflow-tab-"]').last()
+        const childId = (await childTab.getAttribute('data-testid'))!.replace('workflow-tab-', '')
+        const childJobId = await addAfter(page, 'start-1', 'job')
+        await patchNodeData(page, childJobId, {
+            code: [
+                'export function activate(ctx) {',
+                '    return { answer: 42 }',
+                '}',
+            ].join('\n'),
+        })
+
+        // ── Parent workflow: start → SubFlow (→ child) → JS that logs its input ──
+        await newWorkflow(page)
+        const subflowId = await addAfter(page, 'start-1', 'subflow')
+        await patchNodeData(page, subflowId, { workflowId: childId })
+
+        const subflow = page.locator(`.react-flow__node[data-id="${subflowId}"]`)
+        await expect(subflow.getByTestId('subflow-link')).toHaveText(`→ ${await childTab.innerText()}`)
+
+        const jobId = await addAfter(page, subflowId, 'job')
+        await patchNodeData(page, jobId, {
+            code: [
+                'export function activate(ctx) {',
+                "    ctx.log('got ' + JSON.stringify(Object.values(ctx.inputs)[0]))",
+                '}',
+            ].join('\n'),
+        })
+
+        // ── The child's output flows on to the next node ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+        await expect(page.locator(`.react-flow__node[data-id="${jobId}"]`)).toContainText('got {"answer":42}')
+
+        // ── Linking the parent into itself is flagged as a cycle ──
+        const parentTab = page.locator('[data-testid^="workflow-tab-"]').last()
+        const parentId = (await parentTab.getAttribute('data-testid'))!.replace('workflow-tab-', '')
+        await patchNodeData(page, subflowId, { workflowId: parentId })
+        await expect(subflow.getByTestId('subflow-link')).toContainText('Cycle:')
+
+        await breath()
+    })
+
+    test('double-clicking a subflow node drills down into its workflow', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        // ── Child workflow: start → User (approval gate) ──
+        await newWorkflow(page)
+        const childTab = page.locator('[data-testid^="workflow-tab-"]').last()
+        const childId = (await childTab.getAttribute('data-testid'))!.replace('workflow-tab-', '')
+        const userId = await addAfter(page, 'start-1', 'user')
+
+        // ── Parent workflow: start → SubFlow (→ child) ──
+        await newWorkflow(page)
+        const parentName = await page.locator('[data-testid^="workflow-tab-"]').last().innerText()
+        const subflowId = await addAfter(page, 'start-1', 'subflow')
+        await patchNodeData(page, subflowId, { workflowId: childId })
+
+        // ── Run the parent, then drill down while the child waits ──
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('running', { timeout: 5_000 })
+        await page.locator(`.react-flow__node[data-id="${subflowId}"]`).dblclick()
+
+        const crumbs = page.getByTestId('subflow-breadcrumbs')
+        await expect(crumbs).toBeVisible()
+        await expect(page.getByTestId('breadcrumb-0')).toHaveText(parentName)
+        await expect(page.getByTestId('breadcrumb-1')).toHaveText(await childTab.innerText())
+
+        // The child's live state is shown, and the gate can be approved at this level
+        const user = page.locator(`.react-flow__node[data-id="${userId}"]`)
+        await expect(user.getByTestId('user-approve-btn')).toBeVisible({ timeout: 5_000 })
+        await user.getByTestId('user-approve-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+
+        // ── Breadcrumb back to the parent ──
+        await page.getByTestId('breadcrumb-0').click()
+        await expect(crumbs).toBeHidden()
+        await expect(page.locator(`.react-flow__node[data-id="${subflowId}"]`)).toBeVisible()
+
+        await breath()
+    })
+
+    test('selected nodes are extracted to a subflow and inlined back', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → A → B ──
+        const nodeAId = await addAfter(page, 'start-1', 'job')
+        const nodeBId = await addAfter(page, nodeAId, 'job')
+        const tabs = page.locator('[data-testid^="workflow-tab-"]')
+        const tabCount = await tabs.count()
+
+        // ── Select A and B → Extract ──
+        await page.locator(`.react-flow__node[data-id="${nodeAId}"]`).click({ modifiers: ['ControlOrMeta'] })
+        await page.locator(`.react-flow__node[data-id="${nodeBId}"]`).click({ modifiers: ['ControlOrMeta'] })
+        await expect(page.getByTestId('extract-subflow-btn')).toHaveText('Extract to subflow (2)')
+        await page.getByTestId('extract-subflow-btn').click()
+
+        // start → SubFlow on the board; A → B moved to a new workflow tab
+        expect(await nodeCount(page)).toBe(2)
+        expect(await edgeCount(page)).toBe(1)
+        await expect(tabs).toHaveCount(tabCount + 1)
+        const subflowId = await getLastNodeId(page)
+        await expect(page.locator(`.react-flow__node[data-id="${subflowId}"]`).getByTestId('subflow-link'))
+            .toHaveText(`→ ${await tabs.last().innerText()}`)
+
+        // The extracted workflow still runs as part of this one
+        await page.getByTestId('workflow-run-btn').click()
+        await expect(page.getByTestId('workflow-run-status')).toHaveText('done', { timeout: 5_000 })
+
+        // ── Config → Inline brings A → B back ──
+        await clickNode(page, subflowId)
+        await clickSwipeBtn(page, 'swipe-btn-configure')
+        await clickSwipeBtn(page, 'ext-cfg-inline')
+        expect(await nodeCount(page)).toBe(3)
+        expect(await edgeCount(page)).toBe(2)
+        await expect(page.locator(`.react-flow__node[data-id="${nodeAId}"]`)).toBeVisible()
+        await expect(page.locator(`.react-flow__node[data-id="${nodeBId}"]`)).toBeVisible()
+
+        await breath()
+    })
+
+    test('extract refuses a branch leaving the selection; inline refuses a mapped subflow', async ({ page }) => {
+        await openPage(page)
+        await breath(1000)
+
+        await newWorkflow(page)
+
+        // ── start → A → B → C ──
+        const ids: string[] = []
+        let last = 'start-1'
+        for (let i = 0; i < 3; i++) {
+            last = await addAfter(page, last, 'job')
+            ids.push(last)
+        }
+        const [nodeAId, nodeBId, nodeCId] = ids
+        const tabs = page.locator('[data-testid^="workflow-tab-"]')
+        const tabCount = await tabs.count()
+
+        // ── B → C only on error: A + B can't be extracted ──
+        await page.getByTestId(`rf__edge-edge-${nodeBId}-${nodeCId}`).click()
+        await page.getByTestId('edge-condition-kind').selectOption('error')
+        await page.getByTestId('edge-condition-close').click()
+
+        await page.locator(`.react-flow__node[data-id="${nodeAId}"]`).click({ modifiers: ['ControlOrMeta'] })
+        await page.locator(`.react-flow__node[data-id="${nodeBId}"]`).click({ modifiers: ['ControlOrMeta'] })
+        await expect(page.getByTestId('extract-subflow-btn')).toBeDisabled()
+        await expect(page.getByTestId('extract-subflow-blocker')).toContainText('a branch leaves the selection')
+        await expect(tabs).toHaveCount(tabCount)
+
+        // ── A plain edge again → extracted ──
+        await page.getByTestId(`rf__edge-edge-${nodeBId}-${nodeCId}`).click()
+        await page.getByTestId('edge-condition-kind').selectOption('')
+        await page.getByTestId('edge-condition-close').click()
+        // Clear the selection — click the empty canvas below A
+        const boxA = (await page.locator(`.react-flow__node[data-id="${nodeAId}"]`).boundingBox())!
+        await page.mouse.click(boxA.x + boxA.width / 2, boxA.y + boxA.height + 120)
+        await page.waitForTimeout(300)
+        await page.locator(`.react-flow__node[data-id="${nodeAId}"]`).click({ modifiers: ['ControlOrMeta'] })
+        await page.locator(`.react-flow__node[data-id="${nodeBId}"]`).click({ modifiers: ['ControlOrMeta'] })
+        await expect(page.getByTestId('extract-subflow-blocker')).toHaveCount(0)
+        await page.getByTestId('extract-subflow-btn').click()
+        expect(await nodeCount(page)).toBe(3)
+        await expect(tabs).toHaveCount(tabCount + 1)
+        const subflowId = await getLastNodeId(page)
+
+        // ── With an input map, Inline leaves the subflow in place and says why ──
+        await patchNodeData(page, subflowId, { inputMap: { value: 'start-1.value' } })
+        await clickNode(page, subflowId)
+        await clickSwipeBtn(page, 'swipe-btn-configure')
+        await clickSwipeBtn(page, 'ext-cfg-inline')
+        expect(await nodeCount(page)).toBe(3)
+        await expect(page.locator(`.react-flow__node[data-id="${subflowId}"]`)).toBeVisible()
+        await expect(page.getByTestId('events-list')).toContainText("Can't inline: it maps its data (inputMap)")
+
+        await breath()
+    })
+})
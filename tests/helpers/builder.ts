@@ -0,0 +1,131 @@
+/**
+ * Builder page helpers — shared by the builder-*.e2e.ts files.
+ *
+ * FlowStudio selects nodes and SwipeButtons on pointer events, so clicks
+ * are dispatched in the page rather than with Playwright's .click().
+ *
+ * Usage:
+ *   await openPage(page)
+ *   await newWorkflow(page)
+ *   const jobId = await addAfter(page, 'start-1', 'job')
+ *   await patchNodeData(page, jobId, { code: 'export function activate(ctx) {}' })
+ */
+
+import { expect, type Page } from '@playwright/test'
+
+// ── Page ────────────────────────────────────────────────────────────────────────
+
+/** Navigate to builder-simple page with clean localStorage */
+export async function openPage(page: Page) {
+    // Inject cleanup script that runs BEFORE any page JS
+    await page.addInitScript(() => {
+        localStorage.removeItem('flowstudio_workflows')
+        localStorage.removeItem('flowstudio_active_workflow')
+    })
+    await page.goto('?page=builder-simple')
+    await page.waitForSelector('.react-flow__renderer', { timeout: 10_000 })
+    await expect(page.locator('.react-flow__node').first()).toBeVisible({ timeout: 5_000 })
+}
+
+/** Count nodes on the canvas */
+export async function nodeCount(page: Page) {
+    return page.locator('.react-flow__node').count()
+}
+
+/** Count edges on the canvas */
+export async function edgeCount(page: Page) {
+    return page.locator('.react-flow__edge').count()
+}
+
+// ── Interaction ─────────────────────────────────────────────────────────────────
+
+/** Click a node by data-id — dispatches pointer events that FlowStudio needs for selection */
+export async function clickNode(page: Page, nodeId: string) {
+    const node = page.locator(`.react-flow__node[data-id="${nodeId}"]`)
+    await expect(node).toBeVisible({ timeout: 5_000 })
+    await page.evaluate((nid) => {
+        const el = document.querySelector(`.react-flow__node[data-id="${nid}"]`)
+        if (el) {
+            el.dispatchEvent(new PointerEvent('pointerdown', { bubbles: true, cancelable: true }))
+            el.dispatchEvent(new PointerEvent('pointerup', { bubbles: true, cancelable: true }))
+        }
+    }, nodeId)
+    await page.waitForTimeout(400)
+}
+
+/**
+ * Click a SwipeButtons button by test-id.
+ *
+ * Dispatches pointerenter + click in browser context — framer-motion
+ * motion.button with position: fixed doesn't respond to Playwright's .click().
+ */
+export async function clickSwipeBtn(page: Page, testId: string) {
+    const btn = page.getByTestId(testId)
+    await expect(btn).toBeVisible({ timeout: 5_000 })
+    await page.evaluate((tid) => {
+        const el = document.querySelector(`[data-testid="${tid}"]`)
+        if (el) {
+            el.dispatchEvent(new PointerEvent('pointerenter', { bubbles: true, cancelable: true }))
+            el.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }))
+        }
+    }, testId)
+    await page.waitForTimeout(400)
+}
+
+/** Find the most recently added node ID (highest numeric timestamp) */
+export async function getLastNodeId(page: Page): Promise<string> {
+    const nodes = page.locator('.react-flow__node')
+    const count = await nodes.count()
+    const ids: string[] = []
+    for (let i = 0; i < count; i++) {
+        const id = await nodes.nth(i).getAttribute('data-id')
+        if (id) ids.push(id)
+    }
+    ids.sort((a, b) => {
+        const tsA = parseInt(a.replace('node-', '')) || 0
+        const tsB = parseInt(b.replace('node-', '')) || 0
+        return tsB - tsA
+    })
+    return ids[0] || ''
+}
+
+// ── Building workflows ──────────────────────────────────────────────────────────
+
+/** Open a new workflow tab — a lone start node, `start-1` */
+export async function newWorkflow(page: Page) {
+    await page.getByTestId('workflow-new-btn').click()
+    await page.waitForTimeout(600)
+}
+
+/** Add a node after `nodeId` via After → `kind` (job, user, router, map, subflow…) — returns its ID */
+export async function addAfter(page: Page, nodeId: string, kind: string): Promise<string> {
+    await clickNode(page, nodeId)
+    await clickSwipeBtn(page, 'swipe-btn-add-after')
+    await clickSwipeBtn(page, `ext-after-${kind}`)
+    await page.waitForTimeout(600)
+    return getLastNodeId(page)
+}
+
+/** Merge fields into a node's data via Config → Settings → Raw JSON */
+export async function patchNodeData(page: Page, nodeId: string, patch: Record<string, unknown>) {
+    await clickNode(page, nodeId)
+    await clickSwipeBtn(page, 'swipe-btn-configure')
+    await clickSwipeBtn(page, 'ext-cfg-settings')
+    await page.getByTestId('settings-mode-raw').click()
+    const editor = page.getByTestId('settings-raw-editor')
+    const data = JSON.parse(await editor.inputValue())
+    await editor.fill(JSON.stringify({ ...data, ...patch }))
+    await page.getByTestId('settings-apply').click()
+    await page.getByTestId('settings-close').click()
+}
+
+/** Connect two nodes by dragging from the source's output handle to the target's input handle */
+export async function connectNodes(page: Page, sourceId: string, targetId: string) {
+    const from = (await page.locator(`.react-flow__node[data-id="${sourceId}"] .react-flow__handle.source`).first().boundingBox())!
+    const to = (await page.locator(`.react-flow__node[data-id="${targetId}"] .react-flow__handle.target`).first().boundingBox())!
+    await page.mouse.move(from.x + from.width / 2, from.y + from.height / 2)
+    await page.mouse.down()
+    await page.mouse.move(to.x + to.width / 2, to.y + to.height / 2, { steps: 10 })
+    await page.mouse.up()
+    await page.waitForTimeout(400)
+}